@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * Mock realtime event server
+ *
+ * Local stand-in for the backend push channel so live dump updates can be
+ * exercised without the real API. Serves the SSE (`/api/events/stream`) and
+ * polling (`/api/events`) transports; WebSocket upgrades are refused so the
+ * client falls back to SSE.
+ *
+ * Usage:
+ *   npm run mock:events                      # listen on :3002
+ *   npm run mock:events -- --demo <dumpId>   # cycle a dump through processing
+ *
+ * Push an event by hand:
+ *   curl -X POST localhost:3002/emit -H 'Content-Type: application/json' \
+ *     -d '{"type":"dump.completed","dumpId":"<id>","userId":"<user>"}'
+ *
+ * Point the client at it with VITE_REALTIME_URL=http://localhost:3002
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 3002);
+const HISTORY_LIMIT = 500;
+
+const args = process.argv.slice(2);
+const demoIndex = args.indexOf('--demo');
+const demoDumpId = demoIndex >= 0 ? args[demoIndex + 1] : null;
+
+/** @type {Array<Record<string, unknown>>} */
+const history = [];
+/** @type {Set<{ userId: string | null, res: http.ServerResponse }>} */
+const streams = new Set();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+function matchesUser(event, userId) {
+  return !userId || !event.userId || event.userId === userId;
+}
+
+function emit(input) {
+  const event = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...input,
+  };
+
+  history.push(event);
+  if (history.length > HISTORY_LIMIT) history.shift();
+
+  for (const stream of streams) {
+    if (matchesUser(event, stream.userId)) {
+      stream.res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  }
+
+  console.log(`→ ${event.type} ${event.dumpId}`);
+  return event;
+}
+
+// Without a cursor the client starts from "now": nothing is replayed
+function eventsSince(userId, since) {
+  return since ? history.filter(event => matchesUser(event, userId) && event.timestamp > since) : [];
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const userId = url.searchParams.get('userId');
+  const since = url.searchParams.get('since');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/events/stream') {
+    res.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    // Replay anything the client missed while disconnected
+    for (const event of eventsSince(userId, since)) {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+
+    const stream = { userId, res };
+    streams.add(stream);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      streams.delete(stream);
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/events') {
+    sendJson(res, 200, { events: eventsSince(userId, since), serverTime: new Date().toISOString() });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/emit') {
+    try {
+      const input = JSON.parse((await readBody(req)) || '{}');
+      if (!input.type || !input.dumpId) {
+        sendJson(res, 400, { error: 'type and dumpId are required' });
+        return;
+      }
+      sendJson(res, 201, emit(input));
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+// No WebSocket support: refuse upgrades so the client moves on to SSE
+server.on('upgrade', (_req, socket) => {
+  socket.end('HTTP/1.1 501 Not Implemented\r\n\r\n');
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock event server listening on http://localhost:${PORT}`);
+
+  if (demoDumpId) {
+    console.log(`Demo mode: cycling dump ${demoDumpId} every 5s`);
+    const steps = [
+      { type: 'dump.status_changed', status: 'processing' },
+      { type: 'dump.completed', dump: { ai_confidence: 92 } },
+      { type: 'dump.status_changed', status: 'processing' },
+      { type: 'dump.failed', error: 'Mock processing failure' },
+    ];
+    let step = 0;
+    setInterval(() => {
+      emit({ dumpId: demoDumpId, ...steps[step % steps.length] });
+      step += 1;
+    }, 5000);
+  }
+});
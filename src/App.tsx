@@ -4,6 +4,12 @@ import { useTranslation } from 'react-i18next';
 import { AuthProvider } from './contexts/AuthContext';
 import { DumpsProvider } from './contexts/DumpsContext';
 import { SearchProvider } from './contexts/SearchContext';
+import { SearchIndexProvider } from './contexts/SearchIndexContext';
+import { OutboxProvider } from './contexts/OutboxContext';
+import { RealtimeProvider } from './contexts/RealtimeContext';
+import { UndoProvider } from './contexts/UndoContext';
+import { CommandPaletteProvider } from './contexts/CommandPaletteContext';
+import { SavedSearchesProvider } from './contexts/SavedSearchesContext';
 import { ToastProvider } from './components/Toast';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { ProtectedRoute } from './components/ProtectedRoute';
@@ -14,8 +20,14 @@ import { LoadingSpinner } from './components/LoadingSpinner';
 const LoginPage = lazy(() => import('./pages/auth/LoginPage').then(m => ({ default: m.LoginPage })));
 const DashboardPage = lazy(() => import('./pages/DashboardPage').then(m => ({ default: m.DashboardPage })));
 const SearchPage = lazy(() => import('./pages/SearchPage').then(m => ({ default: m.SearchPage })));
+const CalendarPage = lazy(() => import('./pages/CalendarPage').then(m => ({ default: m.CalendarPage })));
 const TrackingPage = lazy(() => import('./pages/TrackingPage').then(m => ({ default: m.TrackingPage })));
 const ReviewPage = lazy(() => import('./pages/ReviewPage').then(m => ({ default: m.ReviewPage })));
+const DuplicatesPage = lazy(() => import('./pages/DuplicatesPage').then(m => ({ default: m.DuplicatesPage })));
+const EntitiesPage = lazy(() => import('./pages/EntitiesPage').then(m => ({ default: m.EntitiesPage })));
+const EntityDetailPage = lazy(() => import('./pages/EntityDetailPage').then(m => ({ default: m.EntityDetailPage })));
+const ContactsPage = lazy(() => import('./pages/ContactsPage').then(m => ({ default: m.ContactsPage })));
+const FinancesPage = lazy(() => import('./pages/FinancesPage').then(m => ({ default: m.FinancesPage })));
 const FeedbackPage = lazy(() => import('./pages/FeedbackPage').then(m => ({ default: m.FeedbackPage })));
 const ProfilePage = lazy(() => import('./pages/ProfilePage').then(m => ({ default: m.ProfilePage })));
 
@@ -36,8 +48,12 @@ function App() {
     <ErrorBoundary>
       <AuthProvider>
         <DumpsProvider>
+          <RealtimeProvider>
+          <SearchIndexProvider>
           <SearchProvider>
             <ToastProvider>
+              <UndoProvider>
+              <OutboxProvider>
               <BrowserRouter>
             <Suspense
               fallback={
@@ -55,8 +71,14 @@ function App() {
                   <Route element={<DashboardLayoutWrapper />}>
                     <Route path="/" element={<DashboardPage />} />
                     <Route path="/search" element={<SearchPage />} />
+                    <Route path="/calendar" element={<CalendarPage />} />
                     <Route path="/tracking" element={<TrackingPage />} />
                     <Route path="/review" element={<ReviewPage />} />
+                    <Route path="/duplicates" element={<DuplicatesPage />} />
+                    <Route path="/entities" element={<EntitiesPage />} />
+                    <Route path="/entities/:kind/:value" element={<EntityDetailPage />} />
+                    <Route path="/contacts" element={<ContactsPage />} />
+                    <Route path="/finances" element={<FinancesPage />} />
                     <Route path="/feedback" element={<FeedbackPage />} />
                     <Route path="/profile" element={<ProfilePage />} />
                   </Route>
@@ -67,8 +89,12 @@ function App() {
               </Routes>
             </Suspense>
               </BrowserRouter>
+              </OutboxProvider>
+              </UndoProvider>
             </ToastProvider>
           </SearchProvider>
+          </SearchIndexProvider>
+          </RealtimeProvider>
         </DumpsProvider>
       </AuthProvider>
     </ErrorBoundary>
@@ -77,22 +103,26 @@ function App() {
 
 /**
  * Dashboard Layout Wrapper
- * Wraps protected routes with DashboardLayout
+ * Wraps protected routes with DashboardLayout, saved searches and the command palette
  */
 const DashboardLayoutWrapper: React.FC = () => {
   return (
-    <DashboardLayout>
-      <Suspense
-        fallback={
-          <div className="flex items-center justify-center py-12">
-            <LoadingSpinner size="md" />
-          </div>
-        }
-      >
-        {/* Outlet renders the matched child route */}
-        <Outlet />
-      </Suspense>
-    </DashboardLayout>
+    <SavedSearchesProvider>
+      <CommandPaletteProvider>
+        <DashboardLayout>
+          <Suspense
+            fallback={
+              <div className="flex items-center justify-center py-12">
+                <LoadingSpinner size="md" />
+              </div>
+            }
+          >
+            {/* Outlet renders the matched child route */}
+            <Outlet />
+          </Suspense>
+        </DashboardLayout>
+      </CommandPaletteProvider>
+    </SavedSearchesProvider>
   );
 };
 
@@ -0,0 +1,231 @@
+/**
+ * BulkActionBar Component
+ *
+ * Sticky bar shown while dumps are selected, with batch approve,
+ * reject (shared reason), recategorize and delete, plus batch progress
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, XCircle, Tag, Trash2, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { TextArea } from './ui/TextArea';
+import { Input } from './ui/Input';
+import { useCategoryList } from '../hooks/useApiQueries';
+import type { BatchActionType } from '../hooks/useBatchActions';
+import type { BatchProgress } from '../utils/batch';
+
+const MIN_REASON_LENGTH = 10;
+
+export interface BulkActionBarProps {
+  count: number;
+  progress: BatchProgress | null;
+  runningAction: BatchActionType | null;
+  actions?: BatchActionType[];
+  onApprove: () => void;
+  onReject: (reason: string) => void;
+  onRecategorize: (categoryName: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/**
+ * BulkActionBar Component
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  progress,
+  runningAction,
+  actions = ['approve', 'reject', 'recategorize', 'delete'],
+  onApprove,
+  onReject,
+  onRecategorize,
+  onDelete,
+  onClear,
+}) => {
+  const { t } = useTranslation();
+  const categories = useCategoryList() ?? [];
+  const [dialog, setDialog] = useState<'reject' | 'recategorize' | 'delete' | null>(null);
+  const [reason, setReason] = useState('');
+  const [categoryName, setCategoryName] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  if (count === 0 && !progress) {
+    return null;
+  }
+
+  const isRunning = !!progress;
+
+  const closeDialog = () => {
+    setDialog(null);
+    setValidationError(null);
+  };
+
+  const handleRejectConfirm = () => {
+    if (reason.trim().length < MIN_REASON_LENGTH) {
+      setValidationError(t('review.reasonRequired'));
+      return;
+    }
+    onReject(reason.trim());
+    setReason('');
+    closeDialog();
+  };
+
+  const handleRecategorizeConfirm = () => {
+    if (!categoryName.trim()) {
+      setValidationError(t('bulk.categoryRequired'));
+      return;
+    }
+    onRecategorize(categoryName.trim());
+    setCategoryName('');
+    closeDialog();
+  };
+
+  const handleDeleteConfirm = () => {
+    onDelete();
+    closeDialog();
+  };
+
+  return (
+    <>
+      <div className="sticky bottom-4 z-30 mx-auto max-w-3xl">
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-charming-lg bg-slate-900 text-white px-4 py-3 shadow-glow">
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              onClick={onClear}
+              disabled={isRunning}
+              className="p-1 rounded hover:bg-slate-700 disabled:opacity-50"
+              aria-label={t('bulk.clear')}
+              title={t('bulk.clear')}
+            >
+              <X className="h-4 w-4" />
+            </button>
+            {isRunning ? (
+              <span>
+                {t(`bulk.running.${runningAction}`)}{' '}
+                {t('bulk.progress', { done: progress.done, total: progress.total })}
+              </span>
+            ) : (
+              <span className="font-medium">{t('bulk.selected', { count })}</span>
+            )}
+          </div>
+
+          {isRunning ? (
+            <div className="h-2 w-40 overflow-hidden rounded-full bg-slate-700">
+              <div
+                className="h-full bg-electric-purple transition-all"
+                style={{ width: `${Math.round((progress.done / Math.max(progress.total, 1)) * 100)}%` }}
+              />
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {actions.includes('approve') && (
+                <Button size="sm" variant="success" onClick={onApprove} className="flex items-center gap-1">
+                  <CheckCircle className="h-4 w-4" />
+                  {t('common.approve')}
+                </Button>
+              )}
+              {actions.includes('reject') && (
+                <Button size="sm" variant="outline" onClick={() => setDialog('reject')} className="flex items-center gap-1">
+                  <XCircle className="h-4 w-4" />
+                  {t('common.reject')}
+                </Button>
+              )}
+              {actions.includes('recategorize') && (
+                <Button size="sm" variant="outline" onClick={() => setDialog('recategorize')} className="flex items-center gap-1">
+                  <Tag className="h-4 w-4" />
+                  {t('bulk.recategorize')}
+                </Button>
+              )}
+              {actions.includes('delete') && (
+                <Button size="sm" variant="outline" onClick={() => setDialog('delete')} className="flex items-center gap-1 text-red-600">
+                  <Trash2 className="h-4 w-4" />
+                  {t('common.delete')}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Reject with shared reason */}
+      <Modal
+        isOpen={dialog === 'reject'}
+        onClose={closeDialog}
+        title={t('bulk.rejectTitle', { count })}
+        size="md"
+      >
+        <div className="space-y-4">
+          <TextArea
+            label={t('review.reason')}
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder={t('review.reasonPlaceholder')}
+            error={validationError || undefined}
+            rows={4}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeDialog}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleRejectConfirm}>
+              {t('common.reject')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Recategorize */}
+      <Modal
+        isOpen={dialog === 'recategorize'}
+        onClose={closeDialog}
+        title={t('bulk.recategorizeTitle', { count })}
+        size="md"
+      >
+        <div className="space-y-4">
+          <Input
+            label={t('common.category')}
+            value={categoryName}
+            onChange={e => setCategoryName(e.target.value)}
+            list="bulk-category-options"
+            error={validationError || undefined}
+          />
+          <datalist id="bulk-category-options">
+            {categories.map(category => (
+              <option key={category.id} value={category.name} />
+            ))}
+          </datalist>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeDialog}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleRecategorizeConfirm}>
+              {t('common.update')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete confirmation */}
+      <Modal
+        isOpen={dialog === 'delete'}
+        onClose={closeDialog}
+        title={t('bulk.deleteTitle', { count })}
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">{t('bulk.deleteConfirm', { count })}</p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeDialog}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm}>
+              {t('common.delete')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+/**
+ * CalendarEventChip Component
+ *
+ * Compact calendar entry for a dump date, reminder or tracking deadline.
+ * Reminder chips are draggable so they can be rescheduled.
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Bell, FileText, Package } from 'lucide-react';
+import type { CalendarEvent, CalendarEventKind } from '../types/calendar.types';
+import { REMINDER_DRAG_TYPE } from '../utils/calendar';
+import { cn } from '../lib/utils';
+
+const EVENT_KIND_STYLES: Record<CalendarEventKind, string> = {
+  dump: 'bg-purple-50 text-purple-800 border-purple-200',
+  reminder: 'bg-orange-50 text-orange-800 border-orange-200',
+  tracking: 'bg-cyan-50 text-cyan-800 border-cyan-200',
+};
+
+const EVENT_KIND_ICONS: Record<CalendarEventKind, React.ComponentType<{ className?: string }>> = {
+  dump: FileText,
+  reminder: Bell,
+  tracking: Package,
+};
+
+export interface CalendarEventChipProps {
+  event: CalendarEvent;
+  onClick: (event: CalendarEvent) => void;
+  showTime?: boolean;
+}
+
+/**
+ * CalendarEventChip Component
+ */
+export const CalendarEventChip: React.FC<CalendarEventChipProps> = ({ event, onClick, showTime = true }) => {
+  const Icon = EVENT_KIND_ICONS[event.kind];
+  const draggable = event.kind === 'reminder';
+
+  return (
+    <button
+      type="button"
+      draggable={draggable}
+      onDragStart={
+        draggable
+          ? dragEvent => {
+              dragEvent.dataTransfer.setData(REMINDER_DRAG_TYPE, event.reminder.id);
+              dragEvent.dataTransfer.effectAllowed = 'move';
+            }
+          : undefined
+      }
+      onClick={clickEvent => {
+        clickEvent.stopPropagation();
+        onClick(event);
+      }}
+      title={event.title}
+      className={cn(
+        'w-full flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs text-left truncate hover:shadow-sm',
+        EVENT_KIND_STYLES[event.kind],
+        draggable && 'cursor-grab active:cursor-grabbing'
+      )}
+    >
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      {showTime && !event.allDay && (
+        <span className="flex-shrink-0 font-medium">{format(event.start, 'HH:mm')}</span>
+      )}
+      <span className="truncate">{event.title}</span>
+    </button>
+  );
+};
@@ -0,0 +1,31 @@
+/**
+ * CategoryLabel Component
+ *
+ * Category name with its color dot and icon (from the category metadata)
+ */
+
+import React from 'react';
+import type { Category } from '../types/dump.types';
+import { formatCategory } from '../utils/formatting';
+import { cn } from '../lib/utils';
+
+export interface CategoryLabelProps {
+  name: string | null | undefined;
+  category?: Pick<Category, 'color' | 'icon'> | null;    // Omitted while metadata is unknown
+  className?: string;
+}
+
+/**
+ * CategoryLabel Component
+ */
+export const CategoryLabel: React.FC<CategoryLabelProps> = ({ name, category, className }) => {
+  return (
+    <span className={cn('inline-flex items-center gap-1.5', className)}>
+      {category?.color && (
+        <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: category.color }} aria-hidden />
+      )}
+      {category?.icon && <span aria-hidden>{category.icon}</span>}
+      {formatCategory(name)}
+    </span>
+  );
+};
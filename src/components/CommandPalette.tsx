@@ -0,0 +1,233 @@
+/**
+ * CommandPalette Component
+ *
+ * Ctrl/Cmd+K dialog: filter commands by typing, move with the arrow
+ * keys and run with Enter. Queries of two or more characters also
+ * search dumps so any dump can be opened without leaving the page.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, FileText, Loader2 } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { useAuth } from '../hooks/useAuth';
+import type { Command, CommandGroup } from '../types/command.types';
+import type { Dump } from '../types/dump.types';
+import { searchDumps } from '../services/search.service';
+import { truncateText } from '../utils/formatting';
+import { modifierLabel } from '../utils/keyboard';
+import { cn } from '../lib/utils';
+
+const GROUP_ORDER: CommandGroup[] = ['focused', 'page', 'create', 'navigation'];
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_LIMIT = 5;
+
+export interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[];
+  onOpenDump: (dump: Dump) => void;
+}
+
+type PaletteItem =
+  | { type: 'command'; command: Command }
+  | { type: 'dump'; dump: Dump };
+
+/**
+ * Keys of a shortcut rendered as <kbd> chips
+ */
+export const ShortcutKeys: React.FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="flex items-center gap-1">
+    {keys.map((key, index) => (
+      <kbd
+        key={index}
+        className="min-w-5 px-1.5 py-0.5 rounded border border-slate-300 bg-slate-50 text-[11px] font-medium text-slate-600 text-center"
+      >
+        {key === 'mod' ? modifierLabel() : key}
+      </kbd>
+    ))}
+  </span>
+);
+
+function matchesQuery(command: Command, terms: string[]): boolean {
+  const haystack = [command.title, ...(command.keywords ?? [])].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+/**
+ * Palette body; mounted only while open so every opening starts fresh
+ */
+const PaletteContent: React.FC<Omit<CommandPaletteProps, 'isOpen'>> = ({ onClose, commands, onOpenDump }) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dumpResults, setDumpResults] = useState<{ query: string; dumps: Dump[] }>({ query: '', dumps: [] });
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const trimmedQuery = query.trim();
+  const searchEnabled = trimmedQuery.length >= SEARCH_MIN_LENGTH && !!user?.id;
+
+  // Debounced dump search; stale responses are ignored
+  useEffect(() => {
+    if (!searchEnabled || !user?.id) return;
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const results = await searchDumps(trimmedQuery, user.id, {}, 0, SEARCH_LIMIT);
+        if (!cancelled) {
+          setDumpResults({ query: trimmedQuery, dumps: (results?.results ?? []).map(result => result.dump) });
+        }
+      } catch {
+        if (!cancelled) setDumpResults({ query: trimmedQuery, dumps: [] });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [searchEnabled, trimmedQuery, user?.id]);
+
+  const searching = searchEnabled && dumpResults.query !== trimmedQuery;
+  const dumps = useMemo(
+    () => (searchEnabled && dumpResults.query === trimmedQuery ? dumpResults.dumps : []),
+    [searchEnabled, dumpResults, trimmedQuery]
+  );
+
+  const groups = useMemo(() => {
+    const terms = trimmedQuery.toLowerCase().split(/\s+/).filter(Boolean);
+    const matching = commands.filter(command => matchesQuery(command, terms));
+    return GROUP_ORDER.map(group => ({
+      group,
+      commands: matching.filter(command => command.group === group),
+    })).filter(entry => entry.commands.length > 0);
+  }, [commands, trimmedQuery]);
+
+  const items = useMemo<PaletteItem[]>(
+    () => [
+      ...groups.flatMap(entry => entry.commands.map(command => ({ type: 'command' as const, command }))),
+      ...dumps.map(dump => ({ type: 'dump' as const, dump })),
+    ],
+    [groups, dumps]
+  );
+  const clampedIndex = Math.min(activeIndex, Math.max(items.length - 1, 0));
+
+  // Keep the highlighted row visible
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-palette-index="${clampedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [clampedIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    if (item.type === 'command') {
+      item.command.run();
+    } else {
+      onOpenDump(item.dump);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(items.length === 0 ? 0 : (clampedIndex + 1) % items.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(items.length === 0 ? 0 : (clampedIndex - 1 + items.length) % items.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runItem(items[clampedIndex]);
+    }
+  };
+
+  const renderRow = (item: PaletteItem, index: number) => {
+    const isActive = index === clampedIndex;
+    const Icon = item.type === 'command' ? item.command.icon : FileText;
+    return (
+      <button
+        key={item.type === 'command' ? item.command.id : `dump:${item.dump.id}`}
+        type="button"
+        role="option"
+        aria-selected={isActive}
+        data-palette-index={index}
+        onMouseMove={() => setActiveIndex(index)}
+        onClick={() => runItem(item)}
+        className={cn(
+          'w-full flex items-center gap-3 px-3 py-2 rounded-charming text-left text-sm',
+          isActive ? 'bg-electric-purple/10 text-slate-900' : 'text-slate-700'
+        )}
+      >
+        {Icon && <Icon className="h-4 w-4 flex-shrink-0 text-slate-500" />}
+        <span className="flex-1 truncate">
+          {item.type === 'command'
+            ? item.command.title
+            : truncateText(item.dump.ai_summary || item.dump.raw_content, 90)}
+        </span>
+        {item.type === 'command' && item.command.shortcut && <ShortcutKeys keys={item.command.shortcut} />}
+      </button>
+    );
+  };
+
+  let rowIndex = 0;
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 border-b border-slate-200 pb-3">
+        <Search className="h-5 w-5 text-slate-400" />
+        <input
+          autoFocus
+          value={query}
+          onChange={event => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={t('commands.placeholder')}
+          aria-label={t('commands.placeholder')}
+          role="combobox"
+          aria-expanded
+          aria-controls="command-palette-list"
+          className="flex-1 bg-transparent text-base text-slate-900 placeholder:text-slate-400 focus:outline-none"
+        />
+        {searching && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+      </div>
+
+      <div ref={listRef} id="command-palette-list" role="listbox" className="max-h-96 overflow-y-auto space-y-3">
+        {groups.map(entry => (
+          <div key={entry.group}>
+            <p className="px-3 pb-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+              {t(`commands.groups.${entry.group}`)}
+            </p>
+            {entry.commands.map(command => renderRow({ type: 'command', command }, rowIndex++))}
+          </div>
+        ))}
+
+        {dumps.length > 0 && (
+          <div>
+            <p className="px-3 pb-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+              {t('commands.groups.dumps')}
+            </p>
+            {dumps.map(dump => renderRow({ type: 'dump', dump }, rowIndex++))}
+          </div>
+        )}
+
+        {items.length === 0 && !searching && (
+          <p className="px-3 py-6 text-center text-sm text-slate-500">{t('commands.noResults')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * CommandPalette Component
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, ...props }) => (
+  <Modal isOpen={isOpen} onClose={props.onClose} size="lg" showCloseButton={false} className="self-start mt-[10vh]">
+    <PaletteContent {...props} />
+  </Modal>
+);
@@ -0,0 +1,224 @@
+/**
+ * ContactCard Component
+ *
+ * One contact on the contacts screen: click-to-call/mail details, the
+ * dumps it was found in, and confirm/edit/hide actions
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Download, Eye, EyeOff, Globe, Mail, Pencil, Phone, RotateCcw, User } from 'lucide-react';
+import { Card } from './ui/Card';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { TextArea } from './ui/TextArea';
+import type { Contact } from '../types/contact.types';
+import type { Dump } from '../types/dump.types';
+import type { ContactChanges } from '../hooks/useContacts';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { contactUrl, normalizeEmail, normalizePhone } from '../utils/contacts';
+
+const VISIBLE_SOURCES = 3;
+
+export interface ContactCardProps {
+  contact: Contact;
+  onUpdate: (contact: Contact, changes: ContactChanges) => void;
+  onReset: (contact: Contact) => void;
+  onExport: (contact: Contact) => void;
+  onOpenDump: (dump: Dump) => void;
+}
+
+interface Draft {
+  name: string;
+  emails: string;
+  phones: string;
+  urls: string;
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split(/[\n,]+/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * ContactCard Component
+ */
+export const ContactCard: React.FC<ContactCardProps> = ({ contact, onUpdate, onReset, onExport, onOpenDump }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [showAllSources, setShowAllSources] = useState(false);
+
+  const startEditing = () =>
+    setDraft({
+      name: contact.name,
+      emails: contact.emails.join('\n'),
+      phones: contact.phones.join('\n'),
+      urls: contact.urls.join('\n'),
+    });
+
+  if (draft) {
+    const invalidEmails = splitLines(draft.emails).filter(email => !normalizeEmail(email));
+    const invalidPhones = splitLines(draft.phones).filter(phone => !normalizePhone(phone));
+
+    const handleSave = () => {
+      onUpdate(contact, {
+        name: draft.name.trim(),
+        emails: splitLines(draft.emails).map(email => normalizeEmail(email)!),
+        phones: splitLines(draft.phones).map(phone => normalizePhone(phone)!),
+        urls: splitLines(draft.urls),
+        confirmed: true,
+      });
+      setDraft(null);
+    };
+
+    return (
+      <Card className="p-4 space-y-3">
+        <Input
+          label={t('contacts.fields.name')}
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+        />
+        <TextArea
+          label={t('contacts.fields.emails')}
+          value={draft.emails}
+          rows={2}
+          onChange={e => setDraft({ ...draft, emails: e.target.value })}
+          error={invalidEmails.length > 0 ? t('contacts.invalid', { values: invalidEmails.join(', ') }) : undefined}
+          helperText={t('contacts.onePerLine')}
+        />
+        <TextArea
+          label={t('contacts.fields.phones')}
+          value={draft.phones}
+          rows={2}
+          onChange={e => setDraft({ ...draft, phones: e.target.value })}
+          error={invalidPhones.length > 0 ? t('contacts.invalid', { values: invalidPhones.join(', ') }) : undefined}
+        />
+        <TextArea
+          label={t('contacts.fields.urls')}
+          value={draft.urls}
+          rows={2}
+          onChange={e => setDraft({ ...draft, urls: e.target.value })}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={invalidEmails.length > 0 || invalidPhones.length > 0}>
+            {t('contacts.saveAndConfirm')}
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  const sources = showAllSources ? contact.dumps : contact.dumps.slice(0, VISIBLE_SOURCES);
+
+  return (
+    <Card className={contact.hidden ? 'p-4 space-y-3 opacity-60' : 'p-4 space-y-3'}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="rounded-full bg-slate-100 p-2 text-slate-600">
+            <User className="h-4 w-4" />
+          </span>
+          <h3 className={contact.name ? 'font-semibold text-slate-900 truncate' : 'italic text-slate-500 truncate'}>
+            {contact.name || t('contacts.unnamed')}
+          </h3>
+        </div>
+        <div className="flex shrink-0 gap-1.5">
+          {contact.confirmed && <Badge variant="approved">{t('contacts.confirmed')}</Badge>}
+          {contact.edited && <Badge>{t('contacts.edited')}</Badge>}
+        </div>
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {contact.emails.map(email => (
+          <li key={email}>
+            <a href={`mailto:${email}`} className="inline-flex items-center gap-2 text-electric-purple hover:underline">
+              <Mail className="h-3.5 w-3.5" />
+              {email}
+            </a>
+          </li>
+        ))}
+        {contact.phones.map(phone => (
+          <li key={phone}>
+            <a href={`tel:${phone}`} className="inline-flex items-center gap-2 text-electric-purple hover:underline">
+              <Phone className="h-3.5 w-3.5" />
+              {phone}
+            </a>
+          </li>
+        ))}
+        {contact.urls.map(url => (
+          <li key={url}>
+            <a
+              href={contactUrl(url)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 text-electric-purple hover:underline break-all"
+            >
+              <Globe className="h-3.5 w-3.5 shrink-0" />
+              {url}
+            </a>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <p className="text-xs font-medium text-slate-600 mb-1">
+          {t('contacts.foundIn', { count: contact.dumps.length })}
+        </p>
+        <ul className="space-y-1">
+          {sources.map(dump => (
+            <li key={dump.id}>
+              <button
+                type="button"
+                onClick={() => onOpenDump(dump)}
+                className="w-full text-left text-xs text-slate-600 hover:text-slate-900 hover:underline"
+              >
+                {formatDisplayDate(dump.created_at)} · {truncateText(dump.ai_summary || dump.raw_content, 80)}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {contact.dumps.length > VISIBLE_SOURCES && (
+          <button
+            type="button"
+            onClick={() => setShowAllSources(!showAllSources)}
+            className="mt-1 text-xs text-electric-purple hover:underline"
+          >
+            {showAllSources ? t('contacts.showFewer') : t('contacts.showAll', { count: contact.dumps.length })}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {contact.edited && (
+          <Button variant="ghost" size="sm" onClick={() => onReset(contact)}>
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            {t('contacts.reset')}
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => onUpdate(contact, { hidden: !contact.hidden })}>
+          {contact.hidden ? <Eye className="h-3.5 w-3.5 mr-1" /> : <EyeOff className="h-3.5 w-3.5 mr-1" />}
+          {contact.hidden ? t('contacts.unhide') : t('contacts.hide')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onExport(contact)}>
+          <Download className="h-3.5 w-3.5 mr-1" />
+          {t('contacts.vcard')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={startEditing}>
+          <Pencil className="h-3.5 w-3.5 mr-1" />
+          {t('common.edit')}
+        </Button>
+        {!contact.confirmed && !contact.hidden && (
+          <Button size="sm" onClick={() => onUpdate(contact, { confirmed: true })}>
+            <Check className="h-3.5 w-3.5 mr-1" />
+            {t('common.confirm')}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -2,21 +2,47 @@ import React from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { 
-  LuLayoutDashboard,
-  LuFileScan,
-  LuPackageCheck,
-  LuBadgeCheck,
-  LuMessageSquareText,
+  LuBookmark,
   LuChevronDown,
+  LuCommand,
   LuUser,
   LuLogOut
 } from 'react-icons/lu';
 import { useAuth } from '../hooks/useAuth';
+import { useCommandPalette, useRegisterCommands } from '../hooks/useCommandPalette';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+import { useSearchCount } from '../hooks/useApiQueries';
+import { NAV_ROUTES } from '../utils/navigation';
+import { modifierLabel } from '../utils/keyboard';
+import { buildSearchPath, SMART_VIEW_PARAM } from '../utils/search-url';
+import type { SavedSearch } from '../types/search.types';
 
 export interface DashboardLayoutProps {
   children: React.ReactNode;
 }
 
+/**
+ * Pinned saved search with its live result count
+ */
+const SmartViewLink: React.FC<{ view: SavedSearch; active: boolean }> = ({ view, active }) => {
+  const { data: count } = useSearchCount(view);
+
+  return (
+    <Link
+      to={buildSearchPath(view, view.id)}
+      className={`
+        flex-shrink-0 px-3 py-1 rounded-full text-xs font-medium transition-all whitespace-nowrap flex items-center gap-1.5
+        ${active ? 'bg-electric-purple text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}
+      `}
+    >
+      {view.name}
+      {count !== undefined && (
+        <span className={`px-1.5 rounded-full ${active ? 'bg-white/20' : 'bg-white text-slate-500'}`}>{count}</span>
+      )}
+    </Link>
+  );
+};
+
 /**
  * DashboardLayout Component
  * Main layout wrapper for authenticated user pages
@@ -24,21 +50,35 @@ export interface DashboardLayoutProps {
 export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const { t } = useTranslation();
   const { user, logout } = useAuth();
+  const { openPalette } = useCommandPalette();
+  const { smartViews } = useSavedSearches();
   const location = useLocation();
   const navigate = useNavigate();
 
+  const activeViewId =
+    location.pathname === '/search' ? new URLSearchParams(location.search).get(SMART_VIEW_PARAM) : null;
+
+  useRegisterCommands(
+    'smart-views',
+    smartViews.map(view => ({
+      id: `view:${view.id}`,
+      title: t('savedSearches.openView', { name: view.name }),
+      group: 'navigation',
+      keywords: ['saved', 'search', view.query],
+      icon: LuBookmark,
+      run: () => navigate(buildSearchPath(view, view.id)),
+    }))
+  );
+
   const handleLogout = () => {
     logout();
     navigate('/login');
   };
 
-  const navItems = [
-    { path: '/', label: t('nav.dashboard'), icon: LuLayoutDashboard },
-    { path: '/search', label: t('nav.search'), icon: LuFileScan },
-    { path: '/tracking', label: t('nav.tracking'), icon: LuPackageCheck },
-    { path: '/review', label: t('nav.review'), icon: LuBadgeCheck },
-    { path: '/feedback', label: t('nav.feedback'), icon: LuMessageSquareText },
-  ];
+  const navItems = NAV_ROUTES.map(route => ({ path: route.path, label: t(route.labelKey), icon: route.icon }));
+
+  // Nested pages (e.g. /entities/person/ana) keep their section highlighted
+  const isActivePath = (path: string) => location.pathname === path || location.pathname.startsWith(`${path}/`);
 
   const [userMenuOpen, setUserMenuOpen] = React.useState(false);
   const buttonRef = React.useRef<HTMLButtonElement | null>(null);
@@ -62,16 +102,16 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
       {/* Header */}
       <header className="sticky top-0 z-40 bg-white border-b border-slate-200 shadow-sm">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between gap-4">
             {/* Logo */}
-            <Link to="/" className="flex items-center gap-2">
+            <Link to="/" className="flex-shrink-0 flex items-center gap-2">
               <h1 className="text-2xl font-heading font-bold bg-gradient-primary bg-clip-text text-transparent">
                 Clutter.App
               </h1>
             </Link>
 
-            {/* Desktop Navigation */}
-            <nav className="hidden md:flex items-center gap-1">
+            {/* Desktop Navigation (scrolls sideways when the sections don't fit) */}
+            <nav className="hidden md:flex min-w-0 items-center gap-1 overflow-x-auto">
               {navItems.map((item) => {
                 const IconComponent = item.icon;
                 return (
@@ -79,9 +119,9 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                     key={item.path}
                     to={item.path}
                     className={`
-                      px-4 py-2 rounded-charming text-sm font-medium transition-all flex items-center gap-2
+                      flex-shrink-0 px-3 py-2 rounded-charming text-sm font-medium transition-all whitespace-nowrap flex items-center gap-2
                       ${
-                        location.pathname === item.path
+                        isActivePath(item.path)
                           ? 'bg-gradient-primary text-white shadow-glow-sm'
                           : 'text-slate-700 hover:bg-slate-100'
                       }
@@ -95,7 +135,19 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
             </nav>
 
             {/* User Menu (dropdown) */}
-            <div className="flex items-center gap-3 relative">
+            <div className="flex-shrink-0 flex items-center gap-3 relative">
+              {/* Command palette (Ctrl/Cmd+K) */}
+              <button
+                type="button"
+                onClick={openPalette}
+                title={t('commands.open')}
+                aria-label={t('commands.open')}
+                className="hidden sm:flex items-center gap-2 px-2 py-1 rounded text-slate-500 hover:bg-slate-100"
+              >
+                <LuCommand className="h-4 w-4" />
+                <kbd className="text-xs font-medium">{modifierLabel()} K</kbd>
+              </button>
+
               <button
                 ref={buttonRef}
                 title={t('nav.userMenu') || 'User Menu'}
@@ -197,7 +249,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 className={`
                   flex-shrink-0 px-3 py-1.5 rounded-charming text-xs font-medium transition-all whitespace-nowrap flex items-center gap-1.5
                   ${
-                    location.pathname === item.path
+                    isActivePath(item.path)
                       ? 'bg-gradient-primary text-white'
                       : 'text-slate-700 hover:bg-slate-100'
                   }
@@ -211,6 +263,24 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
         </div>
       </nav>
 
+      {/* Smart Views (pinned saved searches) */}
+      {smartViews.length > 0 && (
+        <nav
+          aria-label={t('savedSearches.smartViews')}
+          className="bg-white border-b border-slate-200"
+        >
+          <div className="container mx-auto px-4 py-2 flex items-center gap-2 overflow-x-auto">
+            <span className="flex-shrink-0 flex items-center gap-1.5 text-xs font-medium text-slate-500">
+              <LuBookmark className="h-3.5 w-3.5" />
+              {t('savedSearches.smartViews')}
+            </span>
+            {smartViews.map(view => (
+              <SmartViewLink key={view.id} view={view} active={view.id === activeViewId} />
+            ))}
+          </div>
+        </nav>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 container mx-auto px-4 py-6">
         {children}
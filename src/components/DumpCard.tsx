@@ -6,22 +6,31 @@
  */
 
 import React from 'react';
+import { useTranslation } from 'react-i18next';
 import { Bell, Package } from 'lucide-react';
 import { Badge } from './ui/Badge';
 import type { DumpDerived } from '../types/dump.types';
-import { formatDisplayDate, truncateText, formatCategory } from '../utils/formatting';
+import { CategoryLabel } from './CategoryLabel';
+import { useDumpCategory } from '../hooks/useApiQueries';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
 import { cn } from '../lib/utils';
 
 export interface DumpCardProps {
   dump: DumpDerived;
   onUpdate?: (dumpId: string, updates: Partial<DumpDerived>) => void;
   onClick?: (dump: DumpDerived, mode?: 'view' | 'reject') => void;
+  selectable?: boolean;                                   // Show a checkbox; clicks toggle selection
+  selected?: boolean;
+  onSelect?: (dumpId: string, range: boolean) => void;    // range = shift-click
+  focused?: boolean;                                      // Under the j/k keyboard cursor
 }
 
 /**
  * DumpCard Component
  */
-export const DumpCard: React.FC<DumpCardProps> = ({ dump, onClick }) => {
+export const DumpCard: React.FC<DumpCardProps> = ({ dump, onClick, selectable, selected, onSelect, focused }) => {
+  const { t } = useTranslation();
+  const category = useDumpCategory(dump);
 
   // Status badge variant mapping
   const statusVariants: Record<string, 'overdue' | 'pending' | 'approved' | 'rejected' | 'processing'> = {
@@ -33,22 +42,37 @@ export const DumpCard: React.FC<DumpCardProps> = ({ dump, onClick }) => {
 
   return (
     <div
-      onClick={() => onClick?.(dump)}
+      onClick={event => (selectable ? onSelect?.(dump.id, event.shiftKey) : onClick?.(dump))}
       className={cn(
         'rounded-charming-lg bg-white border shadow-sm hover:shadow-glow transition-all p-4',
         dump.isOverdue && 'border-l-4 border-l-red-500 border-slate-200',
         !dump.isOverdue && dump.hasReminder && 'border-l-4 border-l-orange-400 border-slate-200',
         !dump.isOverdue && !dump.hasReminder && dump.hasTracking && 'border-l-4 border-l-cyan-400 border-slate-200',
         !dump.isOverdue && !dump.hasReminder && !dump.hasTracking && 'border-slate-200',
-        onClick && 'cursor-pointer'
+        (onClick || selectable) && 'cursor-pointer',
+        selected && 'ring-2 ring-electric-purple',
+        focused && !selected && 'ring-2 ring-electric-purple/50 ring-offset-2'
       )}
+      data-dump-id={dump.id}
+      aria-current={focused || undefined}
     >
       {/* Header: Category + Status + Overdue Badge */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-2 flex-wrap">
-          <span className="text-sm font-medium text-slate-700">
-            {formatCategory(dump.categoryName || dump.category?.name)}
-          </span>
+          {selectable && (
+            <input
+              type="checkbox"
+              checked={!!selected}
+              readOnly
+              aria-label={t('bulk.selectItem')}
+              className="h-4 w-4 rounded border-slate-300 accent-electric-purple cursor-pointer"
+            />
+          )}
+          <CategoryLabel
+            name={dump.categoryName || category?.name}
+            category={category}
+            className="text-sm font-medium text-slate-700"
+          />
           <Badge variant={statusVariants[dump.status] || 'default'}>
             {dump.status}
           </Badge>
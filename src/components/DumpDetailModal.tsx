@@ -4,17 +4,24 @@
  * Modal for reviewing and accepting dumps with edit capabilities
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { DumpDerived } from '../types/dump.types';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import type { Dump, DumpDerived } from '../types/dump.types';
 import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { TextArea } from './ui/TextArea';
 import { Badge } from './ui/Badge';
-import { formatDisplayDate, formatUrgencyWithIcon } from '../utils/formatting';
+import { CategoryLabel } from './CategoryLabel';
+import { RelatedDumps } from './RelatedDumps';
+import { formatDisplayDate, formatUrgencyWithIcon, truncateText } from '../utils/formatting';
 import { useDumps } from '../hooks/useDumps';
+import { useUndoableActions } from '../hooks/useUndoableActions';
+import { useCategoryList } from '../hooks/useApiQueries';
+import { enrichDump } from '../utils/time-buckets';
+import { entityKey, entityPath } from '../utils/entities';
 import * as dumpsService from '../services/dumps.service';
-import { apiService } from '../services/api';
 import { useToast } from './Toast';
 
 export interface DumpDetailModalProps {
@@ -30,15 +37,34 @@ export interface DumpDetailModalProps {
  * DumpDetailModal Component
  */
 export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
-  dump,
+  dump: requestedDump,
   isOpen,
-  onClose,
+  onClose: closeModal,
   onAccept,
   onReject,
-  initialMode = 'view',
+  initialMode: requestedMode = 'view',
 }) => {
   const { t } = useTranslation();
-  const { acceptDumpWithOptimism, rejectDumpWithOptimism } = useDumps();
+
+  // Related dumps open in place; the requested one stays a click away
+  const [relatedView, setRelatedView] = useState<{ fromId: string; dump: DumpDerived } | null>(null);
+  const viewingRelated = !!relatedView && relatedView.fromId === requestedDump?.id;
+  const dump = viewingRelated ? relatedView.dump : requestedDump;
+  const initialMode = viewingRelated ? 'view' : requestedMode;
+
+  const onClose = () => {
+    setRelatedView(null);
+    closeModal();
+  };
+
+  const handleOpenRelated = (related: Dump) => {
+    if (requestedDump) {
+      setRelatedView(related.id === requestedDump.id ? null : { fromId: requestedDump.id, dump: enrichDump(related) });
+    }
+  };
+
+  const { acceptDumpWithOptimism } = useDumps();
+  const { rejectDumps } = useUndoableActions();
   const { addToast } = useToast();
   
   // Status badge variant mapping
@@ -58,36 +84,16 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
   const [showRejectForm, setShowRejectForm] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const [isEditing, setIsEditing] = useState(false);
-  const [categories, setCategories] = useState<string[]>([]);
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
-  const [filteredCategories, setFilteredCategories] = useState<string[]>([]);
 
-  // Fetch categories on mount
-  useEffect(() => {
-    const fetchCategories = async () => {
-      try {
-        const response = await apiService.get<Array<{ id: string; name: string }>>('/admin/categories');
-        if (response.success && response.data) {
-          const categoryNames = response.data.map(cat => cat.name).sort();
-          setCategories(categoryNames);
-        }
-      } catch (err) {
-        console.error('Failed to fetch categories:', err);
-      }
-    };
-    fetchCategories();
-  }, []);
+  // Categories come from the shared metadata cache
+  const categoryList = useCategoryList();
+  const categories = useMemo(() => categoryList ?? [], [categoryList]);
 
   // Filter categories based on input
-  useEffect(() => {
-    if (!category.trim()) {
-      setFilteredCategories(categories);
-    } else {
-      const filtered = categories.filter(cat => 
-        cat.toLowerCase().includes(category.toLowerCase())
-      );
-      setFilteredCategories(filtered);
-    }
+  const filteredCategories = useMemo(() => {
+    const search = category.trim().toLowerCase();
+    return search ? categories.filter(cat => cat.name.toLowerCase().includes(search)) : categories;
   }, [category, categories]);
 
   // Reset form when dump changes or modal opens
@@ -193,23 +199,15 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
     setIsSubmitting(true);
     setValidationError(null);
 
-    try {
-      const result = await rejectDumpWithOptimism(dump.id, rejectReason.trim());
+    // Rejection is deferred so it can be undone from the toast
+    const rejected = await rejectDumps([dump.id], rejectReason.trim());
+    setIsSubmitting(false);
 
-      if (result.success) {
-        addToast('success', t('capture.rejected'));
-        if (onReject) {
-          onReject(dump.id, rejectReason.trim());
-        }
-        onClose();
-      } else {
-        // Keep modal open on failure, preserve edits
-        addToast('error', result.error || t('capture.failedToReject'));
+    if (rejected) {
+      if (onReject) {
+        onReject(dump.id, rejectReason.trim());
       }
-    } catch (err: any) {
-      addToast('error', err?.message || t('feedback.error'));
-    } finally {
-      setIsSubmitting(false);
+      onClose();
     }
   };
 
@@ -234,6 +232,18 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
       size="lg"
     >
       <div className="space-y-6">
+        {/* Back from a related dump */}
+        {viewingRelated && requestedDump && (
+          <button
+            type="button"
+            onClick={() => setRelatedView(null)}
+            className="flex items-center gap-1 text-sm font-medium text-electric-purple hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {t('relatedDumps.back', { summary: truncateText(requestedDump.ai_summary || requestedDump.raw_content, 40) })}
+          </button>
+        )}
+
         {/* Header Info */}
         <div className="flex items-start justify-between">
           <div className="space-y-2">
@@ -322,19 +332,19 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                       <div className="px-3 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wide">
                         {t('category.existing')}
                       </div>
-                      {filteredCategories.map((cat, idx) => (
+                      {filteredCategories.map(cat => (
                         <button
-                          key={idx}
+                          key={cat.id}
                           type="button"
                           onClick={() => {
-                            setCategory(cat);
+                            setCategory(cat.name);
                             setShowCategoryDropdown(false);
                           }}
                           className="w-full text-left px-3 py-2 hover:bg-slate-100 focus:bg-slate-100 focus:outline-none transition-colors"
                         >
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-slate-900">{cat}</span>
-                            {cat.toLowerCase() === category.toLowerCase() && (
+                            <CategoryLabel name={cat.name} category={cat} className="text-sm text-slate-900" />
+                            {cat.name.toLowerCase() === category.toLowerCase() && (
                               <svg className="w-4 h-4 text-electric-purple" fill="currentColor" viewBox="0 0 20 20">
                                 <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                               </svg>
@@ -345,7 +355,7 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                     </div>
                   )}
                   {/* Create new category option */}
-                  {category.trim() && !categories.some(cat => cat.toLowerCase() === category.toLowerCase()) && (
+                  {category.trim() && !categories.some(cat => cat.name.toLowerCase() === category.toLowerCase()) && (
                     <div className={filteredCategories.length > 0 ? "border-t border-slate-200" : ""}>
                       <div className="px-3 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wide">
                         Create New
@@ -365,7 +375,7 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                     </div>
                   )}
                   {/* No results message */}
-                  {filteredCategories.length === 0 && (!category.trim() || categories.some(cat => cat.toLowerCase() === category.toLowerCase())) && (
+                  {filteredCategories.length === 0 && (!category.trim() || categories.some(cat => cat.name.toLowerCase() === category.toLowerCase())) && (
                     <div className="px-3 py-4 text-sm text-slate-500 text-center">
                       {!category.trim() ? 'Start typing to search categories...' : 'Category already exists'}
                     </div>
@@ -543,7 +553,9 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                   <span className="text-sm font-medium text-slate-600 min-w-[100px]">People:</span>
                   <div className="flex flex-wrap gap-1">
                     {dump.extracted_entities.entities.people.map((person, idx) => (
-                      <Badge key={idx} variant="default">{person}</Badge>
+                      <Link key={idx} to={entityPath(entityKey('person', person))} onClick={onClose}>
+                        <Badge variant="default" className="hover:bg-slate-200">{person}</Badge>
+                      </Link>
                     ))}
                   </div>
                 </div>
@@ -555,7 +567,9 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                   <span className="text-sm font-medium text-slate-600 min-w-[100px]">Organizations:</span>
                   <div className="flex flex-wrap gap-1">
                     {dump.extracted_entities.entities.organizations.map((org, idx) => (
-                      <Badge key={idx} variant="default">{org}</Badge>
+                      <Link key={idx} to={entityPath(entityKey('organization', org))} onClick={onClose}>
+                        <Badge variant="default" className="hover:bg-slate-200">{org}</Badge>
+                      </Link>
                     ))}
                   </div>
                 </div>
@@ -567,7 +581,9 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
                   <span className="text-sm font-medium text-slate-600 min-w-[100px]">Locations:</span>
                   <div className="flex flex-wrap gap-1">
                     {dump.extracted_entities.entities.locations.map((loc, idx) => (
-                      <Badge key={idx} variant="default">{loc}</Badge>
+                      <Link key={idx} to={entityPath(entityKey('location', loc))} onClick={onClose}>
+                        <Badge variant="default" className="hover:bg-slate-200">{loc}</Badge>
+                      </Link>
                     ))}
                   </div>
                 </div>
@@ -600,6 +616,9 @@ export const DumpDetailModal: React.FC<DumpDetailModalProps> = ({
           </div>
         )}
 
+        {/* Related */}
+        <RelatedDumps dump={dump} onOpen={handleOpenRelated} />
+
         {/* Metadata */}
         {dump.extracted_entities?.metadata && (
           <div className="space-y-3">
@@ -0,0 +1,130 @@
+/**
+ * DuplicateGroupCard Component
+ *
+ * One candidate group on the duplicates screen: pick the dump to keep,
+ * preview what it inherits, then merge or dismiss the group
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Merge, X } from 'lucide-react';
+import { Card } from './ui/Card';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { CategoryLabel } from './CategoryLabel';
+import { useDumpCategory } from '../hooks/useApiQueries';
+import type { Dump, DumpDerived } from '../types/dump.types';
+import { cn } from '../lib/utils';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { mergeDumpFields, type DuplicateGroup } from '../utils/duplicates';
+
+export interface DuplicateGroupCardProps {
+  group: DuplicateGroup;
+  onMerge: (keep: Dump, duplicates: Dump[]) => void;
+  onDismiss: (groupKey: string) => void;
+}
+
+const DuplicateMember: React.FC<{ dump: Dump; groupKey: string; kept: boolean; onKeep: () => void }> = ({
+  dump,
+  groupKey,
+  kept,
+  onKeep,
+}) => {
+  const { t } = useTranslation();
+  const category = useDumpCategory(dump);
+  const source = dump.extracted_entities?.metadata?.source;
+  const notes = (dump as Partial<DumpDerived>).notes;
+
+  return (
+    <label
+      className={cn(
+        'flex items-start gap-3 rounded-lg border p-3 cursor-pointer transition-colors',
+        kept ? 'border-electric-purple bg-purple-50/50' : 'border-slate-200 hover:bg-slate-50'
+      )}
+    >
+      <input
+        type="radio"
+        name={`keep-${groupKey}`}
+        checked={kept}
+        onChange={onKeep}
+        className="mt-1 accent-electric-purple"
+      />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="text-sm text-slate-900 whitespace-pre-wrap break-words">{truncateText(dump.raw_content, 280)}</p>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500">
+          <span>{formatDisplayDate(new Date(dump.created_at))}</span>
+          {source && <span className="capitalize">{source}</span>}
+          <CategoryLabel name={dump.category?.name || category?.name} category={category} />
+          {kept && <span className="font-medium text-electric-purple">{t('duplicates.keep')}</span>}
+        </div>
+        {notes && <p className="text-xs text-slate-600 italic">{truncateText(notes, 120)}</p>}
+      </div>
+    </label>
+  );
+};
+
+/**
+ * DuplicateGroupCard Component
+ */
+export const DuplicateGroupCard: React.FC<DuplicateGroupCardProps> = ({ group, onMerge, onDismiss }) => {
+  const { t } = useTranslation();
+  const [keepId, setKeepId] = useState(group.dumps[0].id);
+
+  const keep = group.dumps.find(dump => dump.id === keepId) ?? group.dumps[0];
+  const duplicates = useMemo(() => group.dumps.filter(dump => dump.id !== keep.id), [group, keep]);
+  const merged = useMemo(() => mergeDumpFields(keep, duplicates), [keep, duplicates]);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {t('duplicates.groupTitle', { count: group.dumps.length })}
+        </h3>
+        <div className="flex flex-wrap gap-1.5">
+          {group.identicalContent && (
+            <Badge className="bg-red-50 text-red-700 border-red-200">{t('duplicates.identical')}</Badge>
+          )}
+          {group.similarity !== null && (
+            <Badge>{t('duplicates.similarity', { percent: Math.round(group.similarity * 100) })}</Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {group.dumps.map(dump => (
+          <DuplicateMember
+            key={dump.id}
+            dump={dump}
+            groupKey={group.key}
+            kept={dump.id === keep.id}
+            onKeep={() => setKeepId(dump.id)}
+          />
+        ))}
+      </div>
+
+      {merged.notes && (
+        <div className="rounded-lg bg-slate-50 p-3 text-xs text-slate-700">
+          <p className="font-medium text-slate-900 mb-1">{t('duplicates.mergedNotes')}</p>
+          <p className="whitespace-pre-wrap">{merged.notes}</p>
+          {merged.notesTruncated && (
+            <p className="mt-2 flex items-center gap-1 text-amber-700">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {t('duplicates.notesTruncated')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => onDismiss(group.key)}>
+          <X className="h-4 w-4 mr-1" />
+          {t('duplicates.dismiss')}
+        </Button>
+        <Button size="sm" onClick={() => onMerge(keep, duplicates)}>
+          <Merge className="h-4 w-4 mr-1" />
+          {t('duplicates.merge', { count: duplicates.length })}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,28 @@
+/**
+ * EntityKindIcon Component
+ *
+ * Icon for a person, organization or location in the entity explorer
+ */
+
+import React from 'react';
+import { Building2, MapPin, User, type LucideIcon } from 'lucide-react';
+import type { EntityValueKind } from '../types/search.types';
+
+const KIND_ICONS: Record<EntityValueKind, LucideIcon> = {
+  person: User,
+  organization: Building2,
+  location: MapPin,
+};
+
+export interface EntityKindIconProps {
+  kind: EntityValueKind;
+  className?: string;
+}
+
+/**
+ * EntityKindIcon Component
+ */
+export const EntityKindIcon: React.FC<EntityKindIconProps> = ({ kind, className }) => {
+  const Icon = KIND_ICONS[kind];
+  return <Icon className={className} />;
+};
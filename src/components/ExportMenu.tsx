@@ -0,0 +1,128 @@
+/**
+ * ExportMenu Component
+ *
+ * Dropdown button that downloads the given dumps as JSON, CSV,
+ * Markdown or an ICS calendar (with the user's reminders)
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, FileBraces, FileSpreadsheet, FileText, CalendarDays } from 'lucide-react';
+import { Button } from './ui/Button';
+import { useToast } from './Toast';
+import type { Dump } from '../types/dump.types';
+import type { ExportFormat, ExportSource } from '../types/export.types';
+import { createExport, downloadFile } from '../utils/export';
+import { queryCache } from '../services/query-cache';
+import { queryKeys, ENTITY_TYPES } from '../services/query-keys';
+import { getUserReminders, type Reminder } from '../services/reminders.service';
+
+export interface ExportMenuProps {
+  source: ExportSource;
+  dumps: Dump[];
+  query?: string;                // Search query, recorded in search exports
+}
+
+const FORMAT_OPTIONS: Array<{ format: ExportFormat; icon: React.ComponentType<{ className?: string }> }> = [
+  { format: 'json', icon: FileBraces },
+  { format: 'csv', icon: FileSpreadsheet },
+  { format: 'markdown', icon: FileText },
+  { format: 'ics', icon: CalendarDays },
+];
+
+/**
+ * ExportMenu Component
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ source, dumps, query }) => {
+  const { t } = useTranslation();
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [isOpen]);
+
+  /**
+   * Reminders for calendar exports; search exports only keep reminders
+   * attached to the exported dumps
+   */
+  const loadReminders = async (): Promise<Reminder[]> => {
+    const reminders =
+      (await queryCache.fetch(queryKeys.reminders.list(), () => getUserReminders(), {
+        entity: ENTITY_TYPES.reminder,
+      })) ?? [];
+
+    if (source === 'dashboard') {
+      return reminders;
+    }
+    const dumpIds = new Set(dumps.map(dump => dump.id));
+    return reminders.filter(reminder => reminder.dump_id && dumpIds.has(reminder.dump_id));
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(true);
+
+    try {
+      const reminders = exportFormat === 'ics' ? await loadReminders() : undefined;
+      downloadFile(createExport(exportFormat, { source, dumps, reminders, query }));
+      addToast('success', t('export.done', { count: dumps.length, format: t(`export.formats.${exportFormat}`) }));
+    } catch (err: unknown) {
+      addToast('error', t('export.failed', { error: err instanceof Error ? err.message : t('outbox.unknownError') }));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={dumps.length === 0 || exporting}
+        className="flex items-center gap-2"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="h-4 w-4" />
+        {exporting ? t('export.exporting') : t('export.button')}
+      </Button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-2 w-60 bg-white border border-slate-200 rounded-md shadow-lg z-50 py-1"
+          onKeyDown={event => {
+            if (event.key === 'Escape') setIsOpen(false);
+          }}
+        >
+          <p className="px-4 py-2 text-xs text-slate-500 border-b border-slate-100">
+            {t('export.count', { count: dumps.length })}
+          </p>
+          {FORMAT_OPTIONS.map(({ format: exportFormat, icon: Icon }) => (
+            <button
+              key={exportFormat}
+              role="menuitem"
+              onClick={() => handleExport(exportFormat)}
+              className="w-full px-4 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-2"
+            >
+              <Icon className="h-4 w-4 text-slate-500" />
+              {t(`export.formats.${exportFormat}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
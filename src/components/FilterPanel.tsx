@@ -1,34 +1,127 @@
 /**
  * FilterPanel Component
  * 
- * Collapsible panel with advanced search filters
+ * Collapsible panel with advanced search filters.
+ * With facets, every option shows how many results it would match. When the
+ * counts cover every match, options without matches are disabled (categories
+ * are hidden); counts from a sample are shown as approximate instead.
  */
 
 import React, { useState } from 'react';
-import type { SearchFilters } from '../types/search.types';
+import { useTranslation } from 'react-i18next';
+import { endOfMonth, format, parse } from 'date-fns';
+import type { SearchFacets, SearchFilters } from '../types/search.types';
 import { DEFAULT_SEARCH_FILTERS } from '../types/search.types';
-import type { FilterEnums } from '../services/search.service';
+import type { ContentType, UrgencyLevel } from '../types/dump.types';
+import { useAppMetadata } from '../hooks/useApiQueries';
+import { CONFIDENCE_BANDS } from '../utils/search-facets';
 import { Button } from './ui/Button';
+import { CategoryLabel } from './CategoryLabel';
 import { cn } from '../lib/utils';
 
 export interface FilterPanelProps {
   filters: SearchFilters;
   onFiltersChange: (filters: SearchFilters) => void;
-  filterEnums: FilterEnums | null;
+  facets?: SearchFacets | null;  // Live counts for the current query
   className?: string;
 }
 
+interface FacetCheckboxProps {
+  label: React.ReactNode;
+  checked: boolean;
+  count?: number;
+  approximate?: boolean;         // Count from a sample: shown with "≈" and never disables the option
+  onChange: (checked: boolean) => void;
+}
+
+/**
+ * Checkbox option with its result count; options known to be empty can't be added
+ */
+const FacetCheckbox: React.FC<FacetCheckboxProps> = ({ label, checked, count, approximate, onChange }) => {
+  const disabled = count === 0 && !approximate && !checked;
+
+  return (
+    <label className={cn('flex items-center gap-2', disabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer')}>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={e => onChange(e.target.checked)}
+        className="h-4 w-4 rounded border-slate-300 text-electric-purple focus:ring-electric-purple"
+      />
+      <span className="flex-1 text-sm text-slate-700">{label}</span>
+      {count !== undefined && (
+        <span className="text-xs tabular-nums text-slate-500">
+          {approximate && '≈'}
+          {count}
+        </span>
+      )}
+    </label>
+  );
+};
+
+interface DateHistogramProps {
+  buckets: SearchFacets['dateHistogram'];
+  dateRange: SearchFilters['dateRange'];
+  onSelectMonth: (month: string) => void;
+}
+
+/**
+ * Results per month; clicking a bar limits the date range to that month
+ */
+const DateHistogram: React.FC<DateHistogramProps> = ({ buckets, dateRange, onSelectMonth }) => {
+  const max = Math.max(...buckets.map(bucket => bucket.count), 1);
+
+  return (
+    <div className="mb-3 flex h-16 items-end gap-1" role="group">
+      {buckets.map(bucket => {
+        const monthStart = parse(bucket.month, 'yyyy-MM', new Date());
+        const label = `${format(monthStart, 'MMM yyyy')}: ${bucket.count}`;
+        const active =
+          dateRange?.from === format(monthStart, 'yyyy-MM-dd') &&
+          dateRange?.to === format(endOfMonth(monthStart), 'yyyy-MM-dd');
+
+        return (
+          <button
+            key={bucket.month}
+            type="button"
+            title={label}
+            aria-label={label}
+            aria-pressed={active}
+            onClick={() => onSelectMonth(bucket.month)}
+            className={cn(
+              'flex-1 min-w-[6px] rounded-t transition-colors',
+              active ? 'bg-electric-purple' : 'bg-electric-purple/30 hover:bg-electric-purple/60'
+            )}
+            style={{ height: `${Math.max((bucket.count / max) * 100, 8)}%` }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
 /**
  * FilterPanel Component
  */
 export const FilterPanel: React.FC<FilterPanelProps> = ({
   filters,
   onFiltersChange,
-  filterEnums,
+  facets,
   className,
 }) => {
+  const { t } = useTranslation();
+  const { enums: filterEnums, categories } = useAppMetadata();
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Counts from a sample can miss options that do have matches
+  const approximate = !!facets && facets.sampled < facets.total;
+
+  // With exact counts, only categories present in the results (or selected) are listed
+  const visibleCategories = facets && !approximate
+    ? categories.filter(category => facets.categories[category.id] || filters.categories?.includes(category.id))
+    : categories;
+
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded);
   };
@@ -83,6 +176,19 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     });
   };
 
+  // Histogram bar: the whole month, or clear when it is already selected
+  const handleMonthSelect = (month: string) => {
+    const monthStart = parse(month, 'yyyy-MM', new Date());
+    const from = format(monthStart, 'yyyy-MM-dd');
+    const to = format(endOfMonth(monthStart), 'yyyy-MM-dd');
+    const selected = filters.dateRange?.from === from && filters.dateRange?.to === to;
+
+    onFiltersChange({
+      ...filters,
+      dateRange: selected ? undefined : { from, to },
+    });
+  };
+
   // Active filter count
   const activeFilterCount = [
     filters.contentTypes?.length || 0,
@@ -134,67 +240,92 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
       {/* Content */}
       {isExpanded && (
         <div className="p-4 pt-0 space-y-6 border-t border-slate-200">
+          {/* Facet sample note */}
+          {approximate && (
+            <p className="pt-4 text-xs text-slate-500">
+              {t('facets.sampled', { sampled: facets.sampled, total: facets.total })}
+            </p>
+          )}
+
           {/* Content Types */}
-          {filterEnums?.contentTypes && filterEnums.contentTypes.length > 0 && (
+          {filterEnums.contentTypes && filterEnums.contentTypes.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
                 Content Type
               </label>
               <div className="space-y-2">
                 {filterEnums.contentTypes.map(type => (
-                  <label key={type.value} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={filters.contentTypes?.includes(type.value as any) || false}
-                      onChange={e => handleCheckboxChange('contentTypes', type.value, e.target.checked)}
-                      className="h-4 w-4 rounded border-slate-300 text-electric-purple focus:ring-electric-purple"
-                    />
-                    <span className="text-sm text-slate-700">{type.label}</span>
-                  </label>
+                  <FacetCheckbox
+                    key={type.value}
+                    label={type.label}
+                    checked={filters.contentTypes?.includes(type.value as ContentType) || false}
+                    approximate={approximate}
+                    count={facets ? facets.contentTypes[type.value] ?? 0 : undefined}
+                    onChange={checked => handleCheckboxChange('contentTypes', type.value, checked)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Categories */}
+          {visibleCategories.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                {t('common.category')}
+              </label>
+              <div className="space-y-2">
+                {visibleCategories.map(category => (
+                  <FacetCheckbox
+                    key={category.id}
+                    label={<CategoryLabel name={category.name} category={category} />}
+                    checked={filters.categories?.includes(category.id) || false}
+                    approximate={approximate}
+                    count={facets ? facets.categories[category.id] ?? 0 : undefined}
+                    onChange={checked => handleCheckboxChange('categories', category.id, checked)}
+                  />
                 ))}
               </div>
             </div>
           )}
 
           {/* Processing Status */}
-          {filterEnums?.statuses && filterEnums.statuses.length > 0 && (
+          {filterEnums.statuses && filterEnums.statuses.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
                 Processing Status
               </label>
               <div className="space-y-2">
                 {filterEnums.statuses.map(status => (
-                  <label key={status.value} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={filters.statuses?.includes(status.value) || false}
-                      onChange={e => handleCheckboxChange('statuses', status.value, e.target.checked)}
-                      className="h-4 w-4 rounded border-slate-300 text-electric-purple focus:ring-electric-purple"
-                    />
-                    <span className="text-sm text-slate-700">{status.label}</span>
-                  </label>
+                  <FacetCheckbox
+                    key={status.value}
+                    label={status.label}
+                    checked={filters.statuses?.includes(status.value) || false}
+                    approximate={approximate}
+                    count={facets ? facets.statuses[status.value] ?? 0 : undefined}
+                    onChange={checked => handleCheckboxChange('statuses', status.value, checked)}
+                  />
                 ))}
               </div>
             </div>
           )}
 
           {/* Urgency Levels */}
-          {filterEnums?.urgencyLevels && filterEnums.urgencyLevels.length > 0 && (
+          {filterEnums.urgencyLevels && filterEnums.urgencyLevels.length > 0 && (
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
                 Urgency
               </label>
               <div className="space-y-2">
                 {filterEnums.urgencyLevels.map(level => (
-                  <label key={level.value} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={filters.urgencyLevels?.includes(level.value as any) || false}
-                      onChange={e => handleCheckboxChange('urgencyLevels', level.value, e.target.checked)}
-                      className="h-4 w-4 rounded border-slate-300 text-electric-purple focus:ring-electric-purple"
-                    />
-                    <span className="text-sm text-slate-700">{level.label}</span>
-                  </label>
+                  <FacetCheckbox
+                    key={level.value}
+                    label={level.label}
+                    checked={filters.urgencyLevels?.includes(level.value as UrgencyLevel) || false}
+                    approximate={approximate}
+                    count={facets ? facets.urgencyLevels[level.value] ?? 0 : undefined}
+                    onChange={checked => handleCheckboxChange('urgencyLevels', level.value, checked)}
+                  />
                 ))}
               </div>
             </div>
@@ -203,17 +334,37 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
           {/* Minimum Confidence */}
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">
-              Minimum Confidence: {Math.round((filters.minConfidence || 0) * 100)}%
+              {t('facets.minConfidence')}
             </label>
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.05"
-              value={filters.minConfidence || 0}
-              onChange={e => handleConfidenceChange(parseFloat(e.target.value))}
-              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-electric-purple"
-            />
+            <div className="flex flex-wrap gap-2">
+              {CONFIDENCE_BANDS.map(min => {
+                const count = facets?.confidenceBands.find(band => band.min === min)?.count;
+                const active = (filters.minConfidence || 0) === min;
+                return (
+                  <button
+                    key={min}
+                    type="button"
+                    onClick={() => handleConfidenceChange(min)}
+                    disabled={count === 0 && !approximate && !active}
+                    aria-pressed={active}
+                    className={cn(
+                      'px-3 py-1.5 rounded-full border text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed',
+                      active
+                        ? 'border-electric-purple bg-electric-purple text-white'
+                        : 'border-slate-300 text-slate-700 hover:border-electric-purple'
+                    )}
+                  >
+                    {min === 0 ? t('facets.anyConfidence') : t('facets.confidenceAtLeast', { percent: min })}
+                    {count !== undefined && (
+                      <span className="ml-1.5 opacity-70">
+                        {approximate && '≈'}
+                        {count}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
           {/* Date Range */}
@@ -221,6 +372,13 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
             <label className="block text-sm font-medium text-slate-700 mb-2">
               Date Range
             </label>
+            {facets && facets.dateHistogram.length > 0 && (
+              <DateHistogram
+                buckets={facets.dateHistogram}
+                dateRange={filters.dateRange}
+                onSelectMonth={handleMonthSelect}
+              />
+            )}
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="block text-xs text-slate-600 mb-1">From</label>
@@ -0,0 +1,373 @@
+/**
+ * Import Wizard Modal
+ *
+ * Bulk import of notes and mail exports (Keep/Evernote JSON, ENEX,
+ * Markdown folders, .eml/.mbox): pick files, preview and de-duplicate,
+ * then create the dumps with throttling and a final report
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Upload, FolderOpen, Mail, FileText, RotateCcw } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { createDump, fetchAllDumps } from '../services/dumps.service';
+import { parseImportFiles } from '../utils/import-parsers';
+import { runBatch, type BatchProgress } from '../utils/batch';
+import type { ImportCandidate, ImportParseResult, ImportReport } from '../types/import.types';
+
+const IMPORT_CONCURRENCY = 2;
+const IMPORT_INTERVAL_MS = 300;          // Minimum spacing between createDump calls
+const ACCEPTED_FILES = '.json,.enex,.md,.markdown,.txt,.eml,.mbox';
+const PREVIEW_LENGTH = 160;
+
+type WizardStep = 'select' | 'preview' | 'importing' | 'report';
+
+interface ImportWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;        // Called after a run that created at least one dump
+}
+
+// React does not type the non-standard folder picker attributes
+const FOLDER_INPUT_ATTRS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export const ImportWizardModal: React.FC<ImportWizardModalProps> = ({ isOpen, onClose, onImported }) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, hasMore } = useDumps();
+  const [step, setStep] = useState<WizardStep>('select');
+  const [parsing, setParsing] = useState(false);
+  const [parseResult, setParseResult] = useState<ImportParseResult | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [partialDuplicateCheck, setPartialDuplicateCheck] = useState<number | null>(null);
+
+  const candidates = useMemo(() => parseResult?.candidates ?? [], [parseResult]);
+  const duplicateCount = candidates.filter(candidate => candidate.duplicate).length;
+
+  const handleReset = () => {
+    setStep('select');
+    setParseResult(null);
+    setSelectedIds(new Set());
+    setProgress(null);
+    setReport(null);
+    setError(null);
+    setPartialDuplicateCheck(null);
+  };
+
+  const handleClose = () => {
+    // Closing mid-run would orphan the batch; the report step follows anyway
+    if (step === 'importing') return;
+    handleReset();
+    onClose();
+  };
+
+  /**
+   * Contents to de-duplicate against: every dump the user has, not just the loaded pages
+   * (falls back to the loaded ones, and says so, if the rest can't be fetched)
+   */
+  const loadExistingContents = async (): Promise<string[]> => {
+    if (!hasMore || !user) {
+      setPartialDuplicateCheck(null);
+      return dumps.map(dump => dump.raw_content);
+    }
+
+    const response = await fetchAllDumps(user.id);
+    if (response.success && response.data) {
+      setPartialDuplicateCheck(null);
+      return response.data.map(dump => dump.raw_content);
+    }
+    setPartialDuplicateCheck(dumps.length);
+    return dumps.map(dump => dump.raw_content);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    // Copy before awaiting: the input is cleared right after this call
+    const files = Array.from(fileList);
+    setParsing(true);
+    setError(null);
+    try {
+      const result = await parseImportFiles(files, await loadExistingContents());
+      if (result.candidates.length === 0) {
+        setError(t('import.nothingFound'));
+        setParseResult(result);
+        return;
+      }
+      setParseResult(result);
+      // Duplicates start deselected
+      setSelectedIds(new Set(result.candidates.filter(c => !c.duplicate).map(c => c.id)));
+      setStep('preview');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('import.parseFailed'));
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(candidates.map(candidate => candidate.id)) : new Set());
+  };
+
+  const runImport = async (toImport: ImportCandidate[], skipped: number) => {
+    if (!user) {
+      setError(t('newDumpModal.userNotAuthenticated'));
+      return;
+    }
+
+    const byId = new Map(toImport.map(candidate => [candidate.id, candidate]));
+    setStep('importing');
+    setError(null);
+
+    const result = await runBatch(
+      toImport.map(candidate => candidate.id),
+      async id => {
+        const candidate = byId.get(id)!;
+        const response = await createDump(user.id, candidate.rawContent, candidate.contentType);
+        return { success: response.success, error: response.error?.message };
+      },
+      { concurrency: IMPORT_CONCURRENCY, intervalMs: IMPORT_INTERVAL_MS, onProgress: setProgress }
+    );
+
+    setReport(prev => ({
+      imported: (prev?.imported ?? 0) + result.succeeded.length,
+      skipped: prev ? prev.skipped : skipped,
+      failed: result.failed.map(({ id, error: failure }) => ({ candidate: byId.get(id)!, error: failure })),
+    }));
+    setProgress(null);
+    setStep('report');
+
+    if (result.succeeded.length > 0) {
+      onImported();
+    }
+  };
+
+  const handleImport = () => {
+    const toImport = candidates.filter(candidate => selectedIds.has(candidate.id));
+    runImport(toImport, candidates.length - toImport.length);
+  };
+
+  const handleRetryFailed = () => {
+    if (!report) return;
+    runImport(report.failed.map(({ candidate }) => candidate), report.skipped);
+  };
+
+  const renderSelect = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">{t('import.selectHint')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="flex flex-col items-center gap-2 p-6 border-2 border-dashed border-slate-300 rounded-charming cursor-pointer hover:border-electric-purple hover:bg-slate-50 transition-colors">
+          <Upload className="h-6 w-6 text-slate-500" />
+          <span className="text-sm font-medium text-slate-700">{t('import.chooseFiles')}</span>
+          <span className="text-xs text-slate-500">{t('import.fileTypes')}</span>
+          <input
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            className="sr-only"
+            disabled={parsing}
+            onChange={event => {
+              handleFiles(event.target.files);
+              event.target.value = '';
+            }}
+          />
+        </label>
+
+        <label className="flex flex-col items-center gap-2 p-6 border-2 border-dashed border-slate-300 rounded-charming cursor-pointer hover:border-electric-purple hover:bg-slate-50 transition-colors">
+          <FolderOpen className="h-6 w-6 text-slate-500" />
+          <span className="text-sm font-medium text-slate-700">{t('import.chooseFolder')}</span>
+          <span className="text-xs text-slate-500">{t('import.folderHint')}</span>
+          <input
+            type="file"
+            multiple
+            className="sr-only"
+            disabled={parsing}
+            {...FOLDER_INPUT_ATTRS}
+            onChange={event => {
+              handleFiles(event.target.files);
+              event.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {parsing && <p className="text-sm text-slate-500">{t('import.parsing')}</p>}
+    </div>
+  );
+
+  const renderPreview = () => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-electric-purple"
+            checked={selectedIds.size === candidates.length}
+            onChange={event => toggleAll(event.target.checked)}
+          />
+          {t('import.selected', { count: selectedIds.size, total: candidates.length })}
+        </label>
+        {duplicateCount > 0 && (
+          <span className="text-xs text-slate-500">{t('import.duplicatesFound', { count: duplicateCount })}</span>
+        )}
+      </div>
+
+      {partialDuplicateCheck !== null && (
+        <p className="text-xs text-amber-700">{t('import.partialDuplicateCheck', { count: partialDuplicateCheck })}</p>
+      )}
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-charming">
+        {candidates.map(candidate => (
+          <li key={candidate.id}>
+            <label className="flex items-start gap-3 p-3 cursor-pointer hover:bg-slate-50">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-electric-purple"
+                checked={selectedIds.has(candidate.id)}
+                onChange={() => toggleCandidate(candidate.id)}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  {candidate.contentType === 'email' ? (
+                    <Mail className="h-4 w-4 text-slate-500" />
+                  ) : (
+                    <FileText className="h-4 w-4 text-slate-500" />
+                  )}
+                  <span className="text-sm font-medium text-slate-900 truncate">
+                    {candidate.title || t('import.untitled')}
+                  </span>
+                  <Badge variant="default">{t(`import.sources.${candidate.source}`)}</Badge>
+                  {candidate.duplicate && <Badge variant="pending">{t('import.duplicate')}</Badge>}
+                </div>
+                <p className="mt-1 text-xs text-slate-600 line-clamp-2">
+                  {candidate.rawContent.slice(0, PREVIEW_LENGTH)}
+                </p>
+                <p className="mt-1 text-xs text-slate-400 truncate">{candidate.fileName}</p>
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {parseResult && parseResult.errors.length > 0 && (
+        <details className="text-xs text-slate-600">
+          <summary className="cursor-pointer">{t('import.fileErrors', { count: parseResult.errors.length })}</summary>
+          <ul className="mt-2 space-y-1">
+            {parseResult.errors.map(({ fileName, error: fileError }) => (
+              <li key={fileName}>
+                <span className="font-medium">{fileName}</span>: {t(`import.errors.${fileError}`)}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="flex justify-between gap-3">
+        <Button variant="ghost" onClick={handleReset}>
+          {t('import.back')}
+        </Button>
+        <Button onClick={handleImport} disabled={selectedIds.size === 0}>
+          {t('import.submit', { count: selectedIds.size })}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderImporting = () => (
+    <div className="space-y-3 py-4">
+      <p className="text-sm text-slate-700">
+        {t('import.progress', { done: progress?.done ?? 0, total: progress?.total ?? 0 })}
+      </p>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-slate-200">
+        <div
+          className="h-full bg-electric-purple transition-all"
+          style={{ width: `${Math.round(((progress?.done ?? 0) / Math.max(progress?.total ?? 1, 1)) * 100)}%` }}
+        />
+      </div>
+      <p className="text-xs text-slate-500">{t('import.keepOpen')}</p>
+    </div>
+  );
+
+  const renderReport = () =>
+    report && (
+      <div className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="p-3 rounded-charming bg-emerald-50">
+            <p className="text-2xl font-bold text-emerald-700">{report.imported}</p>
+            <p className="text-xs text-emerald-800">{t('import.report.imported')}</p>
+          </div>
+          <div className="p-3 rounded-charming bg-slate-50">
+            <p className="text-2xl font-bold text-slate-700">{report.skipped}</p>
+            <p className="text-xs text-slate-600">{t('import.report.skipped')}</p>
+          </div>
+          <div className="p-3 rounded-charming bg-red-50">
+            <p className="text-2xl font-bold text-red-700">{report.failed.length}</p>
+            <p className="text-xs text-red-800">{t('import.report.failed')}</p>
+          </div>
+        </div>
+
+        {report.failed.length > 0 && (
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-xs text-red-800">
+            {report.failed.map(({ candidate, error: failure }) => (
+              <li key={candidate.id}>
+                <span className="font-medium">{candidate.title || candidate.fileName}</span>: {failure}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {report.failed.length > 0 && (
+            <Button variant="outline" onClick={handleRetryFailed} className="flex items-center gap-2">
+              <RotateCcw className="h-4 w-4" />
+              {t('import.retryFailed', { count: report.failed.length })}
+            </Button>
+          )}
+          <Button onClick={handleClose}>{t('import.done')}</Button>
+        </div>
+      </div>
+    );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={t('import.title')}
+      size="lg"
+      showCloseButton={step !== 'importing'}
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {step === 'select' && renderSelect()}
+        {step === 'preview' && renderPreview()}
+        {step === 'importing' && renderImporting()}
+        {step === 'report' && renderReport()}
+      </div>
+    </Modal>
+  );
+};
@@ -4,7 +4,7 @@
  * Displays user's submitted feedback with color-coded status badges
  */
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Clock, Eye, CheckCircle, XCircle, ThumbsUp } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
@@ -12,6 +12,9 @@ import { Badge } from './ui/Badge';
 import { LoadingSpinner } from './LoadingSpinner';
 import { EmptyState } from './EmptyState';
 import * as feedbackService from '../services/feedback.service';
+import { queryCache } from '../services/query-cache';
+import { queryKeys } from '../services/query-keys';
+import { useMyFeedback, type MyFeedbackPage } from '../hooks/useApiQueries';
 
 import { formatDisplayDate } from '../utils/formatting';
 
@@ -24,42 +27,23 @@ export interface MyFeedbackListProps {
  */
 export const MyFeedbackList: React.FC<MyFeedbackListProps> = ({ refreshTrigger = 0 }) => {
   const { t } = useTranslation();
-  const [feedback, setFeedback] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [limit, setLimit] = useState<number>(10);
   const [offset, setOffset] = useState<number>(0);
-  const [total, setTotal] = useState<number>(0);
   const [upvotingIds, setUpvotingIds] = useState<Set<string>>(new Set());
 
-  // Fetch feedback list
-  const fetchFeedback = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  // Cached per page; submitting feedback invalidates it
+  const feedbackQuery = useMyFeedback({ limit, offset });
+  const feedback = feedbackQuery.data?.items ?? [];
+  const total = feedbackQuery.data?.total ?? 0;
+  const loading = feedbackQuery.isLoading;
+  const error = feedbackQuery.data ? null : feedbackQuery.error;
 
-    try {
-      const response = await feedbackService.fetchMyFeedback({ limit, offset });
-
-      if (response.success && response.data) {
-        // Ensure newest-first ordering by createdAt
-        const items = Array.isArray(response.data.items) ? response.data.items : [];
-        items.sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        setFeedback(items);
-        setTotal(typeof response.data.total === 'number' ? response.data.total : items.length);
-      } else {
-        setError(response.error?.message || 'Failed to load feedback');
-      }
-    } catch (err: any) {
-      setError(err?.message || 'An unexpected error occurred');
-    } finally {
-      setLoading(false);
-    }
-  }, [limit, offset]);
-
-  // Fetch on mount and when refreshTrigger changes
+  // Explicit refresh requested by the parent
   useEffect(() => {
-    fetchFeedback();
-  }, [fetchFeedback, refreshTrigger]);
+    if (refreshTrigger > 0) {
+      queryCache.invalidate(queryKeys.feedback.all);
+    }
+  }, [refreshTrigger]);
 
   // Status badge configuration
   const getStatusBadge = (status: string) => {
@@ -252,17 +236,23 @@ export const MyFeedbackList: React.FC<MyFeedbackListProps> = ({ refreshTrigger =
                         try {
                           setUpvotingIds((prev) => new Set(prev).add(item.id));
 
-                          const current = feedback.map((f) => ({ ...f }));
-                          const idx = current.findIndex((f) => f.id === item.id);
-                          if (idx !== -1) {
-                            current[idx].upvotes = (current[idx].upvotes ?? 0) + 1;
-                            setFeedback(current);
-                          }
+                          queryCache.setQueryData<MyFeedbackPage>(
+                            queryKeys.feedback.mine({ limit, offset }),
+                            (previous) => ({
+                              total: previous?.total ?? 0,
+                              items: (previous?.items ?? []).map((f) =>
+                                f.id === item.id ? { ...f, upvotes: (f.upvotes ?? 0) + 1 } : f
+                              ),
+                            })
+                          );
 
-                          await feedbackService.upvoteFeedback(item.id);
-                        } catch (err) {
+                          const response = await feedbackService.upvoteFeedback(item.id);
+                          if (!response.success) {
+                            throw new Error(response.error?.message);
+                          }
+                        } catch {
                           // revert on error by refetching
-                          fetchFeedback();
+                          queryCache.invalidate(queryKeys.feedback.all);
                         } finally {
                           setUpvotingIds((prev) => {
                             const next = new Set(prev);
@@ -1,7 +1,8 @@
 /**
  * New Dump Modal
  * 
- * Modal for creating new dumps via text input or file upload
+ * Modal for creating new dumps via text input or file upload.
+ * Submissions go through the outbox so captures made offline are queued.
  */
 
 import React, { useState } from 'react';
@@ -11,7 +12,8 @@ import { Button } from './ui/Button';
 import { TextArea } from './ui/TextArea';
 import { Input } from './ui/Input';
 import { useAuth } from '../hooks/useAuth';
-import { createDump, uploadDump } from '../services/dumps.service';
+import { useOutbox } from '../hooks/useOutbox';
+import { useToast } from './Toast';
 
 interface NewDumpModalProps {
   isOpen: boolean;
@@ -26,6 +28,8 @@ export const NewDumpModal: React.FC<NewDumpModalProps> = ({
 }) => {
   const { t } = useTranslation();
   const { user } = useAuth();
+  const { submitDump } = useOutbox();
+  const { addToast } = useToast();
   const [mode, setMode] = useState<'text' | 'file'>('text');
   const [textContent, setTextContent] = useState('');
   const [file, setFile] = useState<File | null>(null);
@@ -57,7 +61,14 @@ export const NewDumpModal: React.FC<NewDumpModalProps> = ({
 
       try {
         setLoading(true);
-        await createDump(user.id, textContent, 'text');
+        const result = await submitDump({ kind: 'text', rawContent: textContent, contentType: 'text' });
+        if (!result.success) {
+          setError(result.error || t('newDumpModal.failedToCreateDump'));
+          return;
+        }
+        if (result.queued) {
+          addToast('info', t(result.offline ? 'outbox.queued' : 'outbox.queuedOnline'));
+        }
         handleReset();
         onSuccess();
         onClose();
@@ -74,7 +85,14 @@ export const NewDumpModal: React.FC<NewDumpModalProps> = ({
 
       try {
         setLoading(true);
-        await uploadDump(user.id, file, caption);
+        const result = await submitDump({ kind: 'file', file, caption: caption || undefined });
+        if (!result.success) {
+          setError(result.error || t('newDumpModal.failedToUploadFile'));
+          return;
+        }
+        if (result.queued) {
+          addToast('info', t(result.offline ? 'outbox.queued' : 'outbox.queuedOnline'));
+        }
         handleReset();
         onSuccess();
         onClose();
@@ -0,0 +1,136 @@
+/**
+ * OutboxBucket Component
+ *
+ * Dashboard section listing captures waiting in the offline outbox
+ * with their sync status and per-item retry/discard actions
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { CloudOff, FileText, Paperclip, RefreshCw, Trash2, AlertTriangle } from 'lucide-react';
+import type { OutboxItem } from '../types/outbox.types';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { cn } from '../lib/utils';
+
+export interface OutboxBucketProps {
+  items: OutboxItem[];
+  isOnline: boolean;
+  isReplaying: boolean;
+  onRetry: (itemId: string) => void;
+  onDiscard: (itemId: string) => void;
+}
+
+/**
+ * OutboxBucket Component
+ */
+export const OutboxBucket: React.FC<OutboxBucketProps> = ({
+  items,
+  isOnline,
+  isReplaying,
+  onRetry,
+  onDiscard,
+}) => {
+  const { t } = useTranslation();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  // Status badge variant mapping
+  const statusVariants: Record<OutboxItem['status'], 'pending' | 'processing' | 'overdue'> = {
+    pending: 'pending',
+    syncing: 'processing',
+    retrying: 'pending',
+    conflict: 'overdue',
+  };
+
+  return (
+    <div className="rounded-charming-lg bg-white border border-dashed border-slate-300 shadow-sm overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4">
+        <div className="flex items-center gap-3">
+          <CloudOff className="h-5 w-5 text-slate-600" />
+          <h3 className="text-lg font-heading font-semibold text-slate-900">
+            {t('outbox.title')}
+          </h3>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-200 text-slate-700">
+            {items.length}
+          </span>
+        </div>
+        <span className="text-sm text-slate-500">
+          {!isOnline ? t('outbox.offline') : isReplaying ? t('outbox.syncing') : t('outbox.waiting')}
+        </span>
+      </div>
+
+      {/* Items */}
+      <div className="p-4 pt-0 space-y-3">
+        {items.map(item => (
+          <div
+            key={item.id}
+            className={cn(
+              'rounded-charming-lg border p-4 bg-slate-50',
+              item.status === 'conflict' ? 'border-l-4 border-l-red-500 border-slate-200' : 'border-slate-200'
+            )}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                {item.kind === 'file' ? (
+                  <Paperclip className="h-4 w-4 text-slate-500" />
+                ) : (
+                  <FileText className="h-4 w-4 text-slate-500" />
+                )}
+                <Badge variant={statusVariants[item.status]}>
+                  {t(`outbox.status.${item.status}`)}
+                </Badge>
+                {item.attempts > 0 && item.status !== 'conflict' && (
+                  <span className="text-xs text-slate-500">
+                    {t('outbox.attempts', { count: item.attempts })}
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-slate-500">
+                {formatDisplayDate(item.createdAt)}
+              </span>
+            </div>
+
+            <p className="text-slate-900 text-sm mt-3 leading-relaxed">
+              {item.kind === 'file'
+                ? [item.fileName, item.caption].filter(Boolean).join(' — ')
+                : truncateText(item.rawContent, 150)}
+            </p>
+
+            {item.lastError && (
+              <p className="flex items-center gap-1 text-xs text-red-700 mt-2">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {item.lastError}
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2 mt-3">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onRetry(item.id)}
+                disabled={!isOnline || item.status === 'syncing'}
+                title={t('outbox.retry')}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onDiscard(item.id)}
+                disabled={item.status === 'syncing'}
+                title={t('outbox.discard')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
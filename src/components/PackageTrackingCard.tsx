@@ -9,7 +9,8 @@ import { Package, Edit2, CheckCircle, MapPin } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
 import type { TrackableItem } from '../services/tracking.service';
-import { completeTracking, TrackingStatus } from '../services/tracking.service';
+import { TrackingStatus } from '../services/tracking.service';
+import { useUndoableActions } from '../hooks/useUndoableActions';
 import { TrackingStatusModal } from './TrackingStatusModal';
 import { format } from 'date-fns';
 
@@ -22,22 +23,17 @@ export const PackageTrackingCard: React.FC<PackageTrackingCardProps> = ({
   tracking,
   onUpdate,
 }) => {
+  const { completeTracking } = useUndoableActions();
   const [loading, setLoading] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
 
+  // Completion can be undone from the toast, so no confirmation step
   const handleComplete = async () => {
-    if (!confirm('Mark this package as delivered?')) {
-      return;
-    }
-
-    try {
-      setLoading(true);
-      await completeTracking(tracking.id);
+    setLoading(true);
+    const completed = await completeTracking(tracking);
+    setLoading(false);
+    if (completed) {
       onUpdate();
-    } catch (err: any) {
-      alert(err.message || 'Failed to mark as delivered');
-    } finally {
-      setLoading(false);
     }
   };
 
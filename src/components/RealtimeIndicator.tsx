@@ -0,0 +1,50 @@
+/**
+ * RealtimeIndicator Component
+ *
+ * Small status pill showing whether live dump updates are connected
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRealtime } from '../hooks/useRealtime';
+import { cn } from '../lib/utils';
+
+export interface RealtimeIndicatorProps {
+  className?: string;
+}
+
+/**
+ * RealtimeIndicator Component
+ */
+export const RealtimeIndicator: React.FC<RealtimeIndicatorProps> = ({ className }) => {
+  const { t } = useTranslation();
+  const { connectionState, transport } = useRealtime();
+
+  if (connectionState === 'idle') {
+    return null;
+  }
+
+  const isLive = connectionState === 'open';
+  const label = isLive
+    ? transport === 'polling'
+      ? t('realtime.polling')
+      : t('realtime.live')
+    : connectionState === 'closed'
+      ? t('realtime.offline')
+      : t('realtime.connecting');
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1.5 text-xs text-slate-500', className)}
+      title={transport ? t('realtime.transport', { transport }) : undefined}
+    >
+      <span
+        className={cn(
+          'h-2 w-2 rounded-full',
+          isLive ? 'bg-emerald-500' : connectionState === 'closed' ? 'bg-slate-400' : 'bg-yellow-400 animate-pulse'
+        )}
+      />
+      {label}
+    </span>
+  );
+};
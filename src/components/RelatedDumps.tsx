@@ -0,0 +1,86 @@
+/**
+ * RelatedDumps Component
+ *
+ * "Related" section of the detail modal: nearest dumps by meaning and
+ * dumps mentioning the same people or organizations
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Building2, User } from 'lucide-react';
+import { Badge } from './ui/Badge';
+import { useRelatedDumps } from '../hooks/useRelatedDumps';
+import type { Dump } from '../types/dump.types';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { NEAR_DUPLICATE_SIMILARITY } from '../utils/similarity';
+
+export interface RelatedDumpsProps {
+  dump: Dump;
+  onOpen: (dump: Dump) => void;
+}
+
+/**
+ * RelatedDumps Component
+ */
+export const RelatedDumps: React.FC<RelatedDumpsProps> = ({ dump, onOpen }) => {
+  const { t } = useTranslation();
+  const { related, source, candidateCount } = useRelatedDumps(dump);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-900">{t('relatedDumps.title')}</h3>
+        <span className="text-xs text-slate-500">
+          {source === 'backend' ? t('relatedDumps.fromBackend') : t('relatedDumps.fromLoaded', { count: candidateCount })}
+        </span>
+      </div>
+
+      {related.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('relatedDumps.none')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {related.map(({ dump: relatedDump, similarity, sharedEntities }) => (
+            <li key={relatedDump.id}>
+              <button
+                type="button"
+                onClick={() => onOpen(relatedDump)}
+                className="w-full text-left p-3 rounded-lg border border-slate-200 hover:border-electric-purple hover:bg-slate-50 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm text-slate-900">
+                    {truncateText(relatedDump.ai_summary || relatedDump.raw_content, 120)}
+                  </p>
+                  {similarity !== null && (
+                    <Badge
+                      className={
+                        similarity >= NEAR_DUPLICATE_SIMILARITY
+                          ? 'shrink-0 bg-red-50 text-red-700 border-red-200'
+                          : 'shrink-0 bg-emerald-50 text-emerald-700 border-emerald-200'
+                      }
+                    >
+                      {similarity >= NEAR_DUPLICATE_SIMILARITY
+                        ? t('relatedDumps.nearDuplicate')
+                        : t('relatedDumps.similarity', { percent: Math.round(similarity * 100) })}
+                    </Badge>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs text-slate-500">
+                  <span>{formatDisplayDate(new Date(relatedDump.created_at))}</span>
+                  {sharedEntities.map(entity => (
+                    <span
+                      key={`${entity.kind}:${entity.value}`}
+                      className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-slate-700"
+                    >
+                      {entity.kind === 'person' ? <User className="h-3 w-3" /> : <Building2 className="h-3 w-3" />}
+                      {entity.value}
+                    </span>
+                  ))}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
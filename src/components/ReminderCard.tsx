@@ -9,7 +9,8 @@ import { Clock, Edit2, X } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
 import type { Reminder } from '../services/reminders.service';
-import { snoozeReminder, dismissReminder, ReminderStatus } from '../services/reminders.service';
+import { snoozeReminder, ReminderStatus } from '../services/reminders.service';
+import { useUndoableActions } from '../hooks/useUndoableActions';
 import { format } from 'date-fns';
 
 interface ReminderCardProps {
@@ -23,6 +24,7 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
   onEdit,
   onUpdate,
 }) => {
+  const { dismissReminder } = useUndoableActions();
   const [loading, setLoading] = useState(false);
   const [showSnooze, setShowSnooze] = useState(false);
   const [snoozeDate, setSnoozeDate] = useState('');
@@ -45,19 +47,13 @@ export const ReminderCard: React.FC<ReminderCardProps> = ({
     }
   };
 
+  // Dismissal can be undone from the toast, so no confirmation step
   const handleDismiss = async () => {
-    if (!confirm('Are you sure you want to dismiss this reminder?')) {
-      return;
-    }
-
-    try {
-      setLoading(true);
-      await dismissReminder(reminder.id);
+    setLoading(true);
+    const dismissed = await dismissReminder(reminder);
+    setLoading(false);
+    if (dismissed) {
       onUpdate();
-    } catch (err: any) {
-      alert(err.message || 'Failed to dismiss reminder');
-    } finally {
-      setLoading(false);
     }
   };
 
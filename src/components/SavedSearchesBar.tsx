@@ -0,0 +1,184 @@
+/**
+ * SavedSearchesBar Component
+ *
+ * Saved searches for the search page: apply one with a click, pin it as
+ * a smart view, save the current search (or changes to the open view)
+ * and copy a share link that carries the full search.
+ */
+
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Bookmark, BookmarkPlus, Link2, Pin, PinOff, Save, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { useToast } from './Toast';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+import type { SavedSearch, SearchState } from '../types/search.types';
+import { buildSearchPath, searchStateToParams } from '../utils/search-url';
+import { cn } from '../lib/utils';
+
+export interface SavedSearchesBarProps {
+  current: SearchState;
+  activeViewId: string | null;     // Saved search the page was opened from
+}
+
+const sameSearch = (a: SearchState, b: SearchState) =>
+  searchStateToParams(a).toString() === searchStateToParams(b).toString();
+
+/**
+ * SavedSearchesBar Component
+ */
+export const SavedSearchesBar: React.FC<SavedSearchesBarProps> = ({ current, activeViewId }) => {
+  const { t } = useTranslation();
+  const { addToast } = useToast();
+  const navigate = useNavigate();
+  const { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch } = useSavedSearches();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState(true);
+
+  const hasQuery = !!current.query.trim();
+  const activeView = savedSearches.find(search => search.id === activeViewId) ?? null;
+  const hasUnsavedChanges = !!activeView && hasQuery && !sameSearch(activeView, current);
+
+  const openSaveModal = () => {
+    setName(current.query.trim().slice(0, 60));
+    setPinned(true);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const saved = saveSearch(name, current, pinned);
+    if (!saved) return;
+
+    setIsSaveOpen(false);
+    addToast('success', t('savedSearches.saved', { name: saved.name }));
+    navigate(buildSearchPath(saved, saved.id), { replace: true });
+  };
+
+  const handleUpdateView = () => {
+    if (!activeView) return;
+    updateSavedSearch(activeView.id, { query: current.query.trim(), filters: current.filters, sort: current.sort });
+    addToast('success', t('savedSearches.updated', { name: activeView.name }));
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    deleteSavedSearch(search.id);
+    addToast('info', t('savedSearches.deleted', { name: search.name }));
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${buildSearchPath(current)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      addToast('success', t('savedSearches.linkCopied'));
+    } catch {
+      addToast('error', t('savedSearches.copyFailed'));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1.5 text-sm font-medium text-slate-600">
+        <Bookmark className="h-4 w-4" />
+        {t('savedSearches.title')}
+      </span>
+
+      {savedSearches.length === 0 && (
+        <span className="text-sm text-slate-400">{t('savedSearches.empty')}</span>
+      )}
+
+      {savedSearches.map(search => (
+        <span
+          key={search.id}
+          className={cn(
+            'flex items-center gap-1 rounded-full border pl-3 pr-1 py-0.5 text-sm',
+            search.id === activeViewId
+              ? 'border-electric-purple bg-electric-purple/10 text-electric-purple'
+              : 'border-slate-200 bg-white text-slate-700'
+          )}
+        >
+          <Link to={buildSearchPath(search, search.id)} className="max-w-[12rem] truncate hover:underline">
+            {search.name}
+          </Link>
+          <button
+            type="button"
+            onClick={() => updateSavedSearch(search.id, { pinned: !search.pinned })}
+            title={search.pinned ? t('savedSearches.unpin') : t('savedSearches.pin')}
+            aria-label={search.pinned ? t('savedSearches.unpin') : t('savedSearches.pin')}
+            aria-pressed={search.pinned}
+            className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+          >
+            {search.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDelete(search)}
+            title={t('common.delete')}
+            aria-label={t('common.delete')}
+            className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-red-600"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </span>
+      ))}
+
+      <div className="ml-auto flex items-center gap-2">
+        {hasUnsavedChanges && (
+          <Button variant="outline" size="sm" onClick={handleUpdateView}>
+            <Save className="h-4 w-4 mr-1.5" />
+            {t('savedSearches.updateView', { name: activeView.name })}
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={openSaveModal} disabled={!hasQuery}>
+          <BookmarkPlus className="h-4 w-4 mr-1.5" />
+          {t('savedSearches.save')}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleCopyLink} disabled={!hasQuery}>
+          <Link2 className="h-4 w-4 mr-1.5" />
+          {t('savedSearches.copyLink')}
+        </Button>
+      </div>
+
+      <Modal
+        isOpen={isSaveOpen}
+        onClose={() => setIsSaveOpen(false)}
+        title={t('savedSearches.saveTitle')}
+        description={t('savedSearches.saveDescription')}
+        size="sm"
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <Input
+            id="saved-search-name"
+            label={t('savedSearches.nameLabel')}
+            placeholder={t('savedSearches.namePlaceholder')}
+            value={name}
+            onChange={event => setName(event.target.value)}
+            maxLength={60}
+            autoFocus
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pinned}
+              onChange={event => setPinned(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-electric-purple focus:ring-electric-purple"
+            />
+            {t('savedSearches.pinOnSave')}
+          </label>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -1,11 +1,25 @@
 /**
  * SearchBar Component
  * 
- * Large search input with gradient border and icon
+ * Large search input with gradient border and icon.
+ * Understands the search query language: operators are shown as chips
+ * below the input, malformed clauses are explained, and operator names,
+ * categories and values autocomplete as you type. Otherwise the dropdown
+ * suggests recent queries, saved searches, categories and entity values.
  */
 
-import React, { type ChangeEvent } from 'react';
+import React, { useMemo, useRef, useState, type ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useCategoryList } from '../hooks/useApiQueries';
+import type {
+  QueryToken,
+  SavedSearch,
+  SearchSuggestion,
+  SearchSuggestionKind,
+  SearchSuggestionSources,
+} from '../types/search.types';
+import { getQueryCompletions, parseSearchQuery, QUERY_OPERATORS, type QueryCompletion } from '../utils/search-query';
+import { buildSearchSuggestions } from '../utils/search-suggestions';
 import { cn } from '../lib/utils';
 
 export interface SearchBarProps {
@@ -14,8 +28,25 @@ export interface SearchBarProps {
   onSearch?: () => void;
   placeholder?: string;
   className?: string;
+  suggestionSources?: SearchSuggestionSources;
+  onSelectSavedSearch?: (search: SavedSearch) => void;
+  onClearRecent?: () => void;
 }
 
+type DropdownRow =
+  | { type: 'completion'; completion: QueryCompletion }
+  | { type: 'suggestion'; suggestion: SearchSuggestion };
+
+// Group heading per suggestion kind
+const SUGGESTION_GROUP_KEYS: Record<SearchSuggestionKind, string> = {
+  recent: 'searchSuggestions.groups.recent',
+  saved: 'searchSuggestions.groups.saved',
+  category: 'searchSuggestions.groups.categories',
+  person: 'searchSuggestions.groups.people',
+  organization: 'searchSuggestions.groups.organizations',
+  location: 'searchSuggestions.groups.locations',
+};
+
 /**
  * SearchBar Component
  */
@@ -25,66 +56,132 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   placeholder,
   className,
+  suggestionSources,
+  onSelectSavedSearch,
+  onClearRecent,
 }) => {
   const { t } = useTranslation();
   const defaultPlaceholder = placeholder || t('search.placeholder');
+  const categoryList = useCategoryList();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [dropdownDismissed, setDropdownDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const categories = useMemo(() => categoryList ?? [], [categoryList]);
+  const parsed = useMemo(() => parseSearchQuery(value, categoryList ?? null), [value, categoryList]);
+  const chips = parsed.tokens.filter(token => token.kind !== 'text' || token.error);
+  const { start, end, completions } = useMemo(
+    () => getQueryCompletions(value, caret, categories),
+    [value, caret, categories]
+  );
+  const suggestions = useMemo(
+    () =>
+      suggestionSources
+        ? buildSearchSuggestions(suggestionSources, categories, value, value.slice(start, caret))
+        : [],
+    [suggestionSources, categories, value, start, caret]
+  );
+
+  // Operator completions take over while an operator is being typed
+  const rows: DropdownRow[] = completions.length > 0
+    ? completions.map(completion => ({ type: 'completion', completion }))
+    : suggestions.map(suggestion => ({ type: 'suggestion', suggestion }));
+  const showDropdown = isFocused && !dropdownDismissed && rows.length > 0;
+  // Completions always have a highlighted row; suggestions only once the user arrows into them
+  const highlighted = Math.min(
+    completions.length > 0 ? Math.max(activeIndex, 0) : activeIndex,
+    rows.length - 1
+  );
+
+  const syncCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setDropdownDismissed(false);
+    setActiveIndex(-1);
+  };
+
+  const replaceRange = (from: number, to: number, text: string) => {
+    const next = `${value.slice(0, from)}${text}${value.slice(to)}`;
+    const position = from + text.length;
+    onChange(next);
+    setCaret(position);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const acceptRow = (row: DropdownRow) => {
+    setActiveIndex(-1);
+    if (row.type === 'completion') {
+      replaceRange(start, end, row.completion.insert);
+      return;
+    }
+
+    const { suggestion } = row;
+    if (suggestion.kind === 'saved' && suggestion.savedSearch && onSelectSavedSearch) {
+      setDropdownDismissed(true);
+      onSelectSavedSearch(suggestion.savedSearch);
+    } else if (suggestion.kind === 'recent' || suggestion.kind === 'saved') {
+      setDropdownDismissed(true);
+      replaceRange(0, value.length, suggestion.insert);
+    } else {
+      replaceRange(start, end, suggestion.insert);
+    }
+  };
+
+  const removeToken = (token: QueryToken) => {
+    const next = `${value.slice(0, token.start)}${value.slice(token.end)}`.replace(/\s{2,}/g, ' ').trim();
+    onChange(next);
+    setCaret(Math.min(token.start, next.length));
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showDropdown) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(highlighted === -1 && step === -1 ? rows.length - 1 : (highlighted + step + rows.length) % rows.length);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && highlighted >= 0) {
+        e.preventDefault();
+        acceptRow(rows[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDropdownDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && onSearch) {
       onSearch();
     }
   };
 
-  return (
-    <div className={cn('relative', className)}>
-      {/* Gradient border container */}
-      <div className="p-[2px] rounded-charming-lg bg-gradient-primary">
-        <div className="relative bg-white rounded-charming-lg">
-          {/* Search Icon */}
-          <div className="absolute left-4 top-1/2 -translate-y-1/2 pointer-events-none">
-            <svg
-              className="h-6 w-6 text-slate-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-              />
-            </svg>
-          </div>
+  const errorMessage = (token: QueryToken) =>
+    t(`searchQuery.errors.${token.error}`, {
+      token: token.raw,
+      value: token.value,
+      operators: QUERY_OPERATORS.map(operator => `${operator}:`).join(' '),
+    });
 
-          {/* Input */}
-          <input
-            type="text"
-            value={value}
-            onChange={handleChange}
-            onKeyDown={handleKeyDown}
-            placeholder={defaultPlaceholder}
-            className={cn(
-              'w-full pl-14 pr-4 py-4 text-lg',
-              'bg-transparent',
-              'text-slate-900 placeholder-slate-400',
-              'focus:outline-none',
-              'rounded-charming-lg'
-            )}
-          />
-
-          {/* Clear Button */}
-          {value && (
-            <button
-              onClick={() => onChange('')}
-              className="absolute right-4 top-1/2 -translate-y-1/2 p-1 rounded-full hover:bg-slate-100 transition-colors"
-              aria-label="Clear search"
-            >
+  return (
+    <div className={className}>
+      <div className="relative">
+        {/* Gradient border container */}
+        <div className="p-[2px] rounded-charming-lg bg-gradient-primary">
+          <div className="relative bg-white rounded-charming-lg">
+            {/* Search Icon */}
+            <div className="absolute left-4 top-1/2 -translate-y-1/2 pointer-events-none">
               <svg
-                className="h-5 w-5 text-slate-400"
+                className="h-6 w-6 text-slate-400"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -93,13 +190,174 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M6 18L18 6M6 6l12 12"
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
                 />
               </svg>
-            </button>
-          )}
+            </div>
+
+            {/* Input */}
+            <input
+              ref={inputRef}
+              type="text"
+              value={value}
+              onChange={handleChange}
+              onKeyDown={handleKeyDown}
+              onKeyUp={syncCaret}
+              onClick={syncCaret}
+              onFocus={() => setIsFocused(true)}
+              onBlur={() => setIsFocused(false)}
+              role="combobox"
+              aria-expanded={showDropdown}
+              aria-controls="search-completions"
+              aria-autocomplete="list"
+              aria-invalid={parsed.errors.length > 0}
+              placeholder={defaultPlaceholder}
+              className={cn(
+                'w-full pl-14 pr-4 py-4 text-lg',
+                'bg-transparent',
+                'text-slate-900 placeholder-slate-400',
+                'focus:outline-none',
+                'rounded-charming-lg'
+              )}
+            />
+
+            {/* Clear Button */}
+            {value && (
+              <button
+                onClick={() => onChange('')}
+                className="absolute right-4 top-1/2 -translate-y-1/2 p-1 rounded-full hover:bg-slate-100 transition-colors"
+                aria-label="Clear search"
+              >
+                <svg
+                  className="h-5 w-5 text-slate-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            )}
+          </div>
         </div>
+
+        {/* Autocomplete & suggestions */}
+        {showDropdown && (
+          <ul
+            id="search-completions"
+            role="listbox"
+            // Keep focus in the input
+            onMouseDown={e => e.preventDefault()}
+            className="absolute left-0 right-0 top-full z-20 mt-1 max-h-80 overflow-y-auto rounded-charming border border-slate-200 bg-white py-1 shadow-lg"
+          >
+            {rows.map((row, index) => {
+              const previous = rows[index - 1];
+              const heading =
+                row.type === 'suggestion' &&
+                (previous?.type !== 'suggestion' || previous.suggestion.kind !== row.suggestion.kind)
+                  ? row.suggestion.kind
+                  : null;
+
+              return (
+                <React.Fragment key={row.type === 'completion' ? row.completion.insert : row.suggestion.id}>
+                  {heading && (
+                    <li role="presentation" className="flex items-center justify-between px-4 pt-2 pb-1">
+                      <span className="text-xs font-medium uppercase tracking-wide text-slate-400">
+                        {t(SUGGESTION_GROUP_KEYS[heading])}
+                      </span>
+                      {heading === 'recent' && onClearRecent && (
+                        <button
+                          type="button"
+                          onClick={onClearRecent}
+                          className="text-xs text-slate-400 hover:text-slate-700"
+                        >
+                          {t('searchSuggestions.clearRecent')}
+                        </button>
+                      )}
+                    </li>
+                  )}
+                  <li
+                    role="option"
+                    aria-selected={index === highlighted}
+                    onClick={() => acceptRow(row)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={cn(
+                      'flex cursor-pointer items-center justify-between gap-4 px-4 py-2 text-sm',
+                      index === highlighted ? 'bg-electric-purple/10 text-slate-900' : 'text-slate-700'
+                    )}
+                  >
+                    {row.type === 'completion' ? (
+                      <>
+                        <span className="font-mono">{row.completion.label}</span>
+                        {row.completion.operator && (
+                          <span className="text-xs text-slate-500">
+                            {t(`searchQuery.operators.${row.completion.operator}`)}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <span className="truncate">{row.suggestion.label}</span>
+                        {row.suggestion.kind === 'saved' && (
+                          <span className="truncate text-xs text-slate-500">{row.suggestion.insert}</span>
+                        )}
+                      </>
+                    )}
+                  </li>
+                </React.Fragment>
+              );
+            })}
+          </ul>
+        )}
       </div>
+
+      {/* Parsed clauses */}
+      {chips.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {chips.map(token => (
+            <span
+              key={`${token.start}-${token.raw}`}
+              title={token.error ? errorMessage(token) : undefined}
+              className={cn(
+                'flex items-center gap-1 rounded-full border pl-2.5 pr-1 py-0.5 font-mono text-xs',
+                token.error
+                  ? 'border-red-300 bg-red-50 text-red-700'
+                  : token.kind === 'operator'
+                    ? 'border-electric-purple/30 bg-electric-purple/10 text-electric-purple'
+                    : token.kind === 'exclude'
+                      ? 'border-slate-300 bg-slate-100 text-slate-600 line-through'
+                      : 'border-bright-cyan/40 bg-bright-cyan/10 text-slate-700'
+              )}
+            >
+              {token.raw}
+              <button
+                type="button"
+                onClick={() => removeToken(token)}
+                aria-label={t('searchQuery.removeClause', { clause: token.raw })}
+                className="rounded-full p-0.5 no-underline hover:bg-black/5"
+              >
+                <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Clause errors */}
+      {parsed.errors.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-sm text-red-600" role="alert">
+          {parsed.errors.map(token => (
+            <li key={`${token.start}-${token.raw}`}>{errorMessage(token)}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
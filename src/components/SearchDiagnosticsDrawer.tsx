@@ -0,0 +1,157 @@
+/**
+ * SearchDiagnosticsDrawer Component
+ *
+ * Search-level debugging: how the backend rewrote the query, how the
+ * results split between semantic, fuzzy and exact matching, the filters
+ * it applied and the health of the vector index
+ */
+
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal } from './ui/Modal';
+import { Badge } from './ui/Badge';
+import type { SearchResults } from '../types/search.types';
+import { addedQueryTerms, countMatchTypes, flattenDiagnostics, MATCH_TYPES } from '../utils/search-diagnostics';
+
+export interface SearchDiagnosticsDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  results: SearchResults;
+}
+
+const SOURCE_COLORS = {
+  semanticResults: 'bg-purple-500',
+  fuzzyResults: 'bg-blue-500',
+  exactResults: 'bg-green-500',
+} as const;
+
+/**
+ * Titled block of the drawer
+ */
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</h4>
+    {children}
+  </section>
+);
+
+/**
+ * key: value rows, or a placeholder when there are none
+ */
+const DiagnosticRows: React.FC<{ rows: Array<{ key: string; value: string }>; empty: string }> = ({ rows, empty }) =>
+  rows.length > 0 ? (
+    <dl className="divide-y divide-slate-100 rounded-lg border border-slate-200 text-sm">
+      {rows.map(row => (
+        <div key={row.key} className="flex justify-between gap-4 px-3 py-1.5">
+          <dt className="font-mono text-xs text-slate-500">{row.key}</dt>
+          <dd className="break-all text-right text-slate-800">{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  ) : (
+    <p className="text-sm text-slate-500">{empty}</p>
+  );
+
+/**
+ * SearchDiagnosticsDrawer Component
+ */
+export const SearchDiagnosticsDrawer: React.FC<SearchDiagnosticsDrawerProps> = ({ isOpen, onClose, results }) => {
+  const { t } = useTranslation();
+  const { query, metadata } = results;
+
+  const addedTerms = useMemo(
+    () => (query ? addedQueryTerms(query.original, query.enhanced) : []),
+    [query]
+  );
+  const pageCounts = useMemo(() => countMatchTypes(results.results), [results.results]);
+  const vectorHealth = useMemo(() => flattenDiagnostics(metadata?.vectorHealth), [metadata]);
+  const appliedFilters = useMemo(() => flattenDiagnostics(metadata?.filters), [metadata]);
+
+  const sourceTotal = metadata
+    ? metadata.semanticResults + metadata.fuzzyResults + metadata.exactResults
+    : 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      placement="right"
+      title={t('searchDiagnostics.title')}
+      description={t('searchDiagnostics.description')}
+    >
+      <div className="space-y-6">
+        {/* Query */}
+        <Section title={t('searchDiagnostics.query')}>
+          <dl className="space-y-2 text-sm">
+            <div>
+              <dt className="text-xs text-slate-500">{t('searchDiagnostics.original')}</dt>
+              <dd className="font-mono text-slate-900">{query?.original || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-slate-500">{t('searchDiagnostics.enhanced')}</dt>
+              <dd className="font-mono text-slate-900">{query?.enhanced || '—'}</dd>
+            </div>
+          </dl>
+          {addedTerms.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              <span className="text-slate-500">{t('searchDiagnostics.addedTerms')}</span>
+              {addedTerms.map(term => (
+                <Badge key={term} className="bg-indigo-50 text-indigo-700 border-indigo-200">
+                  +{term}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {query?.processingTime !== undefined && (
+            <p className="text-xs text-slate-500">
+              {t('searchDiagnostics.processingTime', { ms: query.processingTime })}
+            </p>
+          )}
+        </Section>
+
+        {/* Result sources */}
+        <Section title={t('searchDiagnostics.sources')}>
+          {metadata ? (
+            <div className="space-y-2">
+              {(Object.keys(SOURCE_COLORS) as Array<keyof typeof SOURCE_COLORS>).map(source => (
+                <div key={source} className="text-sm">
+                  <div className="flex justify-between text-slate-700">
+                    <span>{t(`searchDiagnostics.source.${source}`)}</span>
+                    <span className="tabular-nums">{metadata[source]}</span>
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-slate-100">
+                    <div
+                      className={`h-1.5 rounded-full ${SOURCE_COLORS[source]}`}
+                      style={{ width: `${sourceTotal ? (metadata[source] / sourceTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">{t('searchDiagnostics.notReported')}</p>
+          )}
+          <p className="text-xs text-slate-500">
+            {t('searchDiagnostics.pageSplit')}{' '}
+            {MATCH_TYPES.map(type => `${t(`searchDiagnostics.matchType.${type}`)} ${pageCounts[type]}`).join(' · ')}
+          </p>
+          {!!results.locallyFiltered && (
+            <p className="text-xs text-slate-500">
+              {t('searchDiagnostics.locallyFiltered', { count: results.locallyFiltered })}
+            </p>
+          )}
+        </Section>
+
+        {/* Applied filters */}
+        <Section title={t('searchDiagnostics.filters')}>
+          <DiagnosticRows rows={appliedFilters} empty={t('searchDiagnostics.noFilters')} />
+        </Section>
+
+        {/* Vector index */}
+        <Section title={t('searchDiagnostics.vectorHealth')}>
+          <DiagnosticRows rows={vectorHealth} empty={t('searchDiagnostics.notReported')} />
+        </Section>
+      </div>
+    </Modal>
+  );
+};
@@ -7,30 +7,55 @@
  * - AI summary (prominent)
  * - Raw content preview
  * - Highlighted matched content
+ * - "More like this" (semantic neighbors, found locally)
  */
 
-import React from 'react';
-import { Bell, Package, Target } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Bell, ChevronDown, Package, Sparkles, Target } from 'lucide-react';
 import { Badge } from './ui/Badge';
 import type { DumpDerived } from '../types/dump.types';
 import type { SearchResult } from '../types/search.types';
-import { formatDisplayDate, truncateText, formatCategory } from '../utils/formatting';
+import { CategoryLabel } from './CategoryLabel';
+import { useDumpCategory } from '../hooks/useApiQueries';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { queryTermCoverage } from '../utils/search-diagnostics';
 import { cn } from '../lib/utils';
 
 export interface SearchResultCardProps {
   result: SearchResult & { dump: DumpDerived };
   onUpdate?: (dumpId: string, updates: Partial<DumpDerived>) => void;
   onClick?: (dumpId: string) => void;
+  selectable?: boolean;                                   // Show a checkbox; clicks toggle selection
+  selected?: boolean;
+  onSelect?: (dumpId: string, range: boolean) => void;    // range = shift-click
+  focused?: boolean;                                      // Under the j/k keyboard cursor
+  queryText?: string;                                     // Query as the backend ran it (for term coverage)
+  onMoreLikeThis?: (dump: DumpDerived) => void;
 }
 
 /**
  * SearchResultCard Component
  */
 export const SearchResultCard: React.FC<SearchResultCardProps> = ({ 
-  result, 
-  onClick 
+  result,
+  onClick,
+  selectable,
+  selected,
+  onSelect,
+  focused,
+  queryText,
+  onMoreLikeThis,
 }) => {
+  const { t } = useTranslation();
   const { dump, relevanceScore, matchType, explanation, highlightedContent } = result;
+  const category = useDumpCategory(dump);
+  const [showExplanation, setShowExplanation] = useState(false);
+
+  const coverage = useMemo(
+    () => (showExplanation && queryText ? queryTermCoverage(queryText, dump) : null),
+    [showExplanation, queryText, dump]
+  );
 
   // Status badge variant mapping
   const statusVariants: Record<string, 'overdue' | 'pending' | 'approved' | 'rejected' | 'processing'> = {
@@ -52,22 +77,37 @@ export const SearchResultCard: React.FC<SearchResultCardProps> = ({
 
   return (
     <div
-      onClick={() => onClick?.(dump.id)}
+      onClick={event => (selectable ? onSelect?.(dump.id, event.shiftKey) : onClick?.(dump.id))}
       className={cn(
         'rounded-charming-lg bg-white border shadow-sm hover:shadow-glow transition-all p-4',
         dump.isOverdue && 'border-l-4 border-l-red-500 border-slate-200',
         !dump.isOverdue && dump.hasReminder && 'border-l-4 border-l-orange-400 border-slate-200',
         !dump.isOverdue && !dump.hasReminder && dump.hasTracking && 'border-l-4 border-l-cyan-400 border-slate-200',
         !dump.isOverdue && !dump.hasReminder && !dump.hasTracking && 'border-slate-200',
-        onClick && 'cursor-pointer'
+        (onClick || selectable) && 'cursor-pointer',
+        selected && 'ring-2 ring-electric-purple',
+        focused && !selected && 'ring-2 ring-electric-purple/50 ring-offset-2'
       )}
+      data-dump-id={dump.id}
+      aria-current={focused || undefined}
     >
       {/* Header: Category + Status + Badges */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-2 flex-wrap">
-          <span className="text-sm font-medium text-slate-700">
-            {formatCategory(dump.categoryName || dump.category?.name)}
-          </span>
+          {selectable && (
+            <input
+              type="checkbox"
+              checked={!!selected}
+              readOnly
+              aria-label={t('bulk.selectItem')}
+              className="h-4 w-4 rounded border-slate-300 accent-electric-purple cursor-pointer"
+            />
+          )}
+          <CategoryLabel
+            name={dump.categoryName || category?.name}
+            category={category}
+            className="text-sm font-medium text-slate-700"
+          />
           <Badge variant={statusVariants[dump.status] || 'default'}>
             {dump.status}
           </Badge>
@@ -178,8 +218,93 @@ export const SearchResultCard: React.FC<SearchResultCardProps> = ({
             </span>
           )}
         </div>
+
+        <div className="flex shrink-0 items-center gap-3">
+          {onMoreLikeThis && (
+            <button
+              type="button"
+              onClick={event => {
+                event.stopPropagation();
+                onMoreLikeThis(dump);
+              }}
+              className="flex items-center gap-1 text-xs font-medium text-electric-purple hover:underline"
+            >
+              <Sparkles className="h-3.5 w-3.5" />
+              {t('search.similar.moreLikeThis')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={event => {
+              event.stopPropagation();
+              setShowExplanation(open => !open);
+            }}
+            aria-expanded={showExplanation}
+            className="flex items-center gap-1 text-xs font-medium text-electric-purple hover:underline"
+          >
+            {t('searchDiagnostics.whyMatched')}
+            <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', showExplanation && 'rotate-180')} />
+          </button>
+        </div>
       </div>
 
+      {/* Why this matched */}
+      {showExplanation && (
+        <div
+          onClick={event => event.stopPropagation()}
+          className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700 cursor-default"
+        >
+          <div>
+            <div className="flex justify-between">
+              <span className="font-medium">{t('searchDiagnostics.relevance')}</span>
+              <span className="tabular-nums">{relevanceScore.toFixed(3)}</span>
+            </div>
+            <div className="mt-1 h-1.5 rounded-full bg-slate-200">
+              <div
+                className="h-1.5 rounded-full bg-emerald-500"
+                style={{ width: `${Math.min(Math.max(relevancePercentage, 0), 100)}%` }}
+              />
+            </div>
+          </div>
+
+          <p>
+            <span className="font-medium">{t(`searchDiagnostics.matchType.${matchType}`)}:</span>{' '}
+            {t(`searchDiagnostics.matchTypeHint.${matchType}`)}
+          </p>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="font-medium">{t('searchDiagnostics.matchedFields')}</span>
+            {result.matchedFields.length > 0 ? (
+              result.matchedFields.map(field => (
+                <Badge key={field} className="font-mono">
+                  {field}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-slate-500">—</span>
+            )}
+          </div>
+
+          {coverage && (coverage.found.length > 0 || coverage.missing.length > 0) && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="font-medium">{t('searchDiagnostics.terms')}</span>
+              {coverage.found.map(term => (
+                <Badge key={term} className="bg-emerald-50 text-emerald-700 border-emerald-200">
+                  {term}
+                </Badge>
+              ))}
+              {coverage.missing.map(term => (
+                <Badge key={term} className="bg-white text-slate-400 border-slate-200 line-through">
+                  {term}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {explanation && <p className="whitespace-pre-line text-slate-600">{explanation}</p>}
+        </div>
+      )}
+
       {/* Notes (if present) */}
       {dump.notes && (
         <div className="mt-3 pt-3 border-t border-slate-200">
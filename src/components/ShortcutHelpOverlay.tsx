@@ -0,0 +1,45 @@
+/**
+ * ShortcutHelpOverlay Component
+ *
+ * Lists every keyboard shortcut; opened with "?" or from the command palette
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal } from './ui/Modal';
+import { ShortcutKeys } from './CommandPalette';
+import { SHORTCUT_HELP } from '../utils/keyboard';
+
+export interface ShortcutHelpOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * ShortcutHelpOverlay Component
+ */
+export const ShortcutHelpOverlay: React.FC<ShortcutHelpOverlayProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('shortcuts.title')} description={t('shortcuts.description')} size="lg">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {SHORTCUT_HELP.map(section => (
+          <section key={section.titleKey}>
+            <h4 className="mb-2 text-sm font-heading font-semibold text-slate-900">{t(section.titleKey)}</h4>
+            <dl className="space-y-1.5">
+              {section.shortcuts.map(shortcut => (
+                <div key={shortcut.descriptionKey} className="flex items-center justify-between gap-4 text-sm">
+                  <dt className="text-slate-600">{t(shortcut.descriptionKey)}</dt>
+                  <dd>
+                    <ShortcutKeys keys={shortcut.keys} />
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </div>
+    </Modal>
+  );
+};
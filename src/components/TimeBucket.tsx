@@ -2,20 +2,33 @@
  * TimeBucket Component
  * 
  * Collapsible section displaying dumps grouped by time bucket
- * with lazy rendering, expand/collapse toggle, and empty state
+ * with lazy rendering, expand/collapse toggle, and empty state.
+ * Long buckets are windowed so only the visible DumpCards are mounted.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { TimeBucketGroup, DumpDerived } from '../types/dump.types';
+import { useWindowedList } from '../hooks/useWindowedList';
 import { DumpCard } from './DumpCard';
 import { EmptyState } from './EmptyState';
 import { cn } from '../lib/utils';
 
+const WINDOWING_THRESHOLD = 30;   // Render small buckets in full
+const ESTIMATED_CARD_HEIGHT = 180; // DumpCard height + gap, corrected once measured
+
 export interface TimeBucketProps {
   timeBucket: TimeBucketGroup;
   onDumpUpdate?: (dumpId: string, updates: Partial<DumpDerived>) => void;
   onDumpClick?: (dump: DumpDerived, mode?: 'view' | 'reject') => void;
+  selection?: TimeBucketSelection;  // Present while the dashboard is in selection mode
+  focusedId?: string | null;         // Dump under the j/k keyboard cursor
+}
+
+export interface TimeBucketSelection {
+  isSelected: (dumpId: string) => boolean;
+  onToggle: (dumpId: string, range: boolean) => void;
+  onToggleAll: (dumpIds: string[], selected: boolean) => void;
 }
 
 /**
@@ -25,6 +38,8 @@ export const TimeBucket: React.FC<TimeBucketProps> = ({
   timeBucket,
   onDumpUpdate,
   onDumpClick,
+  selection,
+  focusedId,
 }) => {
   const { t } = useTranslation();
   const localStorageKey = `timeBucket_${timeBucket.bucket}_expanded`;
@@ -43,6 +58,25 @@ export const TimeBucket: React.FC<TimeBucketProps> = ({
     localStorage.setItem(localStorageKey, String(isExpanded));
   }, [isExpanded, localStorageKey]);
 
+  const dumpIds = useMemo(() => timeBucket.dumps.map(dump => dump.id), [timeBucket.dumps]);
+  // Keyboard navigation into a collapsed bucket shows it while the cursor is inside
+  const hasFocus = !!focusedId && dumpIds.includes(focusedId);
+  const showContent = isExpanded || hasFocus;
+  const { containerRef, measureItem, scrollToKey, start, end, paddingTop, paddingBottom } = useWindowedList({
+    keys: dumpIds,
+    estimateSize: ESTIMATED_CARD_HEIGHT,
+    enabled: showContent && dumpIds.length > WINDOWING_THRESHOLD,
+  });
+
+  // Windowed buckets may not have the focused card mounted yet
+  useEffect(() => {
+    if (hasFocus && focusedId) {
+      scrollToKey(focusedId);
+    }
+  }, [hasFocus, focusedId, scrollToKey]);
+
+  const allSelected = !!selection && dumpIds.length > 0 && dumpIds.every(id => selection.isSelected(id));
+
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded);
   };
@@ -73,7 +107,7 @@ export const TimeBucket: React.FC<TimeBucketProps> = ({
           <svg
             className={cn(
               'h-5 w-5 text-slate-600 transition-transform',
-              isExpanded && 'rotate-90'
+              showContent && 'rotate-90'
             )}
             fill="none"
             stroke="currentColor"
@@ -109,13 +143,13 @@ export const TimeBucket: React.FC<TimeBucketProps> = ({
 
         {/* Expand/Collapse Text */}
         <span className="text-sm text-slate-500">
-          {isExpanded ? t('common.close') : t('common.next')}
+          {showContent ? t('common.close') : t('common.next')}
         </span>
       </button>
 
       {/* Content */}
-      {isExpanded && (
-        <div className="p-4 pt-0 space-y-3">
+      {showContent && (
+        <div className="p-4 pt-0">
           {timeBucket.dumps.length === 0 ? (
             <div className="py-6">
               <EmptyState
@@ -139,14 +173,42 @@ export const TimeBucket: React.FC<TimeBucketProps> = ({
               />
             </div>
           ) : (
-            timeBucket.dumps.map(dump => (
-              <DumpCard
-                key={dump.id}
-                dump={dump}
-                onUpdate={onDumpUpdate}
-                onClick={onDumpClick}
-              />
-            ))
+            <>
+              {selection && (
+                <label className="flex items-center gap-2 pb-3 text-sm text-slate-600 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => selection.onToggleAll(dumpIds, !allSelected)}
+                    className="h-4 w-4 rounded border-slate-300 accent-electric-purple"
+                  />
+                  {t('bulk.selectAll', { count: dumpIds.length })}
+                </label>
+              )}
+              <div
+                ref={containerRef}
+                style={{ paddingTop, paddingBottom }}
+              >
+                {timeBucket.dumps.slice(start, end).map((dump, index) => (
+                  // Only the bucket's real last dump drops the gap, not the last one in the window
+                  <div
+                    key={dump.id}
+                    ref={measureItem(dump.id)}
+                    className={start + index < timeBucket.dumps.length - 1 ? 'pb-3' : undefined}
+                  >
+                    <DumpCard
+                      dump={dump}
+                      onUpdate={onDumpUpdate}
+                      onClick={onDumpClick}
+                      selectable={!!selection}
+                      selected={selection?.isSelected(dump.id)}
+                      onSelect={selection?.onToggle}
+                      focused={dump.id === focusedId}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
           )}
         </div>
       )}
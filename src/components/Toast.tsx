@@ -3,16 +3,22 @@ import { cn } from '../lib/utils';
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   type: ToastType;
   message: string;
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
   toasts: Toast[];
-  addToast: (type: ToastType, message: string, duration?: number) => void;
+  addToast: (type: ToastType, message: string, duration?: number, action?: ToastAction) => string;
   removeToast: (id: string) => void;
 }
 
@@ -35,9 +41,9 @@ export const useToast = () => {
 export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const addToast = useCallback((type: ToastType, message: string, duration: number = 5000) => {
+  const addToast = useCallback((type: ToastType, message: string, duration: number = 5000, action?: ToastAction) => {
     const id = `toast-${Date.now()}-${Math.random()}`;
-    const newToast: Toast = { id, type, message, duration };
+    const newToast: Toast = { id, type, message, duration, action };
     
     setToasts((prev) => [...prev, newToast]);
 
@@ -47,6 +53,8 @@ export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         removeToast(id);
       }, duration);
     }
+
+    return id;
   }, []);
 
   const removeToast = useCallback((id: string) => {
@@ -158,6 +166,17 @@ const ToastItem: React.FC<{
     >
       <div className={config.text}>{config.icon}</div>
       <p className={cn('flex-1 text-sm font-medium', config.text)}>{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onClose();
+          }}
+          className={cn('text-sm font-semibold underline underline-offset-2 hover:opacity-80', config.text)}
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         onClick={onClose}
         className={cn('text-slate-400 hover:text-slate-600 transition-colors', config.text)}
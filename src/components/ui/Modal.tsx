@@ -8,6 +8,7 @@ export interface ModalProps {
   description?: string;
   children: React.ReactNode;
   size?: 'sm' | 'md' | 'lg' | 'xl' | 'full';
+  placement?: 'center' | 'right';    // 'right' slides in as a full-height drawer
   showCloseButton?: boolean;
   className?: string;
 }
@@ -34,6 +35,7 @@ export const Modal: React.FC<ModalProps> = ({
   description,
   children,
   size = 'md',
+  placement = 'center',
   showCloseButton = true,
   className,
 }) => {
@@ -65,7 +67,10 @@ export const Modal: React.FC<ModalProps> = ({
 
   return (
     <div 
-      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      className={cn(
+        'fixed inset-0 z-50 flex',
+        placement === 'right' ? 'justify-end' : 'items-center justify-center p-4'
+      )}
       onClick={onClose}
       role="dialog"
       aria-modal="true"
@@ -77,7 +82,8 @@ export const Modal: React.FC<ModalProps> = ({
       {/* Modal Panel */}
       <div
         className={cn(
-          'relative bg-white rounded-charming-xl shadow-glow-lg w-full max-h-[90vh] flex flex-col overflow-hidden',
+          'relative bg-white shadow-glow-lg w-full flex flex-col overflow-hidden',
+          placement === 'right' ? 'h-full' : 'rounded-charming-xl max-h-[90vh]',
           modalSizes[size],
           className
         )}
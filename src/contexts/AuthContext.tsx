@@ -1,6 +1,9 @@
 import React, { createContext, useState, useEffect, useCallback } from 'react';
 import i18n from '../i18n/config';
 import { apiService } from '../services/api';
+import { queryCache } from '../services/query-cache';
+import { clearOutbox } from '../services/outbox.service';
+import { clearSearchIndexDocuments } from '../services/search-index.service';
 import type { User } from '../types/dump.types';
 
 /**
@@ -145,10 +148,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    */
   const logout = useCallback(() => {
     apiService.logout();
+    queryCache.clear();
     localStorage.removeItem('user');
+    // Queued captures and the local search index hold the user's content
+    if (user) {
+      Promise.all([clearOutbox(user.id), clearSearchIndexDocuments(user.id)]).catch(err =>
+        console.error('Failed to clear local data:', err)
+      );
+    }
     setUser(null);
     setError(null);
-  }, []);
+  }, [user]);
 
   /**
    * Clear error message
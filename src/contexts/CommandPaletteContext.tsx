@@ -0,0 +1,178 @@
+/**
+ * Command Palette Context
+ *
+ * Keyboard layer for the authenticated app: Ctrl/Cmd+K opens a command
+ * palette (navigation, new dump, dump search and whatever the current page
+ * registers), "?" shows the shortcut help, "N" opens the new dump modal and
+ * "G then <key>" jumps between routes.
+ */
+
+import React, { createContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Plus, Keyboard } from 'lucide-react';
+import type { Command, CommandSource } from '../types/command.types';
+import type { Dump, DumpDerived } from '../types/dump.types';
+import { useDumps } from '../hooks/useDumps';
+import { CommandPalette } from '../components/CommandPalette';
+import { ShortcutHelpOverlay } from '../components/ShortcutHelpOverlay';
+import { NewDumpModal } from '../components/NewDumpModal';
+import { DumpDetailModal } from '../components/DumpDetailModal';
+import { NAV_ROUTES, PROFILE_ROUTE } from '../utils/navigation';
+import { isPlainShortcut } from '../utils/keyboard';
+import { enrichDump } from '../utils/time-buckets';
+
+export interface CommandPaletteContextState {
+  openPalette: () => void;
+  openHelp: () => void;
+  openNewDump: () => void;
+  registerCommands: (sourceId: string, source: CommandSource) => () => void;
+}
+
+export const CommandPaletteContext = createContext<CommandPaletteContextState | undefined>(undefined);
+
+const SEQUENCE_TIMEOUT_MS = 1000;  // Time allowed between "G" and the route key
+
+export const CommandPaletteProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { refetchDumps } = useDumps();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isNewDumpOpen, setIsNewDumpOpen] = useState(false);
+  const [openedDump, setOpenedDump] = useState<DumpDerived | null>(null);
+  const [sources, setSources] = useState<Map<string, CommandSource>>(() => new Map());
+  const pendingGRef = useRef<number | null>(null);
+
+  const openPalette = useCallback(() => setIsPaletteOpen(true), []);
+  const openHelp = useCallback(() => setIsHelpOpen(true), []);
+  const openNewDump = useCallback(() => setIsNewDumpOpen(true), []);
+
+  /**
+   * Add a page's commands; returns the unregister function
+   */
+  const registerCommands = useCallback((sourceId: string, source: CommandSource) => {
+    setSources(prev => new Map(prev).set(sourceId, source));
+    return () => {
+      setSources(prev => {
+        if (prev.get(sourceId) !== source) return prev;
+        const next = new Map(prev);
+        next.delete(sourceId);
+        return next;
+      });
+    };
+  }, []);
+
+  /**
+   * Built-in commands followed by those registered by the current page
+   */
+  const getCommands = (): Command[] => [
+    ...[...NAV_ROUTES, PROFILE_ROUTE].map<Command>(route => ({
+      id: `nav:${route.path}`,
+      title: t('commands.goTo', { page: t(route.labelKey) }),
+      group: 'navigation',
+      shortcut: ['G', route.shortcutKey.toUpperCase()],
+      icon: route.icon,
+      run: () => navigate(route.path),
+    })),
+    {
+      id: 'create:dump',
+      title: t('dashboardTitle.newDump'),
+      group: 'create',
+      keywords: ['capture', 'add', 'note'],
+      shortcut: ['N'],
+      icon: Plus,
+      run: openNewDump,
+    },
+    {
+      id: 'help:shortcuts',
+      title: t('shortcuts.title'),
+      group: 'page',
+      keywords: ['keyboard', 'help'],
+      shortcut: ['?'],
+      icon: Keyboard,
+      run: openHelp,
+    },
+    ...Array.from(sources.values()).flatMap(source => source()),
+  ];
+
+  // Global shortcuts
+  useEffect(() => {
+    const clearPendingG = () => {
+      if (pendingGRef.current !== null) {
+        window.clearTimeout(pendingGRef.current);
+        pendingGRef.current = null;
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Ctrl/Cmd+K works everywhere, including text fields
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+
+      if (!isPlainShortcut(event) || event.defaultPrevented) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      // The key after "G" belongs to the sequence, never to page shortcuts
+      if (pendingGRef.current !== null) {
+        clearPendingG();
+        event.preventDefault();
+        const route = [...NAV_ROUTES, PROFILE_ROUTE].find(item => item.shortcutKey === key);
+        if (route) {
+          navigate(route.path);
+        }
+        return;
+      }
+
+      if (event.key === '?') {
+        event.preventDefault();
+        setIsHelpOpen(true);
+      } else if (key === 'g' && !event.shiftKey) {
+        event.preventDefault();
+        pendingGRef.current = window.setTimeout(clearPendingG, SEQUENCE_TIMEOUT_MS);
+      } else if (key === 'n' && !event.shiftKey) {
+        event.preventDefault();
+        setIsNewDumpOpen(true);
+      }
+    };
+
+    // Capture phase so global shortcuts see keys before page-level handlers
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      clearPendingG();
+    };
+  }, [navigate]);
+
+  const value: CommandPaletteContextState = {
+    openPalette,
+    openHelp,
+    openNewDump,
+    registerCommands,
+  };
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+        commands={isPaletteOpen ? getCommands() : []}
+        onOpenDump={(dump: Dump) => setOpenedDump(enrichDump(dump))}
+      />
+      <ShortcutHelpOverlay isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+      <NewDumpModal
+        isOpen={isNewDumpOpen}
+        onClose={() => setIsNewDumpOpen(false)}
+        onSuccess={() => refetchDumps()}
+      />
+      <DumpDetailModal dump={openedDump} isOpen={!!openedDump} onClose={() => setOpenedDump(null)} />
+    </CommandPaletteContext.Provider>
+  );
+};
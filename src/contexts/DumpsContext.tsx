@@ -2,21 +2,34 @@
  * Dumps Context
  * 
  * Global state management for dumps data
+ * Dumps are loaded a page at a time (newest first) via cursor pagination
+ * Dumps pending deletion (undo grace window) are hidden but kept in memory
  */
 
-import React, { createContext, useState, useCallback, type ReactNode } from 'react';
-import type { Dump } from '../types/dump.types';
+import React, { createContext, useState, useCallback, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import type { Category, Dump } from '../types/dump.types';
 import * as dumpsService from '../services/dumps.service';
 
+const DUMPS_PAGE_SIZE = 50;
+
 export interface DumpsContextState {
   dumps: Dump[];
+  total: number;
+  hasMore: boolean;
   loading: boolean;
-  error: string | null;
+  loadingMore: boolean;
+  error: string | null;           // List loading failures; per-dump actions return their own error
   fetchDumps: (userId: string) => Promise<void>;
+  loadMoreDumps: () => Promise<void>;
   refetchDumps: () => Promise<void>;
   updateDumpLocally: (dumpId: string, updates: Partial<Dump>) => void;
+  upsertDumpLocally: (dump: Dump) => void;
+  setDumpsHidden: (dumpIds: string[], hidden: boolean) => void;
+  hiddenDumpIds: ReadonlySet<string>;   // Hidden dumps, for lists kept outside this context (e.g. the review queue)
   acceptDumpWithOptimism: (dumpId: string, updates: { category?: string; notes?: string }) => Promise<{ success: boolean; error?: string }>;
   rejectDumpWithOptimism: (dumpId: string, reason: string) => Promise<{ success: boolean; error?: string }>;
+  recategorizeDumpWithOptimism: (dumpId: string, categoryName: string) => Promise<{ success: boolean; error?: string }>;
+  deleteDumpWithOptimism: (dumpId: string) => Promise<{ success: boolean; error?: string }>;
   clearError: () => void;
 }
 
@@ -24,35 +37,110 @@ export const DumpsContext = createContext<DumpsContextState | undefined>(undefin
 
 export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [dumps, setDumps] = useState<Dump[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUserId, setLastUserId] = useState<string | null>(null);
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(() => new Set());
+
+  // Bumped on every first-page load so late "load more" responses are dropped
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const loadedCountRef = useRef(0);
+
+  useEffect(() => {
+    loadedCountRef.current = dumps.length;
+  }, [dumps.length]);
 
-  const fetchDumps = useCallback(async (userId: string) => {
+  /**
+   * Load the first page, replacing whatever is in memory
+   */
+  const loadFirstPage = useCallback(async (userId: string, limit: number) => {
+    const generation = ++generationRef.current;
     setLoading(true);
     setError(null);
     setLastUserId(userId);
 
     try {
-      const response = await dumpsService.fetchDumps(userId);
+      const response = await dumpsService.fetchDumpsPage(userId, { limit });
+      if (generation !== generationRef.current) return;
 
       if (response.success && response.data) {
         setDumps(response.data.dumps);
+        setTotal(response.data.total ?? response.data.dumps.length);
+        setNextCursor(response.data.nextCursor || null);
       } else {
         setError(response.error?.message || 'Failed to fetch dumps');
       }
-    } catch (err: any) {
-      setError(err?.message || 'An unexpected error occurred');
+    } catch (err: unknown) {
+      if (generation === generationRef.current) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      }
     } finally {
-      setLoading(false);
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+        setLoading(false);
+      }
     }
   }, []);
 
+  const fetchDumps = useCallback(
+    (userId: string) => loadFirstPage(userId, DUMPS_PAGE_SIZE),
+    [loadFirstPage]
+  );
+
+  /**
+   * Append the next page after the cursor
+   */
+  const loadMoreDumps = useCallback(async () => {
+    if (!lastUserId || !nextCursor || loadingMoreRef.current) return;
+
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const response = await dumpsService.fetchDumpsPage(lastUserId, {
+        limit: DUMPS_PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      if (generation !== generationRef.current) return;
+
+      if (response.success && response.data) {
+        const page = response.data;
+        // Dumps created since the first page can shift offsets; skip repeats
+        setDumps(prev => {
+          const known = new Set(prev.map(dump => dump.id));
+          return [...prev, ...page.dumps.filter(dump => !known.has(dump.id))];
+        });
+        setTotal(page.total ?? total);
+        setNextCursor(page.nextCursor || null);
+      } else {
+        setError(response.error?.message || 'Failed to fetch dumps');
+      }
+    } catch (err: unknown) {
+      if (generation === generationRef.current) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [lastUserId, nextCursor, total]);
+
+  /**
+   * Reload from the top, keeping as many dumps as are currently loaded
+   */
   const refetchDumps = useCallback(async () => {
     if (lastUserId) {
-      await fetchDumps(lastUserId);
+      await loadFirstPage(lastUserId, Math.max(DUMPS_PAGE_SIZE, loadedCountRef.current));
     }
-  }, [lastUserId, fetchDumps]);
+  }, [lastUserId, loadFirstPage]);
 
   const updateDumpLocally = useCallback((dumpId: string, updates: Partial<Dump>) => {
     setDumps(prev =>
@@ -62,6 +150,33 @@ export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     );
   }, []);
 
+  /**
+   * Insert a dump pushed by the server, or merge it into the existing entry
+   */
+  const upsertDumpLocally = useCallback((dump: Dump) => {
+    setDumps(prev =>
+      prev.some(existing => existing.id === dump.id)
+        ? prev.map(existing => (existing.id === dump.id ? { ...existing, ...dump } : existing))
+        : [dump, ...prev]
+    );
+  }, []);
+
+  /**
+   * Hide dumps from every list without deleting them (e.g. while a delete can still be undone)
+   */
+  const setDumpsHidden = useCallback((dumpIds: string[], hidden: boolean) => {
+    setHiddenIds(prev => {
+      const next = new Set(prev);
+      dumpIds.forEach(id => (hidden ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  }, []);
+
+  const visibleDumps = useMemo(
+    () => (hiddenIds.size === 0 ? dumps : dumps.filter(dump => !hiddenIds.has(dump.id))),
+    [dumps, hiddenIds]
+  );
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -76,17 +191,16 @@ export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       dumpId: string,
       updates: { category?: string; notes?: string }
     ): Promise<{ success: boolean; error?: string }> => {
-      // Store original dump for rollback
+      // Store original dump for rollback (may be absent if its page isn't loaded)
       const originalDump = dumps.find(d => d.id === dumpId);
-      if (!originalDump) {
-        return { success: false, error: 'Dump not found' };
-      }
 
       // Step 1: Optimistic update - apply immediately
       const optimisticUpdate: Partial<Dump> = {
         processing_status: 'completed',
       };
-      updateDumpLocally(dumpId, optimisticUpdate);
+      if (originalDump) {
+        updateDumpLocally(dumpId, optimisticUpdate);
+      }
 
       try {
         // Step 2: Commit to backend
@@ -110,9 +224,10 @@ export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         return { success: true };
       } catch (err: any) {
         // Step 4: Rollback on failure
-        updateDumpLocally(dumpId, originalDump);
+        if (originalDump) {
+          updateDumpLocally(dumpId, originalDump);
+        }
         const errorMessage = err?.message || 'Failed to accept dump';
-        setError(errorMessage);
         return { success: false, error: errorMessage };
       }
     },
@@ -134,18 +249,17 @@ export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         return { success: false, error: 'Rejection reason must be at least 10 characters' };
       }
 
-      // Store original dump for rollback
+      // Store original dump for rollback (may be absent if its page isn't loaded)
       const originalDump = dumps.find(d => d.id === dumpId);
-      if (!originalDump) {
-        return { success: false, error: 'Dump not found' };
-      }
 
       // Step 1: Optimistic update - apply immediately
       const optimisticUpdate: Partial<Dump> = {
         processing_status: 'completed',
       };
       // Update both the base dump and derived properties
-      updateDumpLocally(dumpId, { ...optimisticUpdate, status: 'Rejected' } as any);
+      if (originalDump) {
+        updateDumpLocally(dumpId, { ...optimisticUpdate, status: 'Rejected' } as any);
+      }
 
       try {
         // Step 2: Commit to backend
@@ -160,24 +274,118 @@ export const DumpsProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         return { success: true };
       } catch (err: any) {
         // Step 4: Rollback on failure
-        updateDumpLocally(dumpId, originalDump);
+        if (originalDump) {
+          updateDumpLocally(dumpId, originalDump);
+        }
         const errorMessage = err?.message || 'Failed to reject dump';
-        setError(errorMessage);
         return { success: false, error: errorMessage };
       }
     },
     [dumps, updateDumpLocally]
   );
 
+  /**
+   * Change a dump's category with optimistic update pattern
+   * Rolls back on failure
+   */
+  const recategorizeDumpWithOptimism = useCallback(
+    async (
+      dumpId: string,
+      categoryName: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      if (!categoryName.trim()) {
+        return { success: false, error: 'Category is required' };
+      }
+
+      const originalDump = dumps.find(d => d.id === dumpId);
+
+      // Step 1: Optimistic update - only the name is known until the server answers
+      if (originalDump) {
+        updateDumpLocally(dumpId, {
+          category: { ...originalDump.category, name: categoryName.trim() } as Category,
+        });
+      }
+
+      try {
+        // Step 2: Commit to backend
+        const updateResponse = await dumpsService.updateDump(dumpId, { category: categoryName.trim() });
+        if (!updateResponse.success || !updateResponse.data) {
+          throw new Error(updateResponse.error?.message || 'Failed to update dump');
+        }
+
+        // Step 3: Replace optimistic data with server response
+        updateDumpLocally(dumpId, updateResponse.data);
+
+        return { success: true };
+      } catch (err: unknown) {
+        // Step 4: Rollback on failure
+        if (originalDump) {
+          updateDumpLocally(dumpId, originalDump);
+        }
+        const errorMessage = err instanceof Error ? err.message : 'Failed to update dump';
+        return { success: false, error: errorMessage };
+      }
+    },
+    [dumps, updateDumpLocally]
+  );
+
+  /**
+   * Delete dump with optimistic update pattern
+   * Removes locally first, restores it in place on failure
+   */
+  const deleteDumpWithOptimism = useCallback(
+    async (dumpId: string): Promise<{ success: boolean; error?: string }> => {
+      const originalIndex = dumps.findIndex(d => d.id === dumpId);
+      const originalDump = originalIndex >= 0 ? dumps[originalIndex] : undefined;
+
+      // Step 1: Optimistic removal
+      if (originalDump) {
+        setDumps(prev => prev.filter(dump => dump.id !== dumpId));
+      }
+
+      try {
+        // Step 2: Commit to backend
+        const deleteResponse = await dumpsService.deleteDump(dumpId);
+        if (!deleteResponse.success) {
+          throw new Error(deleteResponse.error?.message || 'Failed to delete dump');
+        }
+
+        setTotal(count => Math.max(0, count - 1));
+        return { success: true };
+      } catch (err: unknown) {
+        // Step 3: Rollback on failure
+        if (originalDump) {
+          setDumps(prev =>
+            prev.some(dump => dump.id === dumpId)
+              ? prev
+              : [...prev.slice(0, originalIndex), originalDump, ...prev.slice(originalIndex)]
+          );
+        }
+        const errorMessage = err instanceof Error ? err.message : 'Failed to delete dump';
+        return { success: false, error: errorMessage };
+      }
+    },
+    [dumps]
+  );
+
   const value: DumpsContextState = {
-    dumps,
+    dumps: visibleDumps,
+    total: Math.max(total - (dumps.length - visibleDumps.length), visibleDumps.length),
+    hasMore: !!nextCursor,
     loading,
+    loadingMore,
     error,
     fetchDumps,
+    loadMoreDumps,
     refetchDumps,
     updateDumpLocally,
+    upsertDumpLocally,
+    setDumpsHidden,
+    hiddenDumpIds: hiddenIds,
     acceptDumpWithOptimism,
     rejectDumpWithOptimism,
+    recategorizeDumpWithOptimism,
+    deleteDumpWithOptimism,
     clearError,
   };
 
@@ -0,0 +1,287 @@
+/**
+ * Outbox Context
+ *
+ * Offline-first dump capture: submissions that cannot reach the API are kept
+ * in a persistent outbox and replayed in order once connectivity returns
+ */
+
+import React, { createContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { OutboxItem, OutboxSubmission, OutboxSubmitResult } from '../types/outbox.types';
+import * as outboxService from '../services/outbox.service';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useToast } from '../components/Toast';
+
+export interface OutboxContextState {
+  items: OutboxItem[];
+  isOnline: boolean;
+  isReplaying: boolean;
+  submitDump: (submission: OutboxSubmission) => Promise<OutboxSubmitResult>;
+  replayOutbox: () => Promise<void>;
+  retryItem: (itemId: string) => Promise<void>;
+  discardItem: (itemId: string) => Promise<void>;
+}
+
+export const OutboxContext = createContext<OutboxContextState | undefined>(undefined);
+
+/**
+ * Items still to be sent, in capture order (conflicts wait for the user)
+ */
+const sendQueue = (items: OutboxItem[]): OutboxItem[] =>
+  items.filter(item => item.status !== 'conflict').sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const isWaiting = (item: OutboxItem) => item.status === 'pending' || item.status === 'retrying';
+
+export const OutboxProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { refetchDumps } = useDumps();
+  const { addToast } = useToast();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayingRef = useRef(false);
+  const itemsRef = useRef<OutboxItem[]>([]);
+
+  // Keep a ref in sync so the replay loop always sees the latest queue
+  const commitItems = useCallback((next: OutboxItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const patchItem = useCallback(async (item: OutboxItem) => {
+    await outboxService.saveOutboxItem(item);
+    commitItems(itemsRef.current.map(existing => (existing.id === item.id ? item : existing)));
+  }, [commitItems]);
+
+  /**
+   * Update the selected items in place and persist them
+   */
+  const reviseItems = useCallback(
+    (select: (item: OutboxItem) => boolean, revise: (item: OutboxItem) => OutboxItem) => {
+      const selected = itemsRef.current.filter(select);
+      if (selected.length === 0) return;
+
+      const revised = new Map(selected.map(item => [item.id, revise(item)]));
+      commitItems(itemsRef.current.map(item => revised.get(item.id) ?? item));
+      revised.forEach(item =>
+        outboxService.saveOutboxItem(item).catch(err => console.error('Failed to save outbox item:', err))
+      );
+    },
+    [commitItems]
+  );
+
+  /**
+   * Put items left "syncing" back in the queue so the replay timer picks them up again
+   */
+  const releaseSyncing = useCallback(
+    (release: (item: OutboxItem) => OutboxItem) => reviseItems(item => item.status === 'syncing', release),
+    [reviseItems]
+  );
+
+  const dropItem = useCallback(async (itemId: string) => {
+    await outboxService.removeOutboxItem(itemId);
+    commitItems(itemsRef.current.filter(existing => existing.id !== itemId));
+  }, [commitItems]);
+
+  /**
+   * Replay due items in capture order
+   * Stops at the first item still backing off and at the first network
+   * failure, so later captures never overtake earlier ones
+   */
+  const replayOutbox = useCallback(async () => {
+    if (replayingRef.current || !navigator.onLine) {
+      return;
+    }
+
+    replayingRef.current = true;
+    setIsReplaying(true);
+    let syncedCount = 0;
+
+    try {
+      const now = Date.now();
+
+      for (const queued of sendQueue(itemsRef.current)) {
+        if (queued.nextAttemptAt > now) break;
+
+        await patchItem({ ...queued, status: 'syncing' });
+
+        const response = await outboxService.sendOutboxItem(queued);
+
+        if (response.success) {
+          await dropItem(queued.id);
+          syncedCount += 1;
+          continue;
+        }
+
+        const message = response.error?.message || t('outbox.unknownError');
+
+        if (outboxService.isRetryableFailure(response)) {
+          const attempts = queued.attempts + 1;
+          await patchItem({
+            ...queued,
+            status: 'retrying',
+            attempts,
+            nextAttemptAt: Date.now() + outboxService.getRetryDelay(attempts),
+            lastError: message,
+          });
+          break;
+        }
+
+        // Server rejected the capture - keep it for the user to resolve
+        await patchItem({ ...queued, status: 'conflict', lastError: message });
+        addToast('error', t('outbox.conflict', { message }));
+      }
+    } catch (err) {
+      console.error('Outbox replay failed:', err);
+      // Count the interrupted send as a failed attempt so the retry backs off
+      releaseSyncing(item => {
+        const attempts = item.attempts + 1;
+        return {
+          ...item,
+          status: 'pending',
+          attempts,
+          nextAttemptAt: Date.now() + outboxService.getRetryDelay(attempts),
+        };
+      });
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+    }
+
+    if (syncedCount > 0) {
+      addToast('success', t('outbox.synced', { count: syncedCount }));
+      refetchDumps();
+    }
+  }, [patchItem, dropItem, releaseSyncing, addToast, refetchDumps, t]);
+
+  /**
+   * Submit a capture, queueing it locally if the API cannot be reached
+   */
+  const submitDump = useCallback(
+    async (submission: OutboxSubmission): Promise<OutboxSubmitResult> => {
+      if (!user) {
+        return { success: false, queued: false, error: t('newDumpModal.userNotAuthenticated') };
+      }
+
+      const enqueue = async (): Promise<OutboxSubmitResult> => {
+        const item = outboxService.createOutboxItem(user.id, submission);
+        try {
+          await outboxService.saveOutboxItem(item);
+          commitItems([...itemsRef.current, item]);
+          return { success: true, queued: true, offline: !navigator.onLine };
+        } catch (err) {
+          const message = err instanceof Error ? err.message : t('outbox.storageFailed');
+          return { success: false, queued: false, error: message };
+        }
+      };
+
+      // Keep capture order: never jump ahead of items still waiting in the outbox
+      if (!navigator.onLine || itemsRef.current.some(item => item.status !== 'conflict')) {
+        return enqueue();
+      }
+
+      const response = await outboxService.sendSubmission(user.id, submission);
+
+      if (response.success) {
+        return { success: true, queued: false };
+      }
+
+      if (outboxService.isRetryableFailure(response)) {
+        return enqueue();
+      }
+
+      return { success: false, queued: false, error: response.error?.message };
+    },
+    [user, commitItems, t]
+  );
+
+  /**
+   * Retry a single item immediately (also resolves conflicts)
+   * Earlier captures still backing off are retried with it to keep the order
+   */
+  const retryItem = useCallback(async (itemId: string) => {
+    const item = itemsRef.current.find(existing => existing.id === itemId);
+    if (!item) return;
+
+    reviseItems(
+      existing => isWaiting(existing) && existing.createdAt < item.createdAt,
+      existing => ({ ...existing, nextAttemptAt: 0 })
+    );
+    await patchItem({ ...item, status: 'pending', nextAttemptAt: 0 });
+    await replayOutbox();
+  }, [reviseItems, patchItem, replayOutbox]);
+
+  const discardItem = useCallback(async (itemId: string) => {
+    await dropItem(itemId);
+  }, [dropItem]);
+
+  // Load the queue for the signed-in user
+  useEffect(() => {
+    if (!user?.id) {
+      commitItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    outboxService
+      .listOutbox(user.id)
+      .then(stored => {
+        if (cancelled) return;
+        commitItems(stored);
+        // Anything left "syncing" was interrupted by a reload
+        releaseSyncing(item => ({ ...item, status: 'pending' }));
+      })
+      .catch(err => console.error('Failed to load outbox:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, commitItems, releaseSyncing]);
+
+  // Track connectivity; coming back online ends every backoff so the queue replays right away
+  useEffect(() => {
+    const handleOnline = () => {
+      reviseItems(
+        item => isWaiting(item) && item.nextAttemptAt > 0,
+        item => ({ ...item, nextAttemptAt: 0 })
+      );
+      setIsOnline(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [reviseItems]);
+
+  // Replay when back online or when the oldest capture's backoff window opens
+  useEffect(() => {
+    const next = sendQueue(items)[0];
+    if (!isOnline || isReplaying || !next || !isWaiting(next)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      replayOutbox();
+    }, Math.max(next.nextAttemptAt - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [items, isOnline, isReplaying, replayOutbox]);
+
+  const value: OutboxContextState = {
+    items,
+    isOnline,
+    isReplaying,
+    submitDump,
+    replayOutbox,
+    retryItem,
+    discardItem,
+  };
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+};
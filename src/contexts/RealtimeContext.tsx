@@ -0,0 +1,103 @@
+/**
+ * Realtime Context
+ *
+ * Keeps a per-user server-push subscription open and patches dumps in place
+ * as they move through received → processing → completed/failed
+ */
+
+import React, { createContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import type { Dump } from '../types/dump.types';
+import type {
+  DumpEvent,
+  DumpEventListener,
+  RealtimeConnectionState,
+  RealtimeTransport,
+} from '../types/realtime.types';
+import { RealtimeClient } from '../services/realtime.service';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+
+export interface RealtimeContextState {
+  connectionState: RealtimeConnectionState;
+  transport: RealtimeTransport | null;
+  subscribe: (listener: DumpEventListener) => () => void;
+}
+
+export const RealtimeContext = createContext<RealtimeContextState | undefined>(undefined);
+
+/**
+ * Map an event to the dump fields it changes
+ */
+function getEventUpdates(event: DumpEvent): Partial<Dump> {
+  const status =
+    event.status ||
+    (event.type === 'dump.completed' ? 'completed' : event.type === 'dump.failed' ? 'failed' : undefined);
+
+  return {
+    ...event.dump,
+    ...(status ? { processing_status: status } : {}),
+  };
+}
+
+export const RealtimeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const { updateDumpLocally, upsertDumpLocally } = useDumps();
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>('idle');
+  const [transport, setTransport] = useState<RealtimeTransport | null>(null);
+  const listenersRef = useRef(new Set<DumpEventListener>());
+
+  // Latest dump mutators without re-opening the connection when they change
+  const handlersRef = useRef({ updateDumpLocally, upsertDumpLocally });
+  useEffect(() => {
+    handlersRef.current = { updateDumpLocally, upsertDumpLocally };
+  }, [updateDumpLocally, upsertDumpLocally]);
+
+  const handleEvent = useCallback((event: DumpEvent) => {
+    const { updateDumpLocally: update, upsertDumpLocally: upsert } = handlersRef.current;
+
+    if (event.type === 'dump.created' && event.dump?.raw_content !== undefined) {
+      upsert({ ...event.dump, id: event.dumpId } as Dump);
+    } else {
+      update(event.dumpId, getEventUpdates(event));
+    }
+
+    listenersRef.current.forEach(listener => listener(event));
+  }, []);
+
+  // One connection per signed-in user
+  useEffect(() => {
+    if (!user?.id || !isAuthenticated) {
+      return;
+    }
+
+    const client = new RealtimeClient({
+      userId: user.id,
+      onEvent: handleEvent,
+      onStateChange: (state, activeTransport) => {
+        setConnectionState(state);
+        setTransport(activeTransport);
+      },
+    });
+
+    client.connect();
+    return () => client.disconnect();
+  }, [user?.id, isAuthenticated, handleEvent]);
+
+  /**
+   * Register a listener for every dump event; returns an unsubscribe function
+   */
+  const subscribe = useCallback((listener: DumpEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const value: RealtimeContextState = {
+    connectionState,
+    transport,
+    subscribe,
+  };
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+};
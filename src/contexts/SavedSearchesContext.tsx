@@ -0,0 +1,100 @@
+/**
+ * Saved Searches Context
+ *
+ * The signed-in user's saved searches (query + filters + sort). Pinned
+ * searches are shown as smart views in the navigation. Changes are written
+ * to storage immediately and picked up by other open tabs.
+ */
+
+import React, { createContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import type { SavedSearch, SearchState } from '../types/search.types';
+import {
+  createSavedSearch,
+  loadSavedSearches,
+  savedSearchesStorageKey,
+  storeSavedSearches,
+} from '../services/saved-searches.service';
+
+export type SavedSearchChanges = Partial<Pick<SavedSearch, 'name' | 'pinned' | 'query' | 'filters' | 'sort'>>;
+
+export interface SavedSearchesContextState {
+  savedSearches: SavedSearch[];
+  smartViews: SavedSearch[];                  // Pinned searches, in saved order
+  saveSearch: (name: string, state: SearchState, pinned?: boolean) => SavedSearch | null;
+  updateSavedSearch: (id: string, changes: SavedSearchChanges) => void;
+  deleteSavedSearch: (id: string) => void;
+}
+
+export const SavedSearchesContext = createContext<SavedSearchesContextState | undefined>(undefined);
+
+export const SavedSearchesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  // Local edits (or other-tab changes) win over what was loaded for this user
+  const loaded = useMemo(() => (userId ? loadSavedSearches(userId) : []), [userId]);
+  const [edited, setEdited] = useState<{ userId: string; searches: SavedSearch[] } | null>(null);
+  const savedSearches = edited && edited.userId === userId ? edited.searches : loaded;
+
+  const commit = useCallback(
+    (searches: SavedSearch[]) => {
+      if (!userId) return;
+      storeSavedSearches(userId, searches);
+      setEdited({ userId, searches });
+    },
+    [userId]
+  );
+
+  // Keep tabs in sync
+  useEffect(() => {
+    if (!userId) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === savedSearchesStorageKey(userId)) {
+        setEdited({ userId, searches: loadSavedSearches(userId) });
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId]);
+
+  const saveSearch = useCallback(
+    (name: string, state: SearchState, pinned = false): SavedSearch | null => {
+      if (!userId || !name.trim() || !state.query.trim()) return null;
+
+      const saved = createSavedSearch(name, state, pinned);
+      commit([...savedSearches, saved]);
+      return saved;
+    },
+    [userId, savedSearches, commit]
+  );
+
+  const updateSavedSearch = useCallback(
+    (id: string, changes: SavedSearchChanges) => {
+      commit(
+        savedSearches.map(search =>
+          search.id === id ? { ...search, ...changes, updatedAt: new Date().toISOString() } : search
+        )
+      );
+    },
+    [savedSearches, commit]
+  );
+
+  const deleteSavedSearch = useCallback(
+    (id: string) => {
+      commit(savedSearches.filter(search => search.id !== id));
+    },
+    [savedSearches, commit]
+  );
+
+  const smartViews = useMemo(() => savedSearches.filter(search => search.pinned), [savedSearches]);
+
+  return (
+    <SavedSearchesContext.Provider
+      value={{ savedSearches, smartViews, saveSearch, updateSavedSearch, deleteSavedSearch }}
+    >
+      {children}
+    </SavedSearchesContext.Provider>
+  );
+};
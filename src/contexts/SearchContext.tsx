@@ -2,37 +2,77 @@
  * Search Context
  * 
  * Global state management for search functionality
- * with query, filters, results, and pagination
+ * with query, filters, results, and pagination.
+ * Fetched pages are cached per query, filters and page size, so paging
+ * back or re-running a search within a minute costs no request. In
+ * infinite mode `page` is the number of pages loaded and the results hold
+ * all of them.
+ * The local search index answers instantly while a request is pending and
+ * in place of the server when it can't be reached; once the server's list
+ * is complete, local matches it missed are appended. With the local engine
+ * the server isn't asked at all, and "more like this" always runs locally.
  */
 
-import React, { createContext, useState, useCallback, type ReactNode } from 'react';
+import React, { createContext, useState, useCallback, useMemo, type ReactNode } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { SearchFilters, SearchResults } from '../types/search.types';
-import { DEFAULT_SEARCH_FILTERS, DEFAULT_PAGINATION } from '../types/search.types';
-import { searchDumpsWithCancellation, type FilterEnums } from '../services/search.service';
+import type { Dump } from '../types/dump.types';
+import type {
+  SearchEngine,
+  SearchFilters,
+  SearchPagingMode,
+  SearchPreferences,
+  SearchResults,
+  SearchSort,
+  SearchState,
+} from '../types/search.types';
+import { DEFAULT_SEARCH_FILTERS, DEFAULT_SEARCH_PREFERENCES, DEFAULT_SEARCH_SORT } from '../types/search.types';
+import { sortSearchResults } from '../utils/sorting';
+import { hasSearchCriteria, matchesQueryConstraints, mergeSearchFilters } from '../utils/search-query';
+import { combineSearchPages } from '../utils/search-pages';
+import { mergeLocalResults, toLocalSearchResults } from '../utils/search-index';
+import { parseSearchQueryCached, prepareSearchQuery, searchDumpsWithCancellation } from '../services/search.service';
+import { loadSearchPreferences, storeSearchPreferences } from '../services/search-preferences.service';
+import { queryCache } from '../services/query-cache';
+import { queryKeys } from '../services/query-keys';
 import { useAuth } from '../hooks/useAuth';
+import { useSearchIndex } from '../hooks/useSearchIndex';
 
 interface SearchContextValue {
   // State
   query: string;
   filters: SearchFilters;
+  sort: SearchSort;
   results: SearchResults | null;
   loading: boolean;
+  loadingMore: boolean;          // Appending the next page in infinite mode
   error: string | null;
   page: number;
-  filterEnums: FilterEnums | null;
+  pagingMode: SearchPagingMode;
+  pageSize: number;
+  hasMore: boolean;              // Infinite mode: more pages to load
+  offline: boolean;              // The server couldn't be reached; results come from the local index
+  engine: SearchEngine;
+  similarTo: Dump | null;        // "More like this" source; replaces the query's results while set
 
   // Actions
   setQuery: (query: string) => void;
   setFilters: (filters: SearchFilters) => void;
+  setSort: (sort: SearchSort) => void;
+  applySearchState: (state: SearchState, page?: number) => void;
   executeSearch: () => Promise<void>;
   nextPage: () => void;
   prevPage: () => void;
+  loadMore: () => void;
+  setPagingMode: (mode: SearchPagingMode) => void;
+  setPageSize: (size: number) => void;
+  setEngine: (engine: SearchEngine) => void;
+  setSimilarTo: (dump: Dump | null) => void;
   resetSearch: () => void;
-  setFilterEnums: (enums: FilterEnums) => void;
   clearError: () => void;
 }
 
+const SEARCH_PAGE_STALE_TIME = 60 * 1000;
+
 export const SearchContext = createContext<SearchContextValue | undefined>(undefined);
 
 interface SearchProviderProps {
@@ -46,20 +86,35 @@ interface SearchProviderProps {
 export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
   const { t } = useTranslation();
   const { user } = useAuth();
-  const [query, setQuery] = useState('');
-  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
-  const [results, setResults] = useState<SearchResults | null>(null);
+  const { search: searchText, searchHybrid, findSimilar } = useSearchIndex();
+  const [query, setQueryState] = useState('');
+  const [filters, setFiltersState] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [sort, setSortState] = useState<SearchSort>(DEFAULT_SEARCH_SORT);
+  const [fetched, setFetched] = useState<{ query: string; results: SearchResults } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
-  const [filterEnums, setFilterEnums] = useState<FilterEnums | null>(null);
+  const [similarTo, setSimilarToState] = useState<Dump | null>(null);
+
+  const userId = user?.id ?? null;
+  const storedPreferences = useMemo(
+    () => (userId ? loadSearchPreferences(userId) : DEFAULT_SEARCH_PREFERENCES),
+    [userId]
+  );
+  const [editedPreferences, setEditedPreferences] = useState<{ userId: string; preferences: SearchPreferences } | null>(
+    null
+  );
+  const { pagingMode, pageSize, engine } =
+    editedPreferences && editedPreferences.userId === userId ? editedPreferences.preferences : storedPreferences;
+  const searchLocal = engine === 'local' ? searchHybrid : searchText;
 
   /**
    * Execute search with current query and filters
    */
   const executeSearch = useCallback(async () => {
     if (!query.trim()) {
-      setResults(null);
+      setFetched(null);
       return;
     }
 
@@ -68,41 +123,152 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
       return;
     }
 
-    setLoading(true);
+    const startedAt = performance.now();
+    const pageNumbers = pagingMode === 'infinite' ? Array.from({ length: page }, (_, index) => index + 1) : [page];
+    const pageKey = (pageNumber: number) => queryKeys.search.page({ query, filters, sort, pageSize, page: pageNumber });
+    const missing = pageNumbers.filter(pageNumber => queryCache.isStale(pageKey(pageNumber), SEARCH_PAGE_STALE_TIME));
+
+    // Appending one page keeps the loaded results on screen
+    const appending = pagingMode === 'infinite' && missing.length === 1 && missing[0] === page && page > 1;
+    if (missing.length > 0) {
+      if (appending) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+    }
     setError(null);
 
+    // Operators in the query become filters; operator-only queries search without text
+    const parsed = await prepareSearchQuery(query);
+    if (!hasSearchCriteria(parsed)) {
+      setFetched(null);
+      setLoading(false);
+      setLoadingMore(false);
+      return;
+    }
+
+    // Local engine (and unreachable server): one slice of the local matches
+    const answerLocally = () => {
+      const from = pagingMode === 'infinite' ? 0 : (page - 1) * pageSize;
+      setFetched({
+        query,
+        results: toLocalSearchResults(
+          query,
+          sortSearchResults(searchLocal(parsed, filters), sort),
+          from,
+          page * pageSize - from,
+          Math.round(performance.now() - startedAt)
+        ),
+      });
+    };
+
+    if (engine === 'local') {
+      answerLocally();
+      setLoading(false);
+      setLoadingMore(false);
+      return;
+    }
+
     try {
-      const searchResults = await searchDumpsWithCancellation(
+      if (missing.length > 0) {
+        for (const pageNumber of missing) {
+          const searchResults = await searchDumpsWithCancellation(
+            parsed.text,
+            user.id,
+            mergeSearchFilters(filters, parsed.filters),
+            pageNumber,
+            pageSize,
+            sort,
+            parsed
+          );
+          // Servers that ignore phrase, exclusion or has: clauses leave them to this check
+          const matching = searchResults.results.filter(result => matchesQueryConstraints(result.dump, parsed));
+          queryCache.setQueryData<SearchResults>(pageKey(pageNumber), {
+            ...searchResults,
+            results: matching,
+            total: searchResults.total - (searchResults.results.length - matching.length),
+            locallyFiltered: searchResults.results.length - matching.length,
+          });
+        }
+      }
+
+      const pages = pageNumbers
+        .map(pageNumber => queryCache.getQueryData<SearchResults>(pageKey(pageNumber)))
+        .filter((cached): cached is SearchResults => !!cached);
+      if (pages.length === 0) {
+        setFetched(null);
+        return;
+      }
+
+      // Numbered pages only take local extras on the first one, so later pages don't repeat them
+      const combined = combineSearchPages(pages);
+      const complete = page * pageSize >= combined.total + (combined.locallyFiltered ?? 0);
+      setFetched({
         query,
-        user.id,
-        filters,
-        page,
-        DEFAULT_PAGINATION.pageSize
-      );
-      setResults(searchResults);
+        results: mergeLocalResults(
+          combined,
+          searchLocal(parsed, filters),
+          complete && (pagingMode === 'infinite' || page === 1)
+        ),
+      });
     } catch (err: any) {
       if (err.message === 'Search cancelled') {
         // Ignore cancelled requests
         return;
       }
+      if (err.message === 'Search unavailable') {
+        answerLocally();
+        return;
+      }
       setError(err.message || t('search.failedToSearch'));
-      setResults(null);
+      setFetched(null);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
-  }, [query, filters, page, user]);
+  }, [query, filters, sort, page, pagingMode, pageSize, engine, user, searchLocal]);
+
+  // Local matches for the text being typed, shown until the server answers
+  const instantResults = useMemo(() => {
+    if (!query.trim()) return null;
+    const startedAt = performance.now();
+    const parsed = parseSearchQueryCached(query);
+    const matches = hasSearchCriteria(parsed) ? sortSearchResults(searchLocal(parsed, filters), sort) : [];
+    return matches.length > 0
+      ? toLocalSearchResults(query, matches, 0, pageSize, Math.round(performance.now() - startedAt))
+      : null;
+  }, [query, filters, sort, pageSize, searchLocal]);
+
+  // "More like this" neighbors, paged like any other local results
+  const similarResults = useMemo(() => {
+    if (!similarTo) return null;
+    const startedAt = performance.now();
+    const matches = sortSearchResults(findSimilar(similarTo), sort);
+    const from = pagingMode === 'infinite' ? 0 : (page - 1) * pageSize;
+    const label = similarTo.ai_summary || similarTo.raw_content;
+    const limit = pagingMode === 'infinite' ? matches.length : pageSize;
+    return toLocalSearchResults(label, matches, from, limit, Math.round(performance.now() - startedAt));
+  }, [similarTo, findSimilar, sort, pagingMode, page, pageSize]);
+
+  // Results of an earlier query stay on screen when there is nothing better
+  const currentResults = similarResults ?? (fetched && fetched.query === query ? fetched.results : null);
+  const results = currentResults ?? instantResults ?? fetched?.results ?? null;
+
+  // Paging counts what the server has; local extras never add pages
+  const serverTotal = currentResults ? currentResults.total - (currentResults.localMatches ?? 0) : 0;
 
   /**
    * Navigate to next page
    */
   const nextPage = useCallback(() => {
-    if (results) {
-      const totalPages = Math.ceil(results.total / DEFAULT_PAGINATION.pageSize);
+    if (currentResults) {
+      const totalPages = Math.ceil(serverTotal / pageSize);
       if (page < totalPages) {
         setPage(page + 1);
       }
     }
-  }, [page, results]);
+  }, [page, pageSize, currentResults, serverTotal]);
 
   /**
    * Navigate to previous page
@@ -113,17 +279,106 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
     }
   }, [page]);
 
+  // Every page fetched so far counts, including results filtered out locally
+  const hasMore =
+    pagingMode === 'infinite' &&
+    !!currentResults &&
+    currentResults.source !== 'local' &&
+    page * pageSize < serverTotal + (currentResults.locallyFiltered ?? 0);
+
+  /**
+   * Append the next page (infinite mode)
+   */
+  const loadMore = useCallback(() => {
+    if (hasMore && !loading && !loadingMore) {
+      setPage(page + 1);
+    }
+  }, [hasMore, loading, loadingMore, page]);
+
+  const updatePreferences = useCallback(
+    (updates: Partial<SearchPreferences>) => {
+      if (!userId) return;
+      const preferences = { pagingMode, pageSize, engine, ...updates };
+      storeSearchPreferences(userId, preferences);
+      setEditedPreferences({ userId, preferences });
+      setPage(1);
+    },
+    [userId, pagingMode, pageSize, engine]
+  );
+
+  /**
+   * Switch between numbered pages and infinite scrolling (back to the first page)
+   */
+  const setPagingMode = useCallback(
+    (mode: SearchPagingMode) => updatePreferences({ pagingMode: mode }),
+    [updatePreferences]
+  );
+
+  /**
+   * Change how many results each request loads (back to the first page)
+   */
+  const setPageSize = useCallback((size: number) => updatePreferences({ pageSize: size }), [updatePreferences]);
+
+  /**
+   * Search through the API or only on this device (back to the first page)
+   */
+  const setEngine = useCallback(
+    (nextEngine: SearchEngine) => updatePreferences({ engine: nextEngine }),
+    [updatePreferences]
+  );
+
+  /**
+   * Show the dumps closest in meaning to `dump` instead of the query's results
+   */
+  const setSimilarTo = useCallback((dump: Dump | null) => {
+    setSimilarToState(dump);
+    setPage(1);
+  }, []);
+
+  /**
+   * A new query or filter set starts again from the first page
+   */
+  const setQuery = useCallback((nextQuery: string) => {
+    setQueryState(nextQuery);
+    setSimilarToState(null);
+    setPage(1);
+  }, []);
+
+  const setFilters = useCallback((nextFilters: SearchFilters) => {
+    setFiltersState(nextFilters);
+    setPage(1);
+  }, []);
+
+  // The server orders every page, so a new order starts from the first one
+  const setSort = useCallback((nextSort: SearchSort) => {
+    setSortState(nextSort);
+    setPage(1);
+  }, []);
+
   /**
    * Reset search state
    */
   const resetSearch = useCallback(() => {
-    setQuery('');
-    setFilters(DEFAULT_SEARCH_FILTERS);
-    setResults(null);
+    setQueryState('');
+    setFiltersState(DEFAULT_SEARCH_FILTERS);
+    setSortState(DEFAULT_SEARCH_SORT);
+    setFetched(null);
+    setSimilarToState(null);
     setError(null);
     setPage(1);
   }, []);
 
+  /**
+   * Replace query, filters, sort and page at once (saved searches, links, history)
+   */
+  const applySearchState = useCallback((state: SearchState, nextPage: number = 1) => {
+    setQueryState(state.query);
+    setFiltersState(state.filters);
+    setSortState(state.sort);
+    setSimilarToState(null);
+    setPage(nextPage);
+  }, []);
+
   /**
    * Clear error state
    */
@@ -136,18 +391,31 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
       value={{
         query,
         filters,
+        sort,
         results,
         loading,
+        loadingMore,
         error,
         page,
-        filterEnums,
+        pagingMode,
+        pageSize,
+        hasMore,
+        offline: engine === 'server' && !similarTo && currentResults?.source === 'local',
+        engine,
+        similarTo,
         setQuery,
         setFilters,
+        setSort,
+        applySearchState,
         executeSearch,
         nextPage,
         prevPage,
+        loadMore,
+        setPagingMode,
+        setPageSize,
+        setEngine,
+        setSimilarTo,
         resetSearch,
-        setFilterEnums,
         clearError,
       }}
     >
@@ -0,0 +1,124 @@
+/**
+ * Search Index Context
+ *
+ * Local full-text index over every dump seen on this device. Starts from
+ * the copy stored in IndexedDB, follows the dumps loaded in DumpsContext
+ * and is written back shortly after it changes. Semantic queries use a
+ * vector index built on first use after each change.
+ */
+
+import React, { createContext, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { Dump } from '../types/dump.types';
+import type { ParsedSearchQuery, SearchFilters, SearchResult } from '../types/search.types';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { loadSearchIndexDocuments, storeSearchIndexDocuments } from '../services/search-index.service';
+import {
+  createDocumentVectorIndex,
+  createSearchIndex,
+  findSimilarDocuments,
+  queryLocalIndex,
+  searchHybrid,
+  syncIndexDocuments,
+  type SearchIndexDocument,
+} from '../utils/search-index';
+import type { VectorIndex } from '../utils/vector-index';
+
+const PERSIST_DELAY = 1000;      // Batches the writes of a page load or a burst of realtime updates
+
+export interface SearchIndexContextState {
+  ready: boolean;                // Stored documents have been loaded
+  size: number;                  // Dumps indexed
+  search: (parsed: ParsedSearchQuery, filters: SearchFilters) => SearchResult[];
+  searchHybrid: (parsed: ParsedSearchQuery, filters: SearchFilters) => SearchResult[];   // Text and meaning
+  findSimilar: (dump: Dump) => SearchResult[];                                           // "More like this"
+}
+
+export const SearchIndexContext = createContext<SearchIndexContextState | undefined>(undefined);
+
+export const SearchIndexProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { dumps } = useDumps();
+  const userId = user?.id ?? null;
+
+  const [stored, setStored] = useState<{ userId: string; documents: Record<string, SearchIndexDocument> } | null>(null);
+  const ready = !!userId && stored?.userId === userId;
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    loadSearchIndexDocuments(userId).then(documents => {
+      if (!cancelled) {
+        setStored({ userId, documents });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Only the current user's dumps are indexed, and only once their stored copy is in
+  const documents = useMemo(
+    () => (ready && stored ? syncIndexDocuments(stored.documents, dumps) : null),
+    [ready, stored, dumps]
+  );
+  const index = useMemo(() => (documents ? createSearchIndex(documents) : null), [documents]);
+
+  useEffect(() => {
+    if (!userId || !documents || documents === stored?.documents) return;
+    const timer = setTimeout(() => {
+      storeSearchIndexDocuments(userId, documents).catch(err => console.error('Failed to store search index:', err));
+    }, PERSIST_DELAY);
+    return () => clearTimeout(timer);
+  }, [userId, documents, stored]);
+
+  const vectorIndexRef = useRef<{ documents: Record<string, SearchIndexDocument>; index: VectorIndex } | null>(null);
+  const getVectorIndex = useCallback(() => {
+    if (!documents) return null;
+    if (vectorIndexRef.current?.documents !== documents) {
+      vectorIndexRef.current = { documents, index: createDocumentVectorIndex(documents) };
+    }
+    return vectorIndexRef.current.index;
+  }, [documents]);
+
+  // Loaded dumps are fresher than their indexed copies (and keep their vectors)
+  const withLoadedDumps = useCallback(
+    (results: SearchResult[]) => {
+      const loaded = new Map(dumps.map(dump => [dump.id, dump]));
+      return results.map(result => ({ ...result, dump: loaded.get(result.dump.id) ?? result.dump }));
+    },
+    [dumps]
+  );
+
+  const search = useCallback(
+    (parsed: ParsedSearchQuery, filters: SearchFilters) =>
+      index ? withLoadedDumps(queryLocalIndex(index, parsed, filters)) : [],
+    [index, withLoadedDumps]
+  );
+
+  const searchHybridLocal = useCallback(
+    (parsed: ParsedSearchQuery, filters: SearchFilters) => {
+      const vectorIndex = getVectorIndex();
+      return index && vectorIndex ? withLoadedDumps(searchHybrid(index, vectorIndex, parsed, filters)) : [];
+    },
+    [index, getVectorIndex, withLoadedDumps]
+  );
+
+  const findSimilar = useCallback(
+    (dump: Dump) => {
+      const vectorIndex = getVectorIndex();
+      return index && vectorIndex ? withLoadedDumps(findSimilarDocuments(index, vectorIndex, dump)) : [];
+    },
+    [index, getVectorIndex, withLoadedDumps]
+  );
+
+  const value: SearchIndexContextState = {
+    ready,
+    size: documents ? Object.keys(documents).length : 0,
+    search,
+    searchHybrid: searchHybridLocal,
+    findSimilar,
+  };
+
+  return <SearchIndexContext.Provider value={value}>{children}</SearchIndexContext.Provider>;
+};
@@ -0,0 +1,256 @@
+/**
+ * Undo Context
+ *
+ * App-wide undo manager. Mutations run as commands with an inverse; each one
+ * shows a toast with an Undo button for a grace period, and Ctrl/Cmd+Z undoes
+ * the most recent command. Deferred commands (e.g. deletion) only touch the
+ * server once the grace window expires without an undo; if the page closes
+ * first, their work is saved and replayed on the next load.
+ */
+
+import React, { createContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { UndoableCommand, UndoEntry } from '../types/undo.types';
+import { useToast } from '../components/Toast';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { isEditableTarget } from '../utils/keyboard';
+import { BatchFailureError } from '../utils/batch';
+import { loadPendingCommits, replayPendingCommit, storePendingCommits } from '../services/pending-commits.service';
+
+export interface UndoContextState {
+  canUndo: boolean;
+  run: (command: UndoableCommand) => Promise<boolean>;
+  undo: (entryId?: string) => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+export const UndoContext = createContext<UndoContextState | undefined>(undefined);
+
+const UNDO_GRACE_MS = 8000;        // How long the Undo toast (and deferred commits) wait
+const MAX_UNDO_ENTRIES = 20;       // Oldest entries fall off (committing them if deferred)
+
+export const UndoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
+  const { addToast, removeToast } = useToast();
+  const { user } = useAuth();
+  const { refetchDumps } = useDumps();
+  const stackRef = useRef<UndoEntry[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+
+  const removeEntry = useCallback((entryId: string): UndoEntry | undefined => {
+    const entry = stackRef.current.find(existing => existing.id === entryId);
+    if (entry) {
+      if (entry.commitTimer) {
+        clearTimeout(entry.commitTimer);
+        entry.commitTimer = null;
+      }
+      stackRef.current = stackRef.current.filter(existing => existing.id !== entryId);
+      setCanUndo(stackRef.current.length > 0);
+    }
+    return entry;
+  }, []);
+
+  /**
+   * Run a deferred command's server work; roll back locally if it fails
+   */
+  const commitEntry = useCallback(
+    async (entryId: string) => {
+      const entry = removeEntry(entryId);
+      if (!entry?.command.commit) return;
+
+      try {
+        await entry.command.commit();
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err.message : t('outbox.unknownError');
+        if (err instanceof BatchFailureError) {
+          // Only the failed items were reverted (by the batch itself)
+          addToast('error', t('undo.commitPartial', { label: entry.command.label, error }));
+          return;
+        }
+        try {
+          await entry.command.undo();
+        } catch (rollbackErr) {
+          console.error('Undo rollback failed:', rollbackErr);
+        }
+        addToast('error', t('undo.commitFailed', { label: entry.command.label, error }));
+      }
+    },
+    [removeEntry, addToast, t]
+  );
+
+  /**
+   * Undo a command (the most recent one when no ID is given)
+   */
+  const undo = useCallback(
+    async (entryId?: string) => {
+      const targetId = entryId ?? stackRef.current[stackRef.current.length - 1]?.id;
+      if (!targetId) return;
+
+      const entry = removeEntry(targetId);
+      if (!entry) return;
+
+      removeToast(entry.toastId);
+      try {
+        await entry.command.undo();
+        addToast('info', t('undo.undone', { label: entry.command.label }));
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err.message : t('outbox.unknownError');
+        addToast('error', t('undo.failed', { error }));
+      }
+    },
+    [removeEntry, addToast, removeToast, t]
+  );
+
+  /**
+   * Execute a command and make it undoable
+   * Resolves false (after showing an error toast) if the command fails
+   */
+  const run = useCallback(
+    async (command: UndoableCommand): Promise<boolean> => {
+      try {
+        await command.execute();
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err.message : t('outbox.unknownError');
+        addToast('error', error);
+        return false;
+      }
+
+      const id = `undo-${Date.now()}-${Math.random()}`;
+      const toastId = addToast('success', command.label, UNDO_GRACE_MS, {
+        label: t('undo.action'),
+        onClick: () => {
+          undo(id);
+        },
+      });
+
+      const entry: UndoEntry = {
+        id,
+        command,
+        toastId,
+        commitTimer: command.commit ? setTimeout(() => commitEntry(id), UNDO_GRACE_MS) : null,
+        createdAt: Date.now(),
+      };
+      stackRef.current = [...stackRef.current, entry];
+      setCanUndo(true);
+
+      // Trim the oldest entries; deferred ones are committed rather than lost
+      while (stackRef.current.length > MAX_UNDO_ENTRIES) {
+        const oldest = stackRef.current[0];
+        if (oldest.command.commit) {
+          commitEntry(oldest.id);
+        } else {
+          removeEntry(oldest.id);
+        }
+      }
+
+      return true;
+    },
+    [addToast, undo, commitEntry, removeEntry, t]
+  );
+
+  /**
+   * Commit every pending deferred command now
+   */
+  const flush = useCallback(async () => {
+    const pending = stackRef.current.filter(entry => entry.commitTimer);
+    await Promise.all(pending.map(entry => commitEntry(entry.id)));
+  }, [commitEntry]);
+
+  // Ctrl/Cmd+Z undoes the most recent command outside of text fields (native undo applies there)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        !event.shiftKey &&
+        event.key.toLowerCase() === 'z' &&
+        !isEditableTarget(event.target) &&
+        stackRef.current.length > 0
+      ) {
+        event.preventDefault();
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo]);
+
+  // Latest flush without re-registering (which would commit early) when it changes
+  const flushRef = useRef(flush);
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  // Replay deferred work saved when the page last closed inside a grace window
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const commits = loadPendingCommits(user.id);
+    if (commits.length === 0) return;
+
+    // Clear first so another tab loading at the same time doesn't send them twice
+    storePendingCommits(user.id, []);
+    Promise.all(commits.map(replayPendingCommit))
+      .then(failures => {
+        const failed = failures.reduce((sum, count) => sum + count, 0);
+        if (failed > 0) {
+          addToast('error', t('undo.replayFailed', { count: failed }));
+        }
+        refetchDumps();
+      })
+      .catch(err => console.error('Failed to replay pending commits:', err));
+  }, [user?.id, addToast, refetchDumps, t]);
+
+  // Requests started while the page is closing get cancelled, so save the deferred
+  // work instead. If the page comes back from the back/forward cache the timers are
+  // still running, so the saved copy is dropped again.
+  useEffect(() => {
+    const userId = user?.id;
+    let saved = new Set<string>();
+
+    const handlePageHide = () => {
+      const pending = stackRef.current.filter(entry => entry.commitTimer);
+      if (userId) {
+        const commits = pending.flatMap(entry => (entry.command.pending ? [entry.command.pending] : []));
+        saved = new Set(commits.map(commit => JSON.stringify(commit)));
+        storePendingCommits(userId, [...loadPendingCommits(userId), ...commits]);
+      }
+      // Commands without a storable form get a best-effort flush
+      pending
+        .filter(entry => !userId || !entry.command.pending)
+        .forEach(entry => commitEntry(entry.id));
+    };
+
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted && userId) {
+        storePendingCommits(
+          userId,
+          loadPendingCommits(userId).filter(commit => !saved.has(JSON.stringify(commit)))
+        );
+        saved = new Set();
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, [user?.id, commitEntry]);
+
+  // Don't lose deferred work when the provider unmounts
+  useEffect(() => () => {
+    flushRef.current();
+  }, []);
+
+  const value: UndoContextState = {
+    canUndo,
+    run,
+    undo,
+    flush,
+  };
+
+  return <UndoContext.Provider value={value}>{children}</UndoContext.Provider>;
+};
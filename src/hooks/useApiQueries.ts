@@ -0,0 +1,133 @@
+/**
+ * API Query Hooks
+ *
+ * Cached reads for each endpoint, built on useQuery.
+ * Mutations in the service layer invalidate the matching keys.
+ */
+
+import { useQuery, type UseQueryResult } from './useQuery';
+import { useAuth } from './useAuth';
+import { unwrapResponse } from '../services/api';
+import { queryCache } from '../services/query-cache';
+import { queryKeys, ENTITY_TYPES } from '../services/query-keys';
+import { getUserReminders, type Reminder } from '../services/reminders.service';
+import { getUserTrackableItems, type TrackableItem } from '../services/tracking.service';
+import { fetchProfile, type UserProfile } from '../services/profile.service';
+import { fetchFlaggedDumps, type FlaggedDump, type FlaggedStatusFilter } from '../services/review.service';
+import { fetchMyFeedback } from '../services/feedback.service';
+import { fetchAppMetadata, getInitialMetadata } from '../services/metadata.service';
+import { prepareSearchQuery, searchDumps } from '../services/search.service';
+import { mergeSearchFilters } from '../utils/search-query';
+import { DEFAULT_SEARCH_SORT, type SearchState } from '../types/search.types';
+import type { Category, Dump } from '../types/dump.types';
+import type { AppMetadata } from '../types/metadata.types';
+
+const METADATA_STALE_TIME = 10 * 60 * 1000;    // Enums and categories rarely change
+const METADATA_RETRY_TIME = 30 * 1000;          // Retry sooner while serving offline data
+const SEARCH_COUNT_STALE_TIME = 60 * 1000;      // Smart view counts may lag by a minute
+
+export type MyFeedbackPage = NonNullable<Awaited<ReturnType<typeof fetchMyFeedback>>['data']>;
+
+/**
+ * All reminders for the signed-in user
+ */
+export const useReminders = (): UseQueryResult<Reminder[]> => {
+  const { user } = useAuth();
+  return useQuery(queryKeys.reminders.list(), () => getUserReminders(), {
+    enabled: !!user?.id,
+    entity: ENTITY_TYPES.reminder,
+  });
+};
+
+/**
+ * Active trackable items for the signed-in user
+ */
+export const useTrackableItems = (): UseQueryResult<TrackableItem[]> => {
+  const { user } = useAuth();
+  return useQuery(
+    queryKeys.tracking.list({ activeOnly: true }),
+    () => getUserTrackableItems({ activeOnly: true }),
+    { enabled: !!user?.id, entity: ENTITY_TYPES.trackableItem }
+  );
+};
+
+/**
+ * Signed-in user's profile
+ */
+export const useProfile = (): UseQueryResult<UserProfile> => {
+  return useQuery(queryKeys.profile.all, fetchProfile);
+};
+
+/**
+ * Review queue filtered by status
+ */
+export const useFlaggedDumps = (status: FlaggedStatusFilter): UseQueryResult<FlaggedDump[]> => {
+  return useQuery(
+    queryKeys.review.flagged(status),
+    async () => unwrapResponse(await fetchFlaggedDumps(status), 'Failed to load flagged dumps'),
+    { entity: ENTITY_TYPES.flaggedDump }
+  );
+};
+
+/**
+ * One page of the user's submitted feedback (newest first)
+ */
+export const useMyFeedback = (params: { limit: number; offset: number }): UseQueryResult<MyFeedbackPage> => {
+  return useQuery(queryKeys.feedback.mine(params), async () => {
+    const data = unwrapResponse(await fetchMyFeedback(params), 'Failed to load feedback');
+    const items = Array.isArray(data.items) ? [...data.items] : [];
+    items.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return { items, total: typeof data.total === 'number' ? data.total : items.length };
+  });
+};
+
+/**
+ * Filter enums and categories
+ * Until the first response arrives the stored copy (or the built-in
+ * enums) is returned, so callers always have something to render
+ */
+export const useAppMetadata = (): AppMetadata => {
+  const { user } = useAuth();
+  const current = queryCache.getQueryData<AppMetadata>(queryKeys.metadata.all);
+  const { data } = useQuery(queryKeys.metadata.all, fetchAppMetadata, {
+    enabled: !!user?.id,
+    staleTime: !current || current.source === 'server' ? METADATA_STALE_TIME : METADATA_RETRY_TIME,
+  });
+  return data ?? getInitialMetadata();
+};
+
+/**
+ * Active categories with ids, colors and icons (filters, pickers, badges)
+ *
+ * @returns null while no categories are known yet
+ */
+export const useCategoryList = (): Category[] | null => {
+  const { categories, categoriesSource } = useAppMetadata();
+  return categoriesSource === 'fallback' ? null : categories;
+};
+
+/**
+ * A dump's category with current color and icon; falls back to the
+ * category embedded in the dump when the metadata doesn't list it
+ */
+export const useDumpCategory = (dump: Pick<Dump, 'category_id' | 'category'>): Category | null => {
+  const { categories } = useAppMetadata();
+  return categories.find(category => category.id === dump.category_id) ?? dump.category ?? null;
+};
+
+/**
+ * Number of dumps matching a search (smart view counts)
+ * Only the total is needed, so a single result is requested
+ */
+export const useSearchCount = ({ query, filters }: SearchState): UseQueryResult<number> => {
+  const { user } = useAuth();
+  return useQuery(
+    queryKeys.search.count({ query, filters }),
+    async () => {
+      const parsed = await prepareSearchQuery(query);
+      const merged = mergeSearchFilters(filters, parsed.filters);
+      return (await searchDumps(parsed.text, user!.id, merged, 0, 1, DEFAULT_SEARCH_SORT, parsed)).total;
+    },
+    { enabled: !!user?.id && !!query.trim(), staleTime: SEARCH_COUNT_STALE_TIME }
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * useBatchActions Hook
+ *
+ * Batch approve / reject / recategorize / delete built on the optimistic
+ * DumpsContext actions. Approve and recategorize run right away, report
+ * aggregated progress, toast a summary, and return the IDs that failed
+ * (already rolled back) so they can stay selected. Reject and delete go
+ * through the undo manager and are only sent once the grace window ends.
+ */
+
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDumps } from './useDumps';
+import { useUndoableActions } from './useUndoableActions';
+import { useToast } from '../components/Toast';
+import { runBatch, type BatchItemResult, type BatchProgress } from '../utils/batch';
+
+export type BatchActionType = 'approve' | 'reject' | 'recategorize' | 'delete';
+
+export interface BatchActionsState {
+  progress: BatchProgress | null;                         // Non-null while a batch runs
+  runningAction: BatchActionType | null;
+  approve: (ids: string[]) => Promise<string[]>;
+  reject: (ids: string[], reason: string) => Promise<string[]>;
+  recategorize: (ids: string[], categoryName: string) => Promise<string[]>;
+  remove: (ids: string[]) => Promise<string[]>;
+}
+
+/**
+ * Hook exposing batch dump actions
+ */
+export const useBatchActions = (): BatchActionsState => {
+  const { t } = useTranslation();
+  const { addToast } = useToast();
+  const { acceptDumpWithOptimism, recategorizeDumpWithOptimism } = useDumps();
+  const { rejectDumps, deleteDumps } = useUndoableActions();
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [runningAction, setRunningAction] = useState<BatchActionType | null>(null);
+
+  const run = useCallback(
+    async (
+      type: BatchActionType,
+      ids: string[],
+      action: (id: string) => Promise<BatchItemResult>
+    ): Promise<string[]> => {
+      if (ids.length === 0) return [];
+
+      setRunningAction(type);
+      const result = await runBatch(ids, action, { onProgress: setProgress });
+      setProgress(null);
+      setRunningAction(null);
+
+      const succeeded = result.succeeded.length;
+      const failed = result.failed.length;
+      if (failed === 0) {
+        addToast('success', t(`bulk.done.${type}`, { count: succeeded }));
+      } else if (succeeded === 0) {
+        addToast('error', t('bulk.allFailed', { count: failed, error: result.failed[0].error }));
+      } else {
+        addToast(
+          'warning',
+          t('bulk.partial', { succeeded, total: ids.length, failed, error: result.failed[0].error })
+        );
+      }
+
+      return result.failed.map(failure => failure.id);
+    },
+    [addToast, t]
+  );
+
+  const approve = useCallback(
+    (ids: string[]) => run('approve', ids, id => acceptDumpWithOptimism(id, {})),
+    [run, acceptDumpWithOptimism]
+  );
+
+  const reject = useCallback(
+    async (ids: string[], reason: string) => ((await rejectDumps(ids, reason)) ? [] : ids),
+    [rejectDumps]
+  );
+
+  const recategorize = useCallback(
+    (ids: string[], categoryName: string) =>
+      run('recategorize', ids, id => recategorizeDumpWithOptimism(id, categoryName)),
+    [run, recategorizeDumpWithOptimism]
+  );
+
+  const remove = useCallback(
+    async (ids: string[]) => ((await deleteDumps(ids)) ? [] : ids),
+    [deleteDumps]
+  );
+
+  return { progress, runningAction, approve, reject, recategorize, remove };
+};
@@ -0,0 +1,43 @@
+/**
+ * useCommandPalette Hook
+ *
+ * Access the command palette and contribute page-specific commands to it
+ */
+
+import { useContext, useEffect, useRef } from 'react';
+import { CommandPaletteContext, type CommandPaletteContextState } from '../contexts/CommandPaletteContext';
+import type { Command } from '../types/command.types';
+
+/**
+ * Hook to access command palette context
+ *
+ * @throws {Error} If used outside of CommandPaletteProvider
+ */
+export const useCommandPalette = (): CommandPaletteContextState => {
+  const context = useContext(CommandPaletteContext);
+
+  if (context === undefined) {
+    throw new Error('useCommandPalette must be used within a CommandPaletteProvider');
+  }
+
+  return context;
+};
+
+/**
+ * Register commands for as long as the calling component is mounted
+ * The latest `commands` are read whenever the palette opens, so callers
+ * can pass a fresh array on every render
+ *
+ * @param sourceId - Unique name of the contributing page/component
+ * @param commands - Commands to offer right now
+ */
+export const useRegisterCommands = (sourceId: string, commands: Command[]): void => {
+  const { registerCommands } = useCommandPalette();
+  const commandsRef = useRef(commands);
+
+  useEffect(() => {
+    commandsRef.current = commands;
+  });
+
+  useEffect(() => registerCommands(sourceId, () => commandsRef.current), [registerCommands, sourceId]);
+};
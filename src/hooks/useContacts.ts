@@ -0,0 +1,67 @@
+/**
+ * useContacts Hook
+ *
+ * Contacts built from the loaded dumps with the user's confirmations,
+ * corrections and hidden entries applied
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useDumps } from './useDumps';
+import { useEntities } from './useEntities';
+import type { Contact, ContactEdit, ContactEdits } from '../types/contact.types';
+import { applyContactEdit, buildContacts, findContactEdit, setContactEdit } from '../utils/contacts';
+import { loadContactEdits, storeContactEdits } from '../services/contacts.service';
+
+export type ContactChanges = Omit<ContactEdit, 'updatedAt'>;
+
+export interface ContactsState {
+  contacts: Contact[];                   // Hidden ones included, flagged
+  updateContact: (contact: Contact, changes: ContactChanges) => void;
+  resetContact: (contact: Contact) => void;
+}
+
+/**
+ * Hook consolidating contacts from DumpsContext
+ */
+export const useContacts = (): ContactsState => {
+  const { user } = useAuth();
+  const { dumps } = useDumps();
+  const { aliases } = useEntities();
+  const userId = user?.id ?? null;
+
+  const loaded = useMemo(() => (userId ? loadContactEdits(userId) : {}), [userId]);
+  const [changed, setChanged] = useState<{ userId: string | null; edits: ContactEdits } | null>(null);
+  const edits = changed && changed.userId === userId ? changed.edits : loaded;
+
+  const updateEdits = useCallback(
+    (next: ContactEdits) => {
+      setChanged({ userId, edits: next });
+      if (userId) {
+        storeContactEdits(userId, next);
+      }
+    },
+    [userId]
+  );
+
+  const updateContact = useCallback(
+    (contact: Contact, changes: ContactChanges) => {
+      const previous = findContactEdit(contact, edits);
+      updateEdits(setContactEdit(edits, contact, { ...previous, ...changes, updatedAt: new Date().toISOString() }));
+    },
+    [edits, updateEdits]
+  );
+
+  const resetContact = useCallback(
+    (contact: Contact) => updateEdits(setContactEdit(edits, contact, null)),
+    [edits, updateEdits]
+  );
+
+  const extracted = useMemo(() => buildContacts(dumps, aliases), [dumps, aliases]);
+  const contacts = useMemo(
+    () => extracted.map(contact => applyContactEdit(contact, findContactEdit(contact, edits))),
+    [extracted, edits]
+  );
+
+  return { contacts, updateContact, resetContact };
+};
@@ -0,0 +1,105 @@
+/**
+ * useDuplicateGroups Hook
+ *
+ * Duplicate groups among the loaded dumps, minus those the user marked as
+ * not duplicates. Finding close vectors compares every pair, so it runs
+ * outside render, only when dumps are added, removed or re-embedded (or
+ * the threshold drops below the last scan's), and the previous groups
+ * stay visible meanwhile. Metadata patches only regroup.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useDumps } from './useDumps';
+import type { Dump } from '../types/dump.types';
+import { findDuplicateGroups, findVectorLinks, type DuplicateGroup, type VectorLink } from '../utils/duplicates';
+import { loadDismissedDuplicates, storeDismissedDuplicates } from '../services/duplicates.service';
+
+export interface DuplicateGroupsState {
+  groups: DuplicateGroup[];
+  scanning: boolean;
+  scannedCount: number;                  // Loaded dumps compared
+  dismissedCount: number;
+  dismiss: (groupKey: string) => void;
+  clearDismissed: () => void;
+}
+
+// Serial number per content vector, so a signature can tell when vectors change
+const vectorSerials = new WeakMap<object, number>();
+let nextVectorSerial = 0;
+
+const vectorSignature = (dump: Dump): string => {
+  const vector: unknown = dump.content_vector;
+  if (typeof vector !== 'object' || vector === null) {
+    // Text form (or no vector): its length and start are enough to notice a re-embedding
+    return typeof vector === 'string' ? `${dump.id}:${vector.length}:${vector.slice(0, 64)}` : `${dump.id}:-`;
+  }
+  if (!vectorSerials.has(vector)) {
+    vectorSerials.set(vector, ++nextVectorSerial);
+  }
+  return `${dump.id}:${vectorSerials.get(vector)}`;
+};
+
+/**
+ * Hook finding duplicate groups at `threshold` vector similarity
+ */
+export const useDuplicateGroups = (threshold: number): DuplicateGroupsState => {
+  const { user } = useAuth();
+  const { dumps } = useDumps();
+  const userId = user?.id ?? null;
+
+  const signature = useMemo(() => dumps.map(vectorSignature).join(','), [dumps]);
+  const [scan, setScan] = useState<{ signature: string; minSimilarity: number; links: VectorLink[] } | null>(null);
+  const scanned = !!scan && scan.signature === signature && scan.minSimilarity <= threshold;
+
+  useEffect(() => {
+    if (scanned) return;
+    // Deferred so the "scanning" state paints before the comparison blocks
+    const timer = setTimeout(
+      () => setScan({ signature, minSimilarity: threshold, links: findVectorLinks(dumps, threshold) }),
+      0
+    );
+    return () => clearTimeout(timer);
+  }, [scanned, signature, dumps, threshold]);
+
+  // Cheap: content matches and the scan's links, on every change to the dumps
+  const allGroups = useMemo(
+    () => (scan ? findDuplicateGroups(dumps, threshold, scan.links) : []),
+    [scan, dumps, threshold]
+  );
+
+  const loaded = useMemo(() => (userId ? loadDismissedDuplicates(userId) : []), [userId]);
+  const [edited, setEdited] = useState<{ userId: string | null; keys: string[] } | null>(null);
+  const dismissed = edited && edited.userId === userId ? edited.keys : loaded;
+
+  const updateDismissed = useCallback(
+    (keys: string[]) => {
+      setEdited({ userId, keys });
+      if (userId) {
+        storeDismissedDuplicates(userId, keys);
+      }
+    },
+    [userId]
+  );
+
+  const dismiss = useCallback(
+    (groupKey: string) => updateDismissed([...dismissed.filter(key => key !== groupKey), groupKey]),
+    [dismissed, updateDismissed]
+  );
+
+  const clearDismissed = useCallback(() => updateDismissed([]), [updateDismissed]);
+
+  const groups = useMemo(() => {
+    const hidden = new Set(dismissed);
+    return allGroups.filter(group => !hidden.has(group.key));
+  }, [allGroups, dismissed]);
+
+  return {
+    groups,
+    scanning: !scanned,
+    scannedCount: dumps.length,
+    dismissedCount: dismissed.length,
+    dismiss,
+    clearDismissed,
+  };
+};
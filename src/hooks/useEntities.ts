@@ -0,0 +1,62 @@
+/**
+ * useEntities Hook
+ *
+ * People, organizations and locations aggregated across the loaded dumps,
+ * with the user's merged spellings applied
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useDumps } from './useDumps';
+import {
+  addEntityAliases,
+  aggregateEntities,
+  removeEntityAlias,
+  type EntityAliases,
+  type EntitySummary,
+} from '../utils/entities';
+import { loadEntityAliases, storeEntityAliases } from '../services/entity-aliases.service';
+
+export interface EntitiesState {
+  entities: EntitySummary[];             // Most mentioned first
+  aliases: EntityAliases;
+  merge: (canonicalKey: string, mergedKeys: string[]) => void;
+  split: (variantKey: string) => void;
+}
+
+/**
+ * Hook aggregating entities from DumpsContext
+ */
+export const useEntities = (): EntitiesState => {
+  const { user } = useAuth();
+  const { dumps } = useDumps();
+  const userId = user?.id ?? null;
+
+  const loaded = useMemo(() => (userId ? loadEntityAliases(userId) : {}), [userId]);
+  const [edited, setEdited] = useState<{ userId: string | null; aliases: EntityAliases } | null>(null);
+  const aliases = edited && edited.userId === userId ? edited.aliases : loaded;
+
+  const updateAliases = useCallback(
+    (next: EntityAliases) => {
+      setEdited({ userId, aliases: next });
+      if (userId) {
+        storeEntityAliases(userId, next);
+      }
+    },
+    [userId]
+  );
+
+  const merge = useCallback(
+    (canonicalKey: string, mergedKeys: string[]) => updateAliases(addEntityAliases(aliases, canonicalKey, mergedKeys)),
+    [aliases, updateAliases]
+  );
+
+  const split = useCallback(
+    (variantKey: string) => updateAliases(removeEntityAlias(aliases, variantKey)),
+    [aliases, updateAliases]
+  );
+
+  const entities = useMemo(() => aggregateEntities(dumps, aliases), [dumps, aliases]);
+
+  return { entities, aliases, merge, split };
+};
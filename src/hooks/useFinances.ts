@@ -0,0 +1,39 @@
+/**
+ * useFinances Hook
+ *
+ * Money entries from the loaded dumps, with due dates from deadline
+ * reminders and current category names
+ */
+
+import { useMemo } from 'react';
+import { useDumps } from './useDumps';
+import { useCategoryList, useReminders } from './useApiQueries';
+import type { MoneyEntry } from '../types/finance.types';
+import { buildMoneyEntries } from '../utils/money';
+
+export interface FinancesState {
+  entries: MoneyEntry[];                 // Newest first
+  currencies: string[];                  // Most used first
+}
+
+/**
+ * Hook building money entries from DumpsContext
+ */
+export const useFinances = (): FinancesState => {
+  const { dumps } = useDumps();
+  const { data: reminders } = useReminders();
+  const categories = useCategoryList();
+
+  const entries = useMemo(
+    () => buildMoneyEntries(dumps, { reminders: reminders ?? [], categories: categories ?? [] }),
+    [dumps, reminders, categories]
+  );
+
+  const currencies = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => counts.set(entry.currency, (counts.get(entry.currency) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([currency]) => currency);
+  }, [entries]);
+
+  return { entries, currencies };
+};
@@ -0,0 +1,72 @@
+/**
+ * useFocusedDumpActions Hook
+ *
+ * Single-dump actions behind the keyboard shortcuts and the command
+ * palette's "focused dump" commands: approve, and snooze the dump's
+ * open reminders until tomorrow morning. Results are reported as toasts.
+ */
+
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { addDays, setHours, startOfDay } from 'date-fns';
+import { useDumps } from './useDumps';
+import { useToast } from '../components/Toast';
+import { queryCache } from '../services/query-cache';
+import { queryKeys, ENTITY_TYPES } from '../services/query-keys';
+import { getUserReminders, snoozeReminder, ReminderStatus } from '../services/reminders.service';
+
+const SNOOZE_HOUR = 9;             // Snoozed reminders come back at 09:00 the next day
+
+export interface FocusedDumpActions {
+  approve: (dumpId: string) => Promise<void>;
+  snooze: (dumpId: string) => Promise<void>;
+}
+
+/**
+ * Hook exposing keyboard-friendly actions for one dump
+ */
+export const useFocusedDumpActions = (): FocusedDumpActions => {
+  const { t } = useTranslation();
+  const { addToast } = useToast();
+  const { acceptDumpWithOptimism } = useDumps();
+
+  const approve = useCallback(
+    async (dumpId: string) => {
+      const result = await acceptDumpWithOptimism(dumpId, {});
+      if (result.success) {
+        addToast('success', t('review.approved'));
+      } else {
+        addToast('error', result.error || t('capture.failedToApprove'));
+      }
+    },
+    [acceptDumpWithOptimism, addToast, t]
+  );
+
+  const snooze = useCallback(
+    async (dumpId: string) => {
+      try {
+        const reminders =
+          (await queryCache.fetch(queryKeys.reminders.list(), () => getUserReminders(), {
+            entity: ENTITY_TYPES.reminder,
+          })) ?? [];
+        const open = reminders.filter(
+          reminder => reminder.dump_id === dumpId && reminder.status !== ReminderStatus.DISMISSED
+        );
+
+        if (open.length === 0) {
+          addToast('info', t('shortcuts.noReminder'));
+          return;
+        }
+
+        const until = setHours(startOfDay(addDays(new Date(), 1)), SNOOZE_HOUR).toISOString();
+        await Promise.all(open.map(reminder => snoozeReminder(reminder.id, until)));
+        addToast('success', t('shortcuts.snoozed', { count: open.length }));
+      } catch (err: unknown) {
+        addToast('error', err instanceof Error ? err.message : t('outbox.unknownError'));
+      }
+    },
+    [addToast, t]
+  );
+
+  return { approve, snooze };
+};
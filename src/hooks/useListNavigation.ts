@@ -0,0 +1,94 @@
+/**
+ * useListNavigation Hook
+ *
+ * j/k keyboard cursor over a list of dumps. Enter opens the focused item
+ * and extra single-key actions (approve, reject, ...) run against it.
+ * When the focused item leaves the list (approved, deleted, filtered out)
+ * the cursor stays at the same position.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { isPlainShortcut } from '../utils/keyboard';
+
+export interface ListNavigationOptions {
+  ids: string[];                                        // Items in on-screen order
+  enabled?: boolean;
+  onOpen?: (id: string) => void;                        // Enter / o
+  keyActions?: Record<string, (id: string) => void>;   // Lowercase key -> action on the focused item
+}
+
+export interface ListNavigationState {
+  focusedId: string | null;
+  setFocusedId: (id: string | null) => void;
+}
+
+/**
+ * Hook providing a keyboard cursor over `ids`
+ */
+export function useListNavigation({
+  ids,
+  enabled = true,
+  onOpen,
+  keyActions,
+}: ListNavigationOptions): ListNavigationState {
+  const [cursor, setCursor] = useState<{ id: string; index: number } | null>(null);
+
+  // Fall back to the item now at the cursor's old position
+  let focusedId: string | null = null;
+  if (cursor) {
+    focusedId = ids.includes(cursor.id)
+      ? cursor.id
+      : ids[Math.min(cursor.index, ids.length - 1)] ?? null;
+  }
+
+  const latestRef = useRef({ ids, focusedId, onOpen, keyActions });
+  useEffect(() => {
+    latestRef.current = { ids, focusedId, onOpen, keyActions };
+  });
+
+  const setFocusedId = (id: string | null) => {
+    setCursor(id === null ? null : { id, index: Math.max(0, ids.indexOf(id)) });
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPlainShortcut(event) || event.defaultPrevented) return;
+
+      const { ids: currentIds, focusedId: current, onOpen: open, keyActions: actions } = latestRef.current;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const index = current ? currentIds.indexOf(current) : -1;
+
+      if (key === 'j' || key === 'k') {
+        if (currentIds.length === 0) return;
+        event.preventDefault();
+        const next = key === 'j'
+          ? Math.min(index + 1, currentIds.length - 1)
+          : Math.max(index === -1 ? 0 : index - 1, 0);
+        setCursor({ id: currentIds[next], index: next });
+      } else if (key === 'Escape' && current) {
+        setCursor(null);
+      } else if (current && (key === 'Enter' || key === 'o') && open) {
+        event.preventDefault();
+        open(current);
+      } else if (current && !event.shiftKey && actions?.[key]) {
+        event.preventDefault();
+        actions[key](current);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  // Keep the focused card on screen (cards carry data-dump-id)
+  useEffect(() => {
+    if (!focusedId) return;
+    document
+      .querySelector(`[data-dump-id="${CSS.escape(focusedId)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [focusedId]);
+
+  return { focusedId: enabled ? focusedId : null, setFocusedId };
+}
@@ -0,0 +1,23 @@
+/**
+ * useOutbox Hook
+ *
+ * Convenience hook for accessing the offline capture outbox
+ */
+
+import { useContext } from 'react';
+import { OutboxContext, type OutboxContextState } from '../contexts/OutboxContext';
+
+/**
+ * Hook to access outbox context
+ *
+ * @throws {Error} If used outside of OutboxProvider
+ */
+export const useOutbox = (): OutboxContextState => {
+  const context = useContext(OutboxContext);
+
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,82 @@
+/**
+ * useQuery Hook
+ *
+ * Subscribe a component to a cached query. Cached data renders immediately;
+ * the request runs on mount only when the data is missing or stale, and again
+ * when the window regains focus after going stale (stale-while-revalidate).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { queryCache, hashKey, type QueryKey, type QueryState } from '../services/query-cache';
+
+const DEFAULT_STALE_TIME = 30 * 1000;      // Reuse data for 30s before revalidating
+
+export interface UseQueryOptions {
+  enabled?: boolean;         // Skip fetching until true (e.g. until the user is known)
+  staleTime?: number;        // ms before cached data is revalidated
+  entity?: string;           // Normalize results as this entity type
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  isLoading: boolean;        // No data yet and a request is in flight
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Hook to read (and keep fresh) one query
+ *
+ * @example
+ * const { data, isLoading, error } = useQuery(queryKeys.profile.all, fetchProfile);
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME, entity }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  // Callers usually build keys inline; identity follows the key's content
+  const hash = hashKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  }, [fetcher]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(() => queryCache.getSnapshot<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, () => fetcherRef.current(), { entity }),
+    [stableKey, entity]
+  );
+
+  // Fetch on mount / key change when missing or stale
+  useEffect(() => {
+    if (enabled && queryCache.isStale(stableKey, staleTime)) {
+      refetch();
+    }
+  }, [enabled, stableKey, staleTime, refetch]);
+
+  // Revalidate stale data when the user comes back to the tab
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleFocus = () => {
+      if (queryCache.isStale(stableKey, staleTime)) {
+        refetch();
+      }
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [enabled, stableKey, staleTime, refetch]);
+
+  return {
+    ...state,
+    isLoading: state.data === undefined && (state.isFetching || (enabled && state.status === 'idle')),
+    refetch,
+  };
+}
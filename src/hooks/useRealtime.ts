@@ -0,0 +1,50 @@
+/**
+ * useRealtime Hook
+ *
+ * Access to the server-push channel and a helper to react to dump events
+ */
+
+import { useContext, useEffect, useRef } from 'react';
+import { RealtimeContext, type RealtimeContextState } from '../contexts/RealtimeContext';
+import type { DumpEvent, DumpEventType } from '../types/realtime.types';
+
+/**
+ * Hook to access realtime context
+ *
+ * @throws {Error} If used outside of RealtimeProvider
+ */
+export const useRealtime = (): RealtimeContextState => {
+  const context = useContext(RealtimeContext);
+
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+
+  return context;
+};
+
+/**
+ * Run a handler for every pushed dump event (optionally limited to some types)
+ * The handler may change between renders without re-subscribing
+ */
+export const useRealtimeEvents = (
+  handler: (event: DumpEvent) => void,
+  types?: DumpEventType[]
+): void => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  const typesKey = types?.join(',') || '';
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const allowed = typesKey ? typesKey.split(',') : null;
+    return subscribe(event => {
+      if (!allowed || allowed.includes(event.type)) {
+        handlerRef.current(event);
+      }
+    });
+  }, [subscribe, typesKey]);
+};
@@ -0,0 +1,70 @@
+/**
+ * useRelatedDumps Hook
+ *
+ * Related dumps for the detail modal. The backend's vector neighbors are
+ * used when the endpoint exists; otherwise (and until they arrive) the
+ * dumps already loaded are compared locally.
+ */
+
+import { useMemo } from 'react';
+import { useDumps } from './useDumps';
+import { useQuery } from './useQuery';
+import { unwrapResponse } from '../services/api';
+import { queryKeys } from '../services/query-keys';
+import { fetchRelatedDumps } from '../services/dumps.service';
+import type { Dump, RelatedDump } from '../types/dump.types';
+import { findRelatedDumps, findSharedEntities } from '../utils/similarity';
+
+const RELATED_LIMIT = 5;
+const RELATED_STALE_TIME = 5 * 60 * 1000;
+
+// Statuses meaning the backend has no such endpoint (not a passing failure)
+const MISSING_ENDPOINT_STATUSES = [404, 501];
+
+// Once the endpoint turns out to be missing, stick to local matching for the session
+let backendUnavailable = false;
+
+export interface RelatedDumpsState {
+  related: RelatedDump[];
+  source: 'backend' | 'local';
+  candidateCount: number;                // Dumps compared locally
+}
+
+/**
+ * Hook listing dumps related to `dump`
+ */
+export const useRelatedDumps = (dump: Dump | null): RelatedDumpsState => {
+  const { dumps } = useDumps();
+
+  const local = useMemo(() => (dump ? findRelatedDumps(dump, dumps, RELATED_LIMIT) : []), [dump, dumps]);
+
+  const { data } = useQuery(
+    queryKeys.relatedDumps.list(dump?.id ?? ''),
+    async () => {
+      const response = await fetchRelatedDumps(dump!.id, RELATED_LIMIT);
+      if (!response.success && MISSING_ENDPOINT_STATUSES.includes(response.error?.status ?? 0)) {
+        backendUnavailable = true;
+      }
+      return unwrapResponse(response, 'Failed to load related dumps');
+    },
+    { enabled: !!dump && !backendUnavailable, staleTime: RELATED_STALE_TIME }
+  );
+
+  const remote = useMemo(
+    () =>
+      dump && data
+        ? data
+            .filter(match => match.dump?.id && match.dump.id !== dump.id)
+            .map(match => ({
+              dump: match.dump,
+              similarity: match.similarity,
+              sharedEntities: findSharedEntities(dump, match.dump),
+            }))
+        : null,
+    [dump, data]
+  );
+
+  return remote
+    ? { related: remote, source: 'backend', candidateCount: dumps.length }
+    : { related: local, source: 'local', candidateCount: dumps.length };
+};
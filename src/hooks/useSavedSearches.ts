@@ -0,0 +1,23 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Convenience hook for accessing the user's saved searches and smart views
+ */
+
+import { useContext } from 'react';
+import { SavedSearchesContext, type SavedSearchesContextState } from '../contexts/SavedSearchesContext';
+
+/**
+ * Hook to access saved searches context
+ *
+ * @throws {Error} If used outside of SavedSearchesProvider
+ */
+export const useSavedSearches = (): SavedSearchesContextState => {
+  const context = useContext(SavedSearchesContext);
+
+  if (context === undefined) {
+    throw new Error('useSavedSearches must be used within a SavedSearchesProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,39 @@
+/**
+ * useScrollRestoration Hook
+ *
+ * Remembers the window scroll position for a view and puts it back once
+ * the view has re-rendered its content (e.g. after a modal closes or when
+ * navigating back to the page)
+ */
+
+import { useCallback, useEffect } from 'react';
+
+const storageKey = (key: string) => `scrollPosition:${key}`;
+
+/**
+ * Hook saving and restoring the scroll position for `key`
+ *
+ * @param key - Identifies the content (positions of other content are ignored)
+ * @param ready - True once the content is rendered at its full height
+ * @returns `save`, to call before covering or leaving the view
+ */
+export const useScrollRestoration = (key: string, ready: boolean): (() => void) => {
+  const save = useCallback(() => {
+    sessionStorage.setItem(storageKey(key), String(window.scrollY));
+  }, [key]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const stored = sessionStorage.getItem(storageKey(key));
+    if (stored === null) return;
+
+    sessionStorage.removeItem(storageKey(key));
+    const frame = requestAnimationFrame(() => window.scrollTo(0, Number(stored)));
+    return () => cancelAnimationFrame(frame);
+  }, [key, ready]);
+
+  // Leaving the page counts as covering it
+  useEffect(() => save, [save]);
+
+  return save;
+};
@@ -1,11 +1,14 @@
 /**
  * useSearch Hook
  * 
- * Hook for accessing search context with debounced search execution
+ * Hook for accessing search context with debounced search execution,
+ * and for mirroring the search into the URL
  */
 
 import { useContext, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { SearchContext } from '../contexts/SearchContext';
+import { pageFromParams, searchStateFromParams, withSearchParams } from '../utils/search-url';
 
 const DEBOUNCE_DELAY = 300; // 300ms debounce
 
@@ -29,7 +32,7 @@ export const useSearch = () => {
  */
 export const useDebouncedSearch = () => {
   const context = useSearch();
-  const { query, filters, page, executeSearch } = context;
+  const { query, filters, page, pagingMode, pageSize, engine, executeSearch } = context;
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -54,7 +57,59 @@ export const useDebouncedSearch = () => {
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [query, filters, page]);
+  }, [query, filters, page, pagingMode, pageSize, engine]);
 
   return context;
 };
+
+/**
+ * Hook keeping the search in the URL query string
+ * The URL wins on load and on back/forward; afterwards every change is
+ * written back. Page changes push history entries, other edits replace
+ * the current one so typing doesn't flood the history. Pages loaded by
+ * infinite scrolling replace too.
+ */
+export const useSearchUrlSync = (): void => {
+  const { query, filters, sort, page, pagingMode, applySearchState, resetSearch } = useSearch();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const syncedKeyRef = useRef<string | null>(null);    // Last search both sides agreed on
+  const applyingRef = useRef(false);                   // URL search not yet in context
+
+  const stateKey = withSearchParams(new URLSearchParams(), { query, filters, sort }, page).toString();
+
+  // URL -> context
+  useEffect(() => {
+    const urlState = searchStateFromParams(searchParams);
+    const urlPage = pageFromParams(searchParams);
+    const urlKey = urlState ? withSearchParams(new URLSearchParams(), urlState, urlPage).toString() : '';
+    if (urlKey === syncedKeyRef.current) return;
+
+    const firstSync = syncedKeyRef.current === null;
+    syncedKeyRef.current = urlKey;
+
+    // A bare /search keeps whatever was searched before leaving the page
+    if ((firstSync && !urlState) || urlKey === stateKey) return;
+
+    applyingRef.current = true;
+    if (urlState) {
+      applySearchState(urlState, urlPage);
+    } else {
+      resetSearch();
+    }
+  }, [searchParams, stateKey, applySearchState, resetSearch]);
+
+  // Context -> URL
+  useEffect(() => {
+    if (applyingRef.current) {
+      if (stateKey === syncedKeyRef.current) applyingRef.current = false;
+      return;
+    }
+    if (syncedKeyRef.current === null || stateKey === syncedKeyRef.current) return;
+
+    syncedKeyRef.current = stateKey;
+    // A bare /search is filled in rather than stacked on
+    const replace =
+      pagingMode === 'infinite' || !searchStateFromParams(searchParams) || pageFromParams(searchParams) === page;
+    setSearchParams(params => withSearchParams(params, { query, filters, sort }, page), { replace });
+  }, [stateKey, query, filters, sort, page, pagingMode, searchParams, setSearchParams]);
+};
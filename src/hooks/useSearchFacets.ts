@@ -0,0 +1,72 @@
+/**
+ * useSearchFacets Hook
+ *
+ * Live filter counts for the current query. One sample of matches is
+ * fetched per query (without FilterPanel filters) and re-counted locally
+ * whenever filters change, so toggling a checkbox costs no request.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useQuery } from './useQuery';
+import { queryKeys } from '../services/query-keys';
+import { prepareSearchQuery, searchDumps } from '../services/search.service';
+import type { Dump } from '../types/dump.types';
+import { DEFAULT_SEARCH_SORT, type SearchFacets, type SearchFilters } from '../types/search.types';
+import { computeSearchFacets } from '../utils/search-facets';
+import { hasSearchCriteria, matchesQueryConstraints } from '../utils/search-query';
+
+const FACET_SAMPLE_SIZE = 100;           // API maximum page size
+const FACETS_STALE_TIME = 60 * 1000;
+const QUERY_DEBOUNCE_MS = 300;           // Same pause as the search itself
+
+export interface SearchFacetsState {
+  facets: SearchFacets | null;           // null until a sample has loaded, and when it can't be
+  isLoading: boolean;
+}
+
+/**
+ * Hook computing facet counts for `query` under `filters`
+ */
+export const useSearchFacets = (query: string, filters: SearchFilters): SearchFacetsState => {
+  const { user } = useAuth();
+  const trimmed = query.trim();
+  const [debouncedQuery, setDebouncedQuery] = useState(trimmed);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(trimmed), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmed]);
+
+  const { data, error, isLoading } = useQuery<{ dumps: Dump[]; total: number } | null>(
+    queryKeys.search.facets({ query: debouncedQuery }),
+    async () => {
+      // Typed operators narrow the sample; phrases etc. are checked per result
+      const parsed = await prepareSearchQuery(debouncedQuery);
+      if (!hasSearchCriteria(parsed)) return null;
+
+      const response = await searchDumps(
+        parsed.text,
+        user!.id,
+        parsed.filters,
+        0,
+        FACET_SAMPLE_SIZE,
+        DEFAULT_SEARCH_SORT,
+        parsed
+      );
+      const dumps = response.results
+        .map(result => result.dump)
+        .filter(dump => matchesQueryConstraints(dump, parsed));
+      return { dumps, total: response.total };
+    },
+    { enabled: !!user?.id && !!debouncedQuery, staleTime: FACETS_STALE_TIME }
+  );
+
+  // Without a sample (failed request, offline) there is nothing to count
+  const facets = useMemo(
+    () => (data && !error && debouncedQuery ? computeSearchFacets(data.dumps, filters, data.total) : null),
+    [data, error, filters, debouncedQuery]
+  );
+
+  return { facets, isLoading };
+};
@@ -0,0 +1,23 @@
+/**
+ * useSearchIndex Hook
+ *
+ * Convenience hook for accessing the local search index context
+ */
+
+import { useContext } from 'react';
+import { SearchIndexContext, type SearchIndexContextState } from '../contexts/SearchIndexContext';
+
+/**
+ * Hook to access the local search index
+ *
+ * @throws {Error} If used outside of SearchIndexProvider
+ */
+export const useSearchIndex = (): SearchIndexContextState => {
+  const context = useContext(SearchIndexContext);
+
+  if (context === undefined) {
+    throw new Error('useSearchIndex must be used within a SearchIndexProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,57 @@
+/**
+ * useSearchSuggestions Hook
+ *
+ * Gathers what the search bar suggests: the user's recent queries,
+ * saved searches and entity values from dumps already loaded in the app
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useDumps } from './useDumps';
+import { useSavedSearches } from './useSavedSearches';
+import type { Dump } from '../types/dump.types';
+import type { SearchSuggestionSources } from '../types/search.types';
+import { clearRecentSearches, loadRecentSearches, recordRecentSearch } from '../services/recent-searches.service';
+import { harvestEntityValues } from '../utils/search-suggestions';
+
+export interface SearchSuggestionsState {
+  sources: SearchSuggestionSources;
+  rememberSearch: (query: string) => void;
+  forgetRecentSearches: () => void;
+}
+
+/**
+ * Hook providing suggestion sources for the search bar
+ *
+ * @param extraDumps - Dumps loaded outside DumpsContext (e.g. search results)
+ */
+export const useSearchSuggestions = (extraDumps: Dump[] = []): SearchSuggestionsState => {
+  const { user } = useAuth();
+  const { dumps } = useDumps();
+  const { savedSearches } = useSavedSearches();
+  const userId = user?.id ?? null;
+
+  const loaded = useMemo(() => (userId ? loadRecentSearches(userId) : []), [userId]);
+  const [edited, setEdited] = useState<{ userId: string; recent: string[] } | null>(null);
+  const recent = edited && edited.userId === userId ? edited.recent : loaded;
+
+  const entities = useMemo(() => harvestEntityValues([...dumps, ...extraDumps]), [dumps, extraDumps]);
+
+  const sources = useMemo(() => ({ recent, savedSearches, entities }), [recent, savedSearches, entities]);
+
+  const rememberSearch = useCallback(
+    (query: string) => {
+      if (!userId || !query.trim()) return;
+      setEdited({ userId, recent: recordRecentSearch(userId, query) });
+    },
+    [userId]
+  );
+
+  const forgetRecentSearches = useCallback(() => {
+    if (!userId) return;
+    clearRecentSearches(userId);
+    setEdited({ userId, recent: [] });
+  }, [userId]);
+
+  return { sources, rememberSearch, forgetRecentSearches };
+};
@@ -0,0 +1,88 @@
+/**
+ * useSelection Hook
+ *
+ * Multi-select state for a list of items: toggle, shift-click ranges,
+ * and bulk select/deselect. Selected IDs that disappear from the list
+ * are ignored automatically.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+
+export interface SelectionState {
+  selectedIds: string[];                                   // Selected IDs in list order
+  count: number;
+  isSelected: (id: string) => boolean;
+  toggle: (id: string, options?: { range?: boolean }) => void;
+  setSelected: (ids: string[], selected: boolean) => void;
+  replace: (ids: string[]) => void;
+  clear: () => void;
+}
+
+/**
+ * Hook to track which items of an ordered list are selected
+ *
+ * @param orderedIds - Item IDs in display order (used for shift-click ranges)
+ */
+export function useSelection(orderedIds: string[]): SelectionState {
+  const [selected, setSelectedSet] = useState<Set<string>>(() => new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  const selectedIds = useMemo(
+    () => orderedIds.filter(id => selected.has(id)),
+    [orderedIds, selected]
+  );
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  /**
+   * Toggle one item; with `range`, apply the clicked item's new state to
+   * everything between it and the previously clicked item
+   */
+  const toggle = useCallback(
+    (id: string, options: { range?: boolean } = {}) => {
+      const willSelect = !selected.has(id);
+      const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+      const targetIndex = orderedIds.indexOf(id);
+
+      setSelectedSet(prev => {
+        const next = new Set(prev);
+        const ids =
+          options.range && anchorIndex >= 0 && targetIndex >= 0
+            ? orderedIds.slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1)
+            : [id];
+        ids.forEach(itemId => (willSelect ? next.add(itemId) : next.delete(itemId)));
+        return next;
+      });
+      setAnchorId(id);
+    },
+    [selected, anchorId, orderedIds]
+  );
+
+  const setSelected = useCallback((ids: string[], value: boolean) => {
+    setSelectedSet(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (value ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  }, []);
+
+  const replace = useCallback((ids: string[]) => {
+    setSelectedSet(new Set(ids));
+    setAnchorId(null);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedSet(new Set());
+    setAnchorId(null);
+  }, []);
+
+  return {
+    selectedIds,
+    count: selectedIds.length,
+    isSelected,
+    toggle,
+    setSelected,
+    replace,
+    clear,
+  };
+}
@@ -10,6 +10,25 @@ import { BUCKET_LABELS } from '../types/dump.types';
 import { enrichDump, groupByTimeBucket } from '../utils/time-buckets';
 import { sortTimeBucketGroups } from '../utils/sorting';
 
+/**
+ * Enriched dumps keyed by the raw dump object. Dumps are replaced (not
+ * mutated) on update, so appending a page or patching one dump only
+ * re-enriches the dumps that actually changed. Entries remember the day
+ * they were computed on since buckets are relative to today.
+ */
+const enrichmentCache = new WeakMap<Dump, { day: string; enriched: DumpDerived }>();
+
+function enrichCached(dump: Dump, day: string): DumpDerived {
+  const cached = enrichmentCache.get(dump);
+  if (cached && cached.day === day) {
+    return cached.enriched;
+  }
+
+  const enriched = enrichDump(dump);
+  enrichmentCache.set(dump, { day, enriched });
+  return enriched;
+}
+
 /**
  * Hook to compute time buckets from raw dumps
  * 
@@ -18,8 +37,9 @@ import { sortTimeBucketGroups } from '../utils/sorting';
  */
 export const useTimeBuckets = (dumps: Dump[]): TimeBucketGroup[] => {
   return useMemo(() => {
-    // Enrich dumps with derived properties
-    const enrichedDumps: DumpDerived[] = dumps.map(enrichDump);
+    // Enrich dumps with derived properties (reusing unchanged ones)
+    const day = new Date().toDateString();
+    const enrichedDumps: DumpDerived[] = dumps.map(dump => enrichCached(dump, day));
 
     // Group by time bucket
     const grouped = groupByTimeBucket(enrichedDumps);
@@ -0,0 +1,23 @@
+/**
+ * useUndo Hook
+ *
+ * Convenience hook for accessing the app-wide undo manager
+ */
+
+import { useContext } from 'react';
+import { UndoContext, type UndoContextState } from '../contexts/UndoContext';
+
+/**
+ * Hook to access undo context
+ *
+ * @throws {Error} If used outside of UndoProvider
+ */
+export const useUndo = (): UndoContextState => {
+  const context = useContext(UndoContext);
+
+  if (context === undefined) {
+    throw new Error('useUndo must be used within an UndoProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,259 @@
+/**
+ * useUndoableActions Hook
+ *
+ * Destructive and state-changing actions expressed as undoable commands.
+ * Dump deletion, rejection and merging are deferred until the undo grace
+ * window expires; reminder dismissal/rescheduling and tracking completion run
+ * immediately and are reversed through the API when undone.
+ */
+
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Dump } from '../types/dump.types';
+import { useDumps } from './useDumps';
+import { useUndo } from './useUndo';
+import { BatchFailureError, runBatch, type BatchItemResult, type BatchResult } from '../utils/batch';
+import { mergeDumpFields } from '../utils/duplicates';
+import { updateDump } from '../services/dumps.service';
+import { queryCache } from '../services/query-cache';
+import { ENTITY_TYPES } from '../services/query-keys';
+import type { FlaggedDump } from '../services/review.service';
+import {
+  dismissReminder as dismissReminderRequest,
+  updateReminder,
+  ReminderStatus,
+  type Reminder,
+} from '../services/reminders.service';
+import {
+  completeTracking as completeTrackingRequest,
+  updateTrackableItem,
+  TrackingStatus,
+  type TrackableItem,
+} from '../services/tracking.service';
+
+export interface UndoableActions {
+  deleteDumps: (dumpIds: string[]) => Promise<boolean>;
+  rejectDumps: (dumpIds: string[], reason: string) => Promise<boolean>;
+  mergeDumps: (keep: Dump, duplicates: Dump[]) => Promise<boolean>;
+  dismissReminder: (reminder: Reminder) => Promise<boolean>;
+  rescheduleReminder: (reminder: Reminder, scheduledFor: string) => Promise<boolean>;
+  completeTracking: (item: TrackableItem) => Promise<boolean>;
+}
+
+/**
+ * Hook exposing undoable versions of destructive actions
+ * Each action resolves true once it has run (and can be undone)
+ */
+export const useUndoableActions = (): UndoableActions => {
+  const { t } = useTranslation();
+  const { run } = useUndo();
+  const {
+    dumps,
+    updateDumpLocally,
+    setDumpsHidden,
+    rejectDumpWithOptimism,
+    deleteDumpWithOptimism,
+  } = useDumps();
+
+  /**
+   * Run a deferred batch and return its failures
+   * (those items have already rolled themselves back)
+   */
+  const commitBatch = useCallback(
+    async (ids: string[], action: (id: string) => Promise<BatchItemResult>): Promise<BatchResult['failed']> =>
+      (await runBatch(ids, action)).failed,
+    []
+  );
+
+  /**
+   * Error for a partly failed batch; the undo manager leaves the items that went through alone
+   */
+  const batchFailure = useCallback(
+    (failures: BatchResult['failed'], total: number) =>
+      new BatchFailureError(
+        t('undo.partialFailure', { failed: failures.length, total, error: failures[0].error }),
+        failures.map(failure => failure.id)
+      ),
+    [t]
+  );
+
+  const deleteDumps = useCallback(
+    (dumpIds: string[]) =>
+      run({
+        label: t('undo.labels.deleteDumps', { count: dumpIds.length }),
+        execute: async () => setDumpsHidden(dumpIds, true),
+        undo: async () => setDumpsHidden(dumpIds, false),
+        commit: async () => {
+          const failures = await commitBatch(dumpIds, deleteDumpWithOptimism);
+          // Deleted dumps are gone from the list by now; failed ones are back
+          setDumpsHidden(dumpIds, false);
+          if (failures.length > 0) {
+            throw batchFailure(failures, dumpIds.length);
+          }
+        },
+        pending: { kind: 'deleteDumps', dumpIds },
+      }),
+    [run, t, setDumpsHidden, commitBatch, batchFailure, deleteDumpWithOptimism]
+  );
+
+  const rejectDumps = useCallback(
+    (dumpIds: string[], reason: string) => {
+      const originals = dumps.filter(dump => dumpIds.includes(dump.id));
+      // The review queue lists its own copies of flagged dumps
+      const flagged = queryCache.findEntities<FlaggedDump>(ENTITY_TYPES.flaggedDump, item =>
+        dumpIds.includes(item.dump.id)
+      );
+      const restoreFlagged = (items: FlaggedDump[]) =>
+        items.forEach(item =>
+          queryCache.updateEntity<FlaggedDump>(ENTITY_TYPES.flaggedDump, item.id, { status: item.status })
+        );
+
+      return run({
+        label: t('undo.labels.rejectDumps', { count: dumpIds.length }),
+        execute: async () => {
+          originals.forEach(dump =>
+            updateDumpLocally(dump.id, { processing_status: 'completed', status: 'Rejected' } as Partial<Dump>)
+          );
+          flagged.forEach(item =>
+            queryCache.updateEntity<FlaggedDump>(ENTITY_TYPES.flaggedDump, item.id, { status: 'rejected' })
+          );
+        },
+        undo: async () => {
+          originals.forEach(dump => updateDumpLocally(dump.id, dump));
+          restoreFlagged(flagged);
+        },
+        commit: async () => {
+          const failures = await commitBatch(dumpIds, id => rejectDumpWithOptimism(id, reason));
+          if (failures.length > 0) {
+            // Their own rollback only went back to the optimistic state; restore what they were
+            const failedIds = failures.map(failure => failure.id);
+            originals
+              .filter(dump => failedIds.includes(dump.id))
+              .forEach(dump => updateDumpLocally(dump.id, dump));
+            restoreFlagged(flagged.filter(item => failedIds.includes(item.dump.id)));
+            throw batchFailure(failures, dumpIds.length);
+          }
+        },
+        pending: { kind: 'rejectDumps', dumpIds, reason },
+      });
+    },
+    [run, t, dumps, updateDumpLocally, commitBatch, batchFailure, rejectDumpWithOptimism]
+  );
+
+  /**
+   * Fold duplicates into `keep` (notes and entities), then delete them
+   */
+  const mergeDumps = useCallback(
+    (keep: Dump, duplicates: Dump[]) => {
+      const duplicateIds = duplicates.map(dump => dump.id);
+      const { notes, extracted_entities } = mergeDumpFields(keep, duplicates);
+      const merged = { notes, ...(extracted_entities ? { extracted_entities } : {}) };
+      let keepCommitted = false;
+
+      return run({
+        label: t('undo.labels.mergeDumps', { count: duplicates.length + 1 }),
+        execute: async () => {
+          updateDumpLocally(keep.id, merged as Partial<Dump>);
+          setDumpsHidden(duplicateIds, true);
+        },
+        undo: async () => {
+          // Once the kept dump is saved, only the deletions can still be rolled back
+          if (!keepCommitted) {
+            updateDumpLocally(keep.id, keep);
+          }
+          setDumpsHidden(duplicateIds, false);
+        },
+        commit: async () => {
+          const response = await updateDump(keep.id, merged);
+          if (!response.success || !response.data) {
+            throw new Error(response.error?.message || 'Failed to update dump');
+          }
+          keepCommitted = true;
+          updateDumpLocally(keep.id, response.data);
+
+          const failures = await commitBatch(duplicateIds, deleteDumpWithOptimism);
+          setDumpsHidden(duplicateIds, false);
+          if (failures.length > 0) {
+            throw batchFailure(failures, duplicateIds.length);
+          }
+        },
+        pending: { kind: 'mergeDumps', keepId: keep.id, updates: merged, duplicateIds },
+      });
+    },
+    [run, t, updateDumpLocally, setDumpsHidden, commitBatch, batchFailure, deleteDumpWithOptimism]
+  );
+
+  const dismissReminder = useCallback(
+    (reminder: Reminder) =>
+      run({
+        label: t('undo.labels.dismissReminder'),
+        execute: async () => {
+          queryCache.updateEntity<Reminder>(ENTITY_TYPES.reminder, reminder.id, {
+            status: ReminderStatus.DISMISSED,
+          });
+          try {
+            await dismissReminderRequest(reminder.id);
+          } catch (err) {
+            queryCache.updateEntity<Reminder>(ENTITY_TYPES.reminder, reminder.id, { status: reminder.status });
+            throw err;
+          }
+        },
+        undo: async () => {
+          await updateReminder(reminder.id, { status: reminder.status });
+        },
+      }),
+    [run, t]
+  );
+
+  const rescheduleReminder = useCallback(
+    (reminder: Reminder, scheduledFor: string) =>
+      run({
+        label: t('undo.labels.rescheduleReminder'),
+        execute: async () => {
+          queryCache.updateEntity<Reminder>(ENTITY_TYPES.reminder, reminder.id, { scheduled_for: scheduledFor });
+          try {
+            await updateReminder(reminder.id, { scheduled_for: scheduledFor });
+          } catch (err) {
+            queryCache.updateEntity<Reminder>(ENTITY_TYPES.reminder, reminder.id, {
+              scheduled_for: reminder.scheduled_for,
+            });
+            throw err;
+          }
+        },
+        undo: async () => {
+          queryCache.updateEntity<Reminder>(ENTITY_TYPES.reminder, reminder.id, {
+            scheduled_for: reminder.scheduled_for,
+          });
+          await updateReminder(reminder.id, { scheduled_for: reminder.scheduled_for });
+        },
+      }),
+    [run, t]
+  );
+
+  const completeTracking = useCallback(
+    (item: TrackableItem) =>
+      run({
+        label: t('undo.labels.completeTracking'),
+        execute: async () => {
+          queryCache.updateEntity<TrackableItem>(ENTITY_TYPES.trackableItem, item.id, {
+            status: TrackingStatus.COMPLETED,
+          });
+          try {
+            await completeTrackingRequest(item.id);
+          } catch (err) {
+            queryCache.updateEntity<TrackableItem>(ENTITY_TYPES.trackableItem, item.id, { status: item.status });
+            throw err;
+          }
+        },
+        undo: async () => {
+          await updateTrackableItem(item.id, {
+            status: item.status,
+            actual_end_date: item.actual_end_date,
+          });
+        },
+      }),
+    [run, t]
+  );
+
+  return { deleteDumps, rejectDumps, mergeDumps, dismissReminder, rescheduleReminder, completeTracking };
+};
@@ -0,0 +1,218 @@
+/**
+ * useWindowedList Hook
+ *
+ * Window-scroll virtualization for long, variable-height lists.
+ * Only the items intersecting the viewport (plus overscan) are rendered;
+ * the rest of the list is replaced by top/bottom padding so the scrollbar
+ * stays accurate. Item heights start from an estimate and are corrected
+ * with ResizeObserver as items render.
+ */
+
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+
+export interface WindowedListOptions {
+  keys: string[];           // Stable key per item, in render order
+  estimateSize: number;     // Estimated item height in px (including gap)
+  overscan?: number;        // Extra px rendered above and below the viewport
+  enabled?: boolean;        // When false every item is rendered
+}
+
+export interface WindowedRange {
+  start: number;            // First rendered index
+  end: number;              // One past the last rendered index
+  paddingTop: number;       // Space standing in for items before start
+  paddingBottom: number;    // Space standing in for items after end
+}
+
+export interface WindowedListResult extends WindowedRange {
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  measureItem: (key: string) => (element: HTMLElement | null) => void;
+  scrollToKey: (key: string) => void;   // Bring an item into view, rendered or not
+}
+
+const DEFAULT_OVERSCAN = 600;
+
+/**
+ * Find the first index whose bottom edge is below `offset`
+ */
+function findIndex(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Hook to render a window-scrolled list lazily
+ */
+export function useWindowedList({
+  keys,
+  estimateSize,
+  overscan = DEFAULT_OVERSCAN,
+  enabled = true,
+}: WindowedListOptions): WindowedListResult {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const keysRef = useRef(keys);
+  const frameRef = useRef<number | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const refCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  // Until the first measurement, assume the list starts at the top of the viewport
+  const [range, setRange] = useState<WindowedRange>(() => {
+    const end = Math.min(keys.length, Math.ceil((window.innerHeight + overscan) / estimateSize));
+    return { start: 0, end, paddingTop: 0, paddingBottom: (keys.length - end) * estimateSize };
+  });
+
+  const computeRange = useCallback(() => {
+    frameRef.current = null;
+    const currentKeys = keysRef.current;
+    const container = containerRef.current;
+
+    if (!enabled || !container) {
+      return;
+    }
+
+    // offsets[i] = top of item i, offsets[length] = total height
+    const offsets = new Array<number>(currentKeys.length + 1);
+    offsets[0] = 0;
+    currentKeys.forEach((key, index) => {
+      offsets[index + 1] = offsets[index] + (sizesRef.current.get(key) ?? estimateSize);
+    });
+    const totalSize = offsets[currentKeys.length];
+
+    const top = -container.getBoundingClientRect().top;
+    const viewStart = Math.max(0, top - overscan);
+    const viewEnd = Math.max(0, top + window.innerHeight + overscan);
+
+    const start = findIndex(offsets, viewStart);
+    const end = Math.min(currentKeys.length, findIndex(offsets, viewEnd) + 1);
+
+    setRange(prev => {
+      const next = {
+        start,
+        end,
+        paddingTop: offsets[start],
+        paddingBottom: totalSize - offsets[end],
+      };
+      return prev.start === next.start &&
+        prev.end === next.end &&
+        prev.paddingTop === next.paddingTop &&
+        prev.paddingBottom === next.paddingBottom
+        ? prev
+        : next;
+    });
+  }, [enabled, estimateSize, overscan]);
+
+  const scheduleRange = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(computeRange);
+    }
+  }, [computeRange]);
+
+  // Recompute before paint when the list itself changes or windowing turns on
+  useLayoutEffect(() => {
+    keysRef.current = keys;
+    computeRange();
+  }, [keys, computeRange]);
+
+  // Track window scroll/resize
+  useEffect(() => {
+    if (!enabled) return;
+
+    window.addEventListener('scroll', scheduleRange, { passive: true });
+    window.addEventListener('resize', scheduleRange);
+    return () => {
+      window.removeEventListener('scroll', scheduleRange);
+      window.removeEventListener('resize', scheduleRange);
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [enabled, scheduleRange]);
+
+  // One observer for every rendered item; corrects estimates as heights settle
+  useEffect(() => {
+    if (!enabled || typeof ResizeObserver === 'undefined') return;
+
+    const elements = elementsRef.current;
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const key = (entry.target as HTMLElement).dataset.windowKey;
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (key && height > 0 && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) scheduleRange();
+    });
+
+    elements.forEach(element => observer.observe(element, { box: 'border-box' }));
+    observerRef.current = observer;
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [enabled, scheduleRange]);
+
+  /**
+   * Ref callback for a rendered item (stable per key)
+   */
+  const measureItem = useCallback((key: string) => {
+    let callback = refCallbacksRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== element) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.windowKey = key;
+          elementsRef.current.set(key, element);
+          observerRef.current?.observe(element, { box: 'border-box' });
+        }
+      };
+      refCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  /**
+   * Scroll an item into view; unrendered items are reached through their
+   * estimated offset and render once the window catches up
+   */
+  const scrollToKey = useCallback((key: string) => {
+    const element = elementsRef.current.get(key);
+    if (element) {
+      element.scrollIntoView({ block: 'nearest' });
+      return;
+    }
+
+    const container = containerRef.current;
+    const index = keysRef.current.indexOf(key);
+    if (!container || index === -1) return;
+
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+      offset += sizesRef.current.get(keysRef.current[i]) ?? estimateSize;
+    }
+    window.scrollTo({ top: window.scrollY + container.getBoundingClientRect().top + offset - window.innerHeight / 3 });
+  }, [estimateSize]);
+
+  if (!enabled) {
+    return { containerRef, measureItem, scrollToKey, start: 0, end: keys.length, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  return { containerRef, measureItem, scrollToKey, ...range };
+}
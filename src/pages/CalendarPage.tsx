@@ -0,0 +1,377 @@
+/**
+ * Calendar Page
+ *
+ * Month/week/day calendar of dates extracted from dumps, scheduled
+ * reminders and tracking deadlines. Reminders can be dragged to a new
+ * day or hour; the change is saved through updateReminder and can be undone.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { format, isSameDay, isSameMonth, isValid, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useReminders, useTrackableItems } from '../hooks/useApiQueries';
+import { useUndoableActions } from '../hooks/useUndoableActions';
+import type { DumpDerived } from '../types/dump.types';
+import type { CalendarEvent, CalendarEventKind, CalendarView } from '../types/calendar.types';
+import type { Reminder } from '../services/reminders.service';
+import type { TrackableItem } from '../services/tracking.service';
+import {
+  REMINDER_DRAG_TYPE,
+  buildCalendarEvents,
+  dayKey,
+  getViewDays,
+  groupEventsByDay,
+  isInView,
+  rescheduleDate,
+  shiftAnchor,
+} from '../utils/calendar';
+import { enrichDump } from '../utils/time-buckets';
+import { CalendarEventChip } from '../components/CalendarEventChip';
+import { DumpDetailModal } from '../components/DumpDetailModal';
+import { EditReminderModal } from '../components/EditReminderModal';
+import { TrackingStatusModal } from '../components/TrackingStatusModal';
+import { Button } from '../components/ui/Button';
+import { cn } from '../lib/utils';
+
+const VIEWS: CalendarView[] = ['month', 'week', 'day'];
+const EVENT_KINDS: CalendarEventKind[] = ['dump', 'reminder', 'tracking'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MONTH_CELL_LIMIT = 3;                 // Chips shown per month cell before "+N more"
+const HOUR_ROW_HEIGHT = 48;                 // px, matches h-12
+const SCROLL_TO_HOUR = 7;                   // Week/day views open scrolled to the morning
+
+const KIND_DOT_STYLES: Record<CalendarEventKind, string> = {
+  dump: 'bg-purple-400',
+  reminder: 'bg-orange-400',
+  tracking: 'bg-cyan-400',
+};
+
+export const CalendarPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, fetchDumps } = useDumps();
+  const remindersQuery = useReminders();
+  const trackingQuery = useTrackableItems();
+  const { rescheduleReminder } = useUndoableActions();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [hiddenKinds, setHiddenKinds] = useState<Set<CalendarEventKind>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+  const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
+  const [trackingItem, setTrackingItem] = useState<TrackableItem | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // View and anchor date live in the URL (?view=week&date=2024-05-01)
+  const viewParam = searchParams.get('view') as CalendarView | null;
+  const view: CalendarView = viewParam && VIEWS.includes(viewParam) ? viewParam : 'month';
+  const dateParam = searchParams.get('date');
+  const anchor = useMemo(() => {
+    const parsed = dateParam ? parseISO(dateParam) : null;
+    return parsed && isValid(parsed) ? parsed : new Date();
+  }, [dateParam]);
+
+  const navigateTo = (nextView: CalendarView, nextAnchor: Date) => {
+    setSearchParams({ view: nextView, date: dayKey(nextAnchor) }, { replace: true });
+  };
+
+  // Dump dates come from the dumps loaded in DumpsContext
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  const days = useMemo(() => getViewDays(view, anchor), [view, anchor]);
+
+  const eventsByDay = useMemo(() => {
+    const events = buildCalendarEvents({
+      dumps,
+      reminders: remindersQuery.data ?? [],
+      trackableItems: trackingQuery.data ?? [],
+    }).filter(event => !hiddenKinds.has(event.kind) && isInView(event, days));
+    return groupEventsByDay(events);
+  }, [dumps, remindersQuery.data, trackingQuery.data, hiddenKinds, days]);
+
+  // Open week/day views at the start of the working day
+  useEffect(() => {
+    if (view !== 'month' && scrollRef.current) {
+      scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_ROW_HEIGHT;
+    }
+  }, [view]);
+
+  const toggleKind = (kind: CalendarEventKind) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  const handleEventClick = (event: CalendarEvent) => {
+    if (event.kind === 'dump') {
+      setSelectedDump(enrichDump(event.dump));
+    } else if (event.kind === 'reminder') {
+      setEditingReminder(event.reminder);
+    } else {
+      setTrackingItem(event.item);
+    }
+  };
+
+  // ============================================================================
+  // Drag-to-reschedule
+  // ============================================================================
+
+  /**
+   * Drop target props for a day (month cells, all-day rows) or an hour slot
+   */
+  const dropProps = (day: Date, hour?: number) => {
+    const key = hour === undefined ? dayKey(day) : `${dayKey(day)}-${hour}`;
+    return {
+      onDragOver: (event: React.DragEvent) => {
+        if (!event.dataTransfer.types.includes(REMINDER_DRAG_TYPE)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        if (dropTarget !== key) setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        setDropTarget(null);
+        const reminderId = event.dataTransfer.getData(REMINDER_DRAG_TYPE);
+        const reminder = remindersQuery.data?.find(item => item.id === reminderId);
+        if (!reminder) return;
+
+        const next = rescheduleDate(new Date(reminder.scheduled_for), day, hour);
+        if (next.getTime() !== new Date(reminder.scheduled_for).getTime()) {
+          rescheduleReminder(reminder, next.toISOString());
+        }
+      },
+      className: cn(dropTarget === key && 'bg-electric-purple/10 ring-2 ring-inset ring-electric-purple'),
+    };
+  };
+
+  // ============================================================================
+  // Views
+  // ============================================================================
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-l border-t border-slate-200 bg-white rounded-charming overflow-hidden">
+      {days.slice(0, 7).map(day => (
+        <div key={day.toISOString()} className="px-2 py-1 text-xs font-medium text-slate-500 border-r border-b border-slate-200 bg-slate-50">
+          {format(day, 'EEE')}
+        </div>
+      ))}
+      {days.map(day => {
+        const events = eventsByDay.get(dayKey(day)) ?? [];
+        const { className: dropClassName, ...handlers } = dropProps(day);
+        return (
+          <div
+            key={day.toISOString()}
+            {...handlers}
+            className={cn(
+              'min-h-28 p-1 border-r border-b border-slate-200 space-y-1',
+              !isSameMonth(day, anchor) && 'bg-slate-50/60',
+              dropClassName
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => navigateTo('day', day)}
+              className={cn(
+                'text-xs font-medium h-6 w-6 rounded-full hover:bg-slate-100',
+                isSameDay(day, new Date()) ? 'bg-electric-purple text-white hover:bg-electric-purple' : isSameMonth(day, anchor) ? 'text-slate-700' : 'text-slate-400'
+              )}
+            >
+              {format(day, 'd')}
+            </button>
+            {events.slice(0, MONTH_CELL_LIMIT).map(event => (
+              <CalendarEventChip key={event.id} event={event} onClick={handleEventClick} />
+            ))}
+            {events.length > MONTH_CELL_LIMIT && (
+              <button
+                type="button"
+                onClick={() => navigateTo('day', day)}
+                className="text-xs text-slate-500 hover:text-slate-900 px-1"
+              >
+                {t('calendar.more', { count: events.length - MONTH_CELL_LIMIT })}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTimeGrid = () => {
+    const columns = `3.5rem repeat(${days.length}, minmax(0, 1fr))`;
+    return (
+      <div className="bg-white border border-slate-200 rounded-charming overflow-hidden">
+        {/* Day headers and all-day row */}
+        <div className="grid border-b border-slate-200" style={{ gridTemplateColumns: columns }}>
+          <div />
+          {days.map(day => (
+            <button
+              key={day.toISOString()}
+              type="button"
+              onClick={() => navigateTo('day', day)}
+              className={cn(
+                'px-2 py-2 text-sm font-medium border-l border-slate-200 text-left',
+                isSameDay(day, new Date()) ? 'text-electric-purple' : 'text-slate-700'
+              )}
+            >
+              {format(day, view === 'day' ? 'EEEE, PP' : 'EEE d')}
+            </button>
+          ))}
+          <div className="px-1 py-1 text-[10px] uppercase text-slate-400 border-t border-slate-200">
+            {t('calendar.allDay')}
+          </div>
+          {days.map(day => {
+            const { className: dropClassName, ...handlers } = dropProps(day);
+            return (
+              <div
+                key={day.toISOString()}
+                {...handlers}
+                className={cn('min-h-8 p-1 space-y-1 border-l border-t border-slate-200', dropClassName)}
+              >
+                {(eventsByDay.get(dayKey(day)) ?? [])
+                  .filter(event => event.allDay)
+                  .map(event => (
+                    <CalendarEventChip key={event.id} event={event} onClick={handleEventClick} />
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Hour slots */}
+        <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto">
+          <div className="grid" style={{ gridTemplateColumns: columns }}>
+            {HOURS.map(hour => (
+              <React.Fragment key={hour}>
+                <div className="h-12 pr-2 text-right text-[10px] text-slate-400 border-t border-slate-100">
+                  {format(new Date(2000, 0, 1, hour), 'HH:mm')}
+                </div>
+                {days.map(day => {
+                  const { className: dropClassName, ...handlers } = dropProps(day, hour);
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      {...handlers}
+                      className={cn('h-12 p-0.5 space-y-0.5 overflow-y-auto border-l border-t border-slate-100', dropClassName)}
+                    >
+                      {(eventsByDay.get(dayKey(day)) ?? [])
+                        .filter(event => !event.allDay && event.start.getHours() === hour)
+                        .map(event => (
+                          <CalendarEventChip key={event.id} event={event} onClick={handleEventClick} />
+                        ))}
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const title =
+    view === 'month'
+      ? format(anchor, 'MMMM yyyy')
+      : view === 'week'
+        ? `${format(days[0], 'PP')} – ${format(days[days.length - 1], 'PP')}`
+        : format(anchor, 'PPPP');
+  const isFetching = remindersQuery.isFetching || trackingQuery.isFetching;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-slate-900">{t('calendar.title')}</h1>
+          <p className="text-slate-600 mt-1">{t('calendar.subtitle')}</p>
+        </div>
+
+        <div className="flex gap-1 p-1 bg-stone-100 rounded-charming">
+          {VIEWS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => navigateTo(option, anchor)}
+              className={cn(
+                'px-4 py-1.5 rounded-charming text-sm font-medium transition-all',
+                view === option ? 'bg-white text-stone-900 shadow-sm' : 'text-stone-600 hover:text-stone-900'
+              )}
+            >
+              {t(`calendar.views.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigateTo(view, shiftAnchor(view, anchor, -1))} aria-label={t('calendar.previous')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => navigateTo(view, new Date())}>
+            {t('calendar.today')}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigateTo(view, shiftAnchor(view, anchor, 1))} aria-label={t('calendar.next')}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-heading font-semibold text-slate-900">{title}</h2>
+          {isFetching && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </div>
+
+        {/* Legend / filters */}
+        <div className="flex items-center gap-3">
+          {EVENT_KINDS.map(kind => (
+            <label key={kind} className="flex items-center gap-1.5 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-electric-purple"
+                checked={!hiddenKinds.has(kind)}
+                onChange={() => toggleKind(kind)}
+              />
+              <span className={cn('h-2.5 w-2.5 rounded-full', KIND_DOT_STYLES[kind])} />
+              {t(`calendar.kinds.${kind}`)}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {view === 'month' ? renderMonth() : renderTimeGrid()}
+
+      <p className="text-xs text-slate-500">{t('calendar.dragHint')}</p>
+
+      {/* Detail modals */}
+      <DumpDetailModal dump={selectedDump} isOpen={!!selectedDump} onClose={() => setSelectedDump(null)} />
+      {editingReminder && (
+        <EditReminderModal
+          reminder={editingReminder}
+          isOpen={!!editingReminder}
+          onClose={() => setEditingReminder(null)}
+          onSuccess={() => remindersQuery.refetch()}
+        />
+      )}
+      {trackingItem && (
+        <TrackingStatusModal
+          tracking={trackingItem}
+          isOpen={!!trackingItem}
+          onClose={() => setTrackingItem(null)}
+          onSuccess={() => trackingQuery.refetch()}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * Contacts Page
+ *
+ * Address book built from the people, emails, phones and URLs found in
+ * the loaded dumps; contacts can be confirmed, corrected, hidden and
+ * exported as vCards
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Contact as ContactIcon, Download } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useContacts } from '../hooks/useContacts';
+import { ContactCard } from '../components/ContactCard';
+import { DumpDetailModal } from '../components/DumpDetailModal';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { EmptyState } from '../components/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import type { Contact, ContactStatusFilter } from '../types/contact.types';
+import type { DumpDerived } from '../types/dump.types';
+import { contactMatches } from '../utils/contacts';
+import { downloadFile } from '../utils/export';
+import { enrichDump } from '../utils/time-buckets';
+import { createVCardExport } from '../utils/vcard';
+
+const STATUS_FILTERS: ContactStatusFilter[] = ['all', 'unconfirmed', 'confirmed', 'hidden'];
+
+function matchesStatus(contact: Contact, status: ContactStatusFilter): boolean {
+  switch (status) {
+    case 'hidden':
+      return contact.hidden;
+    case 'confirmed':
+      return !contact.hidden && contact.confirmed;
+    case 'unconfirmed':
+      return !contact.hidden && !contact.confirmed;
+    default:
+      return !contact.hidden;
+  }
+}
+
+export const ContactsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, total, hasMore, loading, loadingMore, error, fetchDumps, loadMoreDumps } = useDumps();
+  const { contacts, updateContact, resetContact } = useContacts();
+  const [status, setStatus] = useState<ContactStatusFilter>('all');
+  const [filter, setFilter] = useState('');
+  const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+
+  // Contacts are built from the dumps loaded in DumpsContext
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  const visible = useMemo(
+    () => contacts.filter(contact => matchesStatus(contact, status) && contactMatches(contact, filter)),
+    [contacts, status, filter]
+  );
+
+  const exportable = visible.filter(contact => !contact.hidden);
+
+  if (loading && dumps.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoadingSpinner size="xl" text={t('contacts.loading')} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-slate-900">{t('contacts.title')}</h1>
+          <p className="text-slate-600 mt-1">{t('contacts.subtitle')}</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => downloadFile(createVCardExport(exportable))}
+          disabled={exportable.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {t('contacts.exportAll', { count: exportable.length })}
+        </Button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          {t('contacts.scanned', { loaded: dumps.length, total })}
+          {hasMore && (
+            <Button variant="outline" size="sm" onClick={() => loadMoreDumps()} disabled={loadingMore}>
+              {loadingMore ? t('dashboard.loadingMore') : t('contacts.scanMore')}
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder={t('contacts.filterPlaceholder')}
+            className="sm:w-56"
+          />
+          <select
+            value={status}
+            onChange={e => setStatus(e.target.value as ContactStatusFilter)}
+            aria-label={t('common.status')}
+            className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+          >
+            {STATUS_FILTERS.map(option => (
+              <option key={option} value={option}>
+                {t(`contacts.status.${option}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {visible.length === 0 ? (
+        <EmptyState
+          title={t('contacts.none')}
+          message={filter || status !== 'all' ? t('contacts.noneFiltered') : t('contacts.noneMessage')}
+          icon={<ContactIcon className="h-12 w-12 text-slate-300" />}
+        />
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {visible.map(contact => (
+            <ContactCard
+              key={contact.id}
+              contact={contact}
+              onUpdate={updateContact}
+              onReset={resetContact}
+              onExport={selected => downloadFile(createVCardExport([selected]))}
+              onOpenDump={dump => setSelectedDump(enrichDump(dump))}
+            />
+          ))}
+        </div>
+      )}
+
+      <DumpDetailModal dump={selectedDump} isOpen={!!selectedDump} onClose={() => setSelectedDump(null)} />
+    </div>
+  );
+};
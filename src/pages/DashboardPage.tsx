@@ -5,15 +5,30 @@
  * with Accept/Reject actions and real-time updates
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { Upload, CheckCircle, XCircle, AlarmClock, Eye } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useDumps } from '../hooks/useDumps';
 import { useTimeBuckets } from '../hooks/useTimeBuckets';
+import { useOutbox } from '../hooks/useOutbox';
+import { useRealtimeEvents } from '../hooks/useRealtime';
+import { useSelection } from '../hooks/useSelection';
+import { useBatchActions } from '../hooks/useBatchActions';
+import { useCommandPalette, useRegisterCommands } from '../hooks/useCommandPalette';
+import { useListNavigation } from '../hooks/useListNavigation';
+import { useFocusedDumpActions } from '../hooks/useFocusedDumpActions';
 import type { DumpDerived } from '../types/dump.types';
-import { TimeBucket } from '../components/TimeBucket';
+import { TimeBucket, type TimeBucketSelection } from '../components/TimeBucket';
 import { DumpDetailModal } from '../components/DumpDetailModal';
+import { OutboxBucket } from '../components/OutboxBucket';
+import { RealtimeIndicator } from '../components/RealtimeIndicator';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { ExportMenu } from '../components/ExportMenu';
+import { ImportWizardModal } from '../components/ImportWizardModal';
+import { useToast } from '../components/Toast';
+import { truncateText } from '../utils/formatting';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { EmptyState } from '../components/EmptyState';
 import { Button } from '../components/ui/Button';
@@ -21,12 +36,63 @@ import { Button } from '../components/ui/Button';
 export const DashboardPage: React.FC = () => {
   const { t } = useTranslation();
   const { user } = useAuth();
-  const { dumps, loading, error, fetchDumps, refetchDumps, updateDumpLocally, clearError } = useDumps();
+  const {
+    dumps,
+    total,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    fetchDumps,
+    loadMoreDumps,
+    refetchDumps,
+    updateDumpLocally,
+    clearError,
+  } = useDumps();
   const timeBuckets = useTimeBuckets(dumps);
+  const { items: outboxItems, isOnline, isReplaying, retryItem, discardItem } = useOutbox();
+  const { openNewDump } = useCommandPalette();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { addToast } = useToast();
   const [showActions, setShowActions] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
   const [modalMode, setModalMode] = useState<'view' | 'reject'>('view');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Selection mode ("Show Actions"): IDs in on-screen order for shift-click ranges
+  const orderedIds = useMemo(
+    () => timeBuckets.flatMap(bucket => bucket.dumps.map(dump => dump.id)),
+    [timeBuckets]
+  );
+  const selection = useSelection(orderedIds);
+  const batch = useBatchActions();
+  const { toggle: toggleSelected, setSelected, isSelected, clear: clearSelection, replace: replaceSelection } = selection;
+
+  const bucketSelection = useMemo<TimeBucketSelection | undefined>(
+    () =>
+      showActions
+        ? {
+            isSelected,
+            onToggle: (dumpId, range) => toggleSelected(dumpId, { range }),
+            onToggleAll: setSelected,
+          }
+        : undefined,
+    [showActions, isSelected, toggleSelected, setSelected]
+  );
+
+  const toggleSelectionMode = () => {
+    if (showActions) {
+      clearSelection();
+    }
+    setShowActions(!showActions);
+  };
+
+  // Failed items are rolled back and stay selected for another try
+  const runBulk = async (action: (ids: string[]) => Promise<string[]>) => {
+    const failed = await action(selection.selectedIds);
+    replaceSelection(failed);
+  };
 
   // Fetch dumps on mount
   useEffect(() => {
@@ -48,6 +114,33 @@ export const DashboardPage: React.FC = () => {
     }
   }, [searchParams, dumps]);
 
+  // Infinite loading: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMoreDumps();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMoreDumps]);
+
+  // Surface AI processing results pushed by the server
+  useRealtimeEvents(event => {
+    const summary = truncateText(event.dump?.ai_summary || dumps.find(d => d.id === event.dumpId)?.raw_content, 60);
+    if (event.type === 'dump.completed') {
+      addToast('success', t('realtime.dumpCompleted', { summary }));
+    } else {
+      addToast('error', t('realtime.dumpFailed', { summary, error: event.error || t('outbox.unknownError') }));
+    }
+  }, ['dump.completed', 'dump.failed']);
+
   // Handle dump updates from DumpCard
   const handleDumpUpdate = (dumpId: string, updates: Partial<DumpDerived>) => {
     updateDumpLocally(dumpId, updates);
@@ -59,6 +152,67 @@ export const DashboardPage: React.FC = () => {
     setSearchParams({ dumpId: dump.id });
   };
 
+  // Keyboard navigation: j/k move the cursor, Enter opens, a/r/s act on the focused dump
+  const dumpsById = useMemo(
+    () => new Map(timeBuckets.flatMap(bucket => bucket.dumps).map(dump => [dump.id, dump])),
+    [timeBuckets]
+  );
+  const focusedActions = useFocusedDumpActions();
+  const openFocused = (dumpId: string, mode: 'view' | 'reject' = 'view') => {
+    const dump = dumpsById.get(dumpId);
+    if (dump) handleDumpClick(dump, mode);
+  };
+  const { focusedId } = useListNavigation({
+    ids: orderedIds,
+    onOpen: openFocused,
+    keyActions: {
+      a: focusedActions.approve,
+      r: dumpId => openFocused(dumpId, 'reject'),
+      s: focusedActions.snooze,
+      ...(showActions ? { x: (dumpId: string) => toggleSelected(dumpId) } : {}),
+    },
+  });
+
+  useRegisterCommands(
+    'dashboard:focused',
+    focusedId
+      ? [
+          {
+            id: 'focused:open',
+            title: t('commands.focused.open'),
+            group: 'focused',
+            shortcut: ['Enter'],
+            icon: Eye,
+            run: () => openFocused(focusedId),
+          },
+          {
+            id: 'focused:approve',
+            title: t('commands.focused.approve'),
+            group: 'focused',
+            shortcut: ['A'],
+            icon: CheckCircle,
+            run: () => focusedActions.approve(focusedId),
+          },
+          {
+            id: 'focused:reject',
+            title: t('commands.focused.reject'),
+            group: 'focused',
+            shortcut: ['R'],
+            icon: XCircle,
+            run: () => openFocused(focusedId, 'reject'),
+          },
+          {
+            id: 'focused:snooze',
+            title: t('commands.focused.snooze'),
+            group: 'focused',
+            shortcut: ['S'],
+            icon: AlarmClock,
+            run: () => focusedActions.snooze(focusedId),
+          },
+        ]
+      : []
+  );
+
   // Handle modal close - clear URL param
   const handleModalClose = () => {
     setSearchParams({});
@@ -70,11 +224,6 @@ export const DashboardPage: React.FC = () => {
     refetchDumps();
   };
 
-  // Handle successful reject - refetch data
-  const handleReject = () => {
-    refetchDumps();
-  };
-
   // Retry on error
   const handleRetry = () => {
     clearError();
@@ -92,8 +241,8 @@ export const DashboardPage: React.FC = () => {
     );
   }
 
-  // Error state
-  if (error) {
+  // Error state (nothing loaded and nothing queued locally)
+  if (error && dumps.length === 0 && outboxItems.length === 0) {
     return (
       <div className="max-w-2xl mx-auto mt-12">
         <EmptyState
@@ -115,9 +264,14 @@ export const DashboardPage: React.FC = () => {
             </svg>
           }
           action={
-            <Button onClick={handleRetry} variant="default">
-              {t('common.retry')}
-            </Button>
+            <div className="flex gap-3">
+              <Button onClick={handleRetry} variant="default">
+                {t('common.retry')}
+              </Button>
+              <Button onClick={openNewDump} variant="outline">
+                {t('dashboardTitle.newDump')}
+              </Button>
+            </div>
           }
         />
       </div>
@@ -125,7 +279,7 @@ export const DashboardPage: React.FC = () => {
   }
 
   // Empty state
-  if (dumps.length === 0) {
+  if (dumps.length === 0 && outboxItems.length === 0) {
     return (
       <div className="max-w-2xl mx-auto mt-12">
         <EmptyState
@@ -146,6 +300,11 @@ export const DashboardPage: React.FC = () => {
               />
             </svg>
           }
+          action={
+            <Button onClick={openNewDump} variant="default">
+              {t('dashboardTitle.newDump')}
+            </Button>
+          }
         />
       </div>
     );
@@ -159,59 +318,137 @@ export const DashboardPage: React.FC = () => {
           <h1 className="text-3xl font-heading font-bold text-slate-900">
             {t('dashboardTitle.dailyActionItems')}
           </h1>
-          <p className="text-slate-600 mt-1">
-            {t('dashboardTitle.itemsToReview', { count: dumps.length })}
+          <p className="text-slate-600 mt-1 flex items-center gap-3">
+            {t('dashboardTitle.itemsToReview', { count: total })}
+            <RealtimeIndicator />
           </p>
         </div>
 
-        {/* Show Actions Toggle */}
-        <Button
-          onClick={() => setShowActions(!showActions)}
-          variant={showActions ? 'default' : 'outline'}
-          className="flex items-center gap-2"
-        >
-          <svg
-            className="h-4 w-4"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        <div className="flex items-center gap-3">
+          {/* New Dump */}
+          <Button onClick={openNewDump} variant="default">
+            {t('dashboardTitle.newDump')}
+          </Button>
+
+          {/* Import notes / mail exports */}
+          <Button onClick={() => setIsImportOpen(true)} variant="outline" className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            {t('import.button')}
+          </Button>
+
+          {/* Export loaded dumps */}
+          <ExportMenu source="dashboard" dumps={dumps} />
+
+          {/* Show Actions Toggle */}
+          <Button
+            onClick={toggleSelectionMode}
+            variant={showActions ? 'default' : 'outline'}
+            className="flex items-center gap-2"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d={showActions
-                ? "M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
-                : "M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-              }
-            />
-          </svg>
-          {showActions ? t('dashboardTitle.hideActions') : t('dashboardTitle.showActions')}
-        </Button>
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d={showActions
+                  ? "M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+                  : "M15 12a3 3 0 11-6 0 3 3 0 016 0z M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                }
+              />
+            </svg>
+            {showActions ? t('dashboardTitle.hideActions') : t('dashboardTitle.showActions')}
+          </Button>
+        </div>
       </div>
 
+      {/* Offline / refresh error banner */}
+      {(!isOnline || error) && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800">
+            {!isOnline ? t('outbox.offlineBanner') : error}
+          </p>
+          {isOnline && (
+            <Button onClick={handleRetry} variant="outline" size="sm">
+              {t('common.retry')}
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Time Buckets */}
       <div className="space-y-4">
+        {/* Captures waiting in the offline outbox */}
+        <OutboxBucket
+          items={outboxItems}
+          isOnline={isOnline}
+          isReplaying={isReplaying}
+          onRetry={retryItem}
+          onDiscard={discardItem}
+        />
+
         {timeBuckets.map(bucket => (
           <TimeBucket
             key={bucket.bucket}
             timeBucket={bucket}
             onDumpUpdate={handleDumpUpdate}
             onDumpClick={handleDumpClick}
+            selection={bucketSelection}
+            focusedId={focusedId}
           />
         ))}
       </div>
 
+      {/* Bulk actions for the current selection */}
+      {showActions && (
+        <BulkActionBar
+          count={selection.count}
+          progress={batch.progress}
+          runningAction={batch.runningAction}
+          onApprove={() => runBulk(batch.approve)}
+          onReject={reason => runBulk(ids => batch.reject(ids, reason))}
+          onRecategorize={categoryName => runBulk(ids => batch.recategorize(ids, categoryName))}
+          onDelete={() => runBulk(batch.remove)}
+          onClear={clearSelection}
+        />
+      )}
+
+      {/* Pagination */}
+      {hasMore && (
+        <div ref={loadMoreRef} className="flex flex-col items-center gap-2 py-4">
+          {loadingMore ? (
+            <LoadingSpinner size="md" text={t('dashboard.loadingMore')} />
+          ) : (
+            <Button onClick={() => loadMoreDumps()} variant="outline">
+              {t('dashboard.loadMore')}
+            </Button>
+          )}
+          <p className="text-xs text-slate-500">
+            {t('dashboard.loadedOf', { loaded: dumps.length, total })}
+          </p>
+        </div>
+      )}
+
       {/* Dump Detail Modal */}
       <DumpDetailModal
         dump={selectedDump}
         isOpen={!!selectedDump}
         onClose={handleModalClose}
         onAccept={handleAccept}
-        onReject={handleReject}
         initialMode={modalMode}
       />
 
+      {/* Import Wizard */}
+      <ImportWizardModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={refetchDumps}
+      />
+
       {/* Loading Overlay (refetching) */}
       {loading && dumps.length > 0 && (
         <div className="fixed inset-0 bg-black bg-opacity-20 flex items-center justify-center z-50">
@@ -0,0 +1,112 @@
+/**
+ * Duplicates Page
+ *
+ * Review screen for dumps captured more than once: candidate groups found
+ * among the loaded dumps, each merged into one dump or dismissed
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CopyCheck, Loader2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useDuplicateGroups } from '../hooks/useDuplicateGroups';
+import { useUndoableActions } from '../hooks/useUndoableActions';
+import { DuplicateGroupCard } from '../components/DuplicateGroupCard';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { EmptyState } from '../components/EmptyState';
+import { Button } from '../components/ui/Button';
+import { NEAR_DUPLICATE_SIMILARITY } from '../utils/similarity';
+
+// Minimum vector similarity per sensitivity option
+const SENSITIVITIES = [
+  { key: 'strict', threshold: 0.98 },
+  { key: 'normal', threshold: NEAR_DUPLICATE_SIMILARITY },
+  { key: 'loose', threshold: 0.9 },
+] as const;
+
+export const DuplicatesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, total, hasMore, loading, loadingMore, error, fetchDumps, loadMoreDumps } = useDumps();
+  const { mergeDumps } = useUndoableActions();
+  const [threshold, setThreshold] = useState<number>(NEAR_DUPLICATE_SIMILARITY);
+  const { groups, scanning, scannedCount, dismissedCount, dismiss, clearDismissed } = useDuplicateGroups(threshold);
+
+  // Duplicates are looked for among the dumps loaded in DumpsContext
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  if ((loading || scanning) && groups.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoadingSpinner size="xl" text={t('duplicates.scanning')} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-slate-900">{t('duplicates.title')}</h1>
+        <p className="text-slate-600 mt-1">{t('duplicates.subtitle')}</p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          {scanning && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+          {t('duplicates.scanned', { loaded: scannedCount, total })}
+          {hasMore && (
+            <Button variant="outline" size="sm" onClick={() => loadMoreDumps()} disabled={loadingMore}>
+              {loadingMore ? t('dashboard.loadingMore') : t('duplicates.scanMore')}
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {dismissedCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearDismissed}>
+              {t('duplicates.showDismissed', { count: dismissedCount })}
+            </Button>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            {t('duplicates.sensitivity.label')}
+            <select
+              value={threshold}
+              onChange={e => setThreshold(Number(e.target.value))}
+              className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+            >
+              {SENSITIVITIES.map(option => (
+                <option key={option.key} value={option.threshold}>
+                  {t(`duplicates.sensitivity.${option.key}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {groups.length === 0 ? (
+        <EmptyState
+          title={t('duplicates.none')}
+          message={t('duplicates.noneMessage')}
+          icon={<CopyCheck className="h-12 w-12 text-emerald-300" />}
+        />
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <DuplicateGroupCard key={group.key} group={group} onMerge={mergeDumps} onDismiss={dismiss} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+/**
+ * Entities Page
+ *
+ * Explorer for the people, organizations and locations mentioned across
+ * the loaded dumps, each linking to its own page
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useEntities } from '../hooks/useEntities';
+import { EntityKindIcon } from '../components/EntityKindIcon';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { EmptyState } from '../components/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import type { EntityValueKind } from '../types/search.types';
+import { cn } from '../lib/utils';
+import { formatDisplayDate } from '../utils/formatting';
+import { ENTITY_KINDS, entityPath } from '../utils/entities';
+
+type KindFilter = 'all' | EntityValueKind;
+
+export const EntitiesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, total, hasMore, loading, loadingMore, error, fetchDumps, loadMoreDumps } = useDumps();
+  const { entities } = useEntities();
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [filter, setFilter] = useState('');
+
+  // Entities are aggregated from the dumps loaded in DumpsContext
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  const kindCounts = useMemo(() => {
+    const counts: Record<KindFilter, number> = { all: entities.length, person: 0, organization: 0, location: 0 };
+    entities.forEach(entity => counts[entity.kind]++);
+    return counts;
+  }, [entities]);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return entities.filter(
+      entity =>
+        (kind === 'all' || entity.kind === kind) &&
+        (!needle || entity.variants.some(variant => variant.value.toLowerCase().includes(needle)))
+    );
+  }, [entities, kind, filter]);
+
+  if (loading && dumps.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoadingSpinner size="xl" text={t('entities.loading')} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-heading font-bold text-slate-900">{t('entities.title')}</h1>
+        <p className="text-slate-600 mt-1">{t('entities.subtitle')}</p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...ENTITY_KINDS] as KindFilter[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setKind(option)}
+              className={cn(
+                'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors',
+                kind === option
+                  ? 'border-electric-purple bg-electric-purple text-white'
+                  : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'
+              )}
+            >
+              {option !== 'all' && <EntityKindIcon kind={option} className="h-3.5 w-3.5" />}
+              {t(`entities.kinds.${option}`)}
+              <span className={kind === option ? 'text-white/80' : 'text-slate-400'}>{kindCounts[option]}</span>
+            </button>
+          ))}
+        </div>
+        <Input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder={t('entities.filterPlaceholder')}
+          className="sm:w-64"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        {t('entities.scanned', { loaded: dumps.length, total })}
+        {hasMore && (
+          <Button variant="outline" size="sm" onClick={() => loadMoreDumps()} disabled={loadingMore}>
+            {loadingMore ? t('dashboard.loadingMore') : t('entities.scanMore')}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {visible.length === 0 ? (
+        <EmptyState
+          title={t('entities.none')}
+          message={filter || kind !== 'all' ? t('entities.noneFiltered') : t('entities.noneMessage')}
+          icon={<Users className="h-12 w-12 text-slate-300" />}
+        />
+      ) : (
+        <ul className="grid gap-3 sm:grid-cols-2">
+          {visible.map(entity => (
+            <li key={entity.key}>
+              <Link
+                to={entityPath(entity.key)}
+                className="flex items-start gap-3 rounded-lg border border-slate-200 bg-white p-4 hover:border-electric-purple hover:bg-slate-50 transition-colors"
+              >
+                <span className="mt-0.5 rounded-full bg-slate-100 p-2 text-slate-600">
+                  <EntityKindIcon kind={entity.kind} className="h-4 w-4" />
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium text-slate-900 truncate">{entity.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {t('entities.mentions', { count: entity.dumps.length })}
+                    {' · '}
+                    {t('entities.lastSeen', { date: formatDisplayDate(entity.lastSeen) })}
+                  </p>
+                  {entity.variants.length > 1 && (
+                    <p className="mt-1 text-xs text-slate-500 truncate">
+                      {t('entities.alsoSpelled', {
+                        spellings: entity.variants
+                          .filter(variant => variant.value !== entity.name)
+                          .map(variant => variant.value)
+                          .join(', '),
+                      })}
+                    </p>
+                  )}
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,367 @@
+/**
+ * Entity Detail Page
+ *
+ * Everything about one person, organization or location: how often it
+ * comes up over time, the dumps, reminders and tracking items related to
+ * it, and the spellings merged into it
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Bell, Merge, Package, Split, Star } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useEntities } from '../hooks/useEntities';
+import { useReminders, useTrackableItems } from '../hooks/useApiQueries';
+import { EntityKindIcon } from '../components/EntityKindIcon';
+import { DumpDetailModal } from '../components/DumpDetailModal';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { EmptyState } from '../components/EmptyState';
+import { useToast } from '../components/Toast';
+import { Card } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import type { DumpDerived } from '../types/dump.types';
+import type { EntityValueKind } from '../types/search.types';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { enrichDump } from '../utils/time-buckets';
+import {
+  entityKey,
+  entityPath,
+  entityTimeline,
+  mentionsEntity,
+  parseEntityKey,
+  resolveEntityKey,
+  suggestAliases,
+  type EntitySummary,
+  type EntityTimelineMonth,
+} from '../utils/entities';
+
+const FrequencyTimeline: React.FC<{ months: EntityTimelineMonth[] }> = ({ months }) => {
+  const { t } = useTranslation();
+  const max = Math.max(1, ...months.map(month => month.count));
+  const label = (month: string) => {
+    const [year, index] = month.split('-').map(Number);
+    return new Date(year, index - 1, 1).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+  };
+
+  return (
+    <div>
+      <div className="flex h-28 items-end gap-1">
+        {months.map(month => (
+          <div
+            key={month.month}
+            title={t('entities.detail.monthCount', { month: label(month.month), count: month.count })}
+            className="flex-1 rounded-t bg-electric-purple/70 hover:bg-electric-purple transition-colors"
+            style={{ height: `${Math.max(month.count ? 8 : 2, (month.count / max) * 100)}%` }}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-slate-500">
+        <span>{label(months[0].month)}</span>
+        {months.length > 1 && <span>{label(months[months.length - 1].month)}</span>}
+      </div>
+    </div>
+  );
+};
+
+const MergeControls: React.FC<{
+  entity: EntitySummary;
+  entities: EntitySummary[];
+  onMerge: (mergedKey: string) => void;
+}> = ({ entity, entities, onMerge }) => {
+  const { t } = useTranslation();
+  const [selectedKey, setSelectedKey] = useState('');
+  const suggestions = useMemo(() => suggestAliases(entity, entities), [entity, entities]);
+  const candidates = useMemo(
+    () =>
+      entities
+        .filter(other => other.kind === entity.kind && other.key !== entity.key)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [entity, entities]
+  );
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {suggestions.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-slate-600 mb-1.5">{t('entities.detail.suggested')}</p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(suggestion => (
+              <Button key={suggestion.key} variant="outline" size="sm" onClick={() => onMerge(suggestion.key)}>
+                <Merge className="h-3.5 w-3.5 mr-1" />
+                {t('entities.detail.mergeNamed', { name: suggestion.name, count: suggestion.dumps.length })}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedKey}
+          onChange={e => setSelectedKey(e.target.value)}
+          aria-label={t('entities.detail.mergePick')}
+          className="min-w-0 flex-1 rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+        >
+          <option value="">{t('entities.detail.mergePick')}</option>
+          {candidates.map(candidate => (
+            <option key={candidate.key} value={candidate.key}>
+              {candidate.name} ({candidate.dumps.length})
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          disabled={!selectedKey}
+          onClick={() => {
+            onMerge(selectedKey);
+            setSelectedKey('');
+          }}
+        >
+          <Merge className="h-4 w-4 mr-1" />
+          {t('entities.detail.merge')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const EntityDetailPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { kind, value } = useParams<{ kind: string; value: string }>();
+  const { user } = useAuth();
+  const { dumps, hasMore, loading, loadingMore, fetchDumps, loadMoreDumps } = useDumps();
+  const { entities, aliases, merge, split } = useEntities();
+  const { data: reminders = [] } = useReminders();
+  const { data: trackableItems = [] } = useTrackableItems();
+  const { addToast } = useToast();
+  const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+
+  const key = kind && value ? entityKey(kind as EntityValueKind, value) : '';
+  const canonicalKey = resolveEntityKey(key, aliases);
+  const entity = entities.find(candidate => candidate.key === key) ?? null;
+
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  const timeline = useMemo(() => (entity ? entityTimeline(entity.dumps) : []), [entity]);
+
+  // Linked through the dump they were created from, or naming the entity
+  const relatedReminders = useMemo(() => {
+    if (!entity) return [];
+    const dumpIds = new Set(entity.dumps.map(dump => dump.id));
+    return reminders.filter(
+      reminder => (reminder.dump_id && dumpIds.has(reminder.dump_id)) || mentionsEntity(reminder.message, entity)
+    );
+  }, [entity, reminders]);
+
+  const relatedTracking = useMemo(() => {
+    if (!entity) return [];
+    const dumpIds = new Set(entity.dumps.map(dump => dump.id));
+    return trackableItems.filter(
+      item =>
+        (item.dump_id && dumpIds.has(item.dump_id)) ||
+        mentionsEntity(item.title, entity) ||
+        mentionsEntity(item.description, entity)
+    );
+  }, [entity, trackableItems]);
+
+  if (!parseEntityKey(key)) {
+    return <Navigate to="/entities" replace />;
+  }
+
+  // Merged into another entity: show that one instead
+  if (canonicalKey !== key) {
+    return <Navigate to={entityPath(canonicalKey)} replace />;
+  }
+
+  if (!entity) {
+    if (loading && dumps.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-96">
+          <LoadingSpinner size="xl" text={t('entities.loading')} />
+        </div>
+      );
+    }
+    return (
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link to="/entities" className="inline-flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900">
+          <ArrowLeft className="h-4 w-4" />
+          {t('entities.detail.back')}
+        </Link>
+        <EmptyState
+          title={t('entities.detail.notFound')}
+          message={t('entities.detail.notFoundMessage')}
+          action={
+            hasMore ? { label: loadingMore ? t('dashboard.loadingMore') : t('entities.scanMore'), onClick: () => loadMoreDumps() } : undefined
+          }
+        />
+      </div>
+    );
+  }
+
+  const handleMerge = (mergedKey: string) => {
+    const merged = entities.find(candidate => candidate.key === mergedKey);
+    merge(entity.key, [mergedKey]);
+    addToast('success', t('entities.detail.merged', { name: merged?.name ?? mergedKey, into: entity.name }));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <Link to="/entities" className="inline-flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900">
+          <ArrowLeft className="h-4 w-4" />
+          {t('entities.detail.back')}
+        </Link>
+        <div className="flex items-center gap-3">
+          <span className="rounded-full bg-slate-100 p-3 text-slate-600">
+            <EntityKindIcon kind={entity.kind} className="h-6 w-6" />
+          </span>
+          <div>
+            <h1 className="text-3xl font-heading font-bold text-slate-900">{entity.name}</h1>
+            <p className="text-slate-600">
+              {t(`entities.kind.${entity.kind}`)}
+              {' · '}
+              {t('entities.mentions', { count: entity.dumps.length })}
+              {' · '}
+              {t('entities.detail.seenBetween', {
+                first: formatDisplayDate(entity.firstSeen),
+                last: formatDisplayDate(entity.lastSeen),
+              })}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Frequency */}
+      <Card className="p-4 space-y-3">
+        <h2 className="text-lg font-semibold text-slate-900">{t('entities.detail.timeline')}</h2>
+        {timeline.length > 0 && <FrequencyTimeline months={timeline} />}
+      </Card>
+
+      {/* Spellings */}
+      <Card className="p-4 space-y-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{t('entities.detail.spellings')}</h2>
+          <p className="text-sm text-slate-600">{t('entities.detail.spellingsHint')}</p>
+        </div>
+        <ul className="divide-y divide-slate-100">
+          {entity.variants.map(variant => (
+            <li key={variant.key} className="flex flex-wrap items-center justify-between gap-2 py-2">
+              <span className="text-sm text-slate-900">
+                {variant.value}
+                <span className="ml-2 text-xs text-slate-500">{t('entities.mentions', { count: variant.count })}</span>
+                {variant.key === entity.key && <Badge className="ml-2">{t('entities.detail.primary')}</Badge>}
+              </span>
+              {variant.key !== entity.key && (
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => merge(variant.key, [entity.key])}>
+                    <Star className="h-3.5 w-3.5 mr-1" />
+                    {t('entities.detail.makePrimary')}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => split(variant.key)}>
+                    <Split className="h-3.5 w-3.5 mr-1" />
+                    {t('entities.detail.split')}
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        <MergeControls entity={entity} entities={entities} onMerge={handleMerge} />
+      </Card>
+
+      {/* Dumps */}
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">
+          {t('entities.detail.dumps', { count: entity.dumps.length })}
+        </h2>
+        <ul className="space-y-2">
+          {entity.dumps.map(dump => (
+            <li key={dump.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedDump(enrichDump(dump))}
+                className="w-full text-left p-3 rounded-lg border border-slate-200 bg-white hover:border-electric-purple hover:bg-slate-50 transition-colors"
+              >
+                <p className="text-sm text-slate-900">{truncateText(dump.ai_summary || dump.raw_content, 160)}</p>
+                <p className="mt-1 text-xs text-slate-500">{formatDisplayDate(dump.created_at)}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+        {hasMore && (
+          <Button variant="outline" size="sm" className="mt-3" onClick={() => loadMoreDumps()} disabled={loadingMore}>
+            {loadingMore ? t('dashboard.loadingMore') : t('entities.scanMore')}
+          </Button>
+        )}
+      </div>
+
+      {/* Reminders */}
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">
+          {t('entities.detail.reminders', { count: relatedReminders.length })}
+        </h2>
+        {relatedReminders.length === 0 ? (
+          <p className="text-sm text-slate-500">{t('entities.detail.noReminders')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {relatedReminders.map(reminder => (
+              <li key={reminder.id} className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-white">
+                <Bell className="h-4 w-4 mt-0.5 text-slate-400" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-900">{reminder.message}</p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {formatDisplayDate(reminder.scheduled_for)}
+                    {' · '}
+                    {t(`entities.reminderStatus.${reminder.status}`)}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Tracking */}
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">
+          {t('entities.detail.tracking', { count: relatedTracking.length })}
+        </h2>
+        {relatedTracking.length === 0 ? (
+          <p className="text-sm text-slate-500">{t('entities.detail.noTracking')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {relatedTracking.map(item => (
+              <li key={item.id}>
+                <Link
+                  to="/tracking"
+                  className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-white hover:border-electric-purple hover:bg-slate-50 transition-colors"
+                >
+                  <Package className="h-4 w-4 mt-0.5 text-slate-400" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-slate-900">{item.title}</p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {formatDisplayDate(item.start_date)}
+                      {' · '}
+                      {t(`entities.trackingStatus.${item.status}`)}
+                    </p>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <DumpDetailModal dump={selectedDump} isOpen={!!selectedDump} onClose={() => setSelectedDump(null)} />
+    </div>
+  );
+};
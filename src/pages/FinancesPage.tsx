@@ -0,0 +1,276 @@
+/**
+ * Finances Page
+ *
+ * Money tracker built on the amounts extracted from the loaded dumps:
+ * upcoming bills, monthly totals by category and every amount found,
+ * exportable as CSV
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Download, Receipt, Wallet } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useDumps } from '../hooks/useDumps';
+import { useFinances } from '../hooks/useFinances';
+import { DumpDetailModal } from '../components/DumpDetailModal';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { EmptyState } from '../components/EmptyState';
+import { Card } from '../components/ui/Card';
+import { Badge } from '../components/ui/Badge';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import type { Dump, DumpDerived } from '../types/dump.types';
+import type { MoneyEntry } from '../types/finance.types';
+import { cn } from '../lib/utils';
+import { formatDisplayDate, truncateText } from '../utils/formatting';
+import { downloadFile } from '../utils/export';
+import { enrichDump } from '../utils/time-buckets';
+import { entityKey, entityPath } from '../utils/entities';
+import { createFinanceExport, formatMoney, isPastDue, monthlyTotals, upcomingBills } from '../utils/money';
+
+const MONTHS_SHOWN = 12;
+
+function entryMatches(entry: MoneyEntry, text: string): boolean {
+  const needle = text.trim().toLowerCase();
+  return (
+    !needle ||
+    [entry.raw, entry.organization, entry.category, entry.dump.ai_summary, entry.dump.raw_content].some(value =>
+      value?.toLowerCase().includes(needle)
+    )
+  );
+}
+
+export const FinancesPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const { dumps, total, hasMore, loading, loadingMore, error, fetchDumps, loadMoreDumps } = useDumps();
+  const { entries, currencies } = useFinances();
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+
+  // Amounts are read from the dumps loaded in DumpsContext
+  useEffect(() => {
+    if (user?.id && dumps.length === 0) {
+      fetchDumps(user.id);
+    }
+  }, [user?.id, dumps.length, fetchDumps]);
+
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0] ?? null;
+  const money = (value: number, code: string) => formatMoney(value, code, i18n.language);
+  const monthLabel = (month: string) => {
+    const [year, index] = month.split('-').map(Number);
+    return new Date(year, index - 1, 1).toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
+  };
+  const openDump = (dump: Dump) => setSelectedDump(enrichDump(dump));
+
+  const bills = useMemo(() => upcomingBills(entries), [entries]);
+  const months = useMemo(
+    () => (currency ? monthlyTotals(entries, currency).slice(0, MONTHS_SHOWN) : []),
+    [entries, currency]
+  );
+  const maxMonth = Math.max(1, ...months.map(month => month.total));
+  const visible = useMemo(
+    () => entries.filter(entry => entry.currency === currency && entryMatches(entry, filter)),
+    [entries, currency, filter]
+  );
+
+  if (loading && dumps.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoadingSpinner size="xl" text={t('finances.loading')} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-heading font-bold text-slate-900">{t('finances.title')}</h1>
+          <p className="text-slate-600 mt-1">{t('finances.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {currencies.length > 1 && (
+            <select
+              value={currency ?? ''}
+              onChange={e => setSelectedCurrency(e.target.value)}
+              aria-label={t('finances.currency')}
+              className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+            >
+              {currencies.map(code => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          )}
+          <Button variant="outline" onClick={() => downloadFile(createFinanceExport(entries))} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {t('finances.exportCsv')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        {t('finances.scanned', { loaded: dumps.length, total })}
+        {hasMore && (
+          <Button variant="outline" size="sm" onClick={() => loadMoreDumps()} disabled={loadingMore}>
+            {loadingMore ? t('dashboard.loadingMore') : t('finances.scanMore')}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {entries.length === 0 ? (
+        <EmptyState
+          title={t('finances.none')}
+          message={t('finances.noneMessage')}
+          icon={<Wallet className="h-12 w-12 text-slate-300" />}
+        />
+      ) : (
+        <>
+          {/* Upcoming bills */}
+          <Card className="p-4 space-y-3">
+            <h2 className="text-lg font-semibold text-slate-900">{t('finances.bills.title')}</h2>
+            {bills.length === 0 ? (
+              <p className="text-sm text-slate-500">{t('finances.bills.none')}</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {bills.map(bill => (
+                  <li key={bill.id}>
+                    <button
+                      type="button"
+                      onClick={() => openDump(bill.dump)}
+                      className="w-full flex items-center justify-between gap-3 py-2 text-left hover:bg-slate-50"
+                    >
+                      <span className="flex items-center gap-2 min-w-0">
+                        <Receipt className="h-4 w-4 shrink-0 text-slate-400" />
+                        <span className="truncate text-sm text-slate-900">
+                          {bill.organization || truncateText(bill.dump.ai_summary || bill.dump.raw_content, 60)}
+                        </span>
+                      </span>
+                      <span className="flex shrink-0 items-center gap-3 text-sm">
+                        {isPastDue(bill) ? (
+                          <Badge variant="overdue">
+                            <AlertTriangle className="h-3 w-3 mr-1 inline" />
+                            {t('finances.bills.pastDue', { date: formatDisplayDate(bill.dueDate) })}
+                          </Badge>
+                        ) : (
+                          <span className="text-slate-600">
+                            {t('finances.bills.due', { date: formatDisplayDate(bill.dueDate) })}
+                          </span>
+                        )}
+                        <span className="font-semibold text-slate-900">{money(bill.value, bill.currency)}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+
+          {/* Monthly totals */}
+          <Card className="p-4 space-y-3">
+            <h2 className="text-lg font-semibold text-slate-900">
+              {t('finances.monthly.title', { currency: currency ?? '' })}
+            </h2>
+            <ul className="space-y-3">
+              {months.map(month => (
+                <li key={month.month}>
+                  <div className="flex items-baseline justify-between text-sm">
+                    <span className="capitalize text-slate-700">{monthLabel(month.month)}</span>
+                    <span className="font-semibold text-slate-900">{money(month.total, currency!)}</span>
+                  </div>
+                  <div className="mt-1 h-2 rounded-full bg-slate-100">
+                    <div
+                      className="h-2 rounded-full bg-electric-purple"
+                      style={{ width: `${(month.total / maxMonth) * 100}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {month.byCategory
+                      .map(row => `${row.category ?? t('finances.uncategorized')} ${money(row.total, currency!)}`)
+                      .join(' · ')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          {/* Entries */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-slate-900">
+                {t('finances.entries.title', { count: visible.length })}
+              </h2>
+              <Input
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder={t('finances.entries.filterPlaceholder')}
+                className="sm:w-64"
+              />
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">{t('common.date')}</th>
+                    <th className="px-3 py-2 font-medium">{t('finances.entries.description')}</th>
+                    <th className="px-3 py-2 font-medium">{t('finances.entries.organization')}</th>
+                    <th className="px-3 py-2 font-medium">{t('common.category')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('finances.entries.amount')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {visible.map(entry => (
+                    <tr key={entry.id} className="hover:bg-slate-50">
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-600">{formatDisplayDate(entry.date)}</td>
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => openDump(entry.dump)}
+                          className="text-left text-slate-900 hover:underline"
+                        >
+                          {truncateText(entry.dump.ai_summary || entry.dump.raw_content, 80)}
+                        </button>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {entry.organization && (
+                          <Link
+                            to={entityPath(entityKey('organization', entry.organization))}
+                            className="hover:text-electric-purple hover:underline"
+                          >
+                            {entry.organization}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">{entry.category ?? t('finances.uncategorized')}</td>
+                      <td
+                        className={cn(
+                          'px-3 py-2 text-right whitespace-nowrap font-medium',
+                          entry.currencyInferred ? 'text-slate-500' : 'text-slate-900'
+                        )}
+                        title={entry.currencyInferred ? t('finances.entries.inferred', { raw: entry.raw }) : entry.raw}
+                      >
+                        {entry.currencyInferred && '≈ '}
+                        {money(entry.value, entry.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <DumpDetailModal dump={selectedDump} isOpen={!!selectedDump} onClose={() => setSelectedDump(null)} />
+    </div>
+  );
+};
@@ -4,19 +4,21 @@
  * User profile settings management page
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import i18n from '../i18n/config';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { fetchProfile, updateProfile, type UserProfile, type ProfileUpdateRequest } from '../services/profile.service';
+import { useProfile } from '../hooks/useApiQueries';
+import { updateProfile, type UserProfile, type ProfileUpdateRequest } from '../services/profile.service';
 
 export const ProfilePage: React.FC = () => {
   const { t } = useTranslation();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const profileQuery = useProfile();
+  const profile = profileQuery.data ?? null;
+  const loading = profileQuery.isLoading;
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -29,32 +31,27 @@ export const ProfilePage: React.FC = () => {
   const [instantNotifications, setInstantNotifications] = useState(true);
   const [reminderAlerts, setReminderAlerts] = useState(true);
 
-  // Load profile on mount
-  useEffect(() => {
-    loadProfile();
+  // Populate form fields from the saved profile
+  const resetForm = useCallback((data: UserProfile) => {
+    setTimezone(data.timezone || '');
+    setLanguage(data.language || '');
+    setDigestTime(data.digest_time || '');
+    setEmailDigest(data.notification_preferences?.email_digest ?? true);
+    setInstantNotifications(data.notification_preferences?.instant_notifications ?? true);
+    setReminderAlerts(data.notification_preferences?.reminder_alerts ?? true);
   }, []);
 
-  const loadProfile = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await fetchProfile();
-      setProfile(data);
-      
-      // Populate form fields
-      setTimezone(data.timezone || '');
-      setLanguage(data.language || '');
-      setDigestTime(data.digest_time || '');
-      setEmailDigest(data.notification_preferences?.email_digest ?? true);
-      setInstantNotifications(data.notification_preferences?.instant_notifications ?? true);
-      setReminderAlerts(data.notification_preferences?.reminder_alerts ?? true);
-    } catch (err: any) {
-      console.error('Failed to load profile:', err);
-      setError(err.message || t('profile.error'));
-    } finally {
-      setLoading(false);
+  // Seed the form once per profile; background revalidations must not wipe unsaved edits
+  const seededProfileIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (profile && seededProfileIdRef.current !== profile.id) {
+      seededProfileIdRef.current = profile.id;
+      resetForm(profile);
     }
-  };
+  }, [profile, resetForm]);
+
+  // Save failures, otherwise the latest load failure (cleared by a successful refetch)
+  const displayedError = error || profileQuery.error;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -74,8 +71,8 @@ export const ProfilePage: React.FC = () => {
         },
       };
 
-      const updated = await updateProfile(updates);
-      setProfile(updated);
+      // Writes the response into the profile query
+      await updateProfile(updates);
       
       // Update i18n language if it changed
       if (language && language !== i18n.language) {
@@ -99,7 +96,7 @@ export const ProfilePage: React.FC = () => {
   }
 
   // If there's an error and no profile data, show error state with option to use form anyway
-  if (error && !profile) {
+  if (displayedError && !profile) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-2xl">
         <h1 className="text-3xl font-outfit font-bold text-stone-900 mb-8">
@@ -110,7 +107,7 @@ export const ProfilePage: React.FC = () => {
             Profile API Not Available
           </h2>
           <p className="text-yellow-800 mb-4">
-            {error}
+            {displayedError}
           </p>
           <p className="text-sm text-yellow-700">
             The <code className="bg-yellow-100 px-2 py-1 rounded">/auth/profile</code> endpoint needs to be implemented in the backend.
@@ -127,9 +124,9 @@ export const ProfilePage: React.FC = () => {
         {t('profile.title')}
       </h1>
 
-      {error && (
+      {displayedError && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
-          {error}
+          {displayedError}
         </div>
       )}
 
@@ -283,7 +280,7 @@ export const ProfilePage: React.FC = () => {
             <Button
               type="button"
               variant="outline"
-              onClick={loadProfile}
+              onClick={() => profile && resetForm(profile)}
               disabled={saving}
             >
               Reset
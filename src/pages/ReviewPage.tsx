@@ -5,10 +5,12 @@
  */
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { LuClock, LuCircleCheck, LuCircleX, LuTriangleAlert } from 'react-icons/lu';
-import { apiService } from '../services/api';
+import { LuClock, LuCircleCheck, LuCircleX, LuTriangleAlert, LuEye } from 'react-icons/lu';
+import { queryCache } from '../services/query-cache';
+import { ENTITY_TYPES } from '../services/query-keys';
+import type { FlaggedDump, FlaggedStatusFilter } from '../services/review.service';
 import { SearchResultCard } from '../components/SearchResultCard';
 import { DumpDetailModal } from '../components/DumpDetailModal';
 import { LoadingSpinner } from '../components/LoadingSpinner';
@@ -18,72 +20,68 @@ import { enrichDump } from '../utils/time-buckets';
 import type { DumpDerived } from '../types/dump.types';
 import type { SearchResult } from '../types/search.types';
 import { useDumps } from '../hooks/useDumps';
+import { useSearch } from '../hooks/useSearch';
+import { useFlaggedDumps } from '../hooks/useApiQueries';
+import { useRealtimeEvents } from '../hooks/useRealtime';
+import { useSelection } from '../hooks/useSelection';
+import { useBatchActions } from '../hooks/useBatchActions';
+import { useRegisterCommands } from '../hooks/useCommandPalette';
+import { useListNavigation } from '../hooks/useListNavigation';
+import { useFocusedDumpActions } from '../hooks/useFocusedDumpActions';
 import { useToast } from '../components/Toast';
-
-interface FlaggedDump {
-  id: string;
-  dump: {
-    id: string;
-    rawContent: string;
-    category?: { name: string };
-    aiConfidence: number;
-  };
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  status: 'pending' | 'approved' | 'rejected';
-  flaggedAt: string;
-  user?: {
-    id: string;
-    phoneNumber: string;
-  };
-}
+import { RealtimeIndicator } from '../components/RealtimeIndicator';
+import { BulkActionBar } from '../components/BulkActionBar';
 
 /**
  * ReviewPage Component
  */
 export const ReviewPage: React.FC = () => {
   const { t } = useTranslation();
-  const [flaggedDumps, setFlaggedDumps] = useState<FlaggedDump[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+  const [modalMode, setModalMode] = useState<'view' | 'reject'>('view');
   const [searchParams, setSearchParams] = useSearchParams();
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
+  const [statusFilter, setStatusFilter] = useState<FlaggedStatusFilter>('pending');
   
-  const { acceptDumpWithOptimism, rejectDumpWithOptimism } = useDumps();
+  const { acceptDumpWithOptimism, hiddenDumpIds } = useDumps();
+  const { setSimilarTo } = useSearch();
+  const navigate = useNavigate();
   const { addToast } = useToast();
 
-  // Load flagged dumps
-  useEffect(() => {
-    loadFlaggedDumps();
-  }, [statusFilter]);
+  // Flagged dumps (cached per status filter; approve/reject invalidate the queue)
+  // Items rejected or deleted within the undo window leave the filtered list right away
+  const flaggedQuery = useFlaggedDumps(statusFilter);
+  const flaggedDumps = useMemo(
+    () =>
+      (flaggedQuery.data ?? []).filter(
+        flagged =>
+          (statusFilter === 'all' || flagged.status === statusFilter) && !hiddenDumpIds.has(flagged.dump.id)
+      ),
+    [flaggedQuery.data, statusFilter, hiddenDumpIds]
+  );
+  const loading = flaggedQuery.isLoading;
+  const error = flaggedQuery.error ? t('capture.failedToLoad') : null;
 
-  const loadFlaggedDumps = async () => {
-    setLoading(true);
-    setError(null);
+  // Patch flagged dumps in place when the AI finishes (or fails) reprocessing them
+  useRealtimeEvents(event => {
+    const flagged = flaggedDumps.find(f => f.dump.id === event.dumpId);
+    if (!flagged) return;
 
-    try {
-      const params: Record<string, string> = {};
-      if (statusFilter !== 'all') {
-        params.status = statusFilter;
-      }
+    queryCache.updateEntity<FlaggedDump>(ENTITY_TYPES.flaggedDump, flagged.id, previous => ({
+      ...previous,
+      dump: {
+        ...previous.dump,
+        rawContent: event.dump?.raw_content ?? previous.dump.rawContent,
+        aiConfidence: event.dump?.ai_confidence ?? previous.dump.aiConfidence,
+        category: event.dump?.category ?? previous.dump.category,
+      },
+    }));
 
-      const response = await apiService.get<FlaggedDump[]>('/review/flagged', params);
-      
-      console.log('[ReviewPage] API response:', response);
-      
-      if (response.success && response.data) {
-        setFlaggedDumps(response.data);
-      } else {
-        console.error('[ReviewPage] API returned success=false:', response);
-        setError(t('capture.failedToLoad'));
-      }
-    } catch (err: any) {
-      console.error('[ReviewPage] Error loading flagged dumps:', err);
-      setError(err?.message || t('capture.failedToLoad'));
-    } finally {
-      setLoading(false);
+    if (event.type === 'dump.completed') {
+      addToast('success', t('realtime.reviewCompleted'));
+    } else if (event.type === 'dump.failed') {
+      addToast('error', t('realtime.reviewFailed', { error: event.error || t('outbox.unknownError') }));
     }
-  };
+  });
 
   // Convert FlaggedDump to SearchResult format for display
   const enrichedResults = useMemo(() => {
@@ -118,6 +116,38 @@ export const ReviewPage: React.FC = () => {
     });
   }, [flaggedDumps]);
 
+  // Multi-select for batch review
+  const [selectionMode, setSelectionMode] = useState(false);
+  const resultIds = useMemo(() => enrichedResults.map(result => result.dump.id), [enrichedResults]);
+  const selection = useSelection(resultIds);
+  const batch = useBatchActions();
+  const allSelected = resultIds.length > 0 && selection.count === resultIds.length;
+
+  const toggleSelectionMode = () => {
+    if (selectionMode) {
+      selection.clear();
+    }
+    setSelectionMode(!selectionMode);
+  };
+
+  // Failed items are rolled back and stay selected for another try
+  const runBulk = async (action: (ids: string[]) => Promise<string[]>) => {
+    const failed = await action(selection.selectedIds);
+    selection.replace(failed);
+  };
+
+  // Rejected items (including those still in the undo window) are never rejected twice;
+  // in the pending view they have already left the list and the selection
+  const rejectedIds = useMemo(
+    () => new Set(flaggedDumps.filter(flagged => flagged.status === 'rejected').map(flagged => flagged.dump.id)),
+    [flaggedDumps]
+  );
+  const handleBulkReject = (reason: string) =>
+    runBulk(async ids => {
+      const rejectable = ids.filter(id => !rejectedIds.has(id));
+      return rejectable.length > 0 ? batch.reject(rejectable, reason) : [];
+    });
+
   // Handle modal routing via query param
   useEffect(() => {
     const dumpId = searchParams.get('dumpId');
@@ -132,15 +162,23 @@ export const ReviewPage: React.FC = () => {
   }, [searchParams, enrichedResults]);
 
   // Handle dump card click - open modal
-  const handleDumpClick = (dumpId: string) => {
+  const handleDumpClick = (dumpId: string, mode: 'view' | 'reject' = 'view') => {
+    setModalMode(mode);
     setSearchParams({ ...Object.fromEntries(searchParams), dumpId });
   };
 
+  // Similar dumps are listed on the search page
+  const handleMoreLikeThis = (dump: DumpDerived) => {
+    setSimilarTo(dump);
+    navigate('/search');
+  };
+
   // Handle modal close
   const handleModalClose = () => {
     const params = Object.fromEntries(searchParams);
     delete params.dumpId;
     setSearchParams(params);
+    setModalMode('view');
   };
 
   // Handle approve
@@ -150,7 +188,6 @@ export const ReviewPage: React.FC = () => {
       if (result.success) {
         addToast('success', t('review.approved'));
         handleModalClose();
-        loadFlaggedDumps(); // Reload list
       } else {
         addToast('error', result.error || t('capture.failedToApprove'));
       }
@@ -159,22 +196,64 @@ export const ReviewPage: React.FC = () => {
     }
   };
 
-  // Handle reject
-  const handleReject = async (dumpId: string, reason?: string) => {
-    try {
-      const result = await rejectDumpWithOptimism(dumpId, reason || '');
-      if (result.success) {
-        addToast('success', t('review.rejected'));
-        handleModalClose();
-        loadFlaggedDumps(); // Reload list
-      } else {
-        addToast('error', result.error || t('capture.failedToReject'));
-      }
-    } catch (err: any) {
-      addToast('error', err?.message || t('review.failed'));
-    }
+  // Handle reject (the modal already queued the undoable rejection)
+  const handleReject = () => {
+    handleModalClose();
   };
 
+  // Keyboard navigation: j/k move the cursor, Enter opens, a/r/s act on the focused dump
+  const focusedActions = useFocusedDumpActions();
+  const { focusedId } = useListNavigation({
+    ids: resultIds,
+    onOpen: dumpId => handleDumpClick(dumpId),
+    keyActions: {
+      a: focusedActions.approve,
+      r: dumpId => handleDumpClick(dumpId, 'reject'),
+      s: focusedActions.snooze,
+      ...(selectionMode ? { x: (dumpId: string) => selection.toggle(dumpId) } : {}),
+    },
+  });
+
+  useRegisterCommands(
+    'review:focused',
+    focusedId
+      ? [
+          {
+            id: 'focused:open',
+            title: t('commands.focused.open'),
+            group: 'focused',
+            shortcut: ['Enter'],
+            icon: LuEye,
+            run: () => handleDumpClick(focusedId),
+          },
+          {
+            id: 'focused:approve',
+            title: t('commands.focused.approve'),
+            group: 'focused',
+            shortcut: ['A'],
+            icon: LuCircleCheck,
+            run: () => focusedActions.approve(focusedId),
+          },
+          {
+            id: 'focused:reject',
+            title: t('commands.focused.reject'),
+            group: 'focused',
+            shortcut: ['R'],
+            icon: LuCircleX,
+            run: () => handleDumpClick(focusedId, 'reject'),
+          },
+          {
+            id: 'focused:snooze',
+            title: t('commands.focused.snooze'),
+            group: 'focused',
+            shortcut: ['S'],
+            icon: LuClock,
+            run: () => focusedActions.snooze(focusedId),
+          },
+        ]
+      : []
+  );
+
   // Stats
   const pendingCount = flaggedDumps.filter(d => d.status === 'pending').length;
   const approvedCount = flaggedDumps.filter(d => d.status === 'approved').length;
@@ -196,8 +275,9 @@ export const ReviewPage: React.FC = () => {
         <h1 className="text-3xl font-heading font-bold text-slate-900">
           {t('review.title')}
         </h1>
-        <p className="text-slate-600 mt-1">
+        <p className="text-slate-600 mt-1 flex items-center gap-3">
           {t('review.description')}
+          <RealtimeIndicator />
         </p>
       </div>
 
@@ -237,7 +317,7 @@ export const ReviewPage: React.FC = () => {
       </div>
 
       {/* Filters */}
-      <div className="flex gap-2">
+      <div className="flex flex-wrap items-center gap-2">
         <Button
           onClick={() => setStatusFilter('all')}
           variant={statusFilter === 'all' ? 'default' : 'outline'}
@@ -266,13 +346,23 @@ export const ReviewPage: React.FC = () => {
         >
           {t('review.filters.rejected')}
         </Button>
+
+        <Button
+          onClick={toggleSelectionMode}
+          variant={selectionMode ? 'default' : 'outline'}
+          size="sm"
+          className="ml-auto"
+          disabled={enrichedResults.length === 0 && !selectionMode}
+        >
+          {selectionMode ? t('bulk.exitSelect') : t('bulk.selectMode')}
+        </Button>
       </div>
 
       {/* Error State */}
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-red-800">{error}</p>
-          <Button onClick={loadFlaggedDumps} variant="outline" size="sm" className="mt-2">
+          <Button onClick={() => flaggedQuery.refetch()} variant="outline" size="sm" className="mt-2">
             Retry
           </Button>
         </div>
@@ -308,16 +398,46 @@ export const ReviewPage: React.FC = () => {
       {/* Results Grid */}
       {!error && enrichedResults.length > 0 && (
         <div className="space-y-3">
+          {selectionMode && (
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => (allSelected ? selection.clear() : selection.replace(resultIds))}
+                className="h-4 w-4 rounded border-slate-300 accent-electric-purple"
+              />
+              {t('bulk.selectAll', { count: resultIds.length })}
+            </label>
+          )}
           {enrichedResults.map(result => (
             <SearchResultCard
               key={result.dump.id}
               result={result}
               onClick={handleDumpClick}
+              selectable={selectionMode}
+              selected={selection.isSelected(result.dump.id)}
+              onSelect={(dumpId, range) => selection.toggle(dumpId, { range })}
+              focused={result.dump.id === focusedId}
+              onMoreLikeThis={handleMoreLikeThis}
             />
           ))}
         </div>
       )}
 
+      {/* Bulk actions for the current selection */}
+      {selectionMode && (
+        <BulkActionBar
+          count={selection.count}
+          progress={batch.progress}
+          runningAction={batch.runningAction}
+          onApprove={() => runBulk(batch.approve)}
+          onReject={handleBulkReject}
+          onRecategorize={categoryName => runBulk(ids => batch.recategorize(ids, categoryName))}
+          onDelete={() => runBulk(batch.remove)}
+          onClear={selection.clear}
+        />
+      )}
+
       {/* Dump Detail Modal */}
       <DumpDetailModal
         dump={selectedDump}
@@ -325,6 +445,7 @@ export const ReviewPage: React.FC = () => {
         onClose={handleModalClose}
         onAccept={handleApprove}
         onReject={handleReject}
+        initialMode={modalMode}
       />
     </div>
   );
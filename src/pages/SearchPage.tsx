@@ -5,50 +5,87 @@
  * results grid, and pagination
  */
 
-import React, { useEffect, useMemo, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { useDebouncedSearch } from '../hooks/useSearch';
-import { getFilterEnums } from '../services/search.service';
-import { DEFAULT_PAGINATION } from '../types/search.types';
+import { Activity, Sparkles, WifiOff, X, Zap } from 'lucide-react';
+import { useDebouncedSearch, useSearchUrlSync } from '../hooks/useSearch';
+import {
+  SEARCH_PAGE_SIZES,
+  SEARCH_SORTS,
+  type SearchEngine,
+  type SearchPagingMode,
+  type SearchSort,
+} from '../types/search.types';
 import { SearchBar } from '../components/SearchBar';
 import { FilterPanel } from '../components/FilterPanel';
+import { SavedSearchesBar } from '../components/SavedSearchesBar';
 import { SearchResultCard } from '../components/SearchResultCard';
+import { SearchDiagnosticsDrawer } from '../components/SearchDiagnosticsDrawer';
 import { DumpDetailModal } from '../components/DumpDetailModal';
+import { ExportMenu } from '../components/ExportMenu';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { EmptyState } from '../components/EmptyState';
 import { Button } from '../components/ui/Button';
 import { useDumps } from '../hooks/useDumps';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import { useSearchFacets } from '../hooks/useSearchFacets';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { useSearchIndex } from '../hooks/useSearchIndex';
 import { enrichDump } from '../utils/time-buckets';
+import { buildSearchPath, SMART_VIEW_PARAM } from '../utils/search-url';
 import type { DumpDerived } from '../types/dump.types';
+import type { SavedSearch } from '../types/search.types';
 
 export const SearchPage: React.FC = () => {
   const { t } = useTranslation();
   const {
     query,
     filters,
+    sort,
     results,
     loading,
+    loadingMore,
     error,
     page,
-    filterEnums,
+    pagingMode,
+    pageSize,
+    hasMore,
+    offline,
+    engine,
+    similarTo,
     setQuery,
     setFilters,
+    setSort,
     executeSearch,
     nextPage,
     prevPage,
-    setFilterEnums,
+    loadMore,
+    setPagingMode,
+    setPageSize,
+    setEngine,
+    setSimilarTo,
     clearError,
   } = useDebouncedSearch();
 
   const { updateDumpLocally, refetchDumps } = useDumps();
+  const { size: indexedCount } = useSearchIndex();
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedDump, setSelectedDump] = useState<DumpDerived | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  // Entities in the current results feed the suggestions too
+  const resultDumps = useMemo(() => results?.results.map(result => result.dump) ?? [], [results]);
+  const { sources: suggestionSources, rememberSearch, forgetRecentSearches } = useSearchSuggestions(resultDumps);
+  const { facets } = useSearchFacets(query, filters);
 
   // Enrich search results with derived properties
   const enrichedResults = useMemo(() => {
     if (!results) return null;
-    const totalPages = Math.ceil(results.total / DEFAULT_PAGINATION.pageSize);
+    // Local extras are shown on the last page, they don't add pages
+    const totalPages = Math.ceil((results.total - (results.localMatches ?? 0)) / pageSize);
     return {
       ...results,
       results: results.results.map(result => ({
@@ -57,12 +94,38 @@ export const SearchPage: React.FC = () => {
       })),
       totalPages,
     };
-  }, [results]);
+  }, [results, pageSize]);
+
+  // Instant local results stay visible (no overlay) while the server answers
+  const showingInstant = results?.source === 'local' && !offline;
+
+  // Back from a dump (modal or another page) at the same spot in the same results
+  const saveScrollPosition = useScrollRestoration(
+    JSON.stringify({ query, filters, sort }),
+    !!enrichedResults && !loading && !selectedDump
+  );
 
-  // Load filter enums on mount (hardcoded, no API call needed)
+  // Query, filters, sort and page live in the URL (deep links, back/forward)
+  useSearchUrlSync();
+
+  const activeViewId = searchParams.get(SMART_VIEW_PARAM);
+
+  // Infinite mode: fetch the next page when the end of the list comes into view
   useEffect(() => {
-    setFilterEnums(getFilterEnums());
-  }, []);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
 
   // Handle modal routing via query param
   useEffect(() => {
@@ -82,8 +145,20 @@ export const SearchPage: React.FC = () => {
     updateDumpLocally(dumpId, updates);
   };
 
+  // Explicit submit (Enter) runs now and is remembered as a recent query
+  const handleSearch = () => {
+    rememberSearch(query);
+    executeSearch();
+  };
+
+  const handleSelectSavedSearch = (search: SavedSearch) => {
+    navigate(buildSearchPath(search, search.id));
+  };
+
   // Handle dump card click - open modal with URL routing
   const handleDumpClick = (dumpId: string) => {
+    rememberSearch(query);
+    saveScrollPosition();
     setSearchParams({ ...Object.fromEntries(searchParams), dumpId });
   };
 
@@ -122,20 +197,59 @@ export const SearchPage: React.FC = () => {
       <SearchBar
         value={query}
         onChange={setQuery}
-        onSearch={executeSearch}
+        onSearch={handleSearch}
+        suggestionSources={suggestionSources}
+        onSelectSavedSearch={handleSelectSavedSearch}
+        onClearRecent={forgetRecentSearches}
       />
 
+      {/* Engine */}
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        {t('search.engine.label')}
+        <select
+          value={engine}
+          onChange={e => setEngine(e.target.value as SearchEngine)}
+          className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+        >
+          <option value="server">{t('search.engine.server')}</option>
+          <option value="local">{t('search.engine.local')}</option>
+        </select>
+        {engine === 'local' && <span className="text-xs text-slate-500">{t('search.engine.localHint')}</span>}
+      </label>
+
+      {/* Saved Searches */}
+      <SavedSearchesBar current={{ query, filters, sort }} activeViewId={activeViewId} />
+
       {/* Filter Panel */}
       <FilterPanel
         filters={filters}
         onFiltersChange={setFilters}
-        filterEnums={filterEnums}
+        facets={facets}
       />
 
+      {/* More like this */}
+      {similarTo && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-purple-200 bg-purple-50 px-3 py-2 text-sm text-purple-900">
+          <span className="flex min-w-0 items-center gap-2">
+            <Sparkles className="h-4 w-4 shrink-0" />
+            <span className="truncate">
+              {t('search.similar.title', { summary: similarTo.ai_summary || similarTo.raw_content })}
+            </span>
+          </span>
+          <span className="flex shrink-0 items-center gap-3">
+            {results?.results.length === 0 && <span className="text-xs">{t('search.similar.none')}</span>}
+            <Button size="sm" variant="ghost" onClick={() => setSimilarTo(null)} className="flex items-center gap-1">
+              <X className="h-4 w-4" />
+              {t('search.similar.clear')}
+            </Button>
+          </span>
+        </div>
+      )}
+
       {/* Results */}
       <div className="relative min-h-[400px]">
         {/* Loading State */}
-        {loading && (
+        {loading && !showingInstant && (
           <div className="absolute inset-0 bg-white bg-opacity-90 flex items-center justify-center z-10">
             <LoadingSpinner size="lg" text="Searching..." />
           </div>
@@ -215,15 +329,90 @@ export const SearchPage: React.FC = () => {
           />
         )}
 
-        {/* Results Grid */}
-        {enrichedResults && enrichedResults.results.length > 0 && !loading && (
+        {/* Results Grid (kept under the loading overlay so the scroll position holds) */}
+        {enrichedResults && enrichedResults.results.length > 0 && (
           <div className="space-y-6">
+            {/* Local index notice (server engine only: instant, or standing in while unreachable) */}
+            {enrichedResults.source === 'local' && engine === 'server' && !similarTo && (
+              <div
+                className={
+                  offline
+                    ? 'flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800'
+                    : 'flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600'
+                }
+              >
+                {offline ? <WifiOff className="h-4 w-4 shrink-0" /> : <Zap className="h-4 w-4 shrink-0" />}
+                {offline
+                  ? t('search.localIndex.offline', { count: indexedCount })
+                  : t('search.localIndex.instant')}
+              </div>
+            )}
+
             {/* Results Header */}
             <div className="flex items-center justify-between">
               <p className="text-sm text-slate-600">
-                {t('common.showing')} {enrichedResults.results.length} of {enrichedResults.total} results
-                {enrichedResults.query?.processingTime && ` in ${enrichedResults.query.processingTime}ms`}
+                {t('common.showing')} {enrichedResults.results.length} of {enrichedResults.locallyFiltered ? '≈' : ''}
+                {enrichedResults.total} results
+                {!!enrichedResults.query?.processingTime && ` in ${enrichedResults.query.processingTime}ms`}
+                {!!enrichedResults.locallyFiltered && ` · ${t('search.approximateTotal')}`}
+                {!!enrichedResults.localMatches &&
+                  ` · ${t('search.localIndex.localMatches', { count: enrichedResults.localMatches })}`}
               </p>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  {t('search.paging.mode')}
+                  <select
+                    value={pagingMode}
+                    onChange={e => setPagingMode(e.target.value as SearchPagingMode)}
+                    className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+                  >
+                    <option value="pages">{t('search.paging.pages')}</option>
+                    <option value="infinite">{t('search.paging.infinite')}</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  {t('search.paging.pageSize')}
+                  <select
+                    value={pageSize}
+                    onChange={e => setPageSize(Number(e.target.value))}
+                    className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+                  >
+                    {SEARCH_PAGE_SIZES.map(size => (
+                      <option key={size} value={size}>
+                        {size}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  {t('common.sort')}
+                  <select
+                    value={sort}
+                    onChange={e => setSort(e.target.value as SearchSort)}
+                    className="rounded-charming border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-electric-purple"
+                  >
+                    {SEARCH_SORTS.map(option => (
+                      <option key={option} value={option}>
+                        {t(`search.sort.${option}`)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <ExportMenu
+                  source="search"
+                  dumps={resultDumps}
+                  query={query}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowDiagnostics(true)}
+                  className="flex items-center gap-1"
+                >
+                  <Activity className="h-4 w-4" />
+                  {t('searchDiagnostics.open')}
+                </Button>
+              </div>
             </div>
 
             {/* Results Grid */}
@@ -234,12 +423,32 @@ export const SearchPage: React.FC = () => {
                   result={result}
                   onUpdate={handleDumpUpdate}
                   onClick={handleDumpClick}
+                  queryText={enrichedResults.query?.enhanced || query}
+                  onMoreLikeThis={setSimilarTo}
                 />
               ))}
             </div>
 
+            {/* Infinite scrolling */}
+            {pagingMode === 'infinite' && hasMore && (
+              <div ref={loadMoreRef} className="flex flex-col items-center gap-2 py-4">
+                {loadingMore ? (
+                  <LoadingSpinner size="md" text={t('search.paging.loadingMore')} />
+                ) : (
+                  <Button onClick={loadMore} variant="outline">
+                    {t('search.paging.loadMore')}
+                  </Button>
+                )}
+              </div>
+            )}
+            {pagingMode === 'infinite' && !hasMore && enrichedResults.totalPages > 1 && (
+              <p className="py-4 text-center text-xs text-slate-500">
+                {t('search.paging.allLoaded', { count: enrichedResults.results.length })}
+              </p>
+            )}
+
             {/* Pagination */}
-            {enrichedResults.totalPages > 1 && (
+            {pagingMode === 'pages' && enrichedResults.totalPages > 1 && (
               <div className="flex items-center justify-between pt-4 border-t border-slate-200">
                 <Button
                   onClick={prevPage}
@@ -264,6 +473,15 @@ export const SearchPage: React.FC = () => {
         )}
       </div>
 
+      {/* Search Diagnostics */}
+      {results && (
+        <SearchDiagnosticsDrawer
+          isOpen={showDiagnostics}
+          onClose={() => setShowDiagnostics(false)}
+          results={results}
+        />
+      )}
+
       {/* Dump Detail Modal */}
       <DumpDetailModal
         dump={selectedDump}
@@ -5,12 +5,11 @@
  * Fetches from separate endpoints: /api/reminders and /api/tracking
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Bell, Package, Calendar, Loader2 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { useAuth } from '../hooks/useAuth';
-import { getUserReminders, type Reminder } from '../services/reminders.service';
-import { getUserTrackableItems, type TrackableItem } from '../services/tracking.service';
+import { useReminders, useTrackableItems } from '../hooks/useApiQueries';
+import type { Reminder } from '../services/reminders.service';
 import { ReminderCard } from '../components/ReminderCard';
 import { PackageTrackingCard } from '../components/PackageTrackingCard';
 import { EditReminderModal } from '../components/EditReminderModal';
@@ -20,69 +19,23 @@ import { Button } from '../components/ui/Button';
 
 export const TrackingPage: React.FC = () => {
   const { t } = useTranslation();
-  const { user } = useAuth();
   
-  // Separate state for reminders and tracking
-  const [reminders, setReminders] = useState<Reminder[]>([]);
-  const [trackableItems, setTrackableItems] = useState<TrackableItem[]>([]);
-  
-  const [loadingReminders, setLoadingReminders] = useState(true);
-  const [loadingTracking, setLoadingTracking] = useState(true);
-  
-  const [errorReminders, setErrorReminders] = useState<string | null>(null);
-  const [errorTracking, setErrorTracking] = useState<string | null>(null);
+  // Cached queries; mutations in the services invalidate them
+  const remindersQuery = useReminders();
+  const trackingQuery = useTrackableItems();
+
+  const reminders = remindersQuery.data ?? [];
+  const trackableItems = trackingQuery.data ?? [];
+  // Background revalidation keeps showing the cached lists; spinners are for first loads only
+  const loadingReminders = remindersQuery.isLoading;
+  const loadingTracking = trackingQuery.isLoading;
+  const errorReminders = remindersQuery.error;
+  const errorTracking = trackingQuery.error;
   
   // Edit modal state
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
-  // Fetch reminders
-  const fetchReminders = async () => {
-    if (!user?.id) return;
-    
-    try {
-      setLoadingReminders(true);
-      setErrorReminders(null);
-      const data = await getUserReminders(); // Fetch all reminders without filter
-      console.log('Fetched reminders:', data);
-      setReminders(Array.isArray(data) ? data : []);
-    } catch (err: any) {
-      console.error('Failed to fetch reminders:', err);
-      setErrorReminders(err.message || 'Failed to load reminders');
-      setReminders([]);
-    } finally {
-      setLoadingReminders(false);
-    }
-  };
-
-  // Fetch trackable items
-  const fetchTrackableItems = async () => {
-    if (!user?.id) return;
-    
-    try {
-      setLoadingTracking(true);
-      setErrorTracking(null);
-      const data = await getUserTrackableItems({ 
-        activeOnly: true 
-      });
-      setTrackableItems(Array.isArray(data) ? data : []);
-    } catch (err: any) {
-      console.error('Failed to fetch trackable items:', err);
-      setErrorTracking(err.message || 'Failed to load tracking items');
-      setTrackableItems([]);
-    } finally {
-      setLoadingTracking(false);
-    }
-  };
-
-  // Initial fetch on mount
-  useEffect(() => {
-    if (user?.id) {
-      fetchReminders();
-      fetchTrackableItems();
-    }
-  }, [user?.id]);
-
   // Edit reminder handlers
   const handleEditReminder = (reminder: Reminder) => {
     setEditingReminder(reminder);
@@ -95,18 +48,16 @@ export const TrackingPage: React.FC = () => {
   };
 
   const handleReminderUpdate = () => {
-    fetchReminders();
+    remindersQuery.refetch();
   };
 
   // Retry handlers
   const handleRetryReminders = () => {
-    setErrorReminders(null);
-    fetchReminders();
+    remindersQuery.refetch();
   };
 
   const handleRetryTracking = () => {
-    setErrorTracking(null);
-    fetchTrackableItems();
+    trackingQuery.refetch();
   };
 
   // Loading state - show while both are loading
@@ -241,7 +192,7 @@ export const TrackingPage: React.FC = () => {
               <PackageTrackingCard
                 key={item.id}
                 tracking={item}
-                onUpdate={fetchTrackableItems}
+                onUpdate={trackingQuery.refetch}
               />
             ))}
           </div>
@@ -9,6 +9,7 @@ export interface ApiResponse<T = any> {
   error?: {
     message: string;
     code?: string;
+    status?: number;             // HTTP status, when the server answered
     details?: any;
   };
   meta?: {
@@ -18,6 +19,18 @@ export interface ApiResponse<T = any> {
   };
 }
 
+/**
+ * Unwrap an ApiResponse for callers that expect a throwing fetcher (e.g. the query cache)
+ *
+ * @throws {Error} With the API error message when the request failed
+ */
+export function unwrapResponse<T>(response: ApiResponse<T>, fallbackMessage = 'Request failed'): T {
+  if (!response.success || response.data === undefined) {
+    throw new Error(response.error?.message || fallbackMessage);
+  }
+  return response.data;
+}
+
 /**
  * Authentication tokens
  */
@@ -134,6 +147,20 @@ class ApiService {
     this.refreshToken = localStorage.getItem('refreshToken');
   }
 
+  /**
+   * Get the current access token (for transports that bypass axios)
+   */
+  public getAccessToken(): string | null {
+    return this.accessToken;
+  }
+
+  /**
+   * Get the API base URL
+   */
+  public getBaseUrl(): string {
+    return this.client.defaults.baseURL || '';
+  }
+
   /**
    * Check if user is authenticated
    */
@@ -246,6 +273,7 @@ class ApiService {
       error: {
         message: response?.message || error.message || 'An unexpected error occurred',
         code: response?.code || error.code,
+        status: error.response?.status,
         details: response?.details,
       },
     };
@@ -0,0 +1,29 @@
+/**
+ * Contacts Service
+ *
+ * Remembers, per user in localStorage, the contacts confirmed, corrected
+ * or hidden on the contacts screen (see utils/contacts)
+ */
+
+import type { ContactEdits } from '../types/contact.types';
+
+export const contactEditsStorageKey = (userId: string): string => `contactEdits_${userId}`;
+
+/**
+ * Load a user's contact edits
+ */
+export const loadContactEdits = (userId: string): ContactEdits => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(contactEditsStorageKey(userId)) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Replace a user's contact edits
+ */
+export const storeContactEdits = (userId: string, edits: ContactEdits): void => {
+  localStorage.setItem(contactEditsStorageKey(userId), JSON.stringify(edits));
+};
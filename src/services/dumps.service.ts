@@ -5,8 +5,10 @@
  * All endpoints automatically include userId from auth token via interceptor
  */
 
-import { apiService, type ApiResponse } from './api';
-import type { Dump } from '../types/dump.types';
+import { apiService, unwrapResponse, type ApiResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
+import type { Category, Dump, DumpsPage, ExtractedEntities } from '../types/dump.types';
 
 /**
  * Fetch dumps for authenticated user
@@ -20,6 +22,53 @@ export async function fetchDumps(
   return apiService.get(`/api/dumps/user/${userId}`);
 }
 
+/**
+ * Fetch one page of dumps for authenticated user
+ * Backends without pagination return everything and no cursor,
+ * which callers treat as the last page
+ * 
+ * @param userId - User identifier as URL parameter
+ * @param options - Page size and cursor returned by the previous page
+ * @returns Promise with the page of dumps and the next cursor
+ */
+export async function fetchDumpsPage(
+  userId: string,
+  options: { limit: number; cursor?: string | null }
+): Promise<ApiResponse<DumpsPage>> {
+  const params = new URLSearchParams({ limit: String(options.limit) });
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
+  }
+  return apiService.get(`/api/dumps/user/${userId}?${params.toString()}`);
+}
+
+/**
+ * Fetch every dump for authenticated user by following page cursors
+ * 
+ * @param userId - User identifier as URL parameter
+ * @param pageSize - Dumps requested per page
+ * @returns Promise with all dumps (fails if any page fails)
+ */
+export async function fetchAllDumps(userId: string, pageSize = 200): Promise<ApiResponse<Dump[]>> {
+  const dumps: Dump[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | null = null;
+
+  do {
+    const response = await fetchDumpsPage(userId, { limit: pageSize, cursor });
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+    dumps.push(...response.data.dumps);
+    cursor = response.data.nextCursor || null;
+    // Guard against a backend that hands back a cursor it already gave
+    if (cursor && seenCursors.has(cursor)) break;
+    if (cursor) seenCursors.add(cursor);
+  } while (cursor);
+
+  return { success: true, data: dumps };
+}
+
 /**
  * Fetch a single dump by ID
  * 
@@ -31,7 +80,22 @@ export async function fetchDumpById(dumpId: string): Promise<ApiResponse<Dump>>
 }
 
 /**
- * Update a dump (edit category/notes/content)
+ * Nearest dumps by content vector, computed by the backend
+ * Older backends don't have this endpoint; callers fall back to local matching
+ *
+ * @param dumpId - Dump identifier
+ * @param limit - Maximum number of neighbors
+ * @returns Promise with neighbors, most similar first
+ */
+export async function fetchRelatedDumps(
+  dumpId: string,
+  limit: number
+): Promise<ApiResponse<Array<{ dump: Dump; similarity: number }>>> {
+  return apiService.get(`/api/dumps/${dumpId}/related?limit=${limit}`);
+}
+
+/**
+ * Update a dump (edit category/notes/content, or merged entities)
  * 
  * @param dumpId - Dump identifier
  * @param updates - Fields to update
@@ -44,9 +108,19 @@ export async function updateDump(
     notes?: string;
     raw_content?: string;
     ai_summary?: string;
+    extracted_entities?: ExtractedEntities;
   }
 ): Promise<ApiResponse<Dump>> {
-  return apiService.patch(`/api/dumps/${dumpId}`, updates);
+  const response = await apiService.patch<Dump>(`/api/dumps/${dumpId}`, updates);
+  if (response.success) {
+    queryCache.invalidate(queryKeys.review.all);
+    queryCache.invalidate(queryKeys.search.all);
+    // Naming a category that doesn't exist yet creates it
+    if (updates.category !== undefined) {
+      queryCache.invalidate(queryKeys.metadata.all);
+    }
+  }
+  return response;
 }
 
 /**
@@ -61,11 +135,16 @@ export async function acceptDump(
   category_id?: string,
   notes?: string
 ): Promise<ApiResponse<Dump>> {
-  return apiService.post(`/review/${dumpId}/approve`, { 
+  const response = await apiService.post<Dump>(`/review/${dumpId}/approve`, { 
     raw_content: raw_content,
     category_id: category_id,
     notes: notes,
   });
+  if (response.success) {
+    queryCache.invalidate(queryKeys.review.all);
+    queryCache.invalidate(queryKeys.search.all);
+  }
+  return response;
 }
 
 /**
@@ -80,11 +159,16 @@ export async function rejectDump(
   reason?: string,
   notes?: string
 ): Promise<ApiResponse<Dump>> {
-  return apiService.post(`/review/${dumpId}/reject`, { 
+  const response = await apiService.post<Dump>(`/review/${dumpId}/reject`, { 
     status: 'Rejected',
     reason: reason,
     notes: notes,
   });
+  if (response.success) {
+    queryCache.invalidate(queryKeys.review.all);
+    queryCache.invalidate(queryKeys.search.all);
+  }
+  return response;
 }
 
 /**
@@ -141,5 +225,30 @@ export async function uploadDump(
  * @returns Promise with success response
  */
 export async function deleteDump(dumpId: string): Promise<ApiResponse<{ success: boolean }>> {
-  return apiService.delete(`/api/dumps/${dumpId}`);
+  const response = await apiService.delete<{ success: boolean }>(`/api/dumps/${dumpId}`);
+  if (response.success) {
+    queryCache.invalidate(queryKeys.review.all);
+    queryCache.invalidate(queryKeys.search.all);
+  }
+  return response;
+}
+
+/**
+ * Fetch all dump categories
+ * 
+ * @returns Promise with categories array
+ */
+export async function fetchCategories(): Promise<ApiResponse<Category[]>> {
+  return apiService.get('/admin/categories');
+}
+
+/**
+ * Active categories in display order
+ *
+ * @throws {Error} If the request fails
+ */
+export async function fetchActiveCategories(): Promise<Category[]> {
+  return unwrapResponse(await fetchCategories(), 'Failed to load categories')
+    .filter(category => category.is_active !== false)
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
 }
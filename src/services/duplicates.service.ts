@@ -0,0 +1,27 @@
+/**
+ * Duplicates Service
+ *
+ * Remembers, per user in localStorage, the duplicate groups marked as
+ * "not duplicates" so the review screen stops suggesting them
+ */
+
+export const dismissedDuplicatesStorageKey = (userId: string): string => `dismissedDuplicates_${userId}`;
+
+/**
+ * Load a user's dismissed group keys (see duplicateGroupKey)
+ */
+export const loadDismissedDuplicates = (userId: string): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(dismissedDuplicatesStorageKey(userId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replace a user's dismissed group keys
+ */
+export const storeDismissedDuplicates = (userId: string, keys: string[]): void => {
+  localStorage.setItem(dismissedDuplicatesStorageKey(userId), JSON.stringify(keys));
+};
@@ -0,0 +1,32 @@
+/**
+ * Entity Aliases Service
+ *
+ * Remembers, per user in localStorage, which entity spellings were merged
+ * in the entity explorer (see utils/entities)
+ */
+
+import type { EntityAliases } from '../utils/entities';
+
+export const entityAliasesStorageKey = (userId: string): string => `entityAliases_${userId}`;
+
+/**
+ * Load a user's aliases (variant key -> canonical key)
+ */
+export const loadEntityAliases = (userId: string): EntityAliases => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(entityAliasesStorageKey(userId)) ?? '{}');
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Replace a user's aliases
+ */
+export const storeEntityAliases = (userId: string, aliases: EntityAliases): void => {
+  localStorage.setItem(entityAliasesStorageKey(userId), JSON.stringify(aliases));
+};
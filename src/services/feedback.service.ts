@@ -5,6 +5,8 @@
  */
 
 import { apiService, type ApiResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
 import type { FeedbackPayload } from '../types/feedback';
 
 /**
@@ -18,7 +20,11 @@ export async function submitFeedback(
   userId?: string
 ): Promise<ApiResponse<any>> {
   const query = userId ? `?userId=${encodeURIComponent(userId)}` : '';
-  return apiService.post(`/feedback/submit${query}`, feedback);
+  const response = await apiService.post(`/feedback/submit${query}`, feedback);
+  if (response.success) {
+    queryCache.invalidate(queryKeys.feedback.all);
+  }
+  return response;
 }
 
 /**
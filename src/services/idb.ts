@@ -0,0 +1,126 @@
+/**
+ * IndexedDB Storage
+ *
+ * Minimal promise wrapper around IndexedDB for client-side persistence
+ * (offline outbox, local indexes). One database, one object store per feature.
+ */
+
+const DB_NAME = 'clutter-user-client';
+const DB_VERSION = 2;
+
+/**
+ * Object stores and their key paths
+ * Bump DB_VERSION when adding a store so existing browsers run the upgrade
+ */
+const STORES = {
+  outbox: 'id',
+  searchIndex: 'userId',
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and lazily upgrade) the application database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, keyPath]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath });
+        }
+      });
+    };
+
+    // Another tab holds an older version open: fail now rather than hang every caller
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error('IndexedDB upgrade is blocked by another open tab'));
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // Opened after the caller gave up; the next call opens a fresh connection
+        db.close();
+        return;
+      }
+      // Let a newer version in another tab upgrade; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open IndexedDB'));
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request inside a transaction and resolve with its result
+ */
+async function runRequest<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  build: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = build(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Read every record in a store
+ */
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+/**
+ * Read a single record by key
+ */
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+/**
+ * Insert or replace a record
+ */
+export async function idbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.put(value));
+}
+
+/**
+ * Delete a record by key
+ */
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,166 @@
+/**
+ * Metadata Service
+ *
+ * Loads filter enums and categories once and keeps a versioned copy in
+ * localStorage. When the backend can't be reached the stored copy is used,
+ * and without one the built-in enums below (matching the backend entity
+ * definitions) keep the filters working.
+ */
+
+import { apiService } from './api';
+import { fetchActiveCategories } from './dumps.service';
+import type { Category } from '../types/dump.types';
+import type { AppMetadata, EnumOption, FilterEnums } from '../types/metadata.types';
+
+export const METADATA_STORAGE_KEY = 'appMetadata';
+const METADATA_SCHEMA_VERSION = 1;     // Bump when the stored shape changes; older copies are dropped
+
+/**
+ * Enums used when neither the backend nor a stored copy is available
+ * ContentType and ProcessingStatus from dump.entity.ts,
+ * urgency levels 1=low, 2=medium, 3=high from categorization.service.ts
+ */
+export const FALLBACK_FILTER_ENUMS: FilterEnums = {
+  contentTypes: [
+    { value: 'text', label: 'Text' },
+    { value: 'voice', label: 'Voice' },
+    { value: 'image', label: 'Image' },
+    { value: 'email', label: 'Email' },
+  ],
+  urgencyLevels: [
+    { value: 1, label: 'Low' },
+    { value: 2, label: 'Medium' },
+    { value: 3, label: 'High' },
+  ],
+  statuses: [
+    { value: 'received', label: 'Received' },
+    { value: 'processing', label: 'Processing' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'failed', label: 'Failed' },
+  ],
+};
+
+export const FALLBACK_METADATA: AppMetadata = {
+  enums: FALLBACK_FILTER_ENUMS,
+  categories: [],
+  version: null,
+  source: 'fallback',
+  categoriesSource: 'fallback',
+};
+
+interface StoredMetadata {
+  schema: number;
+  version: string | null;
+  storedAt: string;
+  enums: FilterEnums;
+  categories: Category[];
+}
+
+type EnumsResponse = Partial<FilterEnums> & { version?: string | number };
+
+const isOptionList = (value: unknown, valueType: 'string' | 'number'): value is EnumOption<string | number>[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(option => typeof option?.value === valueType && typeof option?.label === 'string');
+
+/**
+ * Read the stored copy; missing, corrupt or outdated copies yield null
+ */
+export const loadStoredMetadata = (): AppMetadata | null => {
+  try {
+    const stored = localStorage.getItem(METADATA_STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as StoredMetadata) : null;
+    if (!parsed || parsed.schema !== METADATA_SCHEMA_VERSION || !Array.isArray(parsed.categories)) {
+      return null;
+    }
+
+    return {
+      enums: { ...FALLBACK_FILTER_ENUMS, ...parsed.enums },
+      categories: parsed.categories,
+      version: parsed.version ?? null,
+      source: 'cache',
+      categoriesSource: 'cache',
+    };
+  } catch {
+    return null;
+  }
+};
+
+let initialMetadata: AppMetadata | null = null;
+
+/**
+ * What to show before the first response: the stored copy or the
+ * built-in defaults (storage is read once per page load)
+ */
+export const getInitialMetadata = (): AppMetadata => {
+  initialMetadata ??= loadStoredMetadata() ?? FALLBACK_METADATA;
+  return initialMetadata;
+};
+
+const storeMetadata = (metadata: AppMetadata): void => {
+  const stored: StoredMetadata = {
+    schema: METADATA_SCHEMA_VERSION,
+    version: metadata.version,
+    storedAt: new Date().toISOString(),
+    enums: metadata.enums,
+    categories: metadata.categories,
+  };
+  try {
+    localStorage.setItem(METADATA_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable: the in-memory copy still works
+  }
+};
+
+/**
+ * Fetch filter enums; lists the backend omits or malforms are left out
+ *
+ * @returns The valid lists and version, or null when the request fails
+ */
+async function fetchFilterEnums(): Promise<{ enums: Partial<FilterEnums>; version: string | null } | null> {
+  const response = await apiService.get<EnumsResponse>('/api/metadata/enums');
+  if (!response.success || !response.data) {
+    return null;
+  }
+
+  const { contentTypes, urgencyLevels, statuses, version } = response.data;
+  const enums: Partial<FilterEnums> = {};
+  if (isOptionList(contentTypes, 'string')) enums.contentTypes = contentTypes;
+  if (isOptionList(urgencyLevels, 'number')) enums.urgencyLevels = urgencyLevels;
+  if (isOptionList(statuses, 'string')) enums.statuses = statuses;
+
+  return { enums, version: version !== undefined ? String(version) : null };
+}
+
+/**
+ * Load enums and categories, falling back to the stored copy and then
+ * the built-in enums for whatever can't be fetched
+ * Never throws, so offline pages still get usable filters
+ */
+export const fetchAppMetadata = async (): Promise<AppMetadata> => {
+  const [enumsResult, categories] = await Promise.all([
+    fetchFilterEnums().catch(() => null),
+    fetchActiveCategories().catch(() => null),
+  ]);
+
+  const stored = loadStoredMetadata();
+  const previous = stored ?? FALLBACK_METADATA;
+
+  if (!enumsResult && !categories) {
+    return previous;
+  }
+
+  const metadata: AppMetadata = {
+    enums: { ...previous.enums, ...enumsResult?.enums },
+    categories: categories ?? previous.categories,
+    version: enumsResult?.version ?? previous.version,
+    source: enumsResult && categories ? 'server' : previous.source,
+    categoriesSource: categories ? 'server' : previous.categoriesSource,
+  };
+
+  // Only complete responses replace the stored copy
+  if (metadata.source === 'server') {
+    storeMetadata(metadata);
+  }
+  return metadata;
+};
@@ -0,0 +1,133 @@
+/**
+ * Outbox Service
+ *
+ * Persistent queue of dump captures made while offline.
+ * Items are stored in IndexedDB and replayed through the dumps service.
+ */
+
+import type { ApiResponse } from './api';
+import { idbDelete, idbGetAll, idbPut } from './idb';
+import { createDump, uploadDump } from './dumps.service';
+import { getBackoffDelay } from '../utils/backoff';
+import type { Dump } from '../types/dump.types';
+import type { OutboxItem, OutboxSubmission } from '../types/outbox.types';
+
+const BASE_RETRY_DELAY = 2000;        // 2s after the first failure
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // Never wait more than 5 minutes
+
+// Axios error codes that mean the request never got a usable answer
+const RETRYABLE_ERROR_CODES = ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT', 'ERR_BAD_RESPONSE'];
+
+/**
+ * Check whether a failed response should be retried later
+ * Network failures, 5xx and 429 responses are retryable; anything else is a conflict
+ */
+export function isRetryableFailure(response: ApiResponse): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  const status = response.error?.status;
+  if (status !== undefined && (status >= 500 || status === 429)) {
+    return true;
+  }
+  return RETRYABLE_ERROR_CODES.includes(response.error?.code || '');
+}
+
+/**
+ * Delay before the next replay attempt for the given number of failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  return getBackoffDelay(attempts, BASE_RETRY_DELAY, MAX_RETRY_DELAY);
+}
+
+/**
+ * Build a new outbox item from a capture submission
+ */
+export function createOutboxItem(userId: string, submission: OutboxSubmission): OutboxItem {
+  const base = {
+    id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    status: 'pending' as const,
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (submission.kind === 'text') {
+    return {
+      ...base,
+      kind: 'text',
+      rawContent: submission.rawContent,
+      contentType: submission.contentType || 'text',
+    };
+  }
+
+  return {
+    ...base,
+    kind: 'file',
+    file: submission.file,
+    fileName: submission.file.name,
+    caption: submission.caption,
+  };
+}
+
+/**
+ * Load queued items for a user, oldest first
+ */
+export async function listOutbox(userId: string): Promise<OutboxItem[]> {
+  const items = await idbGetAll<OutboxItem>('outbox');
+  return items
+    .filter(item => item.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Insert or update a queued item
+ */
+export async function saveOutboxItem(item: OutboxItem): Promise<void> {
+  await idbPut('outbox', item);
+}
+
+/**
+ * Remove a queued item (after successful replay or when discarded)
+ */
+export async function removeOutboxItem(itemId: string): Promise<void> {
+  await idbDelete('outbox', itemId);
+}
+
+/**
+ * Remove every queued item of a user (on logout)
+ */
+export async function clearOutbox(userId: string): Promise<void> {
+  const items = await listOutbox(userId);
+  await Promise.all(items.map(item => removeOutboxItem(item.id)));
+}
+
+/**
+ * Send a capture submission straight to the API
+ */
+export async function sendSubmission(
+  userId: string,
+  submission: OutboxSubmission
+): Promise<ApiResponse<Dump>> {
+  if (submission.kind === 'text') {
+    return createDump(userId, submission.rawContent, submission.contentType);
+  }
+  return uploadDump(userId, submission.file, submission.caption);
+}
+
+/**
+ * Replay a queued item against the API
+ */
+export async function sendOutboxItem(item: OutboxItem): Promise<ApiResponse<Dump>> {
+  if (item.kind === 'text') {
+    return createDump(item.userId, item.rawContent || '', item.contentType);
+  }
+
+  // Blobs read back from IndexedDB lose their File identity; restore the name
+  const file = item.file instanceof File
+    ? item.file
+    : new File([item.file || new Blob()], item.fileName || 'upload', { type: item.file?.type });
+
+  return uploadDump(item.userId, file, item.caption);
+}
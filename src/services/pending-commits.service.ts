@@ -0,0 +1,67 @@
+/**
+ * Pending Commits Service
+ *
+ * Deferred undo commands whose grace window was cut short by the page closing.
+ * They are written to localStorage (synchronous, so the write finishes inside
+ * `pagehide`) and replayed against the API on the user's next load.
+ */
+
+import type { PendingCommit } from '../types/undo.types';
+import { deleteDump, rejectDump, updateDump } from './dumps.service';
+import { runBatch, type BatchResult } from '../utils/batch';
+
+export const pendingCommitsStorageKey = (userId: string): string => `pendingCommits_${userId}`;
+
+/**
+ * Load a user's pending commits
+ */
+export const loadPendingCommits = (userId: string): PendingCommit[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(pendingCommitsStorageKey(userId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replace a user's pending commits (an empty list removes the key)
+ */
+export const storePendingCommits = (userId: string, commits: PendingCommit[]): void => {
+  if (commits.length === 0) {
+    localStorage.removeItem(pendingCommitsStorageKey(userId));
+  } else {
+    localStorage.setItem(pendingCommitsStorageKey(userId), JSON.stringify(commits));
+  }
+};
+
+const deleteAll = (dumpIds: string[]): Promise<BatchResult> =>
+  runBatch(dumpIds, async id => {
+    const response = await deleteDump(id);
+    return { success: response.success, error: response.error?.message };
+  });
+
+/**
+ * Send a pending commit's server work; resolves with the number of items that failed
+ */
+export async function replayPendingCommit(commit: PendingCommit): Promise<number> {
+  switch (commit.kind) {
+    case 'deleteDumps':
+      return (await deleteAll(commit.dumpIds)).failed.length;
+    case 'rejectDumps': {
+      const result = await runBatch(commit.dumpIds, async id => {
+        const response = await rejectDump(id, commit.reason);
+        return { success: response.success, error: response.error?.message };
+      });
+      return result.failed.length;
+    }
+    case 'mergeDumps': {
+      // Duplicates are only deleted once their notes and entities live on the kept dump
+      const response = await updateDump(commit.keepId, commit.updates);
+      if (!response.success) {
+        return commit.duplicateIds.length + 1;
+      }
+      return (await deleteAll(commit.duplicateIds)).failed.length;
+    }
+  }
+}
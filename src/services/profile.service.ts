@@ -4,7 +4,9 @@
  * API service for user profile management
  */
 
-import { apiService } from './api';
+import { apiService, unwrapResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
 
 /**
  * User profile settings
@@ -43,7 +45,7 @@ export interface ProfileUpdateRequest {
  */
 export const fetchProfile = async (): Promise<UserProfile> => {
   const response = await apiService.get<UserProfile>('/auth/profile');
-  return response.data!;
+  return unwrapResponse(response, 'Failed to load profile');
 };
 
 /**
@@ -51,5 +53,7 @@ export const fetchProfile = async (): Promise<UserProfile> => {
  */
 export const updateProfile = async (updates: ProfileUpdateRequest): Promise<UserProfile> => {
   const response = await apiService.patch<UserProfile>('/auth/profile', updates);
-  return response.data!;
+  const profile = unwrapResponse(response, 'Failed to update profile');
+  queryCache.setQueryData(queryKeys.profile.all, profile);
+  return profile;
 };
@@ -0,0 +1,350 @@
+/**
+ * Query Cache
+ *
+ * Normalized client-side cache shared by every data-fetching hook.
+ * - Queries are identified by JSON-serializable key arrays (see query-keys.ts)
+ * - Concurrent requests for the same key share one in-flight promise
+ * - Cached data is served immediately and revalidated in the background once stale
+ * - Queries that declare an entity type store only IDs; the entities themselves
+ *   live in one table, so patching an entity updates every query that lists it
+ * - Mutations invalidate queries by key prefix; active queries refetch right away
+ */
+
+export type QueryKey = readonly unknown[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: string | null;
+  status: QueryStatus;
+  isFetching: boolean;       // True while a request is in flight (including background revalidation)
+  updatedAt: number;         // Epoch ms of the last successful fetch, 0 when stale/never
+}
+
+export interface FetchOptions {
+  entity?: string;           // Normalize results as entities of this type (items need an `id`)
+}
+
+type Entity = { id: string } & Record<string, unknown>;
+
+interface CacheEntry {
+  key: QueryKey;
+  data: unknown;                           // Raw data, or entity IDs when normalized
+  entity?: string;
+  shape?: 'list' | 'one';
+  error: string | null;
+  updatedAt: number;
+  promise: Promise<unknown> | null;
+  refetchQueued: boolean;                  // Invalidated while a request was in flight
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+  snapshot: QueryState<unknown>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const GC_TIME = 5 * 60 * 1000;             // Drop unobserved queries after 5 minutes
+
+/**
+ * Stable string form of a query key (object properties sorted)
+ */
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key, (_name, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, prop) => {
+            sorted[prop] = (value as Record<string, unknown>)[prop];
+            return sorted;
+          }, {})
+      : value
+  );
+}
+
+function isPrefix(prefix: QueryKey, key: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+}
+
+function isEntity(value: unknown): value is Entity {
+  return !!value && typeof value === 'object' && typeof (value as Entity).id === 'string';
+}
+
+class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private entities = new Map<string, Map<string, Entity>>();
+  private epoch = 0;                       // Bumped by clear() so late responses are dropped
+
+  private getEntry(key: QueryKey): CacheEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+
+    if (!entry) {
+      entry = {
+        key,
+        data: undefined,
+        error: null,
+        updatedAt: 0,
+        promise: null,
+        refetchQueued: false,
+        fetcher: null,
+        listeners: new Set(),
+        snapshot: { data: undefined, error: null, status: 'idle', isFetching: false, updatedAt: 0 },
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry);
+    }
+
+    return entry;
+  }
+
+  private getTable(type: string): Map<string, Entity> {
+    let table = this.entities.get(type);
+    if (!table) {
+      table = new Map();
+      this.entities.set(type, table);
+    }
+    return table;
+  }
+
+  /**
+   * Resolve entity IDs back into objects
+   */
+  private readData(entry: CacheEntry): unknown {
+    if (!entry.entity || entry.data === undefined) {
+      return entry.data;
+    }
+
+    const table = this.getTable(entry.entity);
+    if (entry.shape === 'list') {
+      return (entry.data as string[]).map(id => table.get(id)).filter(Boolean);
+    }
+    return table.get(entry.data as string);
+  }
+
+  /**
+   * Store query results, moving entities into the shared table
+   */
+  private writeData(entry: CacheEntry, data: unknown): void {
+    if (!entry.entity) {
+      entry.data = data;
+      return;
+    }
+
+    const table = this.getTable(entry.entity);
+    if (Array.isArray(data) && data.every(isEntity)) {
+      data.forEach(item => table.set(item.id, item));
+      entry.shape = 'list';
+      entry.data = data.map(item => item.id);
+    } else if (isEntity(data)) {
+      table.set(data.id, data);
+      entry.shape = 'one';
+      entry.data = data.id;
+    } else {
+      // Not entity-shaped after all; keep as-is
+      entry.entity = undefined;
+      entry.data = data;
+    }
+  }
+
+  private notify(entry: CacheEntry): void {
+    const data = this.readData(entry);
+    entry.snapshot = {
+      data,
+      error: entry.error,
+      status: data !== undefined ? 'success' : entry.error ? 'error' : entry.promise ? 'loading' : 'idle',
+      isFetching: !!entry.promise,
+      updatedAt: entry.updatedAt,
+    };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleGc(hash: string, entry: CacheEntry): void {
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise) {
+        this.entries.delete(hash);
+      }
+    }, GC_TIME);
+  }
+
+  /**
+   * Current state of a query (referentially stable until it changes)
+   */
+  public getSnapshot<T>(key: QueryKey): QueryState<T> {
+    return this.getEntry(key).snapshot as QueryState<T>;
+  }
+
+  /**
+   * Listen for changes to a query; returns an unsubscribe function
+   */
+  public subscribe(key: QueryKey, listener: () => void): () => void {
+    const hash = hashKey(key);
+    const entry = this.getEntry(key);
+
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleGc(hash, entry);
+      }
+    };
+  }
+
+  /**
+   * True when the query has never loaded, was invalidated, or is older than staleTime
+   */
+  public isStale(key: QueryKey, staleTime: number): boolean {
+    const entry = this.getEntry(key);
+    return !entry.updatedAt || Date.now() - entry.updatedAt > staleTime;
+  }
+
+  /**
+   * Run (or join) the request for a query. Never throws; failures land in `error`.
+   */
+  public fetch<T>(key: QueryKey, fetcher: () => Promise<T>, options: FetchOptions = {}): Promise<T | undefined> {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+    entry.entity = options.entity;
+
+    if (!entry.promise) {
+      const epoch = this.epoch;
+      entry.promise = fetcher()
+        .then(data => {
+          if (epoch !== this.epoch) return;
+          this.writeData(entry, data);
+          entry.error = null;
+          entry.updatedAt = Date.now();
+        })
+        .catch((err: unknown) => {
+          if (epoch !== this.epoch) return;
+          entry.error = err instanceof Error ? err.message : 'An unexpected error occurred';
+        })
+        .finally(() => {
+          entry.promise = null;
+          if (entry.refetchQueued && entry.fetcher) {
+            // A mutation landed mid-request; this response may predate it.
+            // Returning the refetch makes callers of this request wait for the fresh data.
+            entry.refetchQueued = false;
+            return this.fetch(entry.key, entry.fetcher, { entity: entry.entity });
+          }
+          this.notify(entry);
+        });
+      this.notify(entry);
+    }
+
+    return entry.promise.then(() => this.readData(entry) as T | undefined);
+  }
+
+  /**
+   * Read cached data without subscribing
+   */
+  public getQueryData<T>(key: QueryKey): T | undefined {
+    return this.readData(this.getEntry(key)) as T | undefined;
+  }
+
+  /**
+   * Replace a query's data (e.g. with a mutation response)
+   */
+  public setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)): void {
+    const entry = this.getEntry(key);
+    const previous = this.readData(entry) as T | undefined;
+    const next = typeof updater === 'function' ? (updater as (previous: T | undefined) => T)(previous) : updater;
+
+    this.writeData(entry, next);
+    entry.error = null;
+    entry.updatedAt = Date.now();
+    this.notify(entry);
+  }
+
+  /**
+   * Mark every query under a key prefix stale; observed ones refetch immediately
+   */
+  public invalidate(prefix: QueryKey = []): void {
+    this.entries.forEach(entry => {
+      if (!isPrefix(prefix, entry.key)) return;
+
+      entry.updatedAt = 0;
+      if (entry.promise) {
+        entry.refetchQueued = true;
+      } else if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, { entity: entry.entity });
+      } else {
+        this.notify(entry);
+      }
+    });
+  }
+
+  /**
+   * Patch one entity everywhere it appears
+   */
+  public updateEntity<T extends { id: string }>(
+    type: string,
+    id: string,
+    updates: Partial<T> | ((previous: T) => T)
+  ): void {
+    const table = this.getTable(type);
+    const previous = table.get(id) as unknown as T | undefined;
+    if (!previous) return;
+
+    const next = typeof updates === 'function' ? updates(previous) : { ...previous, ...updates };
+    table.set(id, next as unknown as Entity);
+    this.notifyEntity(type, id);
+  }
+
+  /**
+   * Cached entities of a type that match `predicate`
+   */
+  public findEntities<T extends { id: string }>(type: string, predicate: (entity: T) => boolean): T[] {
+    return (Array.from(this.getTable(type).values()) as unknown as T[]).filter(predicate);
+  }
+
+  /**
+   * Remove one entity from every query that lists it
+   */
+  public removeEntity(type: string, id: string): void {
+    const affected = this.findReferences(type, id);
+    this.getTable(type).delete(id);
+    affected.forEach(entry => {
+      if (entry.shape === 'list') {
+        entry.data = (entry.data as string[]).filter(entityId => entityId !== id);
+      }
+      this.notify(entry);
+    });
+  }
+
+  private notifyEntity(type: string, id: string): void {
+    this.findReferences(type, id).forEach(entry => this.notify(entry));
+  }
+
+  private findReferences(type: string, id: string): CacheEntry[] {
+    return Array.from(this.entries.values()).filter(
+      entry =>
+        entry.entity === type &&
+        entry.data !== undefined &&
+        (entry.shape === 'list' ? (entry.data as string[]).includes(id) : entry.data === id)
+    );
+  }
+
+  /**
+   * Forget everything (used on logout so the next user starts clean)
+   */
+  public clear(): void {
+    this.epoch += 1;
+    this.entities.clear();
+    this.entries.forEach(entry => {
+      entry.refetchQueued = false;
+      entry.data = undefined;
+      entry.error = null;
+      entry.updatedAt = 0;
+      entry.shape = undefined;
+      this.notify(entry);
+    });
+  }
+}
+
+// Export singleton instance
+export const queryCache = new QueryCache();
@@ -0,0 +1,51 @@
+/**
+ * Query Keys
+ *
+ * One key factory per endpoint so reads and invalidations agree.
+ * Every key starts with a resource segment; invalidating `all` for a
+ * resource marks each of its variants stale.
+ */
+
+export const queryKeys = {
+  reminders: {
+    all: ['reminders'] as const,
+    list: (params: Record<string, unknown> = {}) => ['reminders', 'list', params] as const,
+  },
+  tracking: {
+    all: ['tracking'] as const,
+    list: (params: Record<string, unknown> = {}) => ['tracking', 'list', params] as const,
+  },
+  profile: {
+    all: ['profile'] as const,
+  },
+  review: {
+    all: ['review'] as const,
+    flagged: (status: string) => ['review', 'flagged', status] as const,
+  },
+  feedback: {
+    all: ['feedback'] as const,
+    mine: (params: { limit: number; offset: number }) => ['feedback', 'mine', params] as const,
+  },
+  relatedDumps: {
+    all: ['relatedDumps'] as const,
+    list: (dumpId: string) => ['relatedDumps', 'list', dumpId] as const,
+  },
+  metadata: {
+    all: ['metadata'] as const,
+  },
+  search: {
+    all: ['search'] as const,
+    count: (state: Record<string, unknown>) => ['search', 'count', state] as const,
+    page: (params: Record<string, unknown>) => ['search', 'page', params] as const,
+    facets: (params: { query: string }) => ['search', 'facets', params] as const,
+  },
+};
+
+/**
+ * Entity types shared between queries (see queryCache.updateEntity)
+ */
+export const ENTITY_TYPES = {
+  reminder: 'reminder',
+  trackableItem: 'trackableItem',
+  flaggedDump: 'flaggedDump',
+} as const;
@@ -0,0 +1,338 @@
+/**
+ * Realtime Service
+ *
+ * Per-user server-push channel for dump processing events.
+ * Tries WebSocket first, then Server-Sent Events, then falls back to polling.
+ * A transport that never opens is skipped; one that drops is reconnected with backoff.
+ * The access token never goes in a URL: polling and the event stream send it as
+ * a header, the WebSocket as its first message.
+ */
+
+import { apiService } from './api';
+import { getBackoffDelay } from '../utils/backoff';
+import type {
+  DumpEvent,
+  DumpEventListener,
+  RealtimeConnectionState,
+  RealtimeTransport,
+} from '../types/realtime.types';
+
+const DEFAULT_TRANSPORTS: RealtimeTransport[] = ['websocket', 'sse', 'polling'];
+const DEFAULT_POLL_INTERVAL = 15000;      // 15s between polls
+const BASE_RECONNECT_DELAY = 1000;        // 1s after the first drop
+const MAX_RECONNECT_DELAY = 60 * 1000;    // Never wait more than a minute
+const SEEN_EVENT_LIMIT = 200;             // Remember this many event IDs for de-duplication
+const UPGRADE_INTERVAL = 5 * 60 * 1000;   // Retry preferred transports every 5 minutes after a fallback
+
+export interface RealtimeClientOptions {
+  userId: string;
+  onEvent: DumpEventListener;
+  onStateChange?: (state: RealtimeConnectionState, transport: RealtimeTransport | null) => void;
+  transports?: RealtimeTransport[];
+  pollInterval?: number;
+  baseUrl?: string;
+}
+
+/**
+ * Read transport order from VITE_REALTIME_TRANSPORTS (e.g. "sse,polling")
+ */
+export function getConfiguredTransports(): RealtimeTransport[] {
+  const configured = (import.meta.env.VITE_REALTIME_TRANSPORTS as string | undefined)
+    ?.split(',')
+    .map(transport => transport.trim())
+    .filter((transport): transport is RealtimeTransport =>
+      DEFAULT_TRANSPORTS.includes(transport as RealtimeTransport)
+    );
+
+  return configured && configured.length > 0 ? configured : DEFAULT_TRANSPORTS;
+}
+
+/**
+ * Realtime client for a single user
+ */
+export class RealtimeClient {
+  private options: RealtimeClientOptions;
+  private transports: RealtimeTransport[];
+  private transportIndex = 0;
+  private socket: WebSocket | null = null;
+  private stream: AbortController | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private upgradeTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private opened = false;
+  private stopped = true;
+  private since: string | null = null;     // Server timestamp of the last event seen
+  private seenEventIds: string[] = [];
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = options;
+    this.transports = options.transports?.length ? options.transports : getConfiguredTransports();
+  }
+
+  /**
+   * Start listening for events
+   */
+  public connect(): void {
+    if (!this.stopped) return;
+
+    this.stopped = false;
+    this.transportIndex = 0;
+    this.attempts = 0;
+    this.openTransport();
+  }
+
+  /**
+   * Stop listening and release the underlying connection
+   */
+  public disconnect(): void {
+    this.stopped = true;
+    this.teardown();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.upgradeTimer) {
+      clearTimeout(this.upgradeTimer);
+      this.upgradeTimer = null;
+    }
+    this.setState('closed');
+  }
+
+  private get transport(): RealtimeTransport {
+    return this.transports[this.transportIndex];
+  }
+
+  private get baseUrl(): string {
+    return (this.options.baseUrl || import.meta.env.VITE_REALTIME_URL || apiService.getBaseUrl()).replace(/\/$/, '');
+  }
+
+  /**
+   * Query string shared by all transports
+   * Without `since` the server starts from its own "now".
+   */
+  private buildQuery(): string {
+    const params = new URLSearchParams({ userId: this.options.userId });
+    if (this.since) params.set('since', this.since);
+    return params.toString();
+  }
+
+  private setState(state: RealtimeConnectionState): void {
+    this.options.onStateChange?.(state, this.stopped ? null : this.transport);
+  }
+
+  private openTransport(): void {
+    if (this.stopped) return;
+
+    this.opened = false;
+    this.setState(this.attempts > 0 ? 'reconnecting' : 'connecting');
+
+    switch (this.transport) {
+      case 'websocket':
+        this.openWebSocket();
+        break;
+      case 'sse':
+        this.openEventStream();
+        break;
+      case 'polling':
+        this.poll();
+        break;
+    }
+  }
+
+  private openWebSocket(): void {
+    if (typeof WebSocket === 'undefined') {
+      this.handleFailure();
+      return;
+    }
+
+    const url = `${this.baseUrl.replace(/^http/, 'ws')}/api/events/ws?${this.buildQuery()}`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      // Browsers cannot set headers on a WebSocket, so authenticate in-band
+      socket.send(JSON.stringify({ type: 'auth', token: apiService.getAccessToken() }));
+      this.handleOpen();
+    };
+    socket.onmessage = message => this.handleMessage(String(message.data));
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.handleFailure();
+      }
+    };
+  }
+
+  /**
+   * Server-Sent Events read through fetch, since EventSource cannot send an
+   * Authorization header
+   */
+  private async openEventStream(): Promise<void> {
+    if (typeof fetch === 'undefined' || typeof TextDecoderStream === 'undefined') {
+      this.handleFailure();
+      return;
+    }
+
+    const controller = new AbortController();
+    this.stream = controller;
+    const token = apiService.getAccessToken();
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/events/stream?${this.buildQuery()}`, {
+        headers: { Accept: 'text/event-stream', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream answered ${response.status}`);
+      }
+
+      this.handleOpen();
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        // Messages end with a blank line; keep a trailing partial one for the next chunk
+        const messages = (buffer + value).split(/\r?\n\r?\n/);
+        buffer = messages.pop() ?? '';
+        messages.forEach(message => {
+          const data = message
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).replace(/^ /, ''))
+            .join('\n');
+          if (data) this.handleMessage(data);
+        });
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Realtime event stream failed:', err);
+      }
+    }
+
+    // Closed by the server or the network (teardown aborts and clears `stream` itself)
+    if (this.stream === controller) {
+      this.stream = null;
+      this.handleFailure();
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const response = await apiService.get<{ events: DumpEvent[]; serverTime?: string }>(
+      `${this.baseUrl}/api/events?${this.buildQuery()}`
+    );
+    if (this.stopped || this.transport !== 'polling') return;
+
+    if (!response.success) {
+      this.handleFailure();
+      return;
+    }
+
+    if (!this.opened) {
+      this.handleOpen();
+    }
+
+    const events = Array.isArray(response.data?.events) ? response.data.events : [];
+    events.forEach(event => this.dispatch(event));
+    // Next poll starts where this one was answered, by the server's clock
+    if (response.data?.serverTime) {
+      this.since = response.data.serverTime;
+    }
+
+    this.pollTimer = setTimeout(() => this.poll(), this.options.pollInterval || DEFAULT_POLL_INTERVAL);
+  }
+
+  private handleOpen(): void {
+    this.opened = true;
+    this.attempts = 0;
+    this.setState('open');
+
+    if (this.transportIndex > 0) {
+      this.scheduleUpgrade();
+    }
+  }
+
+  /**
+   * On a fallback transport, periodically try the preferred ones again
+   * (if they still fail to open, handleFailure falls back as before)
+   */
+  private scheduleUpgrade(): void {
+    if (this.upgradeTimer) return;
+
+    this.upgradeTimer = setTimeout(() => {
+      this.upgradeTimer = null;
+      if (this.stopped || this.transportIndex === 0) return;
+
+      this.teardown();
+      this.transportIndex = 0;
+      this.openTransport();
+    }, UPGRADE_INTERVAL);
+  }
+
+  private handleMessage(data: string): void {
+    try {
+      const parsed = JSON.parse(data) as DumpEvent | DumpEvent[];
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach(event => this.dispatch(event));
+    } catch (err) {
+      console.error('Ignoring malformed realtime message:', err);
+    }
+  }
+
+  private dispatch(event: DumpEvent): void {
+    if (!event?.type || !event.dumpId) return;
+
+    // Reconnects replay from `since`, so drop events already delivered
+    if (event.id) {
+      if (this.seenEventIds.includes(event.id)) return;
+      this.seenEventIds = [...this.seenEventIds, event.id].slice(-SEEN_EVENT_LIMIT);
+    }
+
+    if (event.timestamp && (!this.since || event.timestamp > this.since)) {
+      this.since = event.timestamp;
+    }
+
+    this.options.onEvent(event);
+  }
+
+  /**
+   * Fall back to the next transport if this one never opened,
+   * otherwise reconnect the same transport with backoff
+   */
+  private handleFailure(): void {
+    this.teardown();
+    if (this.stopped) return;
+
+    if (!this.opened && this.transportIndex < this.transports.length - 1) {
+      this.transportIndex += 1;
+      this.openTransport();
+      return;
+    }
+
+    this.attempts += 1;
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openTransport();
+    }, getBackoffDelay(this.attempts, BASE_RECONNECT_DELAY, MAX_RECONNECT_DELAY));
+  }
+
+  private teardown(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    if (this.stream) {
+      const stream = this.stream;
+      this.stream = null;
+      stream.abort();
+    }
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
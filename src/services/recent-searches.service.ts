@@ -0,0 +1,48 @@
+/**
+ * Recent Searches Service
+ *
+ * Keeps each user's last few submitted queries in localStorage
+ */
+
+const MAX_RECENT_SEARCHES = 10;
+
+export const recentSearchesStorageKey = (userId: string): string => `recentSearches_${userId}`;
+
+/**
+ * Load a user's recent queries, most recent first
+ */
+export const loadRecentSearches = (userId: string): string[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(recentSearchesStorageKey(userId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Move a query to the front of the list (case-insensitive de-duplication)
+ *
+ * @returns The updated list
+ */
+export const recordRecentSearch = (userId: string, query: string): string[] => {
+  const trimmed = query.trim();
+  const current = loadRecentSearches(userId);
+  if (!trimmed) {
+    return current;
+  }
+
+  const next = [trimmed, ...current.filter(entry => entry.toLowerCase() !== trimmed.toLowerCase())].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+  localStorage.setItem(recentSearchesStorageKey(userId), JSON.stringify(next));
+  return next;
+};
+
+/**
+ * Forget a user's recent queries
+ */
+export const clearRecentSearches = (userId: string): void => {
+  localStorage.removeItem(recentSearchesStorageKey(userId));
+};
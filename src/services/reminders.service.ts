@@ -4,7 +4,9 @@
  * API service for reminder management
  */
 
-import { apiService } from './api';
+import { apiService, unwrapResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
 
 /**
  * Reminder type (matches backend)
@@ -95,6 +97,7 @@ export const snoozeReminder = async (
     `/api/reminders/${reminderId}/snooze`,
     { snooze_until: snoozeUntil }
   );
+  queryCache.invalidate(queryKeys.reminders.all);
   return response.data!;
 };
 
@@ -105,7 +108,8 @@ export const dismissReminder = async (reminderId: string): Promise<Reminder> =>
   const response = await apiService.post<Reminder>(
     `/api/reminders/${reminderId}/dismiss`
   );
-  return response.data!;
+  queryCache.invalidate(queryKeys.reminders.all);
+  return unwrapResponse(response, 'Failed to dismiss reminder');
 };
 
 /**
@@ -119,5 +123,6 @@ export const updateReminder = async (
     `/api/reminders/${reminderId}`,
     updates
   );
-  return response.data!;
+  queryCache.invalidate(queryKeys.reminders.all);
+  return unwrapResponse(response, 'Failed to update reminder');
 };
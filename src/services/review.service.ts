@@ -0,0 +1,43 @@
+/**
+ * Review API Service
+ * 
+ * Service layer for the flagged-dump review queue
+ */
+
+import { apiService, type ApiResponse } from './api';
+
+/**
+ * Dump flagged for manual review (low AI confidence)
+ */
+export interface FlaggedDump {
+  id: string;
+  dump: {
+    id: string;
+    rawContent: string;
+    category?: { name: string };
+    aiConfidence: number;
+  };
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  status: 'pending' | 'approved' | 'rejected';
+  flaggedAt: string;
+  user?: {
+    id: string;
+    phoneNumber: string;
+  };
+}
+
+export type FlaggedStatusFilter = 'all' | FlaggedDump['status'];
+
+/**
+ * Fetch flagged dumps, optionally limited to one review status
+ * 
+ * @param status - Review status filter ('all' for no filter)
+ * @returns Promise with flagged dumps
+ */
+export async function fetchFlaggedDumps(
+  status: FlaggedStatusFilter = 'all'
+): Promise<ApiResponse<FlaggedDump[]>> {
+  return apiService.get('/review/flagged', {
+    params: status !== 'all' ? { status } : undefined,
+  });
+}
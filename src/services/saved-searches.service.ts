@@ -0,0 +1,60 @@
+/**
+ * Saved Searches Service
+ *
+ * Persists each user's saved searches in localStorage
+ * (there is no backend endpoint for them yet)
+ */
+
+import type { SavedSearch, SearchState } from '../types/search.types';
+import { DEFAULT_SEARCH_FILTERS, DEFAULT_SEARCH_SORT } from '../types/search.types';
+
+export const savedSearchesStorageKey = (userId: string): string => `savedSearches_${userId}`;
+
+/**
+ * Load a user's saved searches, oldest first
+ * Corrupt or missing storage yields an empty list
+ */
+export const loadSavedSearches = (userId: string): SavedSearch[] => {
+  try {
+    const stored = localStorage.getItem(savedSearchesStorageKey(userId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed
+      .filter((entry): entry is SavedSearch => typeof entry?.id === 'string' && typeof entry?.query === 'string')
+      .map(entry => ({
+        ...entry,
+        filters: { ...DEFAULT_SEARCH_FILTERS, ...entry.filters },
+        sort: entry.sort ?? DEFAULT_SEARCH_SORT,
+        pinned: !!entry.pinned,
+      }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replace a user's saved searches
+ */
+export const storeSavedSearches = (userId: string, searches: SavedSearch[]): void => {
+  localStorage.setItem(savedSearchesStorageKey(userId), JSON.stringify(searches));
+};
+
+/**
+ * Build a new saved search from the current search
+ */
+export const createSavedSearch = (name: string, state: SearchState, pinned: boolean): SavedSearch => {
+  const now = new Date().toISOString();
+  return {
+    id: `search-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    query: state.query.trim(),
+    filters: state.filters,
+    sort: state.sort,
+    pinned,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * Search Index Service
+ *
+ * Persists each user's local search index documents in IndexedDB so
+ * instant and offline search work right after a reload. Postings are
+ * rebuilt from the documents on load.
+ */
+
+import { idbDelete, idbGet, idbPut } from './idb';
+import { SEARCH_INDEX_VERSION, type SearchIndexDocument } from '../utils/search-index';
+
+interface StoredSearchIndex {
+  userId: string;
+  version: number;
+  documents: Record<string, SearchIndexDocument>;
+  updatedAt: string;             // ISO 8601
+}
+
+/**
+ * Load a user's stored documents (empty when missing, outdated or unreadable)
+ */
+export async function loadSearchIndexDocuments(userId: string): Promise<Record<string, SearchIndexDocument>> {
+  try {
+    const stored = await idbGet<StoredSearchIndex>('searchIndex', userId);
+    return stored?.version === SEARCH_INDEX_VERSION ? stored.documents : {};
+  } catch (err) {
+    console.error('Failed to load search index:', err);
+    return {};
+  }
+}
+
+/**
+ * Replace a user's stored documents
+ */
+export async function storeSearchIndexDocuments(
+  userId: string,
+  documents: Record<string, SearchIndexDocument>
+): Promise<void> {
+  await idbPut<StoredSearchIndex>('searchIndex', {
+    userId,
+    version: SEARCH_INDEX_VERSION,
+    documents,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Remove a user's stored documents (on logout)
+ */
+export async function clearSearchIndexDocuments(userId: string): Promise<void> {
+  await idbDelete('searchIndex', userId);
+}
@@ -0,0 +1,33 @@
+/**
+ * Search Preferences Service
+ *
+ * Keeps each user's paging mode, page size and search engine in localStorage
+ */
+
+import type { SearchPreferences } from '../types/search.types';
+import { DEFAULT_SEARCH_PREFERENCES, SEARCH_PAGE_SIZES } from '../types/search.types';
+
+export const searchPreferencesStorageKey = (userId: string): string => `searchPreferences_${userId}`;
+
+/**
+ * Load a user's preferences; unknown values fall back to the defaults
+ */
+export const loadSearchPreferences = (userId: string): SearchPreferences => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(searchPreferencesStorageKey(userId)) ?? '{}');
+    return {
+      pagingMode: parsed?.pagingMode === 'infinite' ? 'infinite' : 'pages',
+      pageSize: SEARCH_PAGE_SIZES.includes(parsed?.pageSize) ? parsed.pageSize : DEFAULT_SEARCH_PREFERENCES.pageSize,
+      engine: parsed?.engine === 'local' ? 'local' : 'server',
+    };
+  } catch {
+    return DEFAULT_SEARCH_PREFERENCES;
+  }
+};
+
+/**
+ * Replace a user's preferences
+ */
+export const storeSearchPreferences = (userId: string, preferences: SearchPreferences): void => {
+  localStorage.setItem(searchPreferencesStorageKey(userId), JSON.stringify(preferences));
+};
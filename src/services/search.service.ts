@@ -4,20 +4,35 @@
  * API service for natural language search with advanced filtering
  */
 
-import { apiService } from './api';
-import type { SearchFilters, SearchResults } from '../types/search.types';
+import { apiService, unwrapResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
+import { fetchAppMetadata } from './metadata.service';
+import { isRetryableFailure } from './outbox.service';
+import {
+  DEFAULT_SEARCH_SORT,
+  type ParsedSearchQuery,
+  type QueryConstraints,
+  type SearchFilters,
+  type SearchResults,
+  type SearchSort,
+} from '../types/search.types';
+import type { AppMetadata } from '../types/metadata.types';
+import { parseSearchQuery } from '../utils/search-query';
 
 /**
- * Search dumps using natural language query and filters
+ * Build the /api/search request body, leaving out undefined values to avoid
+ * backend validation errors
  */
-export const searchDumps = async (
+const buildSearchRequest = (
   query: string,
   userId: string,
   filters: SearchFilters,
-  offset: number = 0,
-  limit: number = 20
-): Promise<SearchResults> => {
-  // Build request, excluding undefined values to avoid backend validation errors
+  offset: number,
+  limit: number,
+  sort: SearchSort,
+  constraints?: QueryConstraints
+) => {
   const request: any = {
     query,
     userId,
@@ -33,47 +48,60 @@ export const searchDumps = async (
   if (filters.minConfidence !== undefined && filters.minConfidence >= 1) request.minConfidence = filters.minConfidence;
   if (filters.urgencyLevels?.length) request.urgencyLevels = filters.urgencyLevels;
   if (filters.statuses?.includes('processing')) request.includeProcessing = true;
+  // Ordering happens on the server so every page follows it, not just the loaded one
+  if (sort !== 'relevance') request.sort = sort;
+  // Sent so totals and paging count them; results are still checked locally
+  if (constraints?.phrases.length) request.phrases = constraints.phrases;
+  if (constraints?.excluded.length) request.exclude = constraints.excluded;
+  if (constraints?.has.length) request.has = constraints.has;
 
-  const response = await apiService.post<SearchResults>('/api/search', request);
-  return response.data!;
+  return request;
 };
 
 /**
- * Filter enum metadata response
+ * Search dumps using natural language query and filters
+ * Throws with the API's message when the request fails
  */
-export interface FilterEnums {
-  contentTypes: Array<{ value: string; label: string }>;
-  urgencyLevels: Array<{ value: number; label: string }>;
-  statuses: Array<{ value: string; label: string }>;
-}
+export const searchDumps = async (
+  query: string,
+  userId: string,
+  filters: SearchFilters,
+  offset: number = 0,
+  limit: number = 20,
+  sort: SearchSort = DEFAULT_SEARCH_SORT,
+  constraints?: QueryConstraints
+): Promise<SearchResults> => {
+  const request = buildSearchRequest(query, userId, filters, offset, limit, sort, constraints);
+  const response = await apiService.post<SearchResults>('/api/search', request);
+  return unwrapResponse(response, 'Search failed');
+};
+
+// Without any known categories, category clauses are left unresolved
+const knownCategories = (metadata: AppMetadata | null | undefined) =>
+  metadata && metadata.categoriesSource !== 'fallback' ? metadata.categories : null;
 
 /**
- * Hardcoded filter enums matching backend entity definitions
- * ContentType from dump.entity.ts, ProcessingStatus from dump.entity.ts
- * UrgencyLevels: 1=low, 2=medium, 3=high (from categorization.service.ts)
+ * Parse search text, loading categories only when a `category:` clause needs them
  */
-export const getFilterEnums = (): FilterEnums => {
-  return {
-    contentTypes: [
-      { value: 'text', label: 'Text' },
-      { value: 'voice', label: 'Voice' },
-      { value: 'image', label: 'Image' },
-      { value: 'email', label: 'Email' },
-    ],
-    urgencyLevels: [
-      { value: 1, label: 'Low' },
-      { value: 2, label: 'Medium' },
-      { value: 3, label: 'High' },
-    ],
-    statuses: [
-      { value: 'received', label: 'Received' },
-      { value: 'processing', label: 'Processing' },
-      { value: 'completed', label: 'Completed' },
-      { value: 'failed', label: 'Failed' },
-    ],
-  };
+export const prepareSearchQuery = async (query: string): Promise<ParsedSearchQuery> => {
+  const parsed = parseSearchQuery(query, null);
+  if (!parsed.tokens.some(token => token.operator === 'category')) {
+    return parsed;
+  }
+
+  const metadata =
+    queryCache.getQueryData<AppMetadata>(queryKeys.metadata.all) ??
+    (await queryCache.fetch(queryKeys.metadata.all, fetchAppMetadata));
+  return parseSearchQuery(query, knownCategories(metadata));
 };
 
+/**
+ * Parse search text synchronously with whatever categories are cached
+ * (instant local results can't wait for a request)
+ */
+export const parseSearchQueryCached = (query: string): ParsedSearchQuery =>
+  parseSearchQuery(query, knownCategories(queryCache.getQueryData<AppMetadata>(queryKeys.metadata.all)));
+
 /**
  * Cancel ongoing search request
  * Used when user types new query before previous search completes
@@ -85,7 +113,9 @@ export const searchDumpsWithCancellation = async (
   userId: string,
   filters: SearchFilters,
   page: number = 1,
-  pageSize: number = 20
+  pageSize: number = 20,
+  sort: SearchSort = DEFAULT_SEARCH_SORT,
+  constraints?: QueryConstraints
 ): Promise<SearchResults> => {
   // Cancel previous request if exists
   if (cancelTokenSource) {
@@ -98,28 +128,20 @@ export const searchDumpsWithCancellation = async (
   // Calculate offset from page number
   const offset = (page - 1) * pageSize;
 
-  // Build request, excluding undefined values to avoid backend validation errors
-  const request: any = {
-    query,
-    userId,
-    limit: pageSize,
-    offset,
-  };
-
-  // Only include defined filter values
-  if (filters.contentTypes?.length) request.contentTypes = filters.contentTypes;
-  if (filters.categories?.length) request.categories = filters.categories;
-  if (filters.dateRange?.from) request.dateFrom = filters.dateRange.from;
-  if (filters.dateRange?.to) request.dateTo = filters.dateRange.to;
-  if (filters.minConfidence !== undefined && filters.minConfidence >= 1) request.minConfidence = filters.minConfidence;
-  if (filters.urgencyLevels?.length) request.urgencyLevels = filters.urgencyLevels;
-  if (filters.statuses?.includes('processing')) request.includeProcessing = true;
+  const request = buildSearchRequest(query, userId, filters, offset, pageSize, sort, constraints);
 
   try {
     const response = await apiService.post<SearchResults>('/api/search', request, {
       signal: cancelTokenSource.signal,
     });
-    return response.data!;
+    if (!response.success || !response.data) {
+      if (response.error?.code === 'ERR_CANCELED') {
+        throw new Error('Search cancelled');
+      }
+      // Offline, unreachable or failing server: callers fall back to the local index
+      throw new Error(isRetryableFailure(response) ? 'Search unavailable' : response.error?.message || 'Search failed');
+    }
+    return response.data;
   } catch (error: any) {
     if (error.name === 'AbortError' || error.code === 'ERR_CANCELED') {
       throw new Error('Search cancelled');
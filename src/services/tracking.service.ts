@@ -4,7 +4,9 @@
  * API service for tracking management (TrackableItems)
  */
 
-import { apiService } from './api';
+import { apiService, unwrapResponse } from './api';
+import { queryCache } from './query-cache';
+import { queryKeys } from './query-keys';
 
 /**
  * Tracking type (matches backend)
@@ -95,6 +97,7 @@ export const createTrackableItem = async (
   item: Partial<TrackableItem>
 ): Promise<TrackableItem> => {
   const response = await apiService.post<TrackableItem>('/api/tracking', item);
+  queryCache.invalidate(queryKeys.tracking.all);
   return response.data!;
 };
 
@@ -109,7 +112,8 @@ export const updateTrackableItem = async (
     `/api/tracking/${trackingId}`,
     updates
   );
-  return response.data!;
+  queryCache.invalidate(queryKeys.tracking.all);
+  return unwrapResponse(response, 'Failed to update tracking item');
 };
 
 /**
@@ -123,6 +127,7 @@ export const addCheckpoint = async (
     `/api/tracking/${trackingId}/checkpoint`,
     checkpoint
   );
+  queryCache.invalidate(queryKeys.tracking.all);
   return response.data!;
 };
 
@@ -133,5 +138,6 @@ export const completeTracking = async (trackingId: string): Promise<TrackableIte
   const response = await apiService.put<TrackableItem>(
     `/api/tracking/${trackingId}/complete`
   );
-  return response.data!;
+  queryCache.invalidate(queryKeys.tracking.all);
+  return unwrapResponse(response, 'Failed to complete tracking item');
 };
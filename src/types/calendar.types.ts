@@ -0,0 +1,38 @@
+/**
+ * Calendar Types
+ *
+ * Type definitions for the /calendar view, which plots dump dates,
+ * reminders and tracking deadlines on a month/week/day grid.
+ */
+
+import type { Dump } from './dump.types';
+import type { Reminder } from '../services/reminders.service';
+import type { TrackableItem } from '../services/tracking.service';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+// dump: a date from extracted_entities.entities.dates; reminder: scheduled_for;
+// tracking: expected_end_date of an active trackable item
+export type CalendarEventKind = 'dump' | 'reminder' | 'tracking';
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * One entry on the calendar
+ */
+export type CalendarEvent = {
+  id: string;                    // Unique per event (a dump can contribute several)
+  title: string;
+  start: Date;
+  allDay: boolean;               // Date-only values have no time of day
+} & (
+  | { kind: 'dump'; dump: Dump }
+  | { kind: 'reminder'; reminder: Reminder }
+  | { kind: 'tracking'; item: TrackableItem }
+);
@@ -0,0 +1,51 @@
+/**
+ * Command Types
+ *
+ * Type definitions for the command palette and keyboard shortcuts.
+ */
+
+import type React from 'react';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+// navigation: routes; create: new content; focused: the dump under the j/k cursor;
+// page: actions contributed by the current page
+export type CommandGroup = 'navigation' | 'create' | 'focused' | 'page';
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * An action the palette can run
+ */
+export interface Command {
+  id: string;
+  title: string;
+  group: CommandGroup;
+  keywords?: string[];           // Extra words matched by the palette filter
+  shortcut?: string[];           // Keys shown next to the title ('mod' = Ctrl/Cmd)
+  icon?: React.ComponentType<{ className?: string }>;
+  run: () => void | Promise<void>;
+}
+
+/**
+ * Returns the current commands of a registered source (read when the palette renders)
+ */
+export type CommandSource = () => Command[];
+
+// ============================================================================
+// Shortcut Help
+// ============================================================================
+
+export interface ShortcutHelpEntry {
+  keys: string[];                // Pressed in sequence, 'mod' = Ctrl/Cmd
+  descriptionKey: string;        // i18n key
+}
+
+export interface ShortcutHelpSection {
+  titleKey: string;              // i18n key
+  shortcuts: ShortcutHelpEntry[];
+}
@@ -0,0 +1,50 @@
+/**
+ * Contact Types
+ *
+ * Contact records built from the people, emails, phones and URLs extracted
+ * from dumps, plus the user's confirmations and corrections.
+ */
+
+import type { Dump } from './dump.types';
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+/**
+ * A person (or bare email/phone) consolidated across dumps
+ */
+export interface Contact {
+  id: string;                    // First of its identifiers, stable while they do not change
+  identifiers: string[];         // "email:…", "phone:…" and person entity keys it was built from
+  name: string;                  // Empty when no single person was named alongside
+  emails: string[];
+  phones: string[];
+  urls: string[];
+  dumps: Dump[];                 // Source dumps, newest first
+  confirmed: boolean;
+  hidden: boolean;               // Marked as not a contact
+  edited: boolean;               // Fields come from a ContactEdit rather than the dumps
+}
+
+export type ContactStatusFilter = 'all' | 'unconfirmed' | 'confirmed' | 'hidden';
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+/**
+ * What the user changed about a contact; fields left out keep the
+ * extracted values
+ */
+export interface ContactEdit {
+  name?: string;
+  emails?: string[];
+  phones?: string[];
+  urls?: string[];
+  confirmed?: boolean;
+  hidden?: boolean;
+  updatedAt: string;             // ISO 8601
+}
+
+export type ContactEdits = Record<string, ContactEdit>;   // Contact id at edit time -> edit
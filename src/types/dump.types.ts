@@ -164,6 +164,16 @@ export interface DumpDerived extends Dump {
   notes?: string;                // User notes (if any)
 }
 
+/**
+ * One page of a user's dumps (newest first)
+ * nextCursor is null/absent once the last page has been returned
+ */
+export interface DumpsPage {
+  dumps: Dump[];                 // Dumps in this page
+  total: number;                 // Total dumps for the user
+  nextCursor?: string | null;    // Opaque cursor for the following page
+}
+
 // ============================================================================
 // UI-Specific Models
 // ============================================================================
@@ -179,6 +189,15 @@ export interface TimeBucketGroup {
   count: number;                 // Number of dumps
 }
 
+/**
+ * Dump close to another in meaning, or mentioning the same people or organizations
+ */
+export interface RelatedDump {
+  dump: Dump;
+  similarity: number | null;     // Cosine similarity of content vectors (null without vectors)
+  sharedEntities: Array<{ kind: 'person' | 'organization'; value: string }>;
+}
+
 /**
  * Bucket display labels
  */
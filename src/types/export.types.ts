@@ -0,0 +1,41 @@
+/**
+ * Export Types
+ *
+ * Type definitions for exporting dumps to downloadable files.
+ */
+
+import type { Dump } from './dump.types';
+import type { Reminder } from '../services/reminders.service';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'ics';
+
+// dashboard: the dumps currently loaded in DumpsContext; search: the current results page
+export type ExportSource = 'dashboard' | 'search';
+
+// ============================================================================
+// Export Input / Output
+// ============================================================================
+
+/**
+ * Data handed to an exporter
+ */
+export interface ExportInput {
+  source: ExportSource;
+  dumps: Dump[];                 // Dumps to export (raw, not enriched)
+  reminders?: Reminder[];        // Reminders to add to calendar exports
+  query?: string;                // Search query the dumps came from (search exports)
+  exportedAt?: Date;             // Defaults to now
+}
+
+/**
+ * A generated export file
+ */
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
@@ -0,0 +1,49 @@
+/**
+ * Finance Types
+ *
+ * Money amounts extracted from dumps, tied to the dates, organizations and
+ * categories of the dump they came from.
+ */
+
+import type { Dump } from './dump.types';
+
+// ============================================================================
+// Amounts
+// ============================================================================
+
+/**
+ * An extracted amount string parsed into a number
+ */
+export interface ParsedAmount {
+  value: number;
+  currency: string | null;       // ISO 4217 code, null when the text names none
+}
+
+/**
+ * One amount found in a dump
+ */
+export interface MoneyEntry {
+  id: string;                    // "<dump id>:<index>"
+  dump: Dump;
+  raw: string;                   // As extracted
+  value: number;
+  currency: string;              // ISO 4217 code
+  currencyInferred: boolean;     // Not in the text; the most common currency was assumed
+  date: Date;                    // First date extracted from the dump, else when it was captured
+  dueDate: Date | null;          // Earliest deadline for the dump, if any
+  organization: string | null;   // First organization named in the dump
+  category: string | null;       // Category name
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Spending in one currency over a calendar month
+ */
+export interface MonthlyTotal {
+  month: string;                 // YYYY-MM
+  total: number;
+  byCategory: Array<{ category: string | null; total: number }>;   // Largest first
+}
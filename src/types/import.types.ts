@@ -0,0 +1,54 @@
+/**
+ * Import Types
+ *
+ * Type definitions for the bulk import wizard.
+ * Files are parsed locally into candidates, previewed, then created as dumps.
+ */
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+// keep: Google Keep / Evernote-style JSON; enex: Evernote XML export;
+// markdown: .md/.txt notes (single files or folders); email: .eml/.mbox
+export type ImportSourceKind = 'keep' | 'enex' | 'markdown' | 'email';
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * One note or message found in the selected files
+ */
+export interface ImportCandidate {
+  id: string;                    // Local identifier (not a backend dump ID)
+  source: ImportSourceKind;
+  fileName: string;              // File (or folder path) it came from
+  title?: string;                // Note title / email subject
+  rawContent: string;            // Text that becomes the dump's raw_content
+  contentType: 'text' | 'email';
+  createdAt?: string;            // ISO 8601 timestamp from the source, if known
+  duplicate: boolean;            // Same content as an existing dump or an earlier candidate
+}
+
+/**
+ * Why a file could not be parsed (translated under import.errors)
+ */
+export type ImportFileErrorCode = 'unsupportedType' | 'unreadable' | 'invalidEnex';
+
+/**
+ * Result of parsing a set of files
+ */
+export interface ImportParseResult {
+  candidates: ImportCandidate[];
+  errors: Array<{ fileName: string; error: ImportFileErrorCode }>;  // Files that could not be parsed
+}
+
+/**
+ * Outcome of submitting candidates
+ */
+export interface ImportReport {
+  imported: number;
+  skipped: number;               // Deselected candidates (including duplicates)
+  failed: Array<{ candidate: ImportCandidate; error: string }>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Metadata Types
+ *
+ * Filter enums and categories served by the backend and shared by
+ * filters, badges and pickers.
+ */
+
+import type { Category } from './dump.types';
+
+// ============================================================================
+// Filter Enums
+// ============================================================================
+
+/**
+ * One selectable enum value
+ */
+export interface EnumOption<T extends string | number = string> {
+  value: T;
+  label: string;
+}
+
+/**
+ * Enum values offered by the search filters (GET /api/metadata/enums)
+ */
+export interface FilterEnums {
+  contentTypes: EnumOption[];
+  urgencyLevels: EnumOption<number>[];
+  statuses: EnumOption[];
+}
+
+// ============================================================================
+// App Metadata
+// ============================================================================
+
+export type MetadataSource = 'server' | 'cache' | 'fallback';
+
+/**
+ * Everything the metadata service provides
+ */
+export interface AppMetadata {
+  enums: FilterEnums;
+  categories: Category[];         // Active categories in display order
+  version: string | null;         // Backend metadata version, null when unknown
+  source: MetadataSource;         // 'server' once both lists are fresh; else the stored copy (offline) or built-in defaults
+  categoriesSource: MetadataSource;   // Where the categories alone came from (they can be fresh while enums are not)
+}
@@ -0,0 +1,56 @@
+/**
+ * Outbox Types
+ *
+ * Type definitions for the offline dump capture queue.
+ * Items live in IndexedDB until they are replayed against the API.
+ */
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+// pending: waiting for its first attempt; retrying: failed on network, backing off;
+// syncing: currently being sent; conflict: rejected by the server, needs the user
+export type OutboxItemStatus = 'pending' | 'syncing' | 'retrying' | 'conflict';
+
+export type OutboxItemKind = 'text' | 'file';
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Queued dump capture persisted in the outbox store
+ */
+export interface OutboxItem {
+  id: string;                    // Local identifier (not a backend dump ID)
+  userId: string;                // Owner's user ID
+  kind: OutboxItemKind;          // Text capture or file upload
+  rawContent?: string;           // Text content (kind === 'text')
+  contentType?: string;          // Content type for text captures
+  file?: Blob;                   // File payload (kind === 'file')
+  fileName?: string;             // Original file name
+  caption?: string;              // Optional caption for file uploads
+  status: OutboxItemStatus;
+  attempts: number;              // Number of failed replay attempts
+  nextAttemptAt: number;         // Epoch ms before which the item is not retried
+  lastError?: string;            // Last failure message (network or server)
+  createdAt: string;             // ISO 8601 timestamp of capture
+}
+
+/**
+ * Dump capture request accepted by the outbox
+ */
+export type OutboxSubmission =
+  | { kind: 'text'; rawContent: string; contentType?: string }
+  | { kind: 'file'; file: File; caption?: string };
+
+/**
+ * Result of submitting a capture through the outbox
+ */
+export interface OutboxSubmitResult {
+  success: boolean;              // True if sent or safely queued
+  queued: boolean;               // True if stored locally for later replay
+  offline?: boolean;             // True if queued because the device was offline
+  error?: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Realtime Types
+ *
+ * Type definitions for server-push dump processing events.
+ * Event payloads are identical across WebSocket, SSE and polling transports.
+ */
+
+import type { Dump, ProcessingStatus } from './dump.types';
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export type RealtimeTransport = 'websocket' | 'sse' | 'polling';
+
+export type RealtimeConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type DumpEventType =
+  | 'dump.created'
+  | 'dump.updated'
+  | 'dump.status_changed'
+  | 'dump.completed'
+  | 'dump.failed';
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Dump lifecycle event pushed by the backend
+ */
+export interface DumpEvent {
+  id?: string;                   // Event ID (used to drop replayed duplicates)
+  type: DumpEventType;
+  dumpId: string;
+  userId: string;
+  status?: ProcessingStatus;     // New processing status, if it changed
+  dump?: Partial<Dump>;          // Changed fields (full dump for dump.created)
+  error?: string;                // Failure reason for dump.failed
+  timestamp: string;             // ISO 8601 timestamp
+}
+
+export type DumpEventListener = (event: DumpEvent) => void;
@@ -53,6 +53,154 @@ export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
   dateRange: undefined,
 };
 
+// ============================================================================
+// Query Language
+// ============================================================================
+
+/**
+ * Operators understood inside the search text, e.g. `type:email before:2026-11-01`
+ */
+export type QueryOperator = 'category' | 'type' | 'urgency' | 'status' | 'before' | 'after' | 'confidence' | 'has';
+
+/**
+ * `has:` values; checked against the loaded results
+ */
+export type QueryHasValue = 'reminder' | 'tracking' | 'amount' | 'media';
+
+export type QueryErrorCode =
+  | 'unknownOperator'
+  | 'emptyValue'
+  | 'invalidValue'
+  | 'unsupportedValue'
+  | 'invalidDate'
+  | 'unknownCategory'
+  | 'negatedOperator'
+  | 'unclosedQuote';
+
+/**
+ * One piece of the search text with its position (for chips and autocomplete)
+ */
+export interface QueryToken {
+  kind: 'text' | 'phrase' | 'exclude' | 'operator';
+  raw: string;                    // Exact source text
+  start: number;                  // Offset in the search text
+  end: number;                    // Offset just past the token
+  value: string;                  // Unquoted word, phrase or operator value
+  operator?: QueryOperator;
+  error?: QueryErrorCode;
+}
+
+/**
+ * Search text split into what goes to the API and what is checked locally
+ */
+export interface ParsedSearchQuery {
+  text: string;                   // Free text (and phrases) sent as the query
+  filters: SearchFilters;         // Filters from operators, merged with FilterPanel's
+  phrases: string[];              // "exact phrase" - results must contain it
+  excluded: string[];             // -word - results must not contain it
+  has: QueryHasValue[];
+  tokens: QueryToken[];
+  errors: QueryToken[];           // Tokens with an error, in order
+}
+
+/**
+ * Clauses sent alongside the filters; results are also checked against them locally
+ */
+export type QueryConstraints = Pick<ParsedSearchQuery, 'phrases' | 'excluded' | 'has'>;
+
+// ============================================================================
+// Sorting & Saved Searches
+// ============================================================================
+
+/**
+ * Result ordering; the server sorts every page (local results are sorted
+ * as a whole before paging)
+ */
+export type SearchSort = 'relevance' | 'newest' | 'oldest' | 'urgency';
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'newest', 'oldest', 'urgency'];
+
+export const DEFAULT_SEARCH_SORT: SearchSort = 'relevance';
+
+/**
+ * Everything needed to reproduce a search (saved searches, share links)
+ */
+export interface SearchState {
+  query: string;
+  filters: SearchFilters;
+  sort: SearchSort;
+}
+
+/**
+ * Named search stored per user; pinned ones appear as smart views in the navigation
+ */
+export interface SavedSearch extends SearchState {
+  id: string;
+  name: string;
+  pinned: boolean;
+  createdAt: string;              // ISO 8601
+  updatedAt: string;              // ISO 8601
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+export type EntityValueKind = 'person' | 'organization' | 'location';
+
+/**
+ * Entity value seen in loaded dumps' extracted_entities
+ */
+export interface EntityValue {
+  kind: EntityValueKind;
+  value: string;
+  count: number;                  // Number of dumps mentioning it
+}
+
+/**
+ * What the search bar can suggest besides operator completions
+ */
+export interface SearchSuggestionSources {
+  recent: string[];               // Most recent first
+  savedSearches: SavedSearch[];
+  entities: EntityValue[];        // Most frequent first
+}
+
+export type SearchSuggestionKind = 'recent' | 'saved' | 'category' | EntityValueKind;
+
+/**
+ * One row of the suggestion dropdown
+ * 'recent' replaces the query, 'saved' opens the saved search,
+ * the rest replace the word being typed
+ */
+export interface SearchSuggestion {
+  id: string;
+  kind: SearchSuggestionKind;
+  label: string;
+  insert: string;
+  savedSearch?: SavedSearch;
+}
+
+// ============================================================================
+// Facets
+// ============================================================================
+
+/**
+ * Result counts per filter option for the current query
+ * Each facet is counted with every other filter applied but its own,
+ * so options stay selectable side by side
+ */
+export interface SearchFacets {
+  contentTypes: Record<string, number>;
+  categories: Record<string, number>;              // Category id -> count
+  urgencyLevels: Record<number, number>;
+  statuses: Record<string, number>;
+  confidenceBands: Array<{ min: number; count: number }>;   // Results with ai_confidence >= min
+  dateHistogram: Array<{ month: string; count: number }>;   // yyyy-MM, oldest first
+  sampled: number;                // Results the counts are based on
+  total: number;                  // Matches reported by the API
+}
+
 // ============================================================================
 // Search Results
 // ============================================================================
@@ -76,6 +224,9 @@ export interface SearchResults {
     vectorHealth?: any;
     filters: Record<string, any>;
   };
+  locallyFiltered?: number;      // Results on the page dropped by phrase/exclusion/has: clauses the server ignored; total is then approximate
+  source?: 'server' | 'local';   // 'local': answered by the in-browser index (instant or offline); absent means server
+  localMatches?: number;         // Results only the in-browser index found, appended after the server's
 }
 
 /**
@@ -83,7 +234,7 @@ export interface SearchResults {
  * Matches backend SearchQueryDto structure
  */
 export interface SearchRequest {
-  query: string;                            // Natural language query
+  query: string;                            // Natural language query (empty for filter-only searches)
   userId: string;                          // User identifier
   contentTypes?: ContentType[];            // Selected content types
   categories?: string[];                   // Selected category IDs
@@ -92,6 +243,9 @@ export interface SearchRequest {
   minConfidence?: number;                  // Minimum confidence (1-5)
   urgencyLevels?: number[];                // Selected urgency levels
   includeProcessing?: boolean;             // Include processing status items
+  phrases?: string[];                      // Exact phrases results must contain
+  exclude?: string[];                      // Words results must not contain
+  has?: QueryHasValue[];                   // Required attachments (reminder, tracking, amount, media)
   limit?: number;                          // Items per page (1-100)
   offset?: number;                         // Offset for pagination (min 0)
 }
@@ -103,3 +257,31 @@ export const DEFAULT_PAGINATION = {
   page: 1,
   pageSize: 20,
 };
+
+/**
+ * How result pages are shown: one at a time, or appended while scrolling
+ */
+export type SearchPagingMode = 'pages' | 'infinite';
+
+export const SEARCH_PAGE_SIZES = [10, 20, 50, 100];     // API accepts up to 100
+
+/**
+ * Where queries run: the search API, or this device's text and vector
+ * indexes (no request; meaning is inferred from the best text matches)
+ */
+export type SearchEngine = 'server' | 'local';
+
+/**
+ * Per-user paging and engine preferences (stored in localStorage)
+ */
+export interface SearchPreferences {
+  pagingMode: SearchPagingMode;
+  pageSize: number;
+  engine: SearchEngine;
+}
+
+export const DEFAULT_SEARCH_PREFERENCES: SearchPreferences = {
+  pagingMode: 'pages',
+  pageSize: DEFAULT_PAGINATION.pageSize,
+  engine: 'server',
+};
@@ -0,0 +1,57 @@
+/**
+ * Undo Types
+ *
+ * Type definitions for the app-wide undo manager.
+ * Every state-changing action is expressed as a command with an inverse.
+ */
+
+import type { ExtractedEntities } from './dump.types';
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * A reversible mutation
+ *
+ * Immediate commands do their server work in `execute` and reverse it in `undo`.
+ * Deferred commands only change local state in `execute`; the server work runs
+ * in `commit` once the grace window expires, so `undo` just restores local state.
+ * A failed commit is rolled back with `undo`, except for a BatchFailureError:
+ * the batch has already restored its failed items and the rest went through.
+ */
+export interface UndoableCommand {
+  label: string;                       // Toast text describing what happened
+  execute: () => Promise<void>;        // Apply the change (throws to abort)
+  undo: () => Promise<void>;           // Inverse of execute
+  commit?: () => Promise<void>;        // Deferred server work (throws to roll back)
+  pending?: PendingCommit;             // Storable form of `commit`, replayed if the page closes first
+}
+
+/**
+ * Serializable description of a deferred command's server work
+ */
+export type PendingCommit =
+  | { kind: 'deleteDumps'; dumpIds: string[] }
+  | { kind: 'rejectDumps'; dumpIds: string[]; reason: string }
+  | {
+      kind: 'mergeDumps';
+      keepId: string;
+      updates: { notes: string; extracted_entities?: ExtractedEntities };
+      duplicateIds: string[];
+    };
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Command kept on the undo stack
+ */
+export interface UndoEntry {
+  id: string;
+  command: UndoableCommand;
+  toastId: string;                     // Toast carrying the Undo button
+  commitTimer: ReturnType<typeof setTimeout> | null;  // Pending deferred commit
+  createdAt: number;                   // Epoch ms when the command ran
+}
@@ -0,0 +1,17 @@
+/**
+ * Backoff Utilities
+ * 
+ * Retry delay calculation shared by the offline outbox and the realtime channel
+ */
+
+/**
+ * Exponential backoff with ±20% jitter
+ * 
+ * @param attempts - Number of consecutive failures so far (1 = first failure)
+ * @param baseDelay - Delay after the first failure in ms
+ * @param maxDelay - Upper bound for the delay in ms
+ */
+export function getBackoffDelay(attempts: number, baseDelay: number, maxDelay: number): number {
+  const delay = Math.min(baseDelay * 2 ** Math.max(attempts - 1, 0), maxDelay);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
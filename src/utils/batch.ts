@@ -0,0 +1,105 @@
+/**
+ * Batch Utilities
+ * 
+ * Run one async action over many dumps with bounded concurrency and
+ * aggregated progress. Each action is expected to roll itself back on
+ * failure (the *WithOptimism helpers do), so a batch can partially succeed.
+ */
+
+export interface BatchItemResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchProgress {
+  done: number;                  // Items finished (successfully or not)
+  failed: number;                // Items that failed so far
+  total: number;                 // Items in the batch
+}
+
+export interface BatchResult {
+  succeeded: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Some items of a batch failed and have already rolled themselves back;
+ * the rest went through, so nothing else should be reverted
+ */
+export class BatchFailureError extends Error {
+  failedIds: string[];
+
+  constructor(message: string, failedIds: string[]) {
+    super(message);
+    this.name = 'BatchFailureError';
+    this.failedIds = failedIds;
+  }
+}
+
+/**
+ * Run `action` for every ID, at most `concurrency` at a time
+ * 
+ * @param ids - Items to process (order is preserved in the result)
+ * @param action - Per-item operation; thrown errors count as failures
+ * @param options - Concurrency limit, minimum spacing between item starts
+ *                  (throttling) and progress callback
+ */
+export async function runBatch(
+  ids: string[],
+  action: (id: string) => Promise<BatchItemResult>,
+  options: { concurrency?: number; intervalMs?: number; onProgress?: (progress: BatchProgress) => void } = {}
+): Promise<BatchResult> {
+  const { concurrency = DEFAULT_CONCURRENCY, intervalMs = 0, onProgress } = options;
+  const outcomes: Array<BatchItemResult | undefined> = new Array(ids.length);
+  let next = 0;
+  let nextStartAt = 0;
+  let done = 0;
+  let failed = 0;
+
+  onProgress?.({ done, failed, total: ids.length });
+
+  const worker = async () => {
+    while (next < ids.length) {
+      const index = next++;
+
+      // Reserve a start slot so workers together respect the interval
+      if (intervalMs > 0) {
+        const startAt = Math.max(Date.now(), nextStartAt);
+        nextStartAt = startAt + intervalMs;
+        const wait = startAt - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+
+      let outcome: BatchItemResult;
+      try {
+        outcome = await action(ids[index]);
+      } catch (err: unknown) {
+        outcome = { success: false, error: err instanceof Error ? err.message : 'An unexpected error occurred' };
+      }
+
+      outcomes[index] = outcome;
+      done += 1;
+      if (!outcome.success) failed += 1;
+      onProgress?.({ done, failed, total: ids.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+
+  return ids.reduce<BatchResult>(
+    (result, id, index) => {
+      const outcome = outcomes[index];
+      if (outcome?.success) {
+        result.succeeded.push(id);
+      } else {
+        result.failed.push({ id, error: outcome?.error || 'An unexpected error occurred' });
+      }
+      return result;
+    },
+    { succeeded: [], failed: [] }
+  );
+}
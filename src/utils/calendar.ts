@@ -0,0 +1,157 @@
+/**
+ * Calendar Utilities
+ *
+ * Build calendar events from dumps, reminders and trackable items,
+ * and do the date arithmetic for the month/week/day views
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { Dump } from '../types/dump.types';
+import type { CalendarEvent, CalendarView } from '../types/calendar.types';
+import { ReminderStatus, type Reminder } from '../services/reminders.service';
+import type { TrackableItem } from '../services/tracking.service';
+import { truncateText } from './formatting';
+
+const TITLE_LENGTH = 60;
+
+// MIME type carrying the reminder ID while a reminder is dragged to a new slot
+export const REMINDER_DRAG_TYPE = 'application/x-reminder-id';
+
+/**
+ * Parse an event date; date-only values (YYYY-MM-DD) are all-day in local time
+ */
+export function parseEventDate(value: string | undefined): { start: Date; allDay: boolean } | null {
+  if (!value) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return { start: new Date(year, month - 1, day), allDay: true };
+  }
+
+  const start = new Date(value);
+  return isNaN(start.getTime()) ? null : { start, allDay: false };
+}
+
+/**
+ * All calendar events for the given data, sorted by start
+ */
+export function buildCalendarEvents({
+  dumps,
+  reminders,
+  trackableItems,
+}: {
+  dumps: Dump[];
+  reminders: Reminder[];
+  trackableItems: TrackableItem[];
+}): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  dumps.forEach(dump => {
+    const title = truncateText(dump.ai_summary || dump.raw_content, TITLE_LENGTH);
+    Array.from(new Set(dump.extracted_entities?.entities?.dates ?? [])).forEach((value, index) => {
+      const parsed = parseEventDate(value);
+      if (parsed) {
+        events.push({ id: `dump-${dump.id}-${index}`, kind: 'dump', title, dump, ...parsed });
+      }
+    });
+  });
+
+  reminders
+    .filter(reminder => reminder.status !== ReminderStatus.DISMISSED)
+    .forEach(reminder => {
+      const parsed = parseEventDate(reminder.scheduled_for);
+      if (parsed) {
+        events.push({ id: `reminder-${reminder.id}`, kind: 'reminder', title: reminder.message, reminder, ...parsed });
+      }
+    });
+
+  trackableItems.forEach(item => {
+    const parsed = parseEventDate(item.expected_end_date);
+    if (parsed) {
+      events.push({ id: `tracking-${item.id}`, kind: 'tracking', title: item.title, item, ...parsed });
+    }
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Key used to bucket events by local day
+ */
+export function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Events grouped by local day
+ */
+export function groupEventsByDay(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+  const groups = new Map<string, CalendarEvent[]>();
+  events.forEach(event => {
+    const key = dayKey(event.start);
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  });
+  return groups;
+}
+
+/**
+ * Days shown by a view (month views are padded to whole weeks)
+ */
+export function getViewDays(view: CalendarView, anchor: Date): Date[] {
+  switch (view) {
+    case 'month':
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor)),
+        end: endOfWeek(endOfMonth(anchor)),
+      });
+    case 'week':
+      return eachDayOfInterval({ start: startOfWeek(anchor), end: endOfWeek(anchor) });
+    case 'day':
+      return [startOfDay(anchor)];
+  }
+}
+
+/**
+ * Whether an event falls inside the days shown by a view
+ */
+export function isInView(event: CalendarEvent, days: Date[]): boolean {
+  if (days.length === 0) return false;
+  const time = event.start.getTime();
+  return time >= days[0].getTime() && time <= endOfDay(days[days.length - 1]).getTime();
+}
+
+/**
+ * Move the anchor date one period forward (1) or back (-1)
+ */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'month':
+      return addMonths(anchor, direction);
+    case 'week':
+      return addWeeks(anchor, direction);
+    case 'day':
+      return addDays(anchor, direction);
+  }
+}
+
+/**
+ * New start for an event dropped on a day (and optionally an hour slot)
+ * Keeps the original time of day, or its minutes when an hour is given
+ */
+export function rescheduleDate(original: Date, targetDay: Date, hour?: number): Date {
+  const next = new Date(targetDay);
+  next.setHours(hour ?? original.getHours(), original.getMinutes(), original.getSeconds(), 0);
+  return next;
+}
@@ -0,0 +1,200 @@
+/**
+ * Contacts
+ *
+ * Consolidates the emails, phones and URLs extracted from dumps with the
+ * people named in them into contact records. A dump naming exactly one
+ * person attributes its contact details to that person; otherwise each
+ * email and phone stands alone. Records sharing an email, a phone or a
+ * person (after the entity explorer's merges) become one contact.
+ */
+
+import type { Dump } from '../types/dump.types';
+import type { Contact, ContactEdit, ContactEdits } from '../types/contact.types';
+import { entityKey, resolveEntityKey, type EntityAliases } from './entities';
+
+const MIN_PHONE_DIGITS = 6;            // Shorter numbers are usually amounts or codes
+
+/**
+ * Lowercased address without a mailto: prefix (null if it is not one)
+ */
+export function normalizeEmail(value: string): string | null {
+  const email = value.trim().replace(/^mailto:/i, '').toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
+
+/**
+ * Digits with an optional leading "+" (null if too short for a phone)
+ */
+export function normalizePhone(value: string): string | null {
+  const trimmed = value.trim().replace(/^tel:/i, '');
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Absolute link for an extracted URL ("example.com" -> "https://example.com")
+ */
+export function contactUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+interface ContactSource {
+  identifiers: string[];
+  name: string;
+  emails: string[];
+  phones: string[];
+  urls: string[];
+  dump: Dump;
+}
+
+function contactSources(dump: Dump, aliases: EntityAliases): ContactSource[] {
+  const entities = dump.extracted_entities?.entities;
+  const emails = unique((entities?.contacts?.emails ?? []).map(normalizeEmail).filter((e): e is string => !!e));
+  const phones = unique((entities?.contacts?.phones ?? []).map(normalizePhone).filter((p): p is string => !!p));
+  if (emails.length === 0 && phones.length === 0) return [];
+
+  const people = unique((entities?.people ?? []).map(person => (typeof person === 'string' ? person.trim() : '')))
+    .filter(Boolean);
+  if (people.length === 1) {
+    const name = people[0];
+    return [
+      {
+        identifiers: [
+          resolveEntityKey(entityKey('person', name), aliases),
+          ...emails.map(email => `email:${email}`),
+          ...phones.map(phone => `phone:${phone}`),
+        ],
+        name,
+        emails,
+        phones,
+        urls: unique((entities?.contacts?.urls ?? []).map(url => url.trim()).filter(Boolean)),
+        dump,
+      },
+    ];
+  }
+
+  return [
+    ...emails.map(email => ({ identifiers: [`email:${email}`], name: '', emails: [email], phones: [], urls: [], dump })),
+    ...phones.map(phone => ({ identifiers: [`phone:${phone}`], name: '', emails: [], phones: [phone], urls: [], dump })),
+  ];
+}
+
+/**
+ * Contact records found in dumps, before the user's edits
+ * Most referenced first.
+ */
+export function buildContacts(dumps: Dump[], aliases: EntityAliases = {}): Contact[] {
+  const sources = [...dumps]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .flatMap(dump => contactSources(dump, aliases));
+
+  // Union-find over sources, joined through shared identifiers
+  const parent = sources.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const owners = new Map<string, number>();
+  sources.forEach((source, index) => {
+    source.identifiers.forEach(identifier => {
+      const owner = owners.get(identifier);
+      if (owner === undefined) {
+        owners.set(identifier, index);
+      } else {
+        parent[find(index)] = find(owner);
+      }
+    });
+  });
+
+  const groups = new Map<number, ContactSource[]>();
+  sources.forEach((source, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) {
+      group.push(source);
+    } else {
+      groups.set(root, [source]);
+    }
+  });
+
+  return Array.from(groups.values())
+    .map(group => {
+      const names = new Map<string, number>();
+      group.forEach(source => source.name && names.set(source.name, (names.get(source.name) ?? 0) + 1));
+      const identifiers = unique(group.flatMap(source => source.identifiers)).sort();
+      return {
+        id: identifiers[0],
+        identifiers,
+        // Most used name, the fuller one on a tie ("Ana Souza" over "Ana")
+        name: [...names.entries()].sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)[0]?.[0] ?? '',
+        emails: unique(group.flatMap(source => source.emails)),
+        phones: unique(group.flatMap(source => source.phones)),
+        urls: unique(group.flatMap(source => source.urls)),
+        dumps: Array.from(new Map(group.map(source => [source.dump.id, source.dump])).values()),
+        confirmed: false,
+        hidden: false,
+        edited: false,
+      };
+    })
+    .sort((a, b) => b.dumps.length - a.dumps.length || (a.name || a.id).localeCompare(b.name || b.id));
+}
+
+/**
+ * The user's edit for a contact, found through any of its identifiers
+ * (its id may have changed as new dumps joined it)
+ */
+export function findContactEdit(contact: Contact, edits: ContactEdits): ContactEdit | null {
+  const key = contact.identifiers.find(identifier => edits[identifier]);
+  return key ? edits[key] : null;
+}
+
+/**
+ * Contact with the user's edit applied
+ */
+export function applyContactEdit(contact: Contact, edit: ContactEdit | null): Contact {
+  if (!edit) return contact;
+  return {
+    ...contact,
+    name: edit.name ?? contact.name,
+    emails: edit.emails ?? contact.emails,
+    phones: edit.phones ?? contact.phones,
+    urls: edit.urls ?? contact.urls,
+    confirmed: !!edit.confirmed,
+    hidden: !!edit.hidden,
+    edited: edit.name !== undefined || !!edit.emails || !!edit.phones || !!edit.urls,
+  };
+}
+
+/**
+ * Edits with the one for `contact` replaced (stored under its current id)
+ */
+export function setContactEdit(edits: ContactEdits, contact: Contact, edit: ContactEdit | null): ContactEdits {
+  const next = Object.fromEntries(
+    Object.entries(edits).filter(([identifier]) => !contact.identifiers.includes(identifier))
+  );
+  if (edit) {
+    next[contact.id] = edit;
+  }
+  return next;
+}
+
+/**
+ * Whether a contact's name or details contain `text`
+ */
+export function contactMatches(contact: Contact, text: string): boolean {
+  const needle = text.trim().toLowerCase();
+  return (
+    !needle ||
+    [contact.name, ...contact.emails, ...contact.phones, ...contact.urls].some(value =>
+      value.toLowerCase().includes(needle)
+    )
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * Duplicate Utilities
+ *
+ * Clusters dumps captured more than once (e.g. forwarded to both Telegram
+ * and WhatsApp) by normalized content and content-vector similarity, and
+ * combines a group's notes and entities into the dump that is kept
+ */
+
+import type { Dump, DumpDerived, ExtractedEntities } from '../types/dump.types';
+import { NEAR_DUPLICATE_SIMILARITY, toVector } from './similarity';
+
+export const MAX_NOTES_LENGTH = 500;             // Same limit as the detail modal's notes field
+const NOTES_SEPARATOR = '\n\n';
+
+export interface DuplicateGroup {
+  key: string;                   // Sorted member IDs; stable while the group is unchanged
+  dumps: Dump[];                 // Suggested keeper first, then newest first
+  identicalContent: boolean;     // Every member has the same normalized raw_content
+  similarity: number | null;     // Weakest vector link holding the group together (null if none)
+}
+
+export interface VectorLink {
+  a: string;                     // Dump IDs
+  b: string;
+  similarity: number;            // Cosine similarity of their content vectors
+}
+
+export interface MergedDumpFields {
+  notes: string;
+  notesTruncated: boolean;       // Combined notes were cut to MAX_NOTES_LENGTH
+  extracted_entities: ExtractedEntities | null;
+}
+
+/**
+ * Content reduced to what survives re-sharing: case, accents, punctuation
+ * and whitespace are dropped
+ */
+export function normalizeContent(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Key identifying a set of dumps regardless of order
+ */
+export function duplicateGroupKey(dumpIds: string[]): string {
+  return [...dumpIds].sort().join(',');
+}
+
+const dumpNotes = (dump: Dump): string => ((dump as Partial<DumpDerived>).notes ?? '').trim();
+
+const entityCount = (dump: Dump): number => {
+  const entities = dump.extracted_entities?.entities;
+  if (!entities) return 0;
+  const { contacts, ...lists } = entities;
+  return (
+    Object.values(lists).reduce((sum, list) => sum + (Array.isArray(list) ? list.length : 0), 0) +
+    (contacts?.urls?.length ?? 0) + (contacts?.emails?.length ?? 0) + (contacts?.phones?.length ?? 0)
+  );
+};
+
+/**
+ * The member worth keeping: most notes and entities, then the earliest capture
+ */
+export function suggestKeeper(dumps: Dump[]): Dump {
+  return [...dumps].sort(
+    (a, b) =>
+      Number(!!dumpNotes(b)) - Number(!!dumpNotes(a)) ||
+      entityCount(b) - entityCount(a) ||
+      a.created_at.localeCompare(b.created_at)
+  )[0];
+}
+
+// Unit-length copies of content vectors, kept for as long as the vector itself
+const unitVectors = new WeakMap<object, number[] | null>();
+
+/**
+ * Content vector scaled to length 1, so comparing two is a dot product
+ */
+function unitVector(value: unknown): number[] | null {
+  if (typeof value === 'object' && value !== null && unitVectors.has(value)) {
+    return unitVectors.get(value)!;
+  }
+  const vector = toVector(value);
+  const norm = vector ? Math.sqrt(vector.reduce((sum, item) => sum + item * item, 0)) : 0;
+  const unit = vector && norm ? vector.map(item => item / norm) : null;
+  if (typeof value === 'object' && value !== null) {
+    unitVectors.set(value, unit);
+  }
+  return unit;
+}
+
+/**
+ * Pairs of dumps whose content vectors are at least `minSimilarity` similar
+ * This compares every pair; callers keep the links while the vectors don't change.
+ */
+export function findVectorLinks(dumps: Dump[], minSimilarity: number): VectorLink[] {
+  const vectors = dumps.map(dump => unitVector(dump.content_vector));
+  const links: VectorLink[] = [];
+  for (let a = 0; a < vectors.length; a++) {
+    const vectorA = vectors[a];
+    if (!vectorA) continue;
+    for (let b = a + 1; b < vectors.length; b++) {
+      const vectorB = vectors[b];
+      if (!vectorB || vectorB.length !== vectorA.length) continue;
+      let dot = 0;
+      for (let index = 0; index < vectorA.length; index++) {
+        dot += vectorA[index] * vectorB[index];
+      }
+      if (dot >= minSimilarity) {
+        links.push({ a: dumps[a].id, b: dumps[b].id, similarity: dot });
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Group dumps linked by identical normalized content or by content vectors
+ * at least `threshold` similar (transitively, so A~B and B~C form one group)
+ *
+ * @param links - Vector links found earlier at `threshold` or below; links to
+ *                dumps no longer in `dumps` are ignored
+ */
+export function findDuplicateGroups(
+  dumps: Dump[],
+  threshold = NEAR_DUPLICATE_SIMILARITY,
+  links: VectorLink[] = findVectorLinks(dumps, threshold)
+): DuplicateGroup[] {
+  const parent = dumps.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const weakestLink = new Map<number, number>();
+  const union = (a: number, b: number, similarity: number | null) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const links = [weakestLink.get(rootA), weakestLink.get(rootB), similarity ?? undefined].filter(
+      (value): value is number => value !== undefined
+    );
+    if (rootA !== rootB) {
+      parent[rootB] = rootA;
+      weakestLink.delete(rootB);
+    }
+    if (links.length > 0) {
+      weakestLink.set(rootA, Math.min(...links));
+    }
+  };
+
+  // Identical content
+  const normalized = dumps.map(dump => normalizeContent(dump.raw_content ?? ''));
+  const firstByContent = new Map<string, number>();
+  normalized.forEach((content, index) => {
+    if (!content) return;
+    const first = firstByContent.get(content);
+    if (first === undefined) {
+      firstByContent.set(content, index);
+    } else {
+      union(first, index, null);
+    }
+  });
+
+  // Close vectors
+  const indexById = new Map(dumps.map((dump, index) => [dump.id, index]));
+  links.forEach(link => {
+    const a = indexById.get(link.a);
+    const b = indexById.get(link.b);
+    if (a !== undefined && b !== undefined && link.similarity >= threshold) {
+      union(a, b, link.similarity);
+    }
+  });
+
+  const members = new Map<number, number[]>();
+  dumps.forEach((_, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), index]);
+  });
+
+  return [...members.entries()]
+    .filter(([, indexes]) => indexes.length > 1)
+    .map(([root, indexes]) => {
+      const groupDumps = indexes.map(index => dumps[index]);
+      const keeper = suggestKeeper(groupDumps);
+      return {
+        key: duplicateGroupKey(groupDumps.map(dump => dump.id)),
+        dumps: [
+          keeper,
+          ...groupDumps
+            .filter(dump => dump.id !== keeper.id)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+        ],
+        identicalContent: indexes.every(index => normalized[index] === normalized[indexes[0]]),
+        similarity: weakestLink.get(root) ?? null,
+      };
+    })
+    .sort((a, b) => b.dumps[0].created_at.localeCompare(a.dumps[0].created_at));
+}
+
+/**
+ * Values of all lists without repeats; the first spelling wins (case-insensitive)
+ */
+function unionValues<T>(
+  lists: Array<T[] | undefined>,
+  keyOf: (value: T) => string = value => String(value).trim().toLowerCase()
+): T[] {
+  const seen = new Set<string>();
+  return lists
+    .flatMap(list => list ?? [])
+    .filter(value => {
+      const key = keyOf(value);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Keeper's extracted entities extended with everything the duplicates found
+ */
+function mergeEntities(keep: Dump, duplicates: Dump[]): ExtractedEntities | null {
+  const all = [keep, ...duplicates]
+    .map(dump => dump.extracted_entities)
+    .filter((entities): entities is ExtractedEntities => !!entities?.entities);
+  if (all.length === 0) return keep.extracted_entities ?? null;
+
+  const [base] = all;
+  const list = (field: Exclude<keyof ExtractedEntities['entities'], 'contacts'>) =>
+    unionValues(all.map(entities => entities.entities[field]));
+  const contact = (field: keyof ExtractedEntities['entities']['contacts']) =>
+    unionValues(all.map(entities => entities.entities.contacts?.[field]));
+  const entityDetails = unionValues(
+    all.map(entities => entities.entityDetails),
+    detail => `${detail.type}:${detail.value}`.trim().toLowerCase()
+  );
+
+  return {
+    ...base,
+    entities: {
+      dates: list('dates'),
+      times: list('times'),
+      people: list('people'),
+      amounts: list('amounts'),
+      contacts: { urls: contact('urls'), emails: contact('emails'), phones: contact('phones') },
+      locations: list('locations'),
+      organizations: list('organizations'),
+    },
+    actionItems: unionValues(all.map(entities => entities.actionItems)),
+    entityDetails,
+    entitySummary: {
+      totalEntities: entityDetails.length,
+      entitiesByType: entityDetails.reduce<Record<string, number>>((counts, detail) => {
+        counts[detail.type] = (counts[detail.type] ?? 0) + 1;
+        return counts;
+      }, {}),
+      averageConfidence: entityDetails.length
+        ? entityDetails.reduce((sum, detail) => sum + detail.confidence, 0) / entityDetails.length
+        : 0,
+    },
+  };
+}
+
+/**
+ * Fields the kept dump gets when `duplicates` are merged into it: distinct
+ * notes joined in capture order, and the union of extracted entities
+ */
+export function mergeDumpFields(keep: Dump, duplicates: Dump[]): MergedDumpFields {
+  const notes = unionValues(
+    [keep, ...duplicates]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(dump => [dumpNotes(dump)])
+  ).join(NOTES_SEPARATOR);
+
+  return {
+    notes: notes.slice(0, MAX_NOTES_LENGTH),
+    notesTruncated: notes.length > MAX_NOTES_LENGTH,
+    extracted_entities: mergeEntities(keep, duplicates),
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Entities
+ *
+ * People, organizations and locations aggregated across dumps for the
+ * entity explorer. Spelling variants the user merged are folded into one
+ * entity through an alias map from variant key to canonical key.
+ */
+
+import type { Dump } from '../types/dump.types';
+import type { EntityValueKind } from '../types/search.types';
+import { normalizeContent } from './duplicates';
+
+const TIMELINE_MONTHS = 24;            // Longest frequency timeline shown
+const MAX_ALIAS_SUGGESTIONS = 5;
+
+export const ENTITY_KINDS: EntityValueKind[] = ['person', 'organization', 'location'];
+
+// Where each kind lives in extracted_entities.entities
+export const ENTITY_FIELDS: Record<EntityValueKind, 'people' | 'organizations' | 'locations'> = {
+  person: 'people',
+  organization: 'organizations',
+  location: 'locations',
+};
+
+export type EntityAliases = Record<string, string>;   // Variant key -> canonical key
+
+export interface EntityVariant {
+  key: string;
+  value: string;                       // Spelling as first seen
+  count: number;                       // Dumps using this spelling
+}
+
+export interface EntitySummary {
+  kind: EntityValueKind;
+  key: string;                         // Canonical key (see entityKey)
+  name: string;                        // Display name
+  variants: EntityVariant[];           // Most used first
+  dumps: Dump[];                       // Dumps mentioning any variant, newest first
+  firstSeen: string;                   // created_at of the oldest dump
+  lastSeen: string;                    // created_at of the newest dump
+}
+
+export interface EntityTimelineMonth {
+  month: string;                       // YYYY-MM
+  count: number;
+}
+
+/**
+ * Case-insensitive identity of an entity value, e.g. "person:ana souza"
+ */
+export function entityKey(kind: EntityValueKind, value: string): string {
+  return `${kind}:${value.trim().toLowerCase()}`;
+}
+
+/**
+ * Inverse of entityKey (null for anything else)
+ */
+export function parseEntityKey(key: string): { kind: EntityValueKind; value: string } | null {
+  const separator = key.indexOf(':');
+  const kind = key.slice(0, separator) as EntityValueKind;
+  const value = key.slice(separator + 1);
+  return separator > 0 && value && ENTITY_KINDS.includes(kind) ? { kind, value } : null;
+}
+
+/**
+ * Explorer URL of an entity
+ */
+export function entityPath(key: string): string {
+  const parsed = parseEntityKey(key);
+  return parsed ? `/entities/${parsed.kind}/${encodeURIComponent(parsed.value)}` : '/entities';
+}
+
+/**
+ * Canonical key a key was merged into (the key itself if it was not)
+ */
+export function resolveEntityKey(key: string, aliases: EntityAliases): string {
+  let resolved = key;
+  const visited = new Set<string>();
+  while (aliases[resolved] && !visited.has(resolved)) {
+    visited.add(resolved);
+    resolved = aliases[resolved];
+  }
+  return resolved;
+}
+
+/**
+ * Aggregate entity values across dumps, most frequently mentioned first
+ * Each dump counts once per entity, however many variants it uses.
+ */
+export function aggregateEntities(dumps: Dump[], aliases: EntityAliases = {}): EntitySummary[] {
+  const byKey = new Map<string, { kind: EntityValueKind; variants: Map<string, EntityVariant>; dumps: Dump[] }>();
+
+  const sorted = [...dumps].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  sorted.forEach(dump => {
+    const entities = dump.extracted_entities?.entities;
+    if (!entities) return;
+
+    ENTITY_KINDS.forEach(kind => {
+      const seenEntities = new Set<string>();
+      const seenVariants = new Set<string>();
+      (entities[ENTITY_FIELDS[kind]] ?? []).forEach(raw => {
+        const value = typeof raw === 'string' ? raw.trim() : '';
+        if (!value) return;
+
+        const variantKey = entityKey(kind, value);
+        const key = resolveEntityKey(variantKey, aliases);
+        let entry = byKey.get(key);
+        if (!entry) {
+          entry = { kind, variants: new Map(), dumps: [] };
+          byKey.set(key, entry);
+        }
+        if (!seenEntities.has(key)) {
+          seenEntities.add(key);
+          entry.dumps.push(dump);
+        }
+        if (!seenVariants.has(variantKey)) {
+          seenVariants.add(variantKey);
+          const variant = entry.variants.get(variantKey);
+          if (variant) {
+            variant.count++;
+          } else {
+            entry.variants.set(variantKey, { key: variantKey, value, count: 1 });
+          }
+        }
+      });
+    });
+  });
+
+  return Array.from(byKey.entries())
+    .map(([key, entry]) => {
+      const variants = Array.from(entry.variants.values()).sort((a, b) => b.count - a.count);
+      const own = variants.find(variant => variant.key === key) ?? variants[0];
+      return {
+        kind: entry.kind,
+        key,
+        name: own.value,
+        variants,
+        dumps: entry.dumps,
+        firstSeen: entry.dumps[entry.dumps.length - 1].created_at,
+        lastSeen: entry.dumps[0].created_at,
+      };
+    })
+    .sort((a, b) => b.dumps.length - a.dumps.length || a.name.localeCompare(b.name));
+}
+
+function monthOf(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Dumps per calendar month, from the first mention up to the current
+ * month (at most TIMELINE_MONTHS), months without mentions included
+ */
+export function entityTimeline(dumps: Dump[], now: Date = new Date()): EntityTimelineMonth[] {
+  const counts = new Map<string, number>();
+  let earliest = now;
+  dumps.forEach(dump => {
+    const created = new Date(dump.created_at);
+    if (Number.isNaN(created.getTime())) return;
+    counts.set(monthOf(created), (counts.get(monthOf(created)) ?? 0) + 1);
+    if (created < earliest) earliest = created;
+  });
+
+  const months: EntityTimelineMonth[] = [];
+  const cursor = new Date(now.getFullYear(), now.getMonth(), 1);
+  const first = new Date(earliest.getFullYear(), earliest.getMonth(), 1);
+  while (cursor >= first && months.length < TIMELINE_MONTHS) {
+    const month = monthOf(cursor);
+    months.unshift({ month, count: counts.get(month) ?? 0 });
+    cursor.setMonth(cursor.getMonth() - 1);
+  }
+  return months;
+}
+
+function normalizeName(text: string): string {
+  return normalizeContent(text).trim();
+}
+
+/**
+ * Whether free text (a reminder message, a tracking title) mentions any
+ * spelling of the entity as whole words
+ */
+export function mentionsEntity(text: string | null | undefined, entity: EntitySummary): boolean {
+  if (!text) return false;
+  const haystack = ` ${normalizeName(text)} `;
+  return entity.variants.some(variant => {
+    const needle = normalizeName(variant.value);
+    return !!needle && haystack.includes(` ${needle} `);
+  });
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two names are likely spellings of the same entity: equal apart
+ * from accents, punctuation and spacing, a typo or two apart, or one
+ * being the leading words of the other ("Ana" and "Ana Souza")
+ */
+function similarNames(a: string, b: string): boolean {
+  const wordsA = normalizeName(a).split(' ');
+  const wordsB = normalizeName(b).split(' ');
+  const joinedA = wordsA.join('');
+  const joinedB = wordsB.join('');
+  if (!joinedA || !joinedB) return false;
+  if (joinedA === joinedB) return true;
+
+  const shorter = Math.min(joinedA.length, joinedB.length);
+  const lengthGap = Math.abs(joinedA.length - joinedB.length);
+  if (shorter >= 4 && lengthGap <= 2 && editDistance(joinedA, joinedB) <= (shorter >= 10 ? 2 : 1)) return true;
+
+  const [few, many] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  return few.length < many.length && few.every((word, index) => word === many[index]);
+}
+
+/**
+ * Other entities of the same kind that look like spelling variants of
+ * `entity`, most mentioned first
+ */
+export function suggestAliases(entity: EntitySummary, entities: EntitySummary[]): EntitySummary[] {
+  return entities
+    .filter(other => other.kind === entity.kind && other.key !== entity.key)
+    .filter(other => entity.variants.some(variant => other.variants.some(o => similarNames(variant.value, o.value))))
+    .slice(0, MAX_ALIAS_SUGGESTIONS);
+}
+
+/**
+ * Aliases with `mergedKeys` (and everything already merged into them)
+ * folded into `canonicalKey`
+ */
+export function addEntityAliases(aliases: EntityAliases, canonicalKey: string, mergedKeys: string[]): EntityAliases {
+  const merged = new Set(mergedKeys.filter(key => key !== canonicalKey));
+  const next: EntityAliases = {};
+  Object.entries(aliases).forEach(([variant, target]) => {
+    if (variant !== canonicalKey) {
+      next[variant] = merged.has(target) ? canonicalKey : target;
+    }
+  });
+  merged.forEach(key => (next[key] = canonicalKey));
+  return next;
+}
+
+/**
+ * Aliases with one variant split back into an entity of its own
+ */
+export function removeEntityAlias(aliases: EntityAliases, variantKey: string): EntityAliases {
+  const next = { ...aliases };
+  delete next[variantKey];
+  return next;
+}
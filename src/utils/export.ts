@@ -0,0 +1,307 @@
+/**
+ * Export Utilities
+ *
+ * Turn dumps into downloadable files:
+ * - JSON: full dumps including extracted_entities (embedding vectors omitted)
+ * - CSV: one row per dump with entities flattened into columns
+ * - Markdown: dumps grouped by time bucket, in dashboard order
+ * - ICS: calendar events for extracted dates plus scheduled reminders
+ */
+
+import { addDays, format } from 'date-fns';
+import type { Dump, TimeBucket } from '../types/dump.types';
+import { BUCKET_LABELS } from '../types/dump.types';
+import type { ExportFile, ExportFormat, ExportInput } from '../types/export.types';
+import type { Reminder } from '../services/reminders.service';
+import { enrichDump, groupByTimeBucket } from './time-buckets';
+import { sortTimeBucketGroups } from './sorting';
+import { formatCategory } from './formatting';
+
+const EVENT_DURATION = 'PT30M';            // Length of calendar events built from extracted dates
+const REMINDER_DURATION = 'PT15M';
+const ICS_LINE_LIMIT = 75;                 // RFC 5545 line length in octets
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+export function buildJson({ source, dumps, query, exportedAt = new Date() }: ExportInput): string {
+  return JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      source,
+      ...(query ? { query } : {}),
+      count: dumps.length,
+      // Embeddings are large and meaningless outside the backend
+      dumps: dumps.map(dump => ({ ...dump, content_vector: undefined })),
+    },
+    null,
+    2
+  );
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_COLUMNS: Array<[string, (dump: Dump) => string | number | null | undefined]> = [
+  ['id', dump => dump.id],
+  ['created_at', dump => dump.created_at],
+  ['processed_at', dump => dump.processed_at],
+  ['category', dump => dump.category?.name],
+  ['processing_status', dump => dump.processing_status],
+  ['content_type', dump => dump.content_type],
+  ['urgency', dump => dump.extracted_entities?.urgency],
+  ['urgency_level', dump => dump.urgency_level],
+  ['ai_confidence', dump => dump.ai_confidence],
+  ['ai_summary', dump => dump.ai_summary],
+  ['raw_content', dump => dump.raw_content],
+  ['dates', dump => joinList(dump.extracted_entities?.entities?.dates)],
+  ['times', dump => joinList(dump.extracted_entities?.entities?.times)],
+  ['people', dump => joinList(dump.extracted_entities?.entities?.people)],
+  ['amounts', dump => joinList(dump.extracted_entities?.entities?.amounts)],
+  ['emails', dump => joinList(dump.extracted_entities?.entities?.contacts?.emails)],
+  ['phones', dump => joinList(dump.extracted_entities?.entities?.contacts?.phones)],
+  ['urls', dump => joinList(dump.extracted_entities?.entities?.contacts?.urls)],
+  ['locations', dump => joinList(dump.extracted_entities?.entities?.locations)],
+  ['organizations', dump => joinList(dump.extracted_entities?.entities?.organizations)],
+  ['action_items', dump => joinList(dump.extracted_entities?.actionItems)],
+  ['sentiment', dump => dump.extracted_entities?.sentiment],
+  ['media_url', dump => dump.media_url],
+];
+
+function joinList(values: string[] | undefined): string {
+  return (values ?? []).join('; ');
+}
+
+/**
+ * Quote a CSV cell; cells that spreadsheets would run as formulas are prefixed with '
+ */
+export function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv({ dumps }: ExportInput): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = dumps.map(dump => CSV_COLUMNS.map(([, getValue]) => csvCell(getValue(dump))).join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+function markdownDump(dump: ReturnType<typeof enrichDump>): string {
+  const entities = dump.extracted_entities?.entities;
+  const lines = [
+    `### ${formatCategory(dump.categoryName)} · ${format(dump.displayDate, 'PP')}`,
+    '',
+    `- **Status:** ${dump.status}`,
+  ];
+
+  if (dump.extracted_entities?.urgency) lines.push(`- **Urgency:** ${dump.extracted_entities.urgency}`);
+  if (entities?.people?.length) lines.push(`- **People:** ${entities.people.join(', ')}`);
+  if (entities?.locations?.length) lines.push(`- **Locations:** ${entities.locations.join(', ')}`);
+  if (entities?.amounts?.length) lines.push(`- **Amounts:** ${entities.amounts.join(', ')}`);
+  lines.push(`- **Captured:** ${dump.created_at}`);
+
+  if (dump.ai_summary) {
+    lines.push('', dump.ai_summary);
+  }
+  lines.push('', ...dump.raw_content.split('\n').map(line => `> ${line}`));
+
+  const actionItems = dump.extracted_entities?.actionItems ?? [];
+  if (actionItems.length > 0) {
+    lines.push('', ...actionItems.map(item => `- [ ] ${item}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function buildMarkdown({ source, dumps, query, exportedAt = new Date() }: ExportInput): string {
+  const grouped = sortTimeBucketGroups(groupByTimeBucket(dumps.map(enrichDump)));
+  const title = source === 'search' && query ? `Search results: ${query}` : 'Dumps';
+  const sections = [`# ${title}`, '', `_Exported ${format(exportedAt, 'PPpp')} · ${dumps.length} dumps_`];
+
+  (Object.keys(BUCKET_LABELS) as TimeBucket[]).forEach(bucket => {
+    const bucketDumps = grouped[bucket] ?? [];
+    if (bucketDumps.length === 0) return;
+
+    sections.push('', `## ${BUCKET_LABELS[bucket]} (${bucketDumps.length})`);
+    bucketDumps.forEach(dump => sections.push('', markdownDump(dump)));
+  });
+
+  return sections.join('\n') + '\n';
+}
+
+// ============================================================================
+// ICS
+// ============================================================================
+
+/**
+ * Escape a TEXT value (vCard 4.0 uses the same rules)
+ */
+export function icsEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (continuation lines start with a space)
+ */
+export function icsFold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function icsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Start (and end, for all-day events) properties for an extracted date
+ * Date-only values become all-day events; anything with a time is kept as UTC
+ */
+function icsEventTiming(value: string): string[] | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    const start = new Date(year, month - 1, day);
+    return [
+      `DTSTART;VALUE=DATE:${format(start, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(addDays(start, 1), 'yyyyMMdd')}`,
+    ];
+  }
+
+  return [`DTSTART:${icsDateTime(date)}`, `DURATION:${EVENT_DURATION}`];
+}
+
+function dumpEvents(dump: Dump, stamp: string): string[][] {
+  const summary = dump.ai_summary || dump.raw_content.slice(0, 80);
+  const dates = Array.from(new Set(dump.extracted_entities?.entities?.dates ?? []));
+
+  return dates.flatMap((value, index) => {
+    const timing = icsEventTiming(value);
+    if (!timing) return [];
+
+    return [[
+      'BEGIN:VEVENT',
+      `UID:${dump.id}-${index}@dumps.export`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${icsEscape(summary)}`,
+      `DESCRIPTION:${icsEscape(dump.raw_content)}`,
+      ...(dump.category?.name ? [`CATEGORIES:${icsEscape(dump.category.name)}`] : []),
+      ...(dump.extracted_entities?.entities?.locations?.length
+        ? [`LOCATION:${icsEscape(dump.extracted_entities.entities.locations[0])}`]
+        : []),
+      'END:VEVENT',
+    ]];
+  });
+}
+
+function reminderEvent(reminder: Reminder, stamp: string): string[] | null {
+  const date = new Date(reminder.scheduled_for);
+  if (!reminder.scheduled_for || isNaN(date.getTime())) return null;
+
+  const summary = reminder.message || 'Reminder';
+  return [
+    'BEGIN:VEVENT',
+    `UID:reminder-${reminder.id}@dumps.export`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsDateTime(date)}`,
+    `DURATION:${REMINDER_DURATION}`,
+    `SUMMARY:${icsEscape(summary)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${icsEscape(summary)}`,
+    'TRIGGER:PT0M',
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+}
+
+export function buildIcs({ dumps, reminders = [], exportedAt = new Date() }: ExportInput): string {
+  const stamp = icsDateTime(exportedAt);
+  const events = [
+    ...dumps.flatMap(dump => dumpEvents(dump, stamp)),
+    ...reminders
+      .filter(reminder => reminder.status !== 'dismissed')
+      .map(reminder => reminderEvent(reminder, stamp))
+      .filter((event): event is string[] => event !== null),
+  ];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Clutter.App//Dump Export//EN',
+    'CALSCALE:GREGORIAN',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string; build: (input: ExportInput) => string }> = {
+  json: { extension: 'json', mimeType: 'application/json', build: buildJson },
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8', build: buildCsv },
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8', build: buildMarkdown },
+  ics: { extension: 'ics', mimeType: 'text/calendar;charset=utf-8', build: buildIcs },
+};
+
+/**
+ * Build an export file for the given format
+ */
+export function createExport(exportFormat: ExportFormat, input: ExportInput): ExportFile {
+  const exportedAt = input.exportedAt ?? new Date();
+  const { extension, mimeType, build } = FORMATS[exportFormat];
+
+  return {
+    filename: `dumps-${input.source}-${format(exportedAt, 'yyyy-MM-dd-HHmm')}.${extension}`,
+    mimeType,
+    content: build({ ...input, exportedAt }),
+  };
+}
+
+/**
+ * Save a generated file through the browser's download flow
+ */
+export function downloadFile({ filename, mimeType, content }: ExportFile): void {
+  // BOM so Excel opens UTF-8 CSVs correctly
+  const parts = mimeType.startsWith('text/csv') ? ['\uFEFF', content] : [content];
+  const url = URL.createObjectURL(new Blob(parts, { type: mimeType }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
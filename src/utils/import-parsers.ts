@@ -0,0 +1,403 @@
+/**
+ * Import Parsers
+ *
+ * Turn exported notes and mail files into import candidates:
+ * - Google Keep / Evernote-style JSON (one note, an array, or { notes: [...] })
+ * - Evernote ENEX (XML with ENML note bodies)
+ * - Markdown / plain text files, including whole folders
+ * - .eml messages and .mbox mailboxes (content_type 'email')
+ * Candidates are flagged as duplicates of existing dumps by normalized content.
+ */
+
+import type {
+  ImportCandidate,
+  ImportFileErrorCode,
+  ImportParseResult,
+  ImportSourceKind,
+} from '../types/import.types';
+
+type ParsedNote = Omit<ImportCandidate, 'id' | 'duplicate' | 'fileName' | 'source'>;
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'txt'];
+const BLOCK_TAGS = new Set(['P', 'DIV', 'BR', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TR', 'EN-TODO', 'BLOCKQUOTE', 'PRE']);
+
+let candidateCounter = 0;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Content key used for de-duplication (case and whitespace ignored)
+ */
+export function normalizeContent(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function getExtension(fileName: string): string {
+  const match = /\.([^.\\/]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function joinTitle(title: string | undefined, body: string): string {
+  const cleanTitle = title?.trim();
+  const cleanBody = body.trim();
+  if (!cleanTitle) return cleanBody;
+  if (!cleanBody || cleanBody.startsWith(cleanTitle)) return cleanBody || cleanTitle;
+  return `${cleanTitle}\n\n${cleanBody}`;
+}
+
+/**
+ * Plain text from an HTML/ENML fragment, keeping paragraph breaks
+ */
+function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const lines: string[] = [];
+  let current = '';
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+    const element = node as Element;
+    if (element.tagName === 'EN-TODO') {
+      current += element.getAttribute('checked') === 'true' ? '[x] ' : '[ ] ';
+    }
+    node.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(element.tagName)) {
+      lines.push(current);
+      current = '';
+    }
+  };
+
+  walk(doc.body);
+  lines.push(current);
+  return lines.map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ============================================================================
+// Notes (JSON / ENEX / Markdown)
+// ============================================================================
+
+/**
+ * Google Keep (Takeout) and Evernote-style JSON notes
+ */
+function parseJsonNotes(text: string): ParsedNote[] {
+  const data: unknown = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { notes?: unknown[] }).notes)
+      ? (data as { notes: unknown[] }).notes
+      : [data];
+
+  return list.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const note = item as Record<string, unknown>;
+    if (note.isTrashed === true) return [];
+
+    const checklist = Array.isArray(note.listContent)
+      ? (note.listContent as Array<{ text?: string; isChecked?: boolean }>)
+          .map(entry => `- [${entry.isChecked ? 'x' : ' '}] ${entry.text ?? ''}`)
+          .join('\n')
+      : '';
+    const body = [note.textContent, note.content, note.text, note.body, checklist]
+      .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+      .map(part => (/<\/?[a-z][\s\S]*>/i.test(part) ? htmlToText(part) : part))
+      .join('\n\n');
+    const title = typeof note.title === 'string' ? note.title : undefined;
+    const rawContent = joinTitle(title, body);
+    if (!rawContent) return [];
+
+    const createdUsec = note.createdTimestampUsec ?? note.userEditedTimestampUsec;
+    return [{
+      title,
+      rawContent,
+      contentType: 'text' as const,
+      createdAt: createdUsec ? toIsoDate(Number(createdUsec) / 1000) : toIsoDate(note.created ?? note.createdAt),
+    }];
+  });
+}
+
+/**
+ * ENEX timestamps look like 20240131T174500Z
+ */
+function parseEnexDate(value: string | null | undefined): string | undefined {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim()) : null;
+  return match ? toIsoDate(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`) : undefined;
+}
+
+/**
+ * A file that was read but isn't valid for its format
+ */
+class ImportFileError extends Error {
+  code: ImportFileErrorCode;
+
+  constructor(code: ImportFileErrorCode) {
+    super(code);
+    this.name = 'ImportFileError';
+    this.code = code;
+  }
+}
+
+function parseEnex(text: string): ParsedNote[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ImportFileError('invalidEnex');
+  }
+
+  return Array.from(doc.getElementsByTagName('note')).flatMap(note => {
+    const title = note.getElementsByTagName('title')[0]?.textContent ?? undefined;
+    const body = htmlToText(note.getElementsByTagName('content')[0]?.textContent ?? '');
+    const rawContent = joinTitle(title, body);
+    if (!rawContent) return [];
+
+    return [{
+      title,
+      rawContent,
+      contentType: 'text' as const,
+      createdAt: parseEnexDate(note.getElementsByTagName('created')[0]?.textContent),
+    }];
+  });
+}
+
+function parseMarkdown(text: string, fileName: string): ParsedNote[] {
+  // Drop YAML front matter but keep its title if there is one
+  const frontMatter = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  const body = (frontMatter ? text.slice(frontMatter[0].length) : text).trim();
+  if (!body) return [];
+
+  const frontTitle = frontMatter ? /^title:\s*["']?(.+?)["']?\s*$/m.exec(frontMatter[1])?.[1] : undefined;
+  const heading = /^#\s+(.+)$/m.exec(body)?.[1];
+  const baseName = fileName.split('/').pop()?.replace(/\.[^.]+$/, '');
+
+  return [{
+    title: frontTitle || heading || baseName,
+    rawContent: frontTitle ? joinTitle(frontTitle, body) : body,
+    contentType: 'text',
+  }];
+}
+
+// ============================================================================
+// Email (.eml / .mbox)
+// ============================================================================
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function splitHeaders(raw: string): MimePart {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+  const headers: Record<string, string> = {};
+
+  // Unfold continuation lines, then split "Name: value"
+  headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      headers[name] = headers[name] ?? line.slice(colon + 1).trim();
+    }
+  });
+
+  return { headers, body };
+}
+
+function headerParam(header: string | undefined, param: string): string | undefined {
+  const match = header ? new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, 'i').exec(header) : null;
+  return match?.[1];
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers['content-transfer-encoding'] ?? '').toLowerCase();
+  const charset = headerParam(part.headers['content-type'], 'charset');
+
+  if (encoding === 'base64') {
+    const binary = atob(part.body.replace(/\s+/g, ''));
+    return decodeBytes(Uint8Array.from(binary, char => char.charCodeAt(0)), charset);
+  }
+  if (encoding === 'quoted-printable') {
+    const unfolded = part.body.replace(/=\r?\n/g, '');
+    const bytes: number[] = [];
+    for (let i = 0; i < unfolded.length; i++) {
+      const hex = unfolded.slice(i + 1, i + 3);
+      if (unfolded[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        bytes.push(...new TextEncoder().encode(unfolded[i]));
+      }
+    }
+    return decodeBytes(Uint8Array.from(bytes), charset);
+  }
+  return part.body;
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?utf-8?B?...?= / =?utf-8?Q?...?=) in headers
+ */
+function decodeHeader(value: string | undefined): string {
+  if (!value) return '';
+  // Whitespace between adjacent encoded words is not part of the text
+  return value.replace(/\?=\s+=\?/g, '?==?').replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, text: string) => {
+    if (encoding.toLowerCase() === 'b') {
+      const binary = atob(text);
+      return decodeBytes(Uint8Array.from(binary, char => char.charCodeAt(0)), charset);
+    }
+    return decodeBody({
+      headers: { 'content-transfer-encoding': 'quoted-printable', 'content-type': `text/plain; charset=${charset}` },
+      body: text.replace(/_/g, ' '),
+    });
+  });
+}
+
+/**
+ * Best text body of a message: first text/plain part, else text/html converted to text
+ */
+function extractText(part: MimePart): string {
+  const contentType = (part.headers['content-type'] ?? 'text/plain').toLowerCase();
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = headerParam(part.headers['content-type'], 'boundary');
+    if (!boundary) return '';
+
+    const parts = part.body
+      .split(new RegExp(`^--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?\\s*$`, 'm'))
+      .slice(1)
+      .map(section => splitHeaders(section.replace(/^\r?\n/, '')))
+      .filter(section => section.body.trim() !== '' || Object.keys(section.headers).length > 0);
+
+    const plain = parts.find(section => (section.headers['content-type'] ?? 'text/plain').toLowerCase().startsWith('text/plain'));
+    if (plain) return extractText(plain);
+    for (const section of parts) {
+      const text = extractText(section);
+      if (text) return text;
+    }
+    return '';
+  }
+
+  if (contentType.startsWith('text/html')) return htmlToText(decodeBody(part));
+  if (contentType.startsWith('text/')) return decodeBody(part).trim();
+  return '';
+}
+
+function parseEmailMessage(raw: string): ParsedNote | null {
+  const message = splitHeaders(raw.replace(/^\uFEFF/, ''));
+  const subject = decodeHeader(message.headers.subject);
+  const from = decodeHeader(message.headers.from);
+  const body = extractText(message);
+  if (!subject && !body) return null;
+
+  const header = [
+    subject && `Subject: ${subject}`,
+    from && `From: ${from}`,
+    message.headers.date && `Date: ${message.headers.date}`,
+  ].filter(Boolean).join('\n');
+
+  return {
+    title: subject || undefined,
+    rawContent: [header, body].filter(Boolean).join('\n\n'),
+    contentType: 'email',
+    createdAt: toIsoDate(message.headers.date),
+  };
+}
+
+/**
+ * Split an mbox file on its "From " separator lines
+ */
+function parseMbox(text: string): ParsedNote[] {
+  return text
+    .split(/^From .*$/m)
+    .map(chunk => chunk.replace(/^\r?\n/, '').replace(/^>(>*From )/gm, '$1'))
+    .filter(chunk => chunk.trim() !== '')
+    .map(parseEmailMessage)
+    .filter((note): note is ParsedNote => note !== null);
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Which parser handles a file (null when unsupported)
+ */
+export function detectImportSource(fileName: string): ImportSourceKind | null {
+  const extension = getExtension(fileName);
+  if (extension === 'json') return 'keep';
+  if (extension === 'enex') return 'enex';
+  if (extension === 'eml' || extension === 'mbox') return 'email';
+  if (MARKDOWN_EXTENSIONS.includes(extension)) return 'markdown';
+  return null;
+}
+
+function parseFile(source: ImportSourceKind, text: string, fileName: string): ParsedNote[] {
+  switch (source) {
+    case 'keep':
+      return parseJsonNotes(text);
+    case 'enex':
+      return parseEnex(text);
+    case 'markdown':
+      return parseMarkdown(text, fileName);
+    case 'email': {
+      if (getExtension(fileName) === 'mbox') return parseMbox(text);
+      const message = parseEmailMessage(text);
+      return message ? [message] : [];
+    }
+  }
+}
+
+/**
+ * Parse every selected file and flag duplicates against existing dump contents
+ *
+ * @param files - Files (or folder contents) picked by the user
+ * @param existingContents - raw_content of dumps the user already has
+ */
+export async function parseImportFiles(files: File[], existingContents: string[]): Promise<ImportParseResult> {
+  const seen = new Set(existingContents.map(normalizeContent));
+  const result: ImportParseResult = { candidates: [], errors: [] };
+
+  for (const file of files) {
+    const fileName = file.webkitRelativePath || file.name;
+    const source = detectImportSource(fileName);
+    if (!source) {
+      result.errors.push({ fileName, error: 'unsupportedType' });
+      continue;
+    }
+
+    try {
+      const notes = parseFile(source, await file.text(), fileName);
+      notes.forEach(note => {
+        const key = normalizeContent(note.rawContent);
+        candidateCounter += 1;
+        result.candidates.push({
+          ...note,
+          id: `import-${candidateCounter}`,
+          source,
+          fileName,
+          duplicate: seen.has(key),
+        });
+        seen.add(key);
+      });
+    } catch (err: unknown) {
+      result.errors.push({ fileName, error: err instanceof ImportFileError ? err.code : 'unreadable' });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,76 @@
+/**
+ * Keyboard Utilities
+ *
+ * Shared helpers for global shortcuts and the shortcut help overlay
+ */
+
+import type { ShortcutHelpSection } from '../types/command.types';
+import { NAV_ROUTES, PROFILE_ROUTE } from './navigation';
+
+/**
+ * True when a keyboard event targets a text field (typing must not trigger shortcuts)
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    element.isContentEditable
+  );
+}
+
+/**
+ * True while a modal dialog is open (page-level shortcuts pause behind it)
+ */
+export function isDialogOpen(): boolean {
+  return document.querySelector('[role="dialog"][aria-modal="true"]') !== null;
+}
+
+/**
+ * Single-key shortcuts apply only without modifiers, outside text fields and dialogs
+ */
+export function isPlainShortcut(event: KeyboardEvent): boolean {
+  return !event.ctrlKey && !event.metaKey && !event.altKey && !isEditableTarget(event.target) && !isDialogOpen();
+}
+
+/**
+ * Platform label for the Ctrl/Cmd modifier
+ */
+export function modifierLabel(): string {
+  return /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl';
+}
+
+/**
+ * Entries of the shortcut help overlay (descriptions are i18n keys)
+ */
+export const SHORTCUT_HELP: ShortcutHelpSection[] = [
+  {
+    titleKey: 'shortcuts.sections.global',
+    shortcuts: [
+      { keys: ['mod', 'K'], descriptionKey: 'shortcuts.palette' },
+      { keys: ['?'], descriptionKey: 'shortcuts.help' },
+      { keys: ['N'], descriptionKey: 'shortcuts.newDump' },
+      { keys: ['mod', 'Z'], descriptionKey: 'shortcuts.undo' },
+    ],
+  },
+  {
+    titleKey: 'shortcuts.sections.navigation',
+    shortcuts: [...NAV_ROUTES, PROFILE_ROUTE].map(route => ({
+      keys: ['G', route.shortcutKey.toUpperCase()],
+      descriptionKey: route.labelKey,
+    })),
+  },
+  {
+    titleKey: 'shortcuts.sections.lists',
+    shortcuts: [
+      { keys: ['J'], descriptionKey: 'shortcuts.next' },
+      { keys: ['K'], descriptionKey: 'shortcuts.previous' },
+      { keys: ['Enter'], descriptionKey: 'shortcuts.open' },
+      { keys: ['A'], descriptionKey: 'shortcuts.approve' },
+      { keys: ['R'], descriptionKey: 'shortcuts.reject' },
+      { keys: ['S'], descriptionKey: 'shortcuts.snooze' },
+      { keys: ['X'], descriptionKey: 'shortcuts.select' },
+    ],
+  },
+];
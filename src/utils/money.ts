@@ -0,0 +1,254 @@
+/**
+ * Money
+ *
+ * Turns the amounts extracted from dumps into money entries for the
+ * finances screen: parses numbers in either decimal convention, detects
+ * the currency from symbols, codes or words, and ties each amount to its
+ * dump's date, deadline, organization and category.
+ */
+
+import { addDays, format } from 'date-fns';
+import type { Category, Dump } from '../types/dump.types';
+import type { ExportFile } from '../types/export.types';
+import type { MoneyEntry, MonthlyTotal, ParsedAmount } from '../types/finance.types';
+import { ReminderType, type Reminder } from '../services/reminders.service';
+import { parseEventDate } from './calendar';
+import { csvCell } from './export';
+
+const FALLBACK_CURRENCY = 'USD';
+const UPCOMING_BILL_DAYS = 30;          // How far ahead (and back) bills are flagged
+
+// Longest symbols first so "R$" wins over "$"
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['R$', 'BRL'],
+  ['US$', 'USD'],
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+const CURRENCY_CODES = ['USD', 'BRL', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'MXN', 'ARS', 'CLP', 'COP', 'CHF', 'INR'];
+
+const CURRENCY_WORDS: Array<[RegExp, string]> = [
+  [/\breais\b/i, 'BRL'],
+  [/\bd[oó]lar(es)?\b|\bdollars?\b/i, 'USD'],
+  [/\beuros?\b/i, 'EUR'],
+  [/\bpounds?\b|\blibras?\b/i, 'GBP'],
+];
+
+function detectCurrency(text: string): string | null {
+  // Codes only in capitals, so words like "cop" or "chf" in prose don't count
+  const code = text.match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`));
+  if (code) return code[1];
+
+  const symbol = CURRENCY_SYMBOLS.find(([mark]) => text.includes(mark));
+  if (symbol) return symbol[1];
+
+  return CURRENCY_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Read "1,234.56" and "1.234,56" alike; a lone separator followed by
+ * exactly three digits is taken as a thousands separator
+ */
+function parseNumber(token: string): number {
+  const lastDot = token.lastIndexOf('.');
+  const lastComma = token.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    normalized = token.split(thousands).join('').replace(decimal, '.');
+  } else {
+    const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+    const parts = separator ? token.split(separator) : [token];
+    normalized = parts.length === 2 && parts[1].length !== 3 ? `${parts[0]}.${parts[1]}` : parts.join('');
+  }
+  return Number(normalized);
+}
+
+/**
+ * Parse an extracted amount such as "R$ 1.234,56", "€20", "15 USD" or
+ * "2k dollars" (null for percentages and text without a number)
+ */
+export function parseAmount(raw: string): ParsedAmount | null {
+  const text = raw.trim();
+  const match = text.match(/(\d(?:[\d.,]*\d)?)(\s*(?:k\b|mil\b))?/i);
+  if (!match || /%/.test(text)) return null;
+
+  const value = parseNumber(match[1]) * (match[2] ? 1000 : 1);
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  return { value, currency: detectCurrency(text) };
+}
+
+/**
+ * Earliest deadline for a dump: deadline reminders created from it and
+ * deadline dates the extraction found in it
+ */
+function findDueDate(dump: Dump, reminders: Reminder[]): Date | null {
+  const candidates = [
+    ...reminders
+      .filter(reminder => reminder.dump_id === dump.id && reminder.reminder_type === ReminderType.DEADLINE)
+      .map(reminder => reminder.scheduled_for),
+    ...(dump.extracted_entities?.entityDetails ?? [])
+      .filter(detail => detail.type === 'deadline')
+      .map(detail => detail.value),
+  ];
+  const dates = candidates
+    .map(value => parseEventDate(value)?.start)
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return dates[0] ?? null;
+}
+
+/**
+ * Money entries for every parseable amount in the dumps, newest first
+ * Amounts without a currency get the most common one among the rest.
+ */
+export function buildMoneyEntries(
+  dumps: Dump[],
+  { reminders = [], categories = [] }: { reminders?: Reminder[]; categories?: Category[] } = {}
+): MoneyEntry[] {
+  const parsed = dumps.flatMap(dump =>
+    Array.from(new Set(dump.extracted_entities?.entities?.amounts ?? [])).flatMap((raw, index) => {
+      const amount = typeof raw === 'string' ? parseAmount(raw) : null;
+      return amount ? [{ dump, raw, index, amount }] : [];
+    })
+  );
+
+  const assumed = dominantCurrency(parsed.map(({ amount }) => amount.currency));
+
+  return parsed
+    .map(({ dump, raw, index, amount }) => {
+      const extractedDate = (dump.extracted_entities?.entities?.dates ?? [])
+        .map(value => parseEventDate(value)?.start)
+        .find((date): date is Date => !!date);
+      const category =
+        categories.find(candidate => candidate.id === dump.category_id)?.name ?? dump.category?.name ?? null;
+
+      return {
+        id: `${dump.id}:${index}`,
+        dump,
+        raw,
+        value: amount.value,
+        currency: amount.currency ?? assumed,
+        currencyInferred: !amount.currency,
+        date: extractedDate ?? new Date(dump.created_at),
+        dueDate: findDueDate(dump, reminders),
+        organization: dump.extracted_entities?.entities?.organizations?.find(name => name?.trim())?.trim() ?? null,
+        category,
+      };
+    })
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Most frequent currency (FALLBACK_CURRENCY when none is known)
+ */
+export function dominantCurrency(currencies: Array<string | null>): string {
+  const counts = new Map<string, number>();
+  currencies.forEach(currency => currency && counts.set(currency, (counts.get(currency) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? FALLBACK_CURRENCY;
+}
+
+/**
+ * Totals per month in one currency, newest month first
+ * Like bills, each dump counts once, with its largest amount.
+ */
+export function monthlyTotals(entries: MoneyEntry[], currency: string): MonthlyTotal[] {
+  const largest = new Map<string, MoneyEntry>();
+  entries
+    .filter(entry => entry.currency === currency)
+    .forEach(entry => {
+      const current = largest.get(entry.dump.id);
+      if (!current || entry.value > current.value) largest.set(entry.dump.id, entry);
+    });
+
+  const months = new Map<string, Map<string | null, number>>();
+  largest.forEach(entry => {
+    const month = format(entry.date, 'yyyy-MM');
+    const categories = months.get(month) ?? new Map<string | null, number>();
+    categories.set(entry.category, (categories.get(entry.category) ?? 0) + entry.value);
+    months.set(month, categories);
+  });
+
+  return Array.from(months.entries())
+    .map(([month, categories]) => {
+      const byCategory = Array.from(categories.entries())
+        .map(([category, total]) => ({ category, total }))
+        .sort((a, b) => b.total - a.total);
+      return { month, total: byCategory.reduce((sum, row) => sum + row.total, 0), byCategory };
+    })
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Entries due within UPCOMING_BILL_DAYS either way (recently past due ones
+ * included), soonest first
+ * Only the largest amount of each dump (usually its total) counts as its bill.
+ */
+export function upcomingBills(entries: MoneyEntry[], now: Date = new Date()): MoneyEntry[] {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const start = addDays(today, -UPCOMING_BILL_DAYS);
+  const horizon = addDays(today, UPCOMING_BILL_DAYS + 1);
+  const seen = new Set<string>();
+
+  return entries
+    .filter(entry => entry.dueDate && entry.dueDate >= start && entry.dueDate < horizon)
+    .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime() || b.value - a.value)
+    .filter(entry => {
+      if (seen.has(entry.dump.id)) return false;
+      seen.add(entry.dump.id);
+      return true;
+    });
+}
+
+/**
+ * Whether a bill's due date has passed
+ */
+export function isPastDue(entry: MoneyEntry, now: Date = new Date()): boolean {
+  return !!entry.dueDate && entry.dueDate < new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/**
+ * Localized money amount ("R$ 1.234,56"); unknown codes fall back to plain numbers
+ */
+export function formatMoney(value: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+const CSV_COLUMNS: Array<[string, (entry: MoneyEntry) => string | number | null]> = [
+  ['date', entry => format(entry.date, 'yyyy-MM-dd')],
+  ['amount', entry => entry.value.toFixed(2)],
+  ['currency', entry => entry.currency],
+  ['currency_inferred', entry => (entry.currencyInferred ? 'yes' : 'no')],
+  ['due_date', entry => (entry.dueDate ? format(entry.dueDate, 'yyyy-MM-dd') : null)],
+  ['organization', entry => entry.organization],
+  ['category', entry => entry.category],
+  ['raw_amount', entry => entry.raw],
+  ['summary', entry => entry.dump.ai_summary || entry.dump.raw_content],
+  ['dump_id', entry => entry.dump.id],
+];
+
+/**
+ * Money entries as a CSV file (amounts with "." decimals for spreadsheets)
+ */
+export function createFinanceExport(entries: MoneyEntry[], exportedAt: Date = new Date()): ExportFile {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = entries.map(entry => CSV_COLUMNS.map(([, getValue]) => csvCell(getValue(entry))).join(','));
+  return {
+    filename: `finances-${format(exportedAt, 'yyyy-MM-dd-HHmm')}.csv`,
+    mimeType: 'text/csv;charset=utf-8',
+    content: [header, ...rows].join('\r\n') + '\r\n',
+  };
+}
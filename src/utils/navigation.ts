@@ -0,0 +1,45 @@
+/**
+ * Navigation
+ *
+ * Authenticated routes shared by the header navigation, the command
+ * palette, the "G then <key>" shortcuts and their help overlay
+ */
+
+import type { IconType } from 'react-icons';
+import {
+  LuLayoutDashboard,
+  LuFileScan,
+  LuCalendarDays,
+  LuPackageCheck,
+  LuBadgeCheck,
+  LuCopy,
+  LuUsers,
+  LuContact,
+  LuWallet,
+  LuMessageSquareText,
+  LuUser,
+} from 'react-icons/lu';
+
+export interface NavRoute {
+  path: string;
+  labelKey: string;              // i18n key
+  icon: IconType;
+  shortcutKey: string;           // Pressed after "G"
+}
+
+// Routes shown in the header navigation, in order
+export const NAV_ROUTES: NavRoute[] = [
+  { path: '/', labelKey: 'nav.dashboard', icon: LuLayoutDashboard, shortcutKey: 'd' },
+  { path: '/search', labelKey: 'nav.search', icon: LuFileScan, shortcutKey: 's' },
+  { path: '/calendar', labelKey: 'nav.calendar', icon: LuCalendarDays, shortcutKey: 'c' },
+  { path: '/tracking', labelKey: 'nav.tracking', icon: LuPackageCheck, shortcutKey: 't' },
+  { path: '/review', labelKey: 'nav.review', icon: LuBadgeCheck, shortcutKey: 'r' },
+  { path: '/duplicates', labelKey: 'nav.duplicates', icon: LuCopy, shortcutKey: 'u' },
+  { path: '/entities', labelKey: 'nav.entities', icon: LuUsers, shortcutKey: 'e' },
+  { path: '/contacts', labelKey: 'nav.contacts', icon: LuContact, shortcutKey: 'a' },
+  { path: '/finances', labelKey: 'nav.finances', icon: LuWallet, shortcutKey: 'm' },
+  { path: '/feedback', labelKey: 'nav.feedback', icon: LuMessageSquareText, shortcutKey: 'f' },
+];
+
+// Reached from the user menu rather than the header
+export const PROFILE_ROUTE: NavRoute = { path: '/profile', labelKey: 'nav.profile', icon: LuUser, shortcutKey: 'p' };
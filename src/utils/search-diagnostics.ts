@@ -0,0 +1,80 @@
+/**
+ * Search Diagnostics
+ *
+ * Helpers for explaining search results: which query terms a result
+ * actually contains, how the page splits by match type, and a flat view
+ * of the backend's free-form diagnostics (vector health, applied filters)
+ */
+
+import type { Dump } from '../types/dump.types';
+import type { SearchResult } from '../types/search.types';
+
+export type MatchType = SearchResult['matchType'];
+
+export const MATCH_TYPES: MatchType[] = ['semantic', 'fuzzy', 'exact', 'hybrid'];
+
+const MIN_TERM_LENGTH = 3;          // Shorter words are mostly stop words
+const MAX_DIAGNOSTIC_DEPTH = 3;
+
+/**
+ * Distinct words of a query worth checking for in results
+ */
+export function queryTerms(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= MIN_TERM_LENGTH);
+  return Array.from(new Set(words));
+}
+
+/**
+ * Split query terms into those found in a dump's text and those missing
+ * (a semantic match may contain none of them)
+ */
+export function queryTermCoverage(query: string, dump: Dump): { found: string[]; missing: string[] } {
+  const content = `${dump.raw_content ?? ''} ${dump.ai_summary ?? ''}`.toLowerCase();
+  const found: string[] = [];
+  const missing: string[] = [];
+  queryTerms(query).forEach(term => (content.includes(term) ? found : missing).push(term));
+  return { found, missing };
+}
+
+/**
+ * Terms the backend added when enhancing the query
+ */
+export function addedQueryTerms(original: string, enhanced: string): string[] {
+  const originalTerms = new Set(queryTerms(original));
+  return queryTerms(enhanced).filter(term => !originalTerms.has(term));
+}
+
+/**
+ * Results per match type on the loaded page
+ */
+export function countMatchTypes(results: SearchResult[]): Record<MatchType, number> {
+  return results.reduce(
+    (counts, result) => {
+      counts[result.matchType] = (counts[result.matchType] ?? 0) + 1;
+      return counts;
+    },
+    { semantic: 0, fuzzy: 0, exact: 0, hybrid: 0 } as Record<MatchType, number>
+  );
+}
+
+/**
+ * Flatten a diagnostics object into `a.b.c: value` rows for display
+ */
+export function flattenDiagnostics(value: unknown, prefix = '', depth = 0): Array<{ key: string; value: string }> {
+  if (value === null || value === undefined) {
+    return prefix ? [{ key: prefix, value: '—' }] : [];
+  }
+  if (typeof value !== 'object') {
+    return [{ key: prefix || 'value', value: String(value) }];
+  }
+  if (Array.isArray(value) || depth >= MAX_DIAGNOSTIC_DEPTH) {
+    return [{ key: prefix || 'value', value: JSON.stringify(value) }];
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, nested]) =>
+    flattenDiagnostics(nested, prefix ? `${prefix}.${key}` : key, depth + 1)
+  );
+}
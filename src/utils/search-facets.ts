@@ -0,0 +1,79 @@
+/**
+ * Search Facets
+ *
+ * Local aggregation of filter counts over a sample of the current query's
+ * matches. Filters are re-applied client-side so each facet can be counted
+ * with all other filters but its own (disjunctive faceting).
+ */
+
+import type { Dump } from '../types/dump.types';
+import type { SearchFacets, SearchFilters } from '../types/search.types';
+
+export type FacetField = 'contentTypes' | 'categories' | 'urgencyLevels' | 'statuses' | 'minConfidence' | 'dateRange';
+
+// Lower bounds offered by the confidence facet
+export const CONFIDENCE_BANDS = [0, 50, 70, 90];
+
+const MAX_URGENCY = 3;            // Level 4 (critical) is counted as high, like the filter options
+
+const urgencyOf = (dump: Dump) => Math.min(Math.max(dump.urgency_level || 1, 1), MAX_URGENCY);
+
+const dayOf = (dump: Dump) => (dump.created_at ?? '').slice(0, 10);
+
+/**
+ * True when a dump passes `filters`, ignoring the `skip` facet
+ */
+export function matchesSearchFilters(dump: Dump, filters: SearchFilters, skip?: FacetField): boolean {
+  const contentTypes: string[] = filters.contentTypes ?? [];
+  const urgencyLevels: number[] = filters.urgencyLevels ?? [];
+
+  if (skip !== 'contentTypes' && contentTypes.length && !contentTypes.includes(dump.content_type)) return false;
+  if (skip !== 'categories' && filters.categories?.length && !filters.categories.includes(dump.category_id)) return false;
+  if (skip !== 'urgencyLevels' && urgencyLevels.length && !urgencyLevels.includes(urgencyOf(dump))) return false;
+  if (skip !== 'statuses' && filters.statuses?.length && !filters.statuses.includes(dump.processing_status)) return false;
+  if (skip !== 'minConfidence' && filters.minConfidence && (dump.ai_confidence ?? 0) < filters.minConfidence) {
+    return false;
+  }
+  if (skip !== 'dateRange') {
+    const day = dayOf(dump);
+    if (filters.dateRange?.from && day < filters.dateRange.from) return false;
+    if (filters.dateRange?.to && day > filters.dateRange.to) return false;
+  }
+  return true;
+}
+
+function countBy<K extends string | number>(dumps: Dump[], key: (dump: Dump) => K): Record<K, number> {
+  return dumps.reduce((counts, dump) => {
+    const value = key(dump);
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {} as Record<K, number>);
+}
+
+/**
+ * Count every facet over `sample` under the current filters
+ *
+ * @param total - Matches reported by the API (the sample may be smaller)
+ */
+export function computeSearchFacets(sample: Dump[], filters: SearchFilters, total: number): SearchFacets {
+  const without = (field: FacetField) => sample.filter(dump => matchesSearchFilters(dump, filters, field));
+
+  const byConfidence = without('minConfidence');
+  const byDate = without('dateRange');
+
+  return {
+    contentTypes: countBy(without('contentTypes'), dump => dump.content_type),
+    categories: countBy(without('categories'), dump => dump.category_id),
+    urgencyLevels: countBy(without('urgencyLevels'), urgencyOf),
+    statuses: countBy(without('statuses'), dump => dump.processing_status),
+    confidenceBands: CONFIDENCE_BANDS.map(min => ({
+      min,
+      count: byConfidence.filter(dump => (dump.ai_confidence ?? 0) >= min).length,
+    })),
+    dateHistogram: Object.entries(countBy(byDate.filter(dump => dayOf(dump)), dump => dayOf(dump).slice(0, 7)))
+      .map(([month, count]) => ({ month, count }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+    sampled: sample.length,
+    total,
+  };
+}
@@ -0,0 +1,378 @@
+/**
+ * Search Index
+ *
+ * In-browser inverted index over dumps for instant and offline search.
+ * Each dump is tokenized once (raw content, AI summary, entity values,
+ * category name) into a document; postings map every token to the dumps
+ * containing it and are rebuilt from the documents whenever they change.
+ * Documents also keep each dump's content vector for local semantic search
+ * (see vector-index.ts).
+ */
+
+import type { Dump } from '../types/dump.types';
+import type { ParsedSearchQuery, SearchFilters, SearchResult, SearchResults } from '../types/search.types';
+import { normalizeContent } from './duplicates';
+import { MIN_RELATED_SIMILARITY, toVector } from './similarity';
+import { centroid, createVectorIndex, queryVectorIndex, type VectorIndex } from './vector-index';
+import { matchesSearchFilters } from './search-facets';
+import { matchesQueryConstraints, mergeSearchFilters } from './search-query';
+
+export const SEARCH_INDEX_VERSION = 2;           // Bump when tokenization changes; stored documents are then dropped
+
+export type IndexedField = 'raw_content' | 'ai_summary' | 'entities' | 'category';
+
+// Summaries and entities are denser than the raw text they come from
+const FIELD_WEIGHTS: Record<IndexedField, number> = {
+  raw_content: 1,
+  ai_summary: 1.5,
+  entities: 2,
+  category: 1,
+};
+const PREFIX_MATCH_FACTOR = 0.5;                 // "meet" finding "meeting" counts half
+const MIN_PREFIX_LENGTH = 2;
+const SEMANTIC_LIMIT = 50;                       // Neighbors considered per vector query
+const HYBRID_SEEDS = 3;                          // Best text matches whose vectors steer the semantic half
+const HYBRID_TEXT_WEIGHT = 0.6;                  // The rest of the hybrid score is vector similarity
+
+/**
+ * One tokenized dump
+ */
+export interface SearchIndexDocument {
+  dump: Dump;                    // content_vector moved to `vector`
+  signature: string;             // Indexed text; the dump is re-tokenized when it changes
+  terms: Record<string, { weight: number; fields: IndexedField[] }>;
+  vector: Float32Array | null;   // Compact copy of content_vector
+}
+
+export interface SearchIndex {
+  documents: Record<string, SearchIndexDocument>;  // By dump ID
+  postings: Map<string, string[]>;                  // Token -> IDs of dumps containing it
+}
+
+/**
+ * Split text into index tokens (same normalization as duplicate detection)
+ */
+export function tokenizeText(text: string): string[] {
+  return normalizeContent(text).split(' ').filter(Boolean);
+}
+
+function indexedFields(dump: Dump): Record<IndexedField, string> {
+  const entities = dump.extracted_entities?.entities;
+  const entityValues = entities
+    ? [
+        ...(entities.people ?? []),
+        ...(entities.organizations ?? []),
+        ...(entities.locations ?? []),
+        ...(entities.amounts ?? []),
+        ...(entities.contacts?.emails ?? []),
+        ...(entities.contacts?.phones ?? []),
+        ...(entities.contacts?.urls ?? []),
+      ]
+    : [];
+
+  return {
+    raw_content: dump.raw_content ?? '',
+    ai_summary: dump.ai_summary ?? '',
+    entities: entityValues.join(' '),
+    category: dump.category?.name ?? '',
+  };
+}
+
+/**
+ * Tokenize one dump
+ */
+export function createIndexDocument(dump: Dump): SearchIndexDocument {
+  const fields = indexedFields(dump);
+  const terms: SearchIndexDocument['terms'] = {};
+
+  (Object.keys(fields) as IndexedField[]).forEach(field => {
+    tokenizeText(fields[field]).forEach(token => {
+      const term = (terms[token] ??= { weight: 0, fields: [] });
+      term.weight += FIELD_WEIGHTS[field];
+      if (!term.fields.includes(field)) {
+        term.fields.push(field);
+      }
+    });
+  });
+
+  const vector = toVector(dump.content_vector);
+  return {
+    dump: { ...dump, content_vector: [] },
+    signature: Object.values(fields).join('\u0000'),
+    terms,
+    vector: vector ? Float32Array.from(vector) : null,
+  };
+}
+
+/**
+ * Build the postings for a set of documents
+ */
+export function createSearchIndex(documents: Record<string, SearchIndexDocument>): SearchIndex {
+  const postings = new Map<string, string[]>();
+  Object.entries(documents).forEach(([id, document]) => {
+    Object.keys(document.terms).forEach(token => {
+      const ids = postings.get(token);
+      if (ids) {
+        ids.push(id);
+      } else {
+        postings.set(token, [id]);
+      }
+    });
+  });
+  return { documents, postings };
+}
+
+/**
+ * Bring stored documents up to date with the loaded dumps
+ * Loaded dumps are (re-)tokenized when new or changed. Dumps load newest
+ * first, so a stored document at least as new as the oldest loaded dump
+ * but missing from them has been deleted and is dropped.
+ *
+ * @returns The same object when nothing changed
+ */
+export function syncIndexDocuments(
+  documents: Record<string, SearchIndexDocument>,
+  loaded: Dump[]
+): Record<string, SearchIndexDocument> {
+  if (loaded.length === 0) return documents;
+
+  const loadedIds = new Set(loaded.map(dump => dump.id));
+  const oldestLoaded = loaded.reduce(
+    (oldest, dump) => (dump.created_at < oldest ? dump.created_at : oldest),
+    loaded[0].created_at
+  );
+
+  let changed = false;
+  const next: Record<string, SearchIndexDocument> = {};
+  Object.entries(documents).forEach(([id, document]) => {
+    if (!loadedIds.has(id) && document.dump.created_at >= oldestLoaded) {
+      changed = true;
+    } else {
+      next[id] = document;
+    }
+  });
+  loaded.forEach(dump => {
+    const existing = next[dump.id];
+    if (
+      !existing ||
+      existing.signature !== Object.values(indexedFields(dump)).join('\u0000') ||
+      (!existing.vector && toVector(dump.content_vector))
+    ) {
+      next[dump.id] = createIndexDocument(dump);
+      changed = true;
+    }
+  });
+
+  return changed ? next : documents;
+}
+
+/**
+ * Dumps containing every term of `text` (as a word or a word prefix),
+ * best first. Scores add each term's field weight times its rarity and
+ * are scaled so the best match is 1.
+ */
+export function searchIndex(index: SearchIndex, text: string): SearchResult[] {
+  const terms = [...new Set(tokenizeText(text))];
+  const documentCount = Object.keys(index.documents).length;
+  if (terms.length === 0 || documentCount === 0) return [];
+
+  let tokens: string[] | null = null;
+  const scores = new Map<string, { score: number; exact: boolean; fields: Set<IndexedField> }>();
+
+  terms.forEach((term, termIndex) => {
+    // Best way each dump matches this term (an exact token beats a prefix)
+    const matches = new Map<string, { score: number; exact: boolean; fields: IndexedField[] }>();
+    const addMatches = (token: string, exact: boolean) => {
+      const ids = index.postings.get(token) ?? [];
+      const rarity = Math.log(1 + documentCount / ids.length);
+      ids.forEach(id => {
+        const indexed = index.documents[id].terms[token];
+        const score = indexed.weight * rarity * (exact ? 1 : PREFIX_MATCH_FACTOR);
+        const current = matches.get(id);
+        if (!current || score > current.score) {
+          matches.set(id, { score, exact, fields: indexed.fields });
+        }
+      });
+    };
+
+    addMatches(term, true);
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      tokens ??= [...index.postings.keys()];
+      tokens.filter(token => token !== term && token.startsWith(term)).forEach(token => addMatches(token, false));
+    }
+
+    // Every term has to match
+    if (termIndex === 0) {
+      matches.forEach((match, id) => scores.set(id, { ...match, fields: new Set(match.fields) }));
+    } else {
+      scores.forEach((entry, id) => {
+        const match = matches.get(id);
+        if (!match) {
+          scores.delete(id);
+          return;
+        }
+        entry.score += match.score;
+        entry.exact &&= match.exact;
+        match.fields.forEach(field => entry.fields.add(field));
+      });
+    }
+  });
+
+  const best = Math.max(0, ...[...scores.values()].map(entry => entry.score));
+  return [...scores.entries()]
+    .map<SearchResult>(([id, entry]) => ({
+      dump: index.documents[id].dump,
+      relevanceScore: best ? entry.score / best : 0,
+      matchType: entry.exact ? 'exact' : 'fuzzy',
+      matchedFields: [...entry.fields],
+    }))
+    .sort((a, b) => b.relevanceScore - a.relevanceScore || b.dump.created_at.localeCompare(a.dump.created_at));
+}
+
+/**
+ * Text matches for a query; without text (operator-only queries) every
+ * document matches and the filters narrow them down, newest first
+ */
+function matchText(index: SearchIndex, text: string): SearchResult[] {
+  if (text) return searchIndex(index, text);
+  return Object.values(index.documents)
+    .map<SearchResult>(document => ({ dump: document.dump, relevanceScore: 1, matchType: 'exact', matchedFields: [] }))
+    .sort((a, b) => b.dump.created_at.localeCompare(a.dump.created_at));
+}
+
+/**
+ * Vector index over the documents that have a content vector
+ */
+export function createDocumentVectorIndex(documents: Record<string, SearchIndexDocument>): VectorIndex {
+  return createVectorIndex(
+    Object.entries(documents).flatMap(([id, document]) => (document.vector ? [{ id, vector: document.vector }] : []))
+  );
+}
+
+/**
+ * Dumps closest in meaning to `dump` ("more like this")
+ */
+export function findSimilarDocuments(
+  index: SearchIndex,
+  vectorIndex: VectorIndex,
+  dump: Dump
+): SearchResult[] {
+  const vector = toVector(dump.content_vector) ?? index.documents[dump.id]?.vector;
+  if (!vector) return [];
+
+  return queryVectorIndex(vectorIndex, vector, SEMANTIC_LIMIT, MIN_RELATED_SIMILARITY, new Set([dump.id])).map(
+    neighbor => ({
+      dump: index.documents[neighbor.id].dump,
+      relevanceScore: neighbor.similarity,
+      matchType: 'semantic',
+      matchedFields: ['content_vector'],
+    })
+  );
+}
+
+/**
+ * Text matches blended with their semantic neighbors. The best text
+ * matches' vectors stand in for the query's (which only the backend can
+ * embed); dumps found both ways rank highest.
+ */
+export function searchHybrid(
+  index: SearchIndex,
+  vectorIndex: VectorIndex,
+  parsed: ParsedSearchQuery,
+  filters: SearchFilters
+): SearchResult[] {
+  if (!parsed.text) return queryLocalIndex(index, parsed, filters);
+
+  const textMatches = searchIndex(index, parsed.text);
+  const seeds = textMatches
+    .slice(0, HYBRID_SEEDS)
+    .map(result => index.documents[result.dump.id]?.vector)
+    .filter((vector): vector is Float32Array => !!vector);
+  const queryVector = centroid(seeds);
+  const neighbors = queryVector
+    ? queryVectorIndex(vectorIndex, queryVector, SEMANTIC_LIMIT, MIN_RELATED_SIMILARITY)
+    : [];
+  const similarities = new Map(neighbors.map(neighbor => [neighbor.id, neighbor.similarity]));
+
+  const blended = new Map<string, SearchResult>();
+  textMatches.forEach(result => {
+    const similarity = similarities.get(result.dump.id);
+    blended.set(result.dump.id, {
+      ...result,
+      relevanceScore: HYBRID_TEXT_WEIGHT * result.relevanceScore + (1 - HYBRID_TEXT_WEIGHT) * (similarity ?? 0),
+      matchType: similarity === undefined ? result.matchType : 'hybrid',
+      matchedFields: similarity === undefined ? result.matchedFields : [...result.matchedFields, 'content_vector'],
+    });
+  });
+  neighbors.forEach(neighbor => {
+    if (!blended.has(neighbor.id)) {
+      blended.set(neighbor.id, {
+        dump: index.documents[neighbor.id].dump,
+        relevanceScore: (1 - HYBRID_TEXT_WEIGHT) * neighbor.similarity,
+        matchType: 'semantic',
+        matchedFields: ['content_vector'],
+      });
+    }
+  });
+
+  const merged = mergeSearchFilters(filters, parsed.filters);
+  return [...blended.values()]
+    .filter(result => matchesSearchFilters(result.dump, merged) && matchesQueryConstraints(result.dump, parsed))
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
+/**
+ * Local matches for a parsed query, with the filter panel and the query's
+ * own operators, phrases and exclusions applied
+ */
+export function queryLocalIndex(index: SearchIndex, parsed: ParsedSearchQuery, filters: SearchFilters): SearchResult[] {
+  const merged = mergeSearchFilters(filters, parsed.filters);
+  return matchText(index, parsed.text).filter(
+    result => matchesSearchFilters(result.dump, merged) && matchesQueryConstraints(result.dump, parsed)
+  );
+}
+
+/**
+ * Wrap local matches as a results page (offset `from`, at most `limit`)
+ */
+export function toLocalSearchResults(
+  query: string,
+  matches: SearchResult[],
+  from: number,
+  limit: number,
+  processingTime: number
+): SearchResults {
+  const results = matches.slice(from, from + limit);
+  return {
+    results,
+    total: matches.length,
+    query: { original: query, enhanced: query, processingTime },
+    metadata: {
+      semanticResults: results.filter(result => result.matchType === 'semantic').length,
+      fuzzyResults: results.filter(result => result.matchType === 'fuzzy').length,
+      exactResults: results.filter(result => result.matchType === 'exact').length,
+      filters: {},
+    },
+    source: 'local',
+  };
+}
+
+/**
+ * Add local matches the server missed to its results; they are only added
+ * once the server's result list is complete, since missing matches may
+ * just be on pages not loaded yet. Server results win for dumps in both.
+ */
+export function mergeLocalResults(server: SearchResults, local: SearchResult[], complete: boolean): SearchResults {
+  if (!complete || local.length === 0) return server;
+
+  const serverIds = new Set(server.results.map(result => result.dump.id));
+  const localOnly = local.filter(result => !serverIds.has(result.dump.id));
+  if (localOnly.length === 0) return server;
+
+  return {
+    ...server,
+    results: [...server.results, ...localOnly],
+    total: server.total + localOnly.length,
+    localMatches: localOnly.length,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Search Pages
+ *
+ * Joins consecutively fetched result pages into one result set for
+ * infinite scrolling
+ */
+
+import type { SearchResults } from '../types/search.types';
+
+/**
+ * Combine pages 1..n of one search, in order
+ * Results repeated across pages (offsets shift when dumps are added
+ * between requests) are kept once. Each page's total is already reduced by
+ * what that page filtered locally, so the combined total starts from the
+ * latest API total and subtracts everything filtered so far.
+ */
+export function combineSearchPages(pages: SearchResults[]): SearchResults {
+  const [first] = pages;
+  const last = pages[pages.length - 1];
+  if (pages.length === 1) {
+    return first;
+  }
+
+  const seen = new Set<string>();
+  const results = pages
+    .flatMap(page => page.results)
+    .filter(result => !seen.has(result.dump.id) && !!seen.add(result.dump.id));
+  const locallyFiltered = pages.reduce((sum, page) => sum + (page.locallyFiltered ?? 0), 0);
+  const apiTotal = last.total + (last.locallyFiltered ?? 0);
+
+  return {
+    ...first,
+    results,
+    total: apiTotal - locallyFiltered,
+    locallyFiltered,
+  };
+}
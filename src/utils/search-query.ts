@@ -0,0 +1,364 @@
+/**
+ * Search Query Language
+ *
+ * Parses operators typed into the search bar into filters, e.g.
+ *   category:finance urgency:high before:2026-11-01 type:email has:reminder "exact phrase" -excluded
+ *
+ * Operators become SearchFilters fields sent to the API; phrases, exclusions
+ * and `has:` are sent too and checked again against the returned results.
+ * Malformed clauses are reported as error tokens and otherwise ignored, so a
+ * typo never blocks a search.
+ */
+
+import { format, isValid, parseISO, subDays } from 'date-fns';
+import type { ContentType, Dump, UrgencyLevel } from '../types/dump.types';
+import type {
+  ParsedSearchQuery,
+  QueryHasValue,
+  QueryConstraints,
+  QueryOperator,
+  QueryToken,
+  SearchFilters,
+} from '../types/search.types';
+import { enrichDump } from './time-buckets';
+
+export const QUERY_OPERATORS: QueryOperator[] = [
+  'category',
+  'type',
+  'urgency',
+  'status',
+  'before',
+  'after',
+  'confidence',
+  'has',
+];
+
+// Accepted values per operator (category values come from the backend)
+export const QUERY_OPERATOR_VALUES: Record<'type' | 'urgency' | 'status' | 'has', string[]> = {
+  type: ['text', 'voice', 'image', 'email'],
+  urgency: ['low', 'medium', 'high'],
+  status: ['processing'],
+  has: ['reminder', 'tracking', 'amount', 'media'],
+};
+
+const URGENCY_VALUES: Record<string, UrgencyLevel> = { low: 1, medium: 2, high: 3, '1': 1, '2': 2, '3': 3 };
+const UNSUPPORTED_STATUSES = ['received', 'completed', 'failed'];   // Real statuses the API can't filter by
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OPERATOR_PATTERN = /^([a-z]+):(.*)$/i;
+const MAX_COMPLETIONS = 8;
+
+/**
+ * Category as needed for resolving `category:` names to ids
+ */
+export interface QueryCategory {
+  id: string;
+  name: string;
+}
+
+/**
+ * Suggestion for the token under the caret
+ */
+export interface QueryCompletion {
+  label: string;                 // Shown in the dropdown
+  insert: string;                // Replaces the token being typed
+  operator?: QueryOperator;      // Operator suggestions carry their name for a description
+}
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[\s_-]+/g, '');
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Read a quoted value starting at `index` (which holds the opening quote)
+ */
+function readQuoted(input: string, index: number): { value: string; end: number; closed: boolean } {
+  const close = input.indexOf('"', index + 1);
+  return close === -1
+    ? { value: input.slice(index + 1).trim(), end: input.length, closed: false }
+    : { value: input.slice(index + 1, close).trim(), end: close + 1, closed: true };
+}
+
+/**
+ * Split search text into tokens, flagging syntax errors (not value errors)
+ */
+export function tokenizeSearchQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (isSpace(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === '-' && index + 1 < input.length && !isSpace(input[index + 1]);
+    if (negated) index++;
+
+    // "exact phrase" / -"excluded phrase"
+    if (input[index] === '"') {
+      const { value, end, closed } = readQuoted(input, index);
+      tokens.push({
+        kind: negated ? 'exclude' : 'phrase',
+        raw: input.slice(start, end),
+        start,
+        end,
+        value,
+        error: closed ? undefined : 'unclosedQuote',
+      });
+      index = end;
+      continue;
+    }
+
+    let wordEnd = index;
+    while (wordEnd < input.length && !isSpace(input[wordEnd]) && input[wordEnd] !== '"') wordEnd++;
+    const word = input.slice(index, wordEnd);
+    const match = OPERATOR_PATTERN.exec(word);
+
+    // operator:value / operator:"quoted value" (URLs such as https://... stay text)
+    if (match && !match[2].startsWith('//')) {
+      const name = match[1].toLowerCase();
+      let value = match[2];
+      let end = wordEnd;
+      let closed = true;
+      if (!value && input[wordEnd] === '"') {
+        ({ value, end, closed } = readQuoted(input, wordEnd));
+      }
+
+      const known = QUERY_OPERATORS.includes(name as QueryOperator);
+      tokens.push({
+        kind: 'operator',
+        raw: input.slice(start, end),
+        start,
+        end,
+        value,
+        operator: known ? (name as QueryOperator) : undefined,
+        error: !closed
+          ? 'unclosedQuote'
+          : !known
+            ? 'unknownOperator'
+            : negated
+              ? 'negatedOperator'
+              : undefined,
+      });
+      index = end;
+      continue;
+    }
+
+    tokens.push({
+      kind: negated ? 'exclude' : 'text',
+      raw: input.slice(start, wordEnd),
+      start,
+      end: wordEnd,
+      value: word,
+    });
+    index = wordEnd;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse search text into an API query, filters and local constraints
+ *
+ * @param categories - Known categories; null while they are still loading
+ *                     (category clauses are then neither applied nor flagged)
+ */
+export function parseSearchQuery(input: string, categories: QueryCategory[] | null): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const has: QueryHasValue[] = [];
+  const words: string[] = [];
+
+  const add = <T>(list: T[] | undefined, value: T): T[] => (list?.includes(value) ? list : [...(list ?? []), value]);
+
+  const tokens = tokenizeSearchQuery(input).map((token): QueryToken => {
+    if (token.error) return token;
+    if (token.kind === 'text' || token.kind === 'phrase') {
+      if (token.value) words.push(token.value);
+      return token;
+    }
+    if (token.kind !== 'operator' || !token.operator) return token;
+
+    const value = token.value.trim();
+    if (!value) return { ...token, error: 'emptyValue' };
+    const lower = value.toLowerCase();
+
+    switch (token.operator) {
+      case 'category': {
+        if (!categories) return token;
+        const category = categories.find(item => normalizeName(item.name) === normalizeName(value));
+        if (!category) return { ...token, error: 'unknownCategory' };
+        filters.categories = add(filters.categories, category.id);
+        return token;
+      }
+      case 'type':
+        if (!QUERY_OPERATOR_VALUES.type.includes(lower)) return { ...token, error: 'invalidValue' };
+        filters.contentTypes = add(filters.contentTypes, lower as ContentType);
+        return token;
+      case 'urgency':
+        if (!(lower in URGENCY_VALUES)) return { ...token, error: 'invalidValue' };
+        filters.urgencyLevels = add(filters.urgencyLevels, URGENCY_VALUES[lower]);
+        return token;
+      case 'status':
+        if (!QUERY_OPERATOR_VALUES.status.includes(lower)) {
+          return { ...token, error: UNSUPPORTED_STATUSES.includes(lower) ? 'unsupportedValue' : 'invalidValue' };
+        }
+        filters.statuses = add(filters.statuses, lower);
+        return token;
+      case 'before':
+      case 'after':
+        if (!DATE_PATTERN.test(value) || !isValid(parseISO(value))) return { ...token, error: 'invalidDate' };
+        // The API's dateTo is inclusive, so before: ends the range on the previous day
+        filters.dateRange =
+          token.operator === 'before'
+            ? { ...filters.dateRange, to: format(subDays(parseISO(value), 1), 'yyyy-MM-dd') }
+            : { ...filters.dateRange, from: value };
+        return token;
+      case 'confidence': {
+        const confidence = Number(value.replace(/%$/, ''));
+        if (!Number.isInteger(confidence) || confidence < 0 || confidence > 100) {
+          return { ...token, error: 'invalidValue' };
+        }
+        filters.minConfidence = confidence;
+        return token;
+      }
+      case 'has':
+        if (!QUERY_OPERATOR_VALUES.has.includes(lower)) return { ...token, error: 'invalidValue' };
+        if (!has.includes(lower as QueryHasValue)) has.push(lower as QueryHasValue);
+        return token;
+    }
+    return token;
+  });
+
+  return {
+    text: words.join(' '),
+    filters,
+    phrases: tokens.filter(token => token.kind === 'phrase' && !token.error && token.value).map(token => token.value),
+    excluded: tokens.filter(token => token.kind === 'exclude' && !token.error && token.value).map(token => token.value),
+    has,
+    tokens,
+    errors: tokens.filter(token => token.error),
+  };
+}
+
+/**
+ * Whether a parsed query asks for anything; operator-only queries search
+ * with filters and no text
+ */
+export function hasSearchCriteria(parsed: ParsedSearchQuery): boolean {
+  return !!parsed.text || Object.keys(parsed.filters).length > 0 || parsed.excluded.length > 0 || parsed.has.length > 0;
+}
+
+/**
+ * Combine FilterPanel filters with those typed in the query
+ * Lists are unioned, typed dates win, the stricter confidence wins
+ */
+export function mergeSearchFilters(panel: SearchFilters, typed: SearchFilters): SearchFilters {
+  const union = <T>(a?: T[], b?: T[]): T[] | undefined =>
+    a?.length || b?.length ? Array.from(new Set([...(a ?? []), ...(b ?? [])])) : undefined;
+
+  const dateRange = typed.dateRange || panel.dateRange
+    ? {
+        from: typed.dateRange?.from ?? panel.dateRange?.from,
+        to: typed.dateRange?.to ?? panel.dateRange?.to,
+      }
+    : undefined;
+
+  return {
+    ...panel,
+    contentTypes: union(panel.contentTypes, typed.contentTypes),
+    categories: union(panel.categories, typed.categories),
+    urgencyLevels: union(panel.urgencyLevels, typed.urgencyLevels),
+    statuses: union(panel.statuses, typed.statuses),
+    minConfidence: Math.max(panel.minConfidence ?? 0, typed.minConfidence ?? 0),
+    dateRange,
+  };
+}
+
+/**
+ * Check a result against the phrase, exclusion and has: clauses (for local
+ * results, and for servers that ignore them)
+ */
+export function matchesQueryConstraints(dump: Dump, parsed: QueryConstraints): boolean {
+  if (parsed.phrases.length === 0 && parsed.excluded.length === 0 && parsed.has.length === 0) {
+    return true;
+  }
+
+  const content = `${dump.raw_content ?? ''} ${dump.ai_summary ?? ''}`.toLowerCase();
+  if (!parsed.phrases.every(phrase => content.includes(phrase.toLowerCase()))) return false;
+  if (parsed.excluded.some(term => content.includes(term.toLowerCase()))) return false;
+
+  if (parsed.has.length === 0) return true;
+  const enriched = enrichDump(dump);
+  return parsed.has.every(value => {
+    switch (value) {
+      case 'reminder':
+        return enriched.hasReminder;
+      case 'tracking':
+        return enriched.hasTracking;
+      case 'amount':
+        return (dump.extracted_entities?.entities?.amounts?.length ?? 0) > 0;
+      case 'media':
+        return !!dump.media_url;
+    }
+    return true;
+  });
+}
+
+/**
+ * Suggestions for the token ending at `caret`: operator names while typing
+ * a bare word, then values once the colon is typed
+ *
+ * @returns The range to replace and the suggestions (empty when nothing fits)
+ */
+export function getQueryCompletions(
+  input: string,
+  caret: number,
+  categories: QueryCategory[]
+): { start: number; end: number; completions: QueryCompletion[] } {
+  let start = caret;
+  while (start > 0 && !isSpace(input[start - 1])) start--;
+  let end = caret;
+  while (end < input.length && !isSpace(input[end])) end++;
+
+  const fragment = input.slice(start, caret);
+  const empty = { start, end, completions: [] };
+  if (!fragment) return empty;
+
+  const match = OPERATOR_PATTERN.exec(fragment);
+  if (!match) {
+    if (!/^[a-z]+$/i.test(fragment)) return empty;
+    const prefix = fragment.toLowerCase();
+    return {
+      start,
+      end,
+      completions: QUERY_OPERATORS.filter(operator => operator.startsWith(prefix)).map(operator => ({
+        label: `${operator}:`,
+        insert: `${operator}:`,
+        operator,
+      })),
+    };
+  }
+
+  const operator = match[1].toLowerCase() as QueryOperator;
+  if (!QUERY_OPERATORS.includes(operator)) return empty;
+
+  const partial = match[2].replace(/^"/, '').toLowerCase();
+  const values = operator === 'category'
+    ? categories.map(category => category.name)
+    : operator in QUERY_OPERATOR_VALUES
+      ? QUERY_OPERATOR_VALUES[operator as keyof typeof QUERY_OPERATOR_VALUES]
+      : [];
+
+  return {
+    start,
+    end,
+    completions: values
+      .filter(value => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+      .slice(0, MAX_COMPLETIONS)
+      .map(value => ({ label: value, insert: `${operator}:${quoteIfNeeded(value)} ` })),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Search Suggestions
+ *
+ * Builds the search bar's suggestion list from recent queries, saved
+ * searches, categories and entity values found in loaded dumps
+ */
+
+import type { Dump } from '../types/dump.types';
+import type {
+  EntityValue,
+  SearchSuggestion,
+  SearchSuggestionSources,
+} from '../types/search.types';
+import type { QueryCategory } from './search-query';
+import { aggregateEntities } from './entities';
+
+const MAX_ENTITY_VALUES = 200;
+
+// Rows per group in the dropdown
+const GROUP_LIMITS = {
+  recent: 5,
+  saved: 3,
+  category: 3,
+  entity: 5,
+};
+
+/**
+ * Collect people, organizations and locations mentioned in dumps,
+ * most frequently mentioned first
+ */
+export function harvestEntityValues(dumps: Dump[]): EntityValue[] {
+  return aggregateEntities(dumps)
+    .slice(0, MAX_ENTITY_VALUES)
+    .map(entity => ({ kind: entity.kind, value: entity.name, count: entity.dumps.length }));
+}
+
+/**
+ * Suggestions for the current input
+ * With an empty input only recent and saved searches are offered; otherwise
+ * everything is matched against the word being typed (recent and saved
+ * searches against the whole input)
+ *
+ * @param fragment - Word under the caret
+ */
+export function buildSearchSuggestions(
+  sources: SearchSuggestionSources,
+  categories: QueryCategory[],
+  input: string,
+  fragment: string
+): SearchSuggestion[] {
+  const query = input.trim().toLowerCase();
+  const word = fragment.trim().toLowerCase();
+  const matches = (text: string, term: string) => text.toLowerCase().includes(term);
+
+  const recent = sources.recent
+    .filter(entry => !query || (matches(entry, query) && entry.toLowerCase() !== query))
+    .slice(0, GROUP_LIMITS.recent)
+    .map<SearchSuggestion>(entry => ({ id: `recent:${entry}`, kind: 'recent', label: entry, insert: entry }));
+
+  const saved = [...sources.savedSearches]
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned))
+    .filter(search => !query || matches(search.name, query) || matches(search.query, query))
+    .slice(0, GROUP_LIMITS.saved)
+    .map<SearchSuggestion>(search => ({
+      id: `saved:${search.id}`,
+      kind: 'saved',
+      label: search.name,
+      insert: search.query,
+      savedSearch: search,
+    }));
+
+  if (!word) {
+    return [...recent, ...saved];
+  }
+
+  const categorySuggestions = categories
+    .filter(category => matches(category.name, word))
+    .slice(0, GROUP_LIMITS.category)
+    .map<SearchSuggestion>(category => ({
+      id: `category:${category.id}`,
+      kind: 'category',
+      label: category.name,
+      insert: `category:${/\s/.test(category.name) ? `"${category.name}"` : category.name} `,
+    }));
+
+  const entitySuggestions = sources.entities
+    .filter(entity => matches(entity.value, word) && entity.value.toLowerCase() !== word)
+    .slice(0, GROUP_LIMITS.entity)
+    .map<SearchSuggestion>(entity => ({
+      id: `${entity.kind}:${entity.value}`,
+      kind: entity.kind,
+      label: entity.value,
+      insert: `${entity.value} `,
+    }));
+
+  return [...recent, ...saved, ...categorySuggestions, ...entitySuggestions];
+}
@@ -0,0 +1,141 @@
+/**
+ * Search URL Utilities
+ *
+ * Encode a complete search (query, every filter, sort) as URL query
+ * parameters and back, so searches can be bookmarked and shared.
+ * Multi-value filters are comma separated: ?q=rent&type=email,text&urgency=3
+ */
+
+import type { ContentType, UrgencyLevel } from '../types/dump.types';
+import type { SearchFilters, SearchSort, SearchState } from '../types/search.types';
+import { DEFAULT_SEARCH_FILTERS, DEFAULT_SEARCH_SORT, SEARCH_SORTS } from '../types/search.types';
+
+export const SEARCH_PARAMS = {
+  query: 'q',
+  contentTypes: 'type',
+  categories: 'category',
+  urgencyLevels: 'urgency',
+  statuses: 'status',
+  minConfidence: 'confidence',
+  dateFrom: 'from',
+  dateTo: 'to',
+  sort: 'sort',
+} as const;
+
+// Result page; kept apart from the search so saved searches don't store it
+export const PAGE_PARAM = 'page';
+
+// Saved search a link was opened from; not part of the search itself
+export const SMART_VIEW_PARAM = 'view';
+
+const CONTENT_TYPES: ContentType[] = ['text', 'voice', 'image', 'email'];
+const URGENCY_LEVELS: UrgencyLevel[] = [1, 2, 3];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+function readList(params: URLSearchParams, name: string): string[] | undefined {
+  const values = (params.get(name) ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function nonEmpty<T>(values: T[] | undefined): T[] | undefined {
+  return values && values.length > 0 ? values : undefined;
+}
+
+/**
+ * Write a search into query parameters; defaults are left out to keep links short
+ */
+export function searchStateToParams({ query, filters, sort }: SearchState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.trim()) params.set(SEARCH_PARAMS.query, query.trim());
+  if (filters.contentTypes?.length) params.set(SEARCH_PARAMS.contentTypes, filters.contentTypes.join(','));
+  if (filters.categories?.length) params.set(SEARCH_PARAMS.categories, filters.categories.join(','));
+  if (filters.urgencyLevels?.length) params.set(SEARCH_PARAMS.urgencyLevels, filters.urgencyLevels.join(','));
+  if (filters.statuses?.length) params.set(SEARCH_PARAMS.statuses, filters.statuses.join(','));
+  if (filters.minConfidence) params.set(SEARCH_PARAMS.minConfidence, String(filters.minConfidence));
+  if (filters.dateRange?.from) params.set(SEARCH_PARAMS.dateFrom, filters.dateRange.from);
+  if (filters.dateRange?.to) params.set(SEARCH_PARAMS.dateTo, filters.dateRange.to);
+  if (sort !== DEFAULT_SEARCH_SORT) params.set(SEARCH_PARAMS.sort, sort);
+
+  return params;
+}
+
+/**
+ * Read a search from query parameters
+ * Unknown values are dropped rather than sent to the API
+ *
+ * @returns null when the parameters contain no search at all
+ */
+export function searchStateFromParams(params: URLSearchParams): SearchState | null {
+  if (!Object.values(SEARCH_PARAMS).some(name => params.has(name))) {
+    return null;
+  }
+
+  const query = params.get(SEARCH_PARAMS.query)?.trim() ?? '';
+
+  const confidence = Number(params.get(SEARCH_PARAMS.minConfidence));
+  const from = params.get(SEARCH_PARAMS.dateFrom) ?? '';
+  const to = params.get(SEARCH_PARAMS.dateTo) ?? '';
+  const sort = params.get(SEARCH_PARAMS.sort) as SearchSort | null;
+
+  const filters: SearchFilters = {
+    ...DEFAULT_SEARCH_FILTERS,
+    contentTypes: nonEmpty(
+      readList(params, SEARCH_PARAMS.contentTypes)?.filter((value): value is ContentType =>
+        CONTENT_TYPES.includes(value as ContentType)
+      )
+    ),
+    categories: readList(params, SEARCH_PARAMS.categories),
+    urgencyLevels: nonEmpty(
+      readList(params, SEARCH_PARAMS.urgencyLevels)
+        ?.map(Number)
+        .filter((value): value is UrgencyLevel => URGENCY_LEVELS.includes(value as UrgencyLevel))
+    ),
+    statuses: readList(params, SEARCH_PARAMS.statuses),
+    minConfidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 100) : 0,
+    dateRange:
+      ISO_DATE.test(from) || ISO_DATE.test(to)
+        ? { from: ISO_DATE.test(from) ? from : undefined, to: ISO_DATE.test(to) ? to : undefined }
+        : undefined,
+  };
+
+  return {
+    query,
+    filters,
+    sort: sort && SEARCH_SORTS.includes(sort) ? sort : DEFAULT_SEARCH_SORT,
+  };
+}
+
+/**
+ * Read the result page (1-based); anything invalid means the first page
+ */
+export function pageFromParams(params: URLSearchParams): number {
+  const page = Number(params.get(PAGE_PARAM));
+  return Number.isInteger(page) && page > 1 ? page : 1;
+}
+
+/**
+ * Replace the search (and page) in `params`, keeping unrelated parameters
+ * such as an open dump or the smart view
+ */
+export function withSearchParams(params: URLSearchParams, state: SearchState, page: number): URLSearchParams {
+  const next = new URLSearchParams(params);
+  [...Object.values(SEARCH_PARAMS), PAGE_PARAM].forEach(name => next.delete(name));
+  searchStateToParams(state).forEach((value, name) => next.set(name, value));
+  if (page > 1) next.set(PAGE_PARAM, String(page));
+  return next;
+}
+
+/**
+ * Path to the search page with the given search applied
+ *
+ * @param viewId - Saved search the link belongs to (highlights its smart view)
+ */
+export function buildSearchPath(state: SearchState, viewId?: string): string {
+  const params = searchStateToParams(state);
+  if (viewId) params.set(SMART_VIEW_PARAM, viewId);
+  return `/search?${params.toString()}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Similarity Utilities
+ *
+ * Relates dumps by their content vectors (cosine similarity) and by the
+ * people and organizations they mention
+ */
+
+import type { Dump, RelatedDump } from '../types/dump.types';
+
+export const MIN_RELATED_SIMILARITY = 0.75;     // Weaker neighbors are mostly noise
+export const NEAR_DUPLICATE_SIMILARITY = 0.95;
+const DEFAULT_RELATED_LIMIT = 5;
+
+/**
+ * Read a content vector; the backend may send pgvector's "[0.1,0.2,...]" text form
+ */
+export function toVector(value: unknown): number[] | null {
+  let vector = value;
+  if (typeof value === 'string') {
+    try {
+      vector = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return Array.isArray(vector) && vector.length > 0 && vector.every(item => typeof item === 'number')
+    ? (vector as number[])
+    : null;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when lengths differ or either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * People and organizations mentioned by both dumps (case-insensitive)
+ */
+export function findSharedEntities(a: Dump, b: Dump): RelatedDump['sharedEntities'] {
+  const fields = [
+    { kind: 'person', field: 'people' },
+    { kind: 'organization', field: 'organizations' },
+  ] as const;
+
+  return fields.flatMap(({ kind, field }) => {
+    const theirs = new Set(
+      (b.extracted_entities?.entities?.[field] ?? []).map(value => String(value).trim().toLowerCase())
+    );
+    const seen = new Set<string>();
+    return (a.extracted_entities?.entities?.[field] ?? [])
+      .map(value => String(value).trim())
+      .filter(value => {
+        const key = value.toLowerCase();
+        if (!value || seen.has(key) || !theirs.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(value => ({ kind, value }));
+  });
+}
+
+/**
+ * Dumps related to `target` among `candidates`: close content vectors or
+ * shared people/organizations, most similar first
+ */
+export function findRelatedDumps(target: Dump, candidates: Dump[], limit = DEFAULT_RELATED_LIMIT): RelatedDump[] {
+  const targetVector = toVector(target.content_vector);
+
+  return candidates
+    .filter(candidate => candidate.id !== target.id)
+    .map<RelatedDump>(candidate => {
+      const vector = targetVector && toVector(candidate.content_vector);
+      return {
+        dump: candidate,
+        similarity: targetVector && vector ? cosineSimilarity(targetVector, vector) : null,
+        sharedEntities: findSharedEntities(target, candidate),
+      };
+    })
+    .filter(related => (related.similarity ?? 0) >= MIN_RELATED_SIMILARITY || related.sharedEntities.length > 0)
+    .sort(
+      (a, b) =>
+        (b.similarity ?? 0) - (a.similarity ?? 0) ||
+        b.sharedEntities.length - a.sharedEntities.length
+    )
+    .slice(0, limit);
+}
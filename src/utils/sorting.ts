@@ -8,6 +8,7 @@
  */
 
 import type { DumpDerived } from '../types/dump.types';
+import type { SearchResult, SearchSort } from '../types/search.types';
 
 /**
  * Compare two dumps using multi-level sorting criteria
@@ -72,3 +73,24 @@ export function sortTimeBucketGroups(
 
   return sorted;
 }
+
+/**
+ * Order search results; 'relevance' keeps the backend's ranking
+ * Returns a new array (does not mutate original)
+ */
+export function sortSearchResults(results: SearchResult[], sort: SearchSort): SearchResult[] {
+  if (sort === 'relevance') {
+    return results;
+  }
+
+  const created = (result: SearchResult) => new Date(result.dump.created_at).getTime();
+
+  return [...results].sort((a, b) => {
+    if (sort === 'oldest') return created(a) - created(b);
+    if (sort === 'urgency') {
+      const urgency = (b.dump.urgency_level ?? 0) - (a.dump.urgency_level ?? 0);
+      if (urgency !== 0) return urgency;
+    }
+    return created(b) - created(a);
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * vCard Export
+ *
+ * Contacts as vCard 4.0 (RFC 6350) for address book apps. Text escaping
+ * and line folding follow the same rules as the ICS export.
+ */
+
+import { format } from 'date-fns';
+import type { Contact } from '../types/contact.types';
+import type { ExportFile } from '../types/export.types';
+import { icsEscape, icsFold } from './export';
+import { contactUrl } from './contacts';
+
+function timestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * One contact as a vCard
+ */
+export function buildVCard(contact: Contact, revision: Date = new Date()): string {
+  const displayName = contact.name || contact.emails[0] || contact.phones[0] || contact.id;
+  const words = contact.name.trim().split(/\s+/).filter(Boolean);
+  const family = words.length > 1 ? words[words.length - 1] : '';
+  const given = words.length > 1 ? words.slice(0, -1).join(' ') : words[0] ?? '';
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `UID;VALUE=text:${icsEscape(contact.id)}`,
+    `FN:${icsEscape(displayName)}`,
+    ...(contact.name ? [`N:${icsEscape(family)};${icsEscape(given)};;;`] : []),
+    ...contact.emails.map(email => `EMAIL:${icsEscape(email)}`),
+    ...contact.phones.map(phone => `TEL;VALUE=uri:tel:${phone}`),
+    ...contact.urls.map(url => `URL:${contactUrl(url)}`),
+    `REV:${timestamp(revision)}`,
+    'END:VCARD',
+  ];
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+}
+
+/**
+ * Several contacts as one .vcf file
+ */
+export function createVCardExport(contacts: Contact[], exportedAt: Date = new Date()): ExportFile {
+  const name = contacts.length === 1 && contacts[0].name ? contacts[0].name.replace(/[^\p{L}\p{N}]+/gu, '-') : 'contacts';
+  return {
+    filename: `${name}-${format(exportedAt, 'yyyy-MM-dd-HHmm')}.vcf`,
+    mimeType: 'text/vcard;charset=utf-8',
+    content: contacts.map(contact => buildVCard(contact, exportedAt)).join(''),
+  };
+}
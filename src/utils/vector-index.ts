@@ -0,0 +1,164 @@
+/**
+ * Vector Index
+ *
+ * Approximate nearest neighbors over content vectors, for semantic search
+ * without the backend. Random-hyperplane hashing (SimHash) puts vectors
+ * pointing the same way into the same bucket; a query only compares the
+ * vectors sharing a bucket with it in any table, then ranks them by exact
+ * cosine similarity. Small indexes are simply scanned.
+ */
+
+const HASH_BITS = 8;                    // Hyperplanes per table (256 buckets)
+const HASH_TABLES = 6;                  // More tables, fewer missed neighbors
+const EXACT_SCAN_LIMIT = 300;           // Below this, comparing everything is cheap enough
+const MIN_CANDIDATES_FACTOR = 4;        // Fall back to a scan when buckets hold fewer than limit * this
+const HYPERPLANE_SEED = 0x5eed;         // Same planes every time, so results are stable
+
+export interface VectorNeighbor {
+  id: string;
+  similarity: number;                   // Cosine similarity
+}
+
+export interface VectorIndex {
+  ids: string[];
+  vectors: Float32Array[];              // Unit length, same order as ids
+  dimensions: number;
+  hyperplanes: Float32Array[][];        // [table][bit]
+  tables: Array<Map<number, number[]>>; // Bucket hash -> positions in ids
+}
+
+/**
+ * Deterministic pseudo-random numbers in [-1, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return (((value ^ (value >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+}
+
+/**
+ * Copy of a vector scaled to unit length (null for an all-zero vector)
+ */
+export function toUnitVector(vector: ArrayLike<number>): Float32Array | null {
+  let norm = 0;
+  for (let index = 0; index < vector.length; index++) {
+    norm += vector[index] * vector[index];
+  }
+  if (!norm) return null;
+
+  const scale = 1 / Math.sqrt(norm);
+  const unit = new Float32Array(vector.length);
+  for (let index = 0; index < vector.length; index++) {
+    unit[index] = vector[index] * scale;
+  }
+  return unit;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let index = 0; index < a.length; index++) {
+    sum += a[index] * b[index];
+  }
+  return sum;
+}
+
+function bucketOf(vector: Float32Array, planes: Float32Array[]): number {
+  return planes.reduce((hash, plane, bit) => (dot(vector, plane) >= 0 ? hash | (1 << bit) : hash), 0);
+}
+
+/**
+ * Index vectors by ID; vectors whose length differs from the most common
+ * one (another embedding model) are left out
+ */
+export function createVectorIndex(entries: Array<{ id: string; vector: ArrayLike<number> }>): VectorIndex {
+  const lengths = new Map<number, number>();
+  entries.forEach(entry => lengths.set(entry.vector.length, (lengths.get(entry.vector.length) ?? 0) + 1));
+  const dimensions = [...lengths.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const ids: string[] = [];
+  const vectors: Float32Array[] = [];
+  entries.forEach(entry => {
+    const unit = entry.vector.length === dimensions ? toUnitVector(entry.vector) : null;
+    if (unit) {
+      ids.push(entry.id);
+      vectors.push(unit);
+    }
+  });
+
+  const random = createRandom(HYPERPLANE_SEED);
+  const hashed = vectors.length > EXACT_SCAN_LIMIT;
+  const hyperplanes = hashed
+    ? Array.from({ length: HASH_TABLES }, () =>
+        Array.from({ length: HASH_BITS }, () => Float32Array.from({ length: dimensions }, random))
+      )
+    : [];
+  const tables = hyperplanes.map(planes => {
+    const table = new Map<number, number[]>();
+    vectors.forEach((vector, position) => {
+      const bucket = bucketOf(vector, planes);
+      const positions = table.get(bucket);
+      if (positions) {
+        positions.push(position);
+      } else {
+        table.set(bucket, [position]);
+      }
+    });
+    return table;
+  });
+
+  return { ids, vectors, dimensions, hyperplanes, tables };
+}
+
+/**
+ * Nearest indexed vectors to `vector`, most similar first
+ *
+ * @param exclude - IDs never returned (e.g. the dump being compared)
+ */
+export function queryVectorIndex(
+  index: VectorIndex,
+  vector: ArrayLike<number>,
+  limit: number,
+  minSimilarity: number,
+  exclude: Set<string> = new Set()
+): VectorNeighbor[] {
+  const query = vector.length === index.dimensions ? toUnitVector(vector) : null;
+  if (!query) return [];
+
+  let candidates: Iterable<number> = index.vectors.keys();
+  if (index.tables.length > 0) {
+    const positions = new Set<number>();
+    index.tables.forEach((table, tableIndex) => {
+      table.get(bucketOf(query, index.hyperplanes[tableIndex]))?.forEach(position => positions.add(position));
+    });
+    if (positions.size >= limit * MIN_CANDIDATES_FACTOR) {
+      candidates = positions;
+    }
+  }
+
+  const neighbors: VectorNeighbor[] = [];
+  for (const position of candidates) {
+    const id = index.ids[position];
+    if (exclude.has(id)) continue;
+    const similarity = dot(query, index.vectors[position]);
+    if (similarity >= minSimilarity) {
+      neighbors.push({ id, similarity });
+    }
+  }
+  return neighbors.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+/**
+ * Mean direction of several vectors (the query for "more like these")
+ */
+export function centroid(vectors: ArrayLike<number>[]): Float32Array | null {
+  const units = vectors.map(toUnitVector).filter((unit): unit is Float32Array => !!unit);
+  if (units.length === 0 || units.some(unit => unit.length !== units[0].length)) return null;
+
+  const sum = new Float32Array(units[0].length);
+  units.forEach(unit => unit.forEach((value, index) => (sum[index] += value)));
+  return toUnitVector(sum);
+}